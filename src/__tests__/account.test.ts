@@ -0,0 +1,335 @@
+import { Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { AuthRequest } from '../api/middleware/auth';
+import {
+  changePassword,
+  deleteAccount,
+  exportAccountData,
+  updateAccount
+} from '../api/controllers/accountController';
+import { getMailer, MemoryMailer } from '../infrastructure/mail/mailer';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: { secret: 'test-secret', expiresIn: '15m', refreshTokenTtlDays: 30 },
+    mfa: { freshnessMinutes: 10 },
+    passwordPolicy: { minLength: 8, checkBreached: true, breachedListFile: '' },
+    oidc: { issuer: '', enforcedDomains: [] },
+    authThrottle: { accountMaxFailures: 10, ipMaxFailures: 100, lockoutMinutes: 15 },
+    mail: { transport: 'memory', from: 'Keep Safe <no-reply@example.com>', appUrl: 'https://keep-safe.test' }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    authThrottle: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    accountToken: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    organization: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    },
+    organizationMember: {
+      findMany: jest.fn(),
+    },
+    teamMember: {
+      findMany: jest.fn(),
+    },
+    userIdentity: {
+      findMany: jest.fn(),
+    },
+    project: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    projectMember: {
+      updateMany: jest.fn(),
+    },
+    teamGrant: {
+      deleteMany: jest.fn(),
+    },
+    auditLog: {
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+const PASSWORD_HASH = bcrypt.hashSync('old-password', 4);
+
+describe('Account', () => {
+  let mockResponse: Partial<Response>;
+  const outbox = (getMailer() as MemoryMailer).outbox;
+  const user = {
+    id: 'user-1',
+    email: 'test@example.com',
+    name: 'Test',
+    password: PASSWORD_HASH,
+    emailVerifiedAt: new Date(),
+    totpEnabledAt: null
+  };
+
+  const request = (body: Record<string, unknown>) => ({
+    user: { userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' },
+    body,
+    ip: '10.0.0.1'
+  } as unknown as AuthRequest);
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+    };
+    jest.clearAllMocks();
+    outbox.length = 0;
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+    (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.authThrottle.upsert as jest.Mock).mockResolvedValue({ failures: 1 });
+    (prisma.accountToken.create as jest.Mock).mockResolvedValue({ id: 'token-1' });
+    (prisma.organization.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ id: 'personal-1', projects: [] });
+  });
+
+  describe('changePassword', () => {
+    it('should set the new password and sign out every other session', async () => {
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+      await changePassword(request({ currentPassword: 'old-password', newPassword: 'new-password' }), mockResponse as Response);
+
+      const { data } = (prisma.user.update as jest.Mock).mock.calls[0][0];
+      expect(await bcrypt.compare('new-password', data.password)).toBe(true);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', id: { not: 'session-1' }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'password_change' }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ revokedSessions: 2 }));
+    });
+
+    it('should refuse a wrong current password and count the failure', async () => {
+      await changePassword(request({ currentPassword: 'wrong-password', newPassword: 'new-password' }), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(prisma.authThrottle.upsert).toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAccount', () => {
+    it('should change the name without the password', async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({ ...user, name: 'New' });
+
+      await updateAccount(request({ name: '  New ' }), mockResponse as Response);
+
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({ data: { name: 'New' } }));
+      expect(outbox).toHaveLength(0);
+    });
+
+    it('should require the password for a new email and verify it again', async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({ ...user, email: 'new@example.com', emailVerifiedAt: null });
+
+      await updateAccount(request({ email: 'new@example.com' }), mockResponse as Response);
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+
+      await updateAccount(request({ email: 'new@example.com', currentPassword: 'old-password' }), mockResponse as Response);
+
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { email: 'new@example.com', emailVerifiedAt: null }
+      }));
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].to).toBe('new@example.com');
+    });
+
+    it('should refuse an email another account uses', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(user).mockResolvedValueOnce({ id: 'user-2' });
+
+      await updateAccount(request({ email: 'taken@example.com', currentPassword: 'old-password' }), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    const confirmed = (body: Record<string, unknown> = {}) =>
+      request({ password: 'old-password', confirm: 'test@example.com', ...body });
+
+    it('should require the email as confirmation', async () => {
+      await deleteAccount(request({ password: 'old-password', confirm: 'yes' }), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should require a recent second factor when two-factor authentication is on', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...user, totpEnabledAt: new Date() });
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ mfaVerifiedAt: null });
+
+      await deleteAccount(confirmed(), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse while the user is the only owner of an organization', async () => {
+      (prisma.organization.findMany as jest.Mock).mockResolvedValue([
+        { id: 'org-1', name: 'Acme', members: [{ userId: 'user-1' }] },
+        { id: 'org-2', name: 'Shared', members: [{ userId: 'user-1' }, { userId: 'user-2' }] }
+      ]);
+
+      await deleteAccount(confirmed(), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Add another owner to these organizations or delete them first',
+        organizations: [{ id: 'org-1', name: 'Acme' }]
+      });
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should ask what to do with owned projects', async () => {
+      (prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+        id: 'personal-1',
+        projects: [{ id: 'project-1', name: 'API', members: [] }]
+      });
+
+      await deleteAccount(confirmed(), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Choose whether to transfer or delete the projects you own',
+        projects: [{ id: 'project-1', name: 'API' }]
+      });
+    });
+
+    it('should transfer owned projects to their highest-ranked member', async () => {
+      (prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+        id: 'personal-1',
+        projects: [{
+          id: 'project-1',
+          name: 'API',
+          members: [{ userId: 'user-2', role: 'reader' }, { userId: 'user-3', role: 'admin' }]
+        }]
+      });
+      (prisma.organization.upsert as jest.Mock).mockResolvedValue({ id: 'personal-3' });
+
+      await deleteAccount(confirmed({ ownedProjects: 'transfer' }), mockResponse as Response);
+
+      expect(prisma.projectMember.updateMany).toHaveBeenCalledWith({
+        where: { projectId: 'project-1', userId: 'user-3' },
+        data: { role: 'owner' }
+      });
+      expect(prisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'project-1' },
+        data: { organizationId: 'personal-3' }
+      });
+      expect(prisma.organization.delete).toHaveBeenCalledWith({ where: { id: 'personal-1' } });
+      expect(prisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+    });
+
+    it('should not transfer projects nobody else is a member of', async () => {
+      (prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+        id: 'personal-1',
+        projects: [{ id: 'project-1', name: 'API', members: [] }]
+      });
+
+      await deleteAccount(confirmed({ ownedProjects: 'transfer' }), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete owned projects when asked, but move those someone else owns', async () => {
+      (prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+        id: 'personal-1',
+        projects: [
+          { id: 'project-1', name: 'API', members: [{ userId: 'user-2', role: 'writer' }] },
+          { id: 'project-2', name: 'Web', members: [{ userId: 'user-3', role: 'owner' }] }
+        ]
+      });
+      (prisma.organization.upsert as jest.Mock).mockResolvedValue({ id: 'personal-3' });
+
+      await deleteAccount(confirmed({ ownedProjects: 'delete' }), mockResponse as Response);
+
+      expect(prisma.project.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['project-1'] } } });
+      expect(prisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'project-2' },
+        data: { organizationId: 'personal-3' }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Account deleted successfully',
+        transferredProjects: [{ id: 'project-2', name: 'Web', newOwnerId: 'user-3' }],
+        deletedProjects: [{ id: 'project-1', name: 'API' }]
+      });
+    });
+  });
+
+  describe('exportAccountData', () => {
+    it('should export secret metadata without values as a download', async () => {
+      (prisma.session.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.organizationMember.findMany as jest.Mock).mockResolvedValue([
+        { role: 'owner', createdAt: new Date(), organization: { id: 'personal-1', name: 'Personal', personalUserId: 'user-1' } }
+      ]);
+      (prisma.teamMember.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.userIdentity.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.project.findMany as jest.Mock).mockResolvedValue([{
+        id: 'project-1',
+        name: 'API',
+        organizationId: 'personal-1',
+        members: [{ role: 'owner' }],
+        teamGrants: [],
+        organization: { members: [] },
+        environments: [{ name: 'development' }],
+        secrets: [{ key: 'API_KEY', version: 3, environment: { name: 'development' } }]
+      }]);
+
+      await exportAccountData(request({}), mockResponse as Response);
+
+      const { select } = (prisma.project.findMany as jest.Mock).mock.calls[0][0].include.secrets;
+      expect(select.value).toBeUndefined();
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="keep-safe-account.json"');
+      const exported = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(exported.user).toMatchObject({ id: 'user-1', totpEnabled: false });
+      expect(exported.organizations).toEqual([expect.objectContaining({ id: 'personal-1', personal: true, role: 'owner' })]);
+      expect(exported.projects[0]).toMatchObject({
+        role: 'owner',
+        environments: ['development'],
+        secrets: [{ key: 'API_KEY', version: 3, environment: 'development' }]
+      });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { consumeAccountToken, issueAccountToken } from '../api/services/accountTokens';
+import { forgotPassword, resetPassword, verifyEmail } from '../api/controllers/authController';
+import { getMailer, MemoryMailer } from '../infrastructure/mail/mailer';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: { secret: 'test-secret', expiresIn: '15m', refreshTokenTtlDays: 30 },
+    passwordPolicy: { minLength: 8, checkBreached: true, breachedListFile: '' },
+    oidc: { issuer: '', enforcedDomains: [] },
+    mail: { transport: 'memory', from: 'Keep Safe <no-reply@example.com>', appUrl: 'https://keep-safe.test' }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    accountToken: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    session: {
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+const user = { id: 'user-1', email: 'test@example.com', name: 'Test' };
+
+function tokenFromLink(text: string): string {
+  const match = text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match ? match[1] : '');
+}
+
+describe('Account tokens', () => {
+  let mockResponse: Partial<Response>;
+  const outbox = (getMailer() as MemoryMailer).outbox;
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    outbox.length = 0;
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.accountToken.create as jest.Mock).mockResolvedValue({ id: 'token-1' });
+  });
+
+  describe('issueAccountToken', () => {
+    it('should sign the token with the id of its row and retire earlier ones', async () => {
+      const token = await issueAccountToken('password_reset', { userId: 'user-1', email: 'test@example.com' });
+
+      expect(prisma.accountToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', purpose: 'password_reset', usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+      expect(jwt.verify(token, 'test-secret')).toMatchObject({
+        jti: 'token-1',
+        userId: 'user-1',
+        purpose: 'password_reset'
+      });
+    });
+  });
+
+  describe('consumeAccountToken', () => {
+    it('should spend a token once', async () => {
+      const token = await issueAccountToken('email_verification', { userId: 'user-1', email: 'test@example.com' });
+      (prisma.accountToken.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      await expect(consumeAccountToken(token, 'email_verification')).resolves.toEqual({
+        userId: 'user-1',
+        email: 'test@example.com'
+      });
+      await expect(consumeAccountToken(token, 'email_verification')).resolves.toBeNull();
+      expect(prisma.accountToken.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          id: 'token-1',
+          userId: 'user-1',
+          purpose: 'email_verification',
+          usedAt: null,
+          expiresAt: { gt: expect.any(Date) }
+        },
+        data: { usedAt: expect.any(Date) }
+      });
+    });
+
+    it('should not accept a token issued for another purpose', async () => {
+      const token = await issueAccountToken('email_verification', { userId: 'user-1', email: 'test@example.com' });
+      (prisma.accountToken.updateMany as jest.Mock).mockClear();
+
+      await expect(consumeAccountToken(token, 'password_reset')).resolves.toBeNull();
+      expect(prisma.accountToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not accept tokens with a bad signature', async () => {
+      const forged = jwt.sign({ userId: 'user-1', email: 'test@example.com', purpose: 'password_reset' }, 'wrong', { jwtid: 'token-1' });
+
+      await expect(consumeAccountToken(forged, 'password_reset')).resolves.toBeNull();
+    });
+  });
+
+  describe('password reset', () => {
+    it('should email a reset link to existing users', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      await forgotPassword({ body: { email: 'test@example.com' } } as Request, mockResponse as Response);
+
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].to).toBe('test@example.com');
+      expect(outbox[0].text).toContain('https://keep-safe.test/reset-password?token=');
+    });
+
+    it('should answer the same for unknown emails', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await forgotPassword({ body: { email: 'nobody@example.com' } } as Request, mockResponse as Response);
+
+      expect(outbox).toHaveLength(0);
+      expect(mockResponse.status).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'If an account exists for this email, a password reset link has been sent'
+      });
+    });
+
+    it('should set the new password and revoke all sessions', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+      await forgotPassword({ body: { email: 'test@example.com' } } as Request, mockResponse as Response);
+      (prisma.accountToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 3 });
+      const token = tokenFromLink(outbox[0].text);
+
+      await resetPassword({ body: { token, password: 'new-password' } } as Request, mockResponse as Response);
+
+      const { data } = (prisma.user.updateMany as jest.Mock).mock.calls[0][0];
+      expect(await bcrypt.compare('new-password', data.password)).toBe(true);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'password_reset' }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Password reset successfully. Please log in again.' });
+    });
+
+    it('should refuse a used token', async () => {
+      const token = await issueAccountToken('password_reset', { userId: 'user-1', email: 'test@example.com' });
+      (prisma.accountToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await resetPassword({ body: { token, password: 'new-password' } } as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should only verify the address the link was sent to', async () => {
+      const token = await issueAccountToken('email_verification', { userId: 'user-1', email: 'old@example.com' });
+      (prisma.accountToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await verifyEmail({ body: { token } } as Request, mockResponse as Response);
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', email: 'old@example.com' },
+        data: { emailVerifiedAt: expect.any(Date) }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { AuthRequest } from '../api/middleware/auth';
+import { auditTrail } from '../api/middleware/audit';
+import { computeAuditHash, recordAudit, verifyAuditChain } from '../api/services/audit';
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    auditLog: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('Audit log', () => {
+  function request(overrides: Partial<AuthRequest> = {}): AuthRequest {
+    return {
+      user: { userId: 'user-1', email: 'test@example.com' },
+      headers: { 'user-agent': 'jest' },
+      ip: '127.0.0.1',
+      params: {},
+      ...overrides,
+    } as AuthRequest;
+  }
+
+  function chain(length: number) {
+    const entries = [];
+    let prevHash: string | null = null;
+    for (let sequence = 1; sequence <= length; sequence++) {
+      const fields = {
+        sequence,
+        createdAt: new Date(Date.UTC(2025, 9, sequence)),
+        action: 'secret.read',
+        outcome: 'success',
+        statusCode: 200,
+        projectId: 'project-1',
+        environment: null,
+        secretKey: 'API_KEY',
+        userId: 'user-1',
+        serviceTokenId: null,
+        ip: '127.0.0.1',
+        userAgent: 'jest',
+        metadata: { b: 1, a: 2 },
+        prevHash,
+      };
+      const hash = computeAuditHash(fields);
+      entries.push({ id: `entry-${sequence}`, ...fields, hash });
+      prevHash = hash;
+    }
+    return entries;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  });
+
+  describe('recordAudit', () => {
+    it('should chain a new entry to the previous one', async () => {
+      (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue({ sequence: 41, hash: 'previous-hash' });
+      const req = request();
+
+      await recordAudit(req, { action: 'secret.read', outcome: 'success', statusCode: 200, projectId: 'project-1' });
+
+      expect(prisma.$executeRaw).toHaveBeenCalled();
+      const data = (prisma.auditLog.create as jest.Mock).mock.calls[0][0].data;
+      expect(data).toMatchObject({
+        sequence: 42,
+        prevHash: 'previous-hash',
+        action: 'secret.read',
+        userId: 'user-1',
+        ip: '127.0.0.1',
+        userAgent: 'jest'
+      });
+      expect(data.hash).toBe(computeAuditHash({ ...data, metadata: null }));
+      expect(req.audit?.recorded).toBe(true);
+    });
+
+    it('should attribute entries to service tokens', async () => {
+      (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue(null);
+      const req = request({
+        user: undefined,
+        serviceToken: { id: 'token-1', projectId: 'project-1', environmentId: null, permission: 'read', canExport: false },
+      });
+
+      await recordAudit(req, { action: 'secret.list', outcome: 'success' });
+
+      const data = (prisma.auditLog.create as jest.Mock).mock.calls[0][0].data;
+      expect(data).toMatchObject({ sequence: 1, prevHash: null, userId: null, serviceTokenId: 'token-1' });
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    it('should accept an intact chain', async () => {
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(chain(3));
+
+      await expect(verifyAuditChain()).resolves.toEqual({ valid: true, checked: 3 });
+    });
+
+    it('should detect an edited entry', async () => {
+      const entries = chain(3);
+      entries[1].secretKey = 'OTHER_KEY';
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(entries);
+
+      await expect(verifyAuditChain()).resolves.toEqual({
+        valid: false,
+        checked: 1,
+        brokenAt: { sequence: 2, id: 'entry-2', reason: 'Entry contents do not match its hash' }
+      });
+    });
+
+    it('should detect a removed entry', async () => {
+      const entries = chain(3);
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue([entries[0], entries[2]]);
+
+      await expect(verifyAuditChain()).resolves.toMatchObject({
+        valid: false,
+        brokenAt: { sequence: 3, reason: 'Entry 2 is missing' }
+      });
+    });
+
+    it('should treat an entry without a sequence number as a broken chain', async () => {
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(chain(2));
+      (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue({ id: 'entry-legacy' });
+
+      await expect(verifyAuditChain()).resolves.toEqual({
+        valid: false,
+        checked: 2,
+        brokenAt: { sequence: 3, id: 'entry-legacy', reason: 'Entry has no sequence number' }
+      });
+      expect(prisma.auditLog.findMany).toHaveBeenCalledWith({
+        where: { sequence: { gte: 1 } },
+        orderBy: { sequence: 'asc' },
+        take: expect.any(Number)
+      });
+      expect(prisma.auditLog.findFirst).toHaveBeenCalledWith({
+        where: { sequence: null },
+        select: { id: true }
+      });
+    });
+  });
+
+  describe('auditTrail', () => {
+    function response(statusCode: number) {
+      const res = new EventEmitter() as EventEmitter & { statusCode: number };
+      res.statusCode = statusCode;
+      return res;
+    }
+
+    it('should record the outcome once the response is sent', async () => {
+      (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue(null);
+      const req = request({ params: { id: 'project-1', environment: 'production' } });
+      const res = response(403);
+      const next = jest.fn();
+
+      auditTrail('secret.read')(req, res as unknown as Response, next);
+      expect(next).toHaveBeenCalled();
+      expect(prisma.auditLog.create).not.toHaveBeenCalled();
+
+      req.audit = { secretKey: 'API_KEY' };
+      res.emit('finish');
+      await new Promise(process.nextTick);
+
+      expect((prisma.auditLog.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        action: 'secret.read',
+        outcome: 'denied',
+        statusCode: 403,
+        projectId: 'project-1',
+        environment: 'production',
+        secretKey: 'API_KEY'
+      });
+    });
+
+    it('should not record requests twice', async () => {
+      const req = request();
+      const res = response(200);
+
+      auditTrail('secret.export')(req, res as unknown as Response, jest.fn());
+      req.audit = { recorded: true };
+      res.emit('finish');
+      await new Promise(process.nextTick);
+
+      expect(prisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+});
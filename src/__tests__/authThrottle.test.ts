@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { accountThrottle, getRetryAfter, ipThrottle, recordFailure } from '../api/services/authThrottle';
+import { checkPasswordPolicy } from '../api/services/passwordPolicy';
+import { login, signup } from '../api/controllers/authController';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: { secret: 'test-secret', expiresIn: '15m', refreshTokenTtlDays: 30 },
+    passwordPolicy: { minLength: 8, checkBreached: true, breachedListFile: '' },
+    oidc: { issuer: '', enforcedDomains: [] },
+    authThrottle: { accountMaxFailures: 10, ipMaxFailures: 100, lockoutMinutes: 15 }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    authThrottle: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('Brute-force protection', () => {
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+    };
+    jest.clearAllMocks();
+    (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.authThrottle.upsert as jest.Mock).mockResolvedValue({ failures: 1 });
+  });
+
+  describe('getRetryAfter', () => {
+    it('should let the first failures through without delay', async () => {
+      (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([
+        { key: 'account:test@example.com', failures: 2, lastFailureAt: new Date(), lockedUntil: null }
+      ]);
+
+      await expect(getRetryAfter([accountThrottle('Test@Example.com')])).resolves.toBe(0);
+    });
+
+    it('should double the delay with every further failure', async () => {
+      (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([
+        { key: 'account:test@example.com', failures: 6, lastFailureAt: new Date(), lockedUntil: null }
+      ]);
+
+      await expect(getRetryAfter([accountThrottle('test@example.com')])).resolves.toBe(8);
+    });
+
+    it('should not delay attempts from an address, only lock it out', async () => {
+      const lockedUntil = new Date(Date.now() + 60 * 1000);
+      (prisma.authThrottle.findMany as jest.Mock).mockResolvedValueOnce([
+        { key: 'ip:10.0.0.1', failures: 50, lastFailureAt: new Date(), lockedUntil: null }
+      ]).mockResolvedValueOnce([
+        { key: 'ip:10.0.0.1', failures: 100, lastFailureAt: new Date(), lockedUntil }
+      ]);
+
+      await expect(getRetryAfter([ipThrottle('10.0.0.1')])).resolves.toBe(0);
+      await expect(getRetryAfter([ipThrottle('10.0.0.1')])).resolves.toBe(60);
+    });
+
+    it('should forget old failures', async () => {
+      (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([
+        { key: 'account:test@example.com', failures: 9, lastFailureAt: new Date(Date.now() - 16 * 60 * 1000), lockedUntil: null }
+      ]);
+
+      await expect(getRetryAfter([accountThrottle('test@example.com')])).resolves.toBe(0);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should lock the account once the limit is reached', async () => {
+      (prisma.authThrottle.upsert as jest.Mock).mockResolvedValue({ failures: 10 });
+
+      await recordFailure([accountThrottle('test@example.com')]);
+
+      expect(prisma.authThrottle.upsert).toHaveBeenCalledWith({
+        where: { key: 'account:test@example.com' },
+        create: { key: 'account:test@example.com', failures: 1, lastFailureAt: expect.any(Date) },
+        update: { failures: { increment: 1 }, lastFailureAt: expect.any(Date) }
+      });
+      const { lockedUntil } = (prisma.authThrottle.update as jest.Mock).mock.calls[0][0].data;
+      expect(lockedUntil.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+    });
+  });
+
+  describe('login', () => {
+    const request = (email: string, password: string) => ({ body: { email, password }, headers: {}, ip: '10.0.0.1' } as unknown as Request);
+
+    it('should refuse attempts while throttled without checking the password', async () => {
+      (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([
+        { key: 'account:test@example.com', failures: 10, lastFailureAt: new Date(), lockedUntil: new Date(Date.now() + 60 * 1000) }
+      ]);
+
+      await login(request('test@example.com', 'password'), mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '60');
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should treat unknown emails like wrong passwords', async () => {
+      const compare = jest.spyOn(bcrypt, 'compare');
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await login(request('nobody@example.com', 'password'), mockResponse as Response);
+
+      expect(compare).toHaveBeenCalledWith('password', expect.stringMatching(/^\$2[aby]\$10\$/));
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invalid credentials' });
+      expect(prisma.authThrottle.upsert).toHaveBeenCalledTimes(2);
+      compare.mockRestore();
+    });
+  });
+
+  describe('password policy', () => {
+    it('should enforce the minimum length', () => {
+      expect(checkPasswordPolicy('short')).toBe('Password must be at least 8 characters');
+      expect(checkPasswordPolicy(undefined)).toBe('Password must be at least 8 characters');
+    });
+
+    it('should refuse breached passwords regardless of case', () => {
+      expect(checkPasswordPolicy('Password123')).toMatch(/breached/);
+      expect(checkPasswordPolicy('correct horse battery staple')).toBeNull();
+    });
+
+    it('should refuse the email and passwords bcrypt would truncate', () => {
+      expect(checkPasswordPolicy('test@example.com', 'Test@example.com')).toMatch(/email/);
+      expect(checkPasswordPolicy('a'.repeat(73))).toMatch(/at most 72 bytes/);
+    });
+
+    it('should be applied at signup', async () => {
+      const req = { body: { email: 'new@example.com', password: '' }, headers: {} } as Request;
+
+      await signup(req, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+});
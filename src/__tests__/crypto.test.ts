@@ -140,6 +140,32 @@ describe('CryptoService', () => {
     });
   });
 
+  describe('Key Wrapping', () => {
+    it('should wrap and unwrap a data key', () => {
+      const dataKey = service.generateKey();
+      const wrapped = service.wrapKey(dataKey, testKey);
+
+      expect(wrapped.encryptedValue).not.toBe(dataKey);
+      expect(service.unwrapKey(wrapped, testKey)).toBe(dataKey);
+    });
+
+    it('should encrypt with an unwrapped data key', () => {
+      const dataKey = service.generateKey();
+      const unwrapped = service.unwrapKey(service.wrapKey(dataKey, testKey), testKey);
+
+      const encrypted = service.encrypt(testValue, unwrapped);
+      expect(service.decrypt(encrypted, dataKey).value).toBe(testValue);
+    });
+
+    it('should refuse to unwrap with the wrong master key', () => {
+      const wrapped = service.wrapKey(service.generateKey(), testKey);
+
+      expect(() => {
+        service.unwrapKey(wrapped, 'wrong-key');
+      }).toThrow('Failed to unwrap data key');
+    });
+  });
+
   describe('Singleton Instance', () => {
     it('should export a singleton instance', () => {
       expect(cryptoService).toBeInstanceOf(CryptoService);
@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import {
+  getEnvironments,
+  createEnvironment,
+  deleteEnvironment,
+  diffEnvironments
+} from '../api/controllers/environmentController';
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    project: {
+      findFirst: jest.fn(),
+    },
+    environment: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+    secret: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}));
+
+// Values are "encrypted" as plain text so the diff can be followed
+jest.mock('../infrastructure/crypto/projectKeys', () => ({
+  __esModule: true,
+  decryptForProject: jest.fn(async (_projectId: string, value: string) => value)
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('Environment Controller', () => {
+  let mockRequest: Partial<Request & { user?: { userId: string; email: string } }>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockRequest = {
+      user: { userId: 'test-user-id', email: 'test@example.com' },
+      body: {},
+      params: { id: 'project-1' },
+      query: {},
+    };
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+  });
+
+  describe('getEnvironments', () => {
+    it('should list the project environments', async () => {
+      const environments = [{ id: 'env-1', name: 'development', isDefault: true }];
+      (prisma.environment.findMany as jest.Mock).mockResolvedValue(environments);
+
+      await getEnvironments(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.environment.findMany as jest.Mock).mock.calls[0][0].where).toEqual({ projectId: 'project-1' });
+      expect(mockResponse.json).toHaveBeenCalledWith({ environments });
+    });
+  });
+
+  describe('createEnvironment', () => {
+    it('should create an environment', async () => {
+      const environment = { id: 'env-4', name: 'qa', isDefault: false };
+      mockRequest.body = { name: 'qa' };
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.environment.create as jest.Mock).mockResolvedValue(environment);
+
+      await createEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.environment.create as jest.Mock).mock.calls[0][0].data).toEqual({ name: 'qa', projectId: 'project-1' });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Environment created successfully', environment });
+    });
+
+    it('should return 400 for an invalid name', async () => {
+      mockRequest.body = { name: 'Not Valid' };
+
+      await createEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 409 if the environment exists', async () => {
+      mockRequest.body = { name: 'staging' };
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-2' });
+
+      await createEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Environment already exists in this project' });
+    });
+  });
+
+  describe('deleteEnvironment', () => {
+    it('should delete a non-default environment', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'staging' };
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-2', isDefault: false });
+      (prisma.secret.count as jest.Mock).mockResolvedValue(0);
+
+      await deleteEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secret.count).toHaveBeenCalledWith({ where: { environmentId: 'env-2' } });
+      expect(prisma.environment.delete).toHaveBeenCalledWith({ where: { id: 'env-2' } });
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Environment deleted successfully' });
+    });
+
+    it('should refuse while the environment has live or trashed secrets', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'staging' };
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-2', isDefault: false });
+      (prisma.secret.count as jest.Mock).mockResolvedValue(2);
+
+      await deleteEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(prisma.environment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should only let the owner delete environments', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'staging' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'admin' }] });
+
+      await deleteEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.environment.findFirst).not.toHaveBeenCalled();
+      expect(prisma.environment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete the default environment', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'development' };
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-1', isDefault: true });
+
+      await deleteEnvironment(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.environment.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffEnvironments', () => {
+    it('should report missing and differing keys without values', async () => {
+      mockRequest.query = { from: 'staging', to: 'production' };
+      (prisma.environment.findMany as jest.Mock).mockResolvedValue([
+        { id: 'env-staging', name: 'staging' },
+        { id: 'env-prod', name: 'production' }
+      ]);
+      (prisma.secret.findMany as jest.Mock).mockImplementation(async ({ where }) =>
+        where.environmentId === 'env-staging'
+          ? [
+              { key: 'API_URL', value: 'https://staging' },
+              { key: 'LOG_LEVEL', value: 'debug' },
+              { key: 'DEBUG_TOKEN', value: 'abc' }
+            ]
+          : [
+              { key: 'API_URL', value: 'https://prod' },
+              { key: 'LOG_LEVEL', value: 'debug' },
+              { key: 'SENTRY_DSN', value: 'dsn' }
+            ]
+      );
+
+      await diffEnvironments(mockRequest as Request, mockResponse as Response);
+
+      const result = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(result).toEqual({
+        from: 'staging',
+        to: 'production',
+        missingInTarget: ['DEBUG_TOKEN'],
+        missingInSource: ['SENTRY_DSN'],
+        differing: ['API_URL'],
+        identical: ['LOG_LEVEL']
+      });
+      expect(JSON.stringify(result)).not.toContain('https://');
+    });
+
+    it('should return 400 without both environments', async () => {
+      mockRequest.query = { from: 'staging' };
+
+      await diffEnvironments(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 404 for an unknown environment', async () => {
+      mockRequest.query = { from: 'staging', to: 'qa' };
+      (prisma.environment.findMany as jest.Mock).mockResolvedValue([{ id: 'env-staging', name: 'staging' }]);
+
+      await diffEnvironments(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Environment not found' });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CryptoService } from '../infrastructure/crypto/crypto';
+import { MasterKeyring } from '../infrastructure/crypto/keyring';
+import { createKeyProvider, KmsKeyProvider, LocalKeyProvider } from '../infrastructure/crypto/keyProvider';
+import { createLocalKmsApp, loadOrCreateKmsKeyring } from '../infrastructure/crypto/localKms';
+
+// The provider module reads its settings from config
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: { encryption: { provider: 'env', keyFile: '', kms: { url: '', keyId: '' } } },
+}));
+
+describe('Key providers', () => {
+  const crypto = new CryptoService();
+  const dataKey = crypto.generateKey();
+
+  describe('LocalKeyProvider', () => {
+    it('should wrap and unwrap data keys', async () => {
+      const provider = new LocalKeyProvider('env', new MasterKeyring([{ id: 'k1', key: 'first' }], 'k1'));
+
+      const { keyId, wrappedKey } = await provider.wrapKey(dataKey);
+
+      expect(keyId).toBe('k1');
+      await expect(provider.unwrapKey(wrappedKey, keyId)).resolves.toBe(dataKey);
+    });
+
+    it('should use the stored master key id for payloads without one', async () => {
+      const provider = new LocalKeyProvider('env', new MasterKeyring([{ id: 'k1', key: 'first' }], 'k1'));
+      const wrappedKey = JSON.stringify(crypto.wrapKey(dataKey, 'first'));
+
+      await expect(provider.unwrapKey(wrappedKey, 'k1')).resolves.toBe(dataKey);
+    });
+  });
+
+  describe('createKeyProvider', () => {
+    it('should load keys from a keyfile', async () => {
+      const path = join(mkdtempSync(join(tmpdir(), 'keep-safe-')), 'keys.json');
+      writeFileSync(path, JSON.stringify({ activeKeyId: 'file-1', keys: { 'file-1': crypto.generateKey() } }));
+
+      const provider = createKeyProvider({ provider: 'file', keyFile: path, kms: { url: '', keyId: '' } });
+
+      expect(provider.name).toBe('file');
+      expect(provider.activeKeyId).toBe('file-1');
+    });
+
+    it('should fail on a missing keyfile', () => {
+      expect(() => createKeyProvider({ provider: 'file', keyFile: '/nonexistent/keys.json', kms: { url: '', keyId: '' } }))
+        .toThrow('Failed to read encryption keyfile');
+    });
+  });
+
+  describe('KmsKeyProvider against the local KMS', () => {
+    let server: Server;
+    let url: string;
+    let keyring: MasterKeyring;
+
+    beforeAll((done) => {
+      keyring = loadOrCreateKmsKeyring(join(mkdtempSync(join(tmpdir(), 'keep-safe-kms-')), 'keys.json'));
+      server = createLocalKmsApp(keyring, 'kms-token').listen(0, () => {
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.close(done);
+    });
+
+    it('should round-trip a data key through the KMS', async () => {
+      const provider = new KmsKeyProvider(url, keyring.activeKeyId, 'kms-token');
+
+      const { keyId, wrappedKey } = await provider.wrapKey(dataKey);
+
+      expect(keyId).toBe(keyring.activeKeyId);
+      expect(wrappedKey).not.toContain(dataKey);
+      await expect(provider.unwrapKey(wrappedKey, keyId)).resolves.toBe(dataKey);
+    });
+
+    it('should reject requests without the KMS token', async () => {
+      const provider = new KmsKeyProvider(url, keyring.activeKeyId);
+
+      await expect(provider.wrapKey(dataKey)).rejects.toThrow('KMS encrypt failed with status 401');
+    });
+
+    it('should reject unknown keys', async () => {
+      const provider = new KmsKeyProvider(url, 'missing-key', 'kms-token');
+
+      await expect(provider.wrapKey(dataKey)).rejects.toThrow('KMS encrypt failed with status 404');
+    });
+
+    it('should not decrypt legacy master key payloads', async () => {
+      const provider = new KmsKeyProvider(url, keyring.activeKeyId, 'kms-token');
+
+      await expect(provider.decryptLegacy()).rejects.toThrow('must be migrated');
+    });
+  });
+});
+
+describe('Encryption config', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DATABASE_URL: 'postgresql://localhost/test',
+      JWT_SECRET: 'test-secret',
+    };
+    delete process.env.ENCRYPTION_KEY;
+    delete process.env.ENCRYPTION_KEYS;
+    delete process.env.KEY_PROVIDER;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  function loadConfig() {
+    let loaded: unknown;
+    jest.isolateModules(() => {
+      loaded = jest.requireActual('../infrastructure/config').default;
+    });
+    return loaded as { encryption: { provider: string } };
+  }
+
+  it('should refuse the development key in production', () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(loadConfig).toThrow('Refusing to start in production');
+  });
+
+  it('should accept a configured key in production', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.ENCRYPTION_KEY = 'production-key';
+
+    expect(loadConfig().encryption.provider).toBe('env');
+  });
+
+  it('should require a keyfile for the file provider', () => {
+    process.env.KEY_PROVIDER = 'file';
+
+    expect(loadConfig).toThrow('Missing required environment variable: ENCRYPTION_KEY_FILE');
+  });
+
+  it('should reject unknown providers', () => {
+    process.env.KEY_PROVIDER = 'vault';
+
+    expect(loadConfig).toThrow('Invalid environment variable KEY_PROVIDER');
+  });
+});
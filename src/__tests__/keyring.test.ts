@@ -0,0 +1,92 @@
+import { CryptoService } from '../infrastructure/crypto/crypto';
+import { loadKeyringFromEnv, MasterKeyring, LEGACY_KEY_ID } from '../infrastructure/crypto/keyring';
+
+describe('MasterKeyring', () => {
+  const crypto = new CryptoService();
+  const dataKey = crypto.generateKey();
+
+  describe('loadKeyringFromEnv', () => {
+    it('should fall back to ENCRYPTION_KEY as the default key', () => {
+      const keyring = loadKeyringFromEnv({ ENCRYPTION_KEY: 'legacy-key' });
+
+      expect(keyring.keyIds).toEqual([LEGACY_KEY_ID]);
+      expect(keyring.activeKeyId).toBe(LEGACY_KEY_ID);
+    });
+
+    it('should activate the last configured key by default', () => {
+      const keyring = loadKeyringFromEnv({
+        ENCRYPTION_KEY: 'legacy-key',
+        ENCRYPTION_KEYS: '2025:old-key, 2026:new-key'
+      });
+
+      expect(keyring.keyIds).toEqual(['2025', '2026', LEGACY_KEY_ID]);
+      expect(keyring.activeKeyId).toBe('2026');
+    });
+
+    it('should leave out the default key unless ENCRYPTION_KEY is set', () => {
+      const keyring = loadKeyringFromEnv({ ENCRYPTION_KEYS: '2025:old-key,2026:new-key' });
+
+      expect(keyring.keyIds).toEqual(['2025', '2026']);
+    });
+
+    it('should only use the development key outside production', () => {
+      expect(loadKeyringFromEnv({}).keyIds).toEqual([LEGACY_KEY_ID]);
+      expect(() => loadKeyringFromEnv({ NODE_ENV: 'production' })).toThrow('Refusing to use the development encryption key');
+      expect(() => loadKeyringFromEnv({
+        NODE_ENV: 'production',
+        ENCRYPTION_KEYS: '2026:new-key,default:default-key-for-development'
+      })).toThrow('Refusing to use the development encryption key');
+    });
+
+    it('should honour ENCRYPTION_ACTIVE_KEY_ID', () => {
+      const keyring = loadKeyringFromEnv({
+        ENCRYPTION_KEYS: '2025:old-key,2026:new-key',
+        ENCRYPTION_ACTIVE_KEY_ID: '2025'
+      });
+
+      expect(keyring.activeKeyId).toBe('2025');
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => loadKeyringFromEnv({ ENCRYPTION_KEYS: 'no-separator' })).toThrow('Invalid ENCRYPTION_KEYS entry');
+    });
+
+    it('should reject an unknown active key', () => {
+      expect(() => loadKeyringFromEnv({ ENCRYPTION_ACTIVE_KEY_ID: 'missing' })).toThrow('is not configured');
+    });
+  });
+
+  describe('wrap and unwrap', () => {
+    it('should record the active key id in wrapped payloads', () => {
+      const keyring = new MasterKeyring([{ id: 'k1', key: 'first' }], 'k1');
+      const wrapped = keyring.wrap(dataKey);
+
+      expect(wrapped.keyId).toBe('k1');
+      expect(keyring.unwrap(wrapped)).toBe(dataKey);
+    });
+
+    it('should unwrap payloads made with a previous key after rotation', () => {
+      const before = new MasterKeyring([{ id: 'k1', key: 'first' }], 'k1');
+      const wrapped = before.wrap(dataKey);
+
+      const after = new MasterKeyring([{ id: 'k1', key: 'first' }, { id: 'k2', key: 'second' }], 'k2');
+
+      expect(after.unwrap(wrapped)).toBe(dataKey);
+      expect(after.wrap(dataKey).keyId).toBe('k2');
+    });
+
+    it('should treat payloads without a key id as the default key', () => {
+      const wrapped = crypto.wrapKey(dataKey, 'legacy-key');
+      const keyring = new MasterKeyring([{ id: LEGACY_KEY_ID, key: 'legacy-key' }, { id: 'k2', key: 'second' }], 'k2');
+
+      expect(keyring.unwrap(wrapped)).toBe(dataKey);
+    });
+
+    it('should fail when the key has been removed', () => {
+      const wrapped = new MasterKeyring([{ id: 'k1', key: 'first' }], 'k1').wrap(dataKey);
+      const keyring = new MasterKeyring([{ id: 'k2', key: 'second' }], 'k2');
+
+      expect(() => keyring.unwrap(wrapped)).toThrow('Encryption key "k1" is not configured');
+    });
+  });
+});
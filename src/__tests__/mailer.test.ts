@@ -0,0 +1,143 @@
+import net from 'net';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createMailer, FileMailer, MemoryMailer, SmtpMailer } from '../infrastructure/mail/mailer';
+import { MailConfig } from '../infrastructure/config';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const FROM = 'Keep Safe <no-reply@example.com>';
+
+const settings: MailConfig = {
+  transport: 'memory',
+  from: FROM,
+  appUrl: 'http://localhost:3000',
+  outboxDir: '.outbox',
+  smtp: { host: '127.0.0.1', port: 0, secure: false }
+};
+
+/**
+ * Just enough of an SMTP server to record one conversation
+ */
+function startSmtpServer(): Promise<{ port: number; commands: string[]; data: string[]; close: () => void }> {
+  const commands: string[] = [];
+  const data: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) {
+          socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+        } else if (line.startsWith('AUTH')) {
+          socket.write('235 ok\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, commands, data, close: () => server.close() });
+    });
+  });
+}
+
+describe('Mailer', () => {
+  it('should pick the transport from the settings', () => {
+    expect(createMailer(settings).name).toBe('memory');
+    expect(createMailer({ ...settings, transport: 'file' }).name).toBe('file');
+    expect(createMailer({ ...settings, transport: 'smtp' }).name).toBe('smtp');
+  });
+
+  it('should keep messages in the memory outbox', async () => {
+    const mailer = new MemoryMailer(FROM);
+
+    await mailer.send({ to: 'user@example.com', subject: 'Hello', text: 'Hi' });
+
+    expect(mailer.outbox).toEqual([
+      expect.objectContaining({ to: 'user@example.com', subject: 'Hello', text: 'Hi', from: FROM })
+    ]);
+  });
+
+  it('should write messages to the file outbox', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'outbox-'));
+    try {
+      await new FileMailer(directory, FROM).send({ to: 'user@example.com', subject: 'Hello', text: 'Hi' });
+
+      const files = readdirSync(directory);
+      expect(files).toHaveLength(1);
+      expect(JSON.parse(readFileSync(join(directory, files[0]), 'utf8'))).toMatchObject({
+        to: 'user@example.com',
+        subject: 'Hello',
+        text: 'Hi'
+      });
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should deliver over SMTP', async () => {
+    const server = await startSmtpServer();
+    try {
+      const mailer = new SmtpMailer({ host: '127.0.0.1', port: server.port, secure: false, user: 'mailer', password: 'secret' }, FROM);
+
+      await mailer.send({ to: 'user@example.com', subject: 'Hello', text: 'Line one\n.starts with a dot' });
+
+      expect(server.commands).toEqual(expect.arrayContaining([
+        `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+        'MAIL FROM:<no-reply@example.com>',
+        'RCPT TO:<user@example.com>',
+        'DATA'
+      ]));
+      expect(server.data).toContain('Subject: Hello');
+      expect(server.data.slice(-2)).toEqual(['Line one', '..starts with a dot']);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should keep headers on one line', async () => {
+    const server = await startSmtpServer();
+    try {
+      const mailer = new SmtpMailer({ host: '127.0.0.1', port: server.port, secure: false }, FROM);
+
+      await mailer.send({ to: 'user@example.com', subject: 'Grüße\r\nBcc: x@example.com', text: 'Schöne Grüße' });
+
+      expect(server.data.some((line) => line.startsWith('Bcc:'))).toBe(false);
+      expect(server.commands).not.toContain('RCPT TO:<x@example.com>');
+    } finally {
+      server.close();
+    }
+  });
+});
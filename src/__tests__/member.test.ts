@@ -0,0 +1,303 @@
+import { Response } from 'express';
+import { createHash } from 'crypto';
+import { AuthRequest } from '../api/middleware/auth';
+import { checkProjectAccess, roleAllows, outranks } from '../api/services/projectAccess';
+import {
+  updateMemberRole,
+  removeMember,
+  transferOwnership,
+  createInvite,
+  acceptInvite
+} from '../api/controllers/memberController';
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    project: {
+      findFirst: jest.fn(),
+    },
+    projectMember: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    projectInvite: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+jest.mock('../api/services/webhooks', () => ({
+  __esModule: true,
+  queueWebhookDeliveries: jest.fn(),
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+import { queueWebhookDeliveries } from '../api/services/webhooks';
+
+function memberOf(role: string) {
+  (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role }] });
+}
+
+describe('Project Members', () => {
+  let mockRequest: AuthRequest;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockRequest = {
+      user: { userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-1' },
+      body: {},
+      params: {},
+    } as unknown as AuthRequest;
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  });
+
+  describe('roles', () => {
+    it('should grant each role its permissions', () => {
+      expect(roleAllows('metadata', 'metadata')).toBe(true);
+      expect(roleAllows('metadata', 'read')).toBe(false);
+      expect(roleAllows('reader', 'read')).toBe(true);
+      expect(roleAllows('reader', 'write')).toBe(false);
+      expect(roleAllows('writer', 'write')).toBe(true);
+      expect(roleAllows('writer', 'export')).toBe(false);
+      expect(roleAllows('admin', 'manage')).toBe(true);
+      expect(roleAllows('admin', 'own')).toBe(false);
+      expect(roleAllows('owner', 'own')).toBe(true);
+    });
+
+    it('should rank roles', () => {
+      expect(outranks('owner', 'admin')).toBe(true);
+      expect(outranks('admin', 'admin')).toBe(false);
+      expect(outranks('admin', 'writer')).toBe(true);
+    });
+
+    it('should keep secret values from metadata-only members', async () => {
+      memberOf('metadata');
+
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'read')).resolves.toEqual({
+        status: 403,
+        error: 'Your project role does not allow this action'
+      });
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'metadata')).resolves.toMatchObject({
+        role: 'metadata'
+      });
+    });
+
+    it('should hide projects the caller is not a member of', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'metadata')).resolves.toEqual({
+        status: 404,
+        error: 'Project not found'
+      });
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 'project-1', userId: 'user-2' };
+      (prisma.projectMember.findUnique as jest.Mock).mockResolvedValue({ id: 'member-2', userId: 'user-2', role: 'reader' });
+      (prisma.projectMember.update as jest.Mock).mockResolvedValue({ userId: 'user-2', role: 'writer' });
+    });
+
+    it('should let an admin promote a reader to writer', async () => {
+      memberOf('admin');
+      mockRequest.body = { role: 'writer' };
+
+      await updateMemberRole(mockRequest, mockResponse as Response);
+
+      expect(prisma.projectMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-2' },
+        data: { role: 'writer' },
+        select: { userId: true, role: true }
+      });
+    });
+
+    it('should not let an admin grant admin', async () => {
+      memberOf('admin');
+      mockRequest.body = { role: 'admin' };
+
+      await updateMemberRole(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.projectMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let anyone manage a member with an unknown role', async () => {
+      memberOf('owner');
+      (prisma.projectMember.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'member-2', userId: 'user-2', role: 'auditor' });
+      mockRequest.body = { role: 'reader' };
+
+      await updateMemberRole(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.projectMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let writers manage members', async () => {
+      memberOf('writer');
+      mockRequest.body = { role: 'metadata' };
+
+      await updateMemberRole(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.projectMember.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should not hand out ownership', async () => {
+      mockRequest.body = { role: 'owner' };
+
+      await updateMemberRole(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let any member leave', async () => {
+      memberOf('reader');
+      mockRequest.params = { id: 'project-1', userId: 'test-user-id' };
+      (prisma.projectMember.findUnique as jest.Mock).mockResolvedValue({ id: 'member-1', role: 'reader' });
+
+      await removeMember(mockRequest, mockResponse as Response);
+
+      expect(prisma.projectMember.delete).toHaveBeenCalledWith({ where: { id: 'member-1' } });
+    });
+
+    it('should not remove the owner', async () => {
+      memberOf('owner');
+      mockRequest.params = { id: 'project-1', userId: 'test-user-id' };
+      (prisma.projectMember.findUnique as jest.Mock).mockResolvedValue({ id: 'member-1', role: 'owner' });
+
+      await removeMember(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.projectMember.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transferOwnership', () => {
+    it('should make the member owner and the previous owner admin', async () => {
+      memberOf('owner');
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = { userId: 'user-2' };
+      (prisma.projectMember.findUnique as jest.Mock).mockResolvedValue({ id: 'member-2', userId: 'user-2', role: 'admin' });
+
+      await transferOwnership(mockRequest, mockResponse as Response);
+
+      expect(prisma.projectMember.updateMany).toHaveBeenCalledWith({
+        where: { projectId: 'project-1', role: 'owner' },
+        data: { role: 'admin' }
+      });
+      expect(prisma.projectMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-2' },
+        data: { role: 'owner' }
+      });
+    });
+
+    it('should only let the owner transfer', async () => {
+      memberOf('admin');
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = { userId: 'user-2' };
+
+      await transferOwnership(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invites', () => {
+    it('should store only the hash of the invite token', async () => {
+      memberOf('admin');
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = { email: 'new@example.com', role: 'reader' };
+      (prisma.projectMember.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.projectInvite.create as jest.Mock).mockResolvedValue({ id: 'invite-1', email: 'new@example.com', role: 'reader' });
+
+      await createInvite(mockRequest, mockResponse as Response);
+
+      const data = (prisma.projectInvite.create as jest.Mock).mock.calls[0][0].data;
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(data.tokenHash).toBe(createHash('sha256').update(body.token).digest('hex'));
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should add the invitee as a member on accept', async () => {
+      mockRequest.body = { token: 'invite-token' };
+      (prisma.projectInvite.findUnique as jest.Mock).mockResolvedValue({
+        id: 'invite-1',
+        projectId: 'project-1',
+        email: 'Test@Example.com',
+        role: 'writer',
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60_000)
+      });
+      (prisma.projectMember.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await acceptInvite(mockRequest, mockResponse as Response);
+
+      expect(prisma.projectMember.create).toHaveBeenCalledWith({
+        data: { projectId: 'project-1', userId: 'test-user-id', role: 'writer' }
+      });
+      expect(prisma.projectInvite.update).toHaveBeenCalledWith({
+        where: { id: 'invite-1' },
+        data: { acceptedAt: expect.any(Date) }
+      });
+      expect(queueWebhookDeliveries).toHaveBeenCalledWith('project-1', 'member.added', {
+        userId: 'test-user-id',
+        role: 'writer',
+        source: 'direct'
+      });
+    });
+
+    it('should refuse an invite sent to another email', async () => {
+      mockRequest.body = { token: 'invite-token' };
+      (prisma.projectInvite.findUnique as jest.Mock).mockResolvedValue({
+        id: 'invite-1',
+        projectId: 'project-1',
+        email: 'someone@example.com',
+        role: 'writer',
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60_000)
+      });
+
+      await acceptInvite(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.projectMember.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an expired invite', async () => {
+      mockRequest.body = { token: 'invite-token' };
+      (prisma.projectInvite.findUnique as jest.Mock).mockResolvedValue({
+        id: 'invite-1',
+        email: 'test@example.com',
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() - 1)
+      });
+
+      await acceptInvite(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { authenticateToken, AuthRequest } from '../api/middleware/auth';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  currentTotpStep,
+  generateTotpCode,
+  hashRecoveryCode,
+  verifyTotpCode
+} from '../api/services/totp';
+import { createChallengeToken, verifySecondFactor } from '../api/services/mfa';
+import { login, loginWithSecondFactor } from '../api/controllers/authController';
+import { confirmTotp } from '../api/controllers/mfaController';
+import { getKeyProvider } from '../infrastructure/crypto/keyProvider';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: { secret: 'test-secret', expiresIn: '15m', refreshTokenTtlDays: 30 },
+    passwordPolicy: { minLength: 8, checkBreached: true, breachedListFile: '' },
+    oidc: { issuer: '', enforcedDomains: [] },
+    authThrottle: { accountMaxFailures: 10, ipMaxFailures: 100, lockoutMinutes: 15 },
+    mfa: { issuer: 'Keep Safe', freshnessMinutes: 5 }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    recoveryCode: {
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    session: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    authThrottle: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+jest.mock('../infrastructure/crypto/keyProvider', () => ({
+  __esModule: true,
+  getKeyProvider: jest.fn(),
+}));
+
+// Access tokens are covered by the signing key tests
+jest.mock('../infrastructure/crypto/signingKeys', () => ({
+  __esModule: true,
+  signJwt: jest.fn().mockResolvedValue('access-token'),
+  verifyJwt: jest.fn().mockResolvedValue(null),
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+// RFC 6238 test secret ("12345678901234567890")
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const enrolledUser = {
+  id: 'user-1',
+  totpSecret: 'wrapped-secret',
+  totpKeyId: 'key-1',
+  totpEnabledAt: new Date()
+};
+
+describe('Two-factor authentication', () => {
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.authThrottle.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.authThrottle.upsert as jest.Mock).mockResolvedValue({ failures: 1 });
+    (getKeyProvider as jest.Mock).mockReturnValue({ unwrapKey: jest.fn().mockResolvedValue(SECRET) });
+  });
+
+  describe('TOTP', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotpCode(SECRET, currentTotpStep(59 * 1000))).toBe('287082');
+      expect(generateTotpCode(SECRET, currentTotpStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotpCode(SECRET, currentTotpStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('should round-trip base32', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(base32Encode(bytes)).toBe(SECRET);
+      expect(base32Decode(SECRET).equals(bytes)).toBe(true);
+    });
+
+    it('should accept one step of clock drift and no more', () => {
+      const now = 1111111109 * 1000;
+      const step = currentTotpStep(now);
+
+      expect(verifyTotpCode(SECRET, generateTotpCode(SECRET, step - 1), now)).toBe(step - 1);
+      expect(verifyTotpCode(SECRET, generateTotpCode(SECRET, step + 1), now)).toBe(step + 1);
+      expect(verifyTotpCode(SECRET, generateTotpCode(SECRET, step + 2), now)).toBeNull();
+      expect(verifyTotpCode(SECRET, 'abcdef', now)).toBeNull();
+    });
+
+    it('should build an otpauth URI for authenticator apps', () => {
+      const uri = new URL(buildOtpauthUri(SECRET, 'test@example.com', 'Keep Safe'));
+
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe('/Keep Safe:test@example.com');
+      expect(uri.searchParams.get('secret')).toBe(SECRET);
+      expect(uri.searchParams.get('issuer')).toBe('Keep Safe');
+    });
+
+    it('should hash recovery codes regardless of case and dashes', () => {
+      expect(hashRecoveryCode('ABCDE-12345')).toBe(hashRecoveryCode('abcde12345'));
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should not accept the same code twice', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(enrolledUser);
+      (prisma.user.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+      const step = currentTotpStep();
+      const code = generateTotpCode(SECRET, step);
+
+      await expect(verifySecondFactor('user-1', { code })).resolves.toBe(true);
+      await expect(verifySecondFactor('user-1', { code })).resolves.toBe(false);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+        data: { totpLastUsedStep: step }
+      });
+    });
+
+    it('should spend a recovery code', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(enrolledUser);
+      (prisma.recoveryCode.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await expect(verifySecondFactor('user-1', { recoveryCode: 'abcde-12345' })).resolves.toBe(true);
+      expect(prisma.recoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', codeHash: hashRecoveryCode('abcde-12345'), usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+    });
+
+    it('should refuse users who have not finished enrollment', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...enrolledUser, totpEnabledAt: null });
+
+      await expect(verifySecondFactor('user-1', { code: '123456' })).resolves.toBe(false);
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should enable two-factor authentication and store recovery codes hashed', async () => {
+      const req = {
+        user: { userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' },
+        body: { code: generateTotpCode(SECRET, currentTotpStep()) }
+      } as unknown as AuthRequest;
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...enrolledUser, totpEnabledAt: null });
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await confirmTotp(req, mockResponse as Response);
+
+      const { recoveryCodes } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      const stored = (prisma.recoveryCode.createMany as jest.Mock).mock.calls[0][0].data;
+      expect(recoveryCodes).toHaveLength(10);
+      expect(stored).toEqual(recoveryCodes.map((code: string) => ({ userId: 'user-1', codeHash: hashRecoveryCode(code) })));
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { totpEnabledAt: expect.any(Date) }
+      });
+    });
+  });
+
+  describe('login', () => {
+    it('should return a challenge instead of tokens for enrolled users', async () => {
+      const password = await bcrypt.hash('password', 4);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...enrolledUser, email: 'test@example.com', password });
+      const req = { body: { email: 'test@example.com', password: 'password' }, headers: {} } as Request;
+
+      await login(req, mockResponse as Response);
+
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(body).toMatchObject({ mfaRequired: true });
+      expect(body.token).toBeUndefined();
+      expect(prisma.session.create).not.toHaveBeenCalled();
+      expect(jwt.verify(body.challengeToken, 'test-secret')).toMatchObject({ userId: 'user-1', purpose: 'mfa-challenge' });
+    });
+
+    it('should start a verified session once the second factor checks out', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...enrolledUser, email: 'test@example.com' });
+      (prisma.recoveryCode.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1' });
+      const req = {
+        body: { challengeToken: createChallengeToken('user-1'), recoveryCode: 'abcde-12345' },
+        headers: {}
+      } as Request;
+
+      await loginWithSecondFactor(req, mockResponse as Response);
+
+      expect((prisma.session.create as jest.Mock).mock.calls[0][0].data.mfaVerifiedAt).toEqual(expect.any(Date));
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ token: expect.any(String) }));
+    });
+
+    it('should refuse a wrong code', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(enrolledUser);
+      (prisma.recoveryCode.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      const req = {
+        body: { challengeToken: createChallengeToken('user-1'), recoveryCode: 'wrong' },
+        headers: {}
+      } as Request;
+
+      await loginWithSecondFactor(req, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a challenge token as an access token', async () => {
+      const req = { headers: { authorization: `Bearer ${createChallengeToken('user-1')}` } } as AuthRequest;
+      const next = jest.fn();
+
+      await authenticateToken(req, mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
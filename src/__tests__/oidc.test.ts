@@ -0,0 +1,303 @@
+import { Request, Response } from 'express';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import jwt from 'jsonwebtoken';
+import config from '../infrastructure/config';
+import { OidcClient } from '../infrastructure/oidc/client';
+import { createMockIssuerApp } from '../infrastructure/oidc/mockIssuer';
+import { isSsoEnforced, syncGroupRoles } from '../api/services/oidc';
+import { finishOidcLogin, startOidcLogin } from '../api/controllers/oidcController';
+import { login } from '../api/controllers/authController';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: { secret: 'test-secret', expiresIn: '15m', refreshTokenTtlDays: 30 },
+    authThrottle: { accountMaxFailures: 10, ipMaxFailures: 100, lockoutMinutes: 15 },
+    oidc: {
+      issuer: '',
+      clientId: 'keep-safe',
+      clientSecret: 'client-secret',
+      redirectUri: 'http://localhost:4000/api/auth/oidc/callback',
+      scopes: 'openid email profile',
+      enforcedDomains: ['corp.example'],
+      groupsClaim: 'groups',
+      groupRoles: [
+        { group: 'developers', projectId: 'project-1', role: 'writer' },
+        { group: 'platform', projectId: 'project-1', role: 'admin' },
+        { group: 'developers', projectId: 'project-2', role: 'reader' }
+      ]
+    }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    userIdentity: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    oidcLoginRequest: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    project: {
+      findMany: jest.fn(),
+    },
+    projectMember: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    session: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Access tokens are covered by the signing key tests
+jest.mock('../infrastructure/crypto/signingKeys', () => ({
+  __esModule: true,
+  signJwt: jest.fn().mockResolvedValue('access-token'),
+  verifyJwt: jest.fn().mockResolvedValue(null),
+}));
+
+jest.mock('../api/services/webhooks', () => ({
+  __esModule: true,
+  queueWebhookDeliveries: jest.fn(),
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+import { queueWebhookDeliveries } from '../api/services/webhooks';
+
+const users = [
+  { sub: 'sub-1', email: 'alice@corp.example', name: 'Alice', groups: ['developers'] },
+  { sub: 'sub-2', email: 'bob@corp.example', emailVerified: false }
+];
+
+describe('OpenID Connect single sign-on', () => {
+  let server: Server;
+  let issuer: string;
+  let mockResponse: Partial<Response>;
+
+  beforeAll((done) => {
+    // The issuer's URL is its identifier, so the app is only created once the port is known
+    server = createServer().listen(0, () => {
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      server.on('request', createMockIssuerApp({ issuer, clientId: 'keep-safe', clientSecret: 'client-secret', users }));
+      config.oidc.issuer = issuer;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      redirect: jest.fn(),
+    };
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1' });
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.projectMember.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  // Follow the issuer's redirect back, as the browser would
+  async function signInAt(authorizationUrl: string, loginHint?: string): Promise<URL> {
+    const url = new URL(authorizationUrl);
+    if (loginHint) {
+      url.searchParams.set('login_hint', loginHint);
+    }
+    const response = await fetch(url, { redirect: 'manual' });
+    return new URL(response.headers.get('location') as string);
+  }
+
+  describe('OidcClient', () => {
+    const client = () => new OidcClient({ ...config.oidc, issuer });
+
+    it('should run the code flow with PKCE against the issuer', async () => {
+      const authorizationUrl = await client().authorizationUrl({ state: 'state-1', nonce: 'nonce-1', codeVerifier: 'verifier-1' });
+      expect(new URL(authorizationUrl).searchParams.get('code_challenge_method')).toBe('S256');
+      expect(authorizationUrl).not.toContain('verifier-1');
+
+      const callback = await signInAt(authorizationUrl);
+      expect(callback.searchParams.get('state')).toBe('state-1');
+
+      const claims = await client().exchangeCode(callback.searchParams.get('code') as string, 'verifier-1', 'nonce-1');
+      expect(claims).toMatchObject({ iss: issuer, sub: 'sub-1', email: 'alice@corp.example', groups: ['developers'] });
+    });
+
+    it('should refuse a code redeemed with the wrong verifier', async () => {
+      const callback = await signInAt(await client().authorizationUrl({ state: 's', nonce: 'n', codeVerifier: 'right' }));
+
+      await expect(client().exchangeCode(callback.searchParams.get('code') as string, 'wrong', 'n'))
+        .rejects.toThrow('status 400');
+    });
+
+    it('should refuse an ID token for another login', async () => {
+      const callback = await signInAt(await client().authorizationUrl({ state: 's', nonce: 'n', codeVerifier: 'v' }));
+
+      await expect(client().exchangeCode(callback.searchParams.get('code') as string, 'v', 'other'))
+        .rejects.toThrow('nonce');
+    });
+
+    it('should refuse ID tokens not signed by the issuer', async () => {
+      const forged = jwt.sign({ nonce: 'n' }, 'test-secret', { issuer, audience: 'keep-safe', subject: 'sub-1' });
+
+      await expect(client().verifyIdToken(forged, 'n')).rejects.toThrow();
+    });
+  });
+
+  describe('login flow', () => {
+    async function completeLogin(loginHint?: string) {
+      (prisma.oidcLoginRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      await startOidcLogin({} as Request, mockResponse as Response);
+      const { data } = (prisma.oidcLoginRequest.create as jest.Mock).mock.calls[0][0];
+      (prisma.oidcLoginRequest.findUnique as jest.Mock).mockResolvedValue(data);
+
+      const callback = await signInAt((mockResponse.redirect as jest.Mock).mock.calls[0][0], loginHint);
+      const req = { query: Object.fromEntries(callback.searchParams), headers: {} } as unknown as Request;
+      await finishOidcLogin(req, mockResponse as Response);
+    }
+
+    it('should create an account on the first sign-in and grant roles from groups', async () => {
+      (prisma.userIdentity.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.user.create as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'alice@corp.example', name: 'Alice' });
+      (prisma.project.findMany as jest.Mock).mockResolvedValue([{ id: 'project-1' }]);
+
+      await completeLogin();
+
+      expect(prisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'alice@corp.example',
+          emailVerifiedAt: expect.any(Date),
+          identities: { create: { issuer, subject: 'sub-1', email: 'alice@corp.example' } }
+        })
+      });
+      expect(prisma.projectMember.create).toHaveBeenCalledWith({
+        data: { projectId: 'project-1', userId: 'user-1', role: 'writer', source: 'oidc' }
+      });
+      expect(queueWebhookDeliveries).toHaveBeenCalledWith('project-1', 'member.added', {
+        userId: 'user-1',
+        role: 'writer',
+        source: 'oidc'
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ token: expect.any(String) }));
+    });
+
+    it('should link an existing account with the same verified email', async () => {
+      (prisma.userIdentity.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        id: 'user-1', email: 'alice@corp.example', emailVerifiedAt: new Date(), totpEnabledAt: null
+      });
+
+      await completeLogin();
+
+      expect(prisma.userIdentity.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', issuer, subject: 'sub-1', email: 'alice@corp.example' }
+      });
+      expect(prisma.user.create).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should not link an existing account whose own email is not verified', async () => {
+      (prisma.userIdentity.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        id: 'user-1', email: 'alice@corp.example', emailVerifiedAt: null, totpEnabledAt: null
+      });
+
+      await completeLogin();
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(prisma.userIdentity.create).not.toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should not link or create accounts for unverified emails', async () => {
+      (prisma.userIdentity.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await completeLogin('bob@corp.example');
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should ask for the second factor of accounts that have one', async () => {
+      (prisma.userIdentity.findUnique as jest.Mock).mockResolvedValue({
+        id: 'identity-1',
+        user: { id: 'user-1', email: 'alice@corp.example', totpEnabledAt: new Date() }
+      });
+
+      await completeLogin();
+
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ mfaRequired: true }));
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a state that was already used', async () => {
+      (prisma.oidcLoginRequest.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await finishOidcLogin({ query: { code: 'code', state: 'state' } } as unknown as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('syncGroupRoles', () => {
+    it('should follow the groups for memberships granted through them only', async () => {
+      (prisma.project.findMany as jest.Mock).mockResolvedValue([{ id: 'project-1' }, { id: 'project-2' }]);
+      (prisma.projectMember.findMany as jest.Mock).mockResolvedValue([
+        { id: 'member-1', projectId: 'project-1', role: 'writer', source: 'oidc' },
+        { id: 'member-2', projectId: 'project-2', role: 'owner', source: 'direct' },
+        { id: 'member-3', projectId: 'project-3', role: 'reader', source: 'oidc' },
+        { id: 'member-4', projectId: 'project-4', role: 'reader', source: 'direct' }
+      ]);
+
+      await syncGroupRoles('user-1', ['developers', 'platform']);
+
+      expect(prisma.projectMember.update).toHaveBeenCalledWith({ where: { id: 'member-1' }, data: { role: 'admin' } });
+      expect(prisma.projectMember.delete).toHaveBeenCalledTimes(1);
+      expect(prisma.projectMember.delete).toHaveBeenCalledWith({ where: { id: 'member-3' } });
+      expect(prisma.projectMember.create).not.toHaveBeenCalled();
+      expect(queueWebhookDeliveries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enforced domains', () => {
+    it('should only apply to the configured domains', () => {
+      expect(isSsoEnforced('alice@Corp.Example')).toBe(true);
+      expect(isSsoEnforced('alice@example.com')).toBe(false);
+    });
+
+    it('should turn away password logins', async () => {
+      await login({ body: { email: 'alice@corp.example', password: 'password' }, headers: {} } as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ ssoRequired: true }));
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
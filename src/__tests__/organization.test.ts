@@ -0,0 +1,311 @@
+import { Response } from 'express';
+import { AuthRequest } from '../api/middleware/auth';
+import { checkProjectAccess } from '../api/services/projectAccess';
+import { checkOrganizationAccess } from '../api/services/organizationAccess';
+import {
+  addOrganizationMember,
+  updateOrganizationMember,
+  removeOrganizationMember,
+  deleteOrganization
+} from '../api/controllers/organizationController';
+import { addTeamMember, grantTeamAccess } from '../api/controllers/teamController';
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    project: {
+      findFirst: jest.fn(),
+      count: jest.fn(),
+    },
+    projectMember: {
+      deleteMany: jest.fn(),
+    },
+    organization: {
+      delete: jest.fn(),
+    },
+    organizationMember: {
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    team: {
+      findFirst: jest.fn(),
+    },
+    teamMember: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    teamGrant: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+jest.mock('../api/services/webhooks', () => ({
+  __esModule: true,
+  queueWebhookDeliveries: jest.fn(),
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+import { queueWebhookDeliveries } from '../api/services/webhooks';
+
+// The caller's membership first, then the member being managed
+function organizationMembers(actorRole: string, target?: { id: string; role: string }) {
+  const findUnique = prisma.organizationMember.findUnique as jest.Mock;
+  findUnique.mockResolvedValueOnce({ role: actorRole, organization: { id: 'org-1', personalUserId: null } });
+  if (target) {
+    findUnique.mockResolvedValueOnce(target);
+  }
+}
+
+describe('Organizations and Teams', () => {
+  let mockRequest: AuthRequest;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockRequest = {
+      user: { userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-1' },
+      body: {},
+      params: { organizationId: 'org-1' },
+    } as unknown as AuthRequest;
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    (prisma.organizationMember.findUnique as jest.Mock).mockReset();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  });
+
+  describe('checkOrganizationAccess', () => {
+    it('should hide organizations the user is not in', async () => {
+      (prisma.organizationMember.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(checkOrganizationAccess(mockRequest, 'org-1', 'member')).resolves.toEqual({
+        status: 404,
+        error: 'Organization not found'
+      });
+    });
+
+    it('should require the minimum role', async () => {
+      organizationMembers('member');
+
+      await expect(checkOrganizationAccess(mockRequest, 'org-1', 'admin')).resolves.toEqual({
+        status: 403,
+        error: 'Your organization role does not allow this action'
+      });
+    });
+
+    it('should not let service tokens in', async () => {
+      const req = { serviceToken: { id: 'token-1', projectId: 'project-1' } } as unknown as AuthRequest;
+
+      await expect(checkOrganizationAccess(req, 'org-1', 'member')).resolves.toMatchObject({ status: 401 });
+      expect(prisma.organizationMember.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('project access through organizations and teams', () => {
+    it('should give organization admins owner access to every project', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({
+        id: 'project-1',
+        members: [],
+        teamGrants: [],
+        organization: { members: [{ role: 'admin' }] }
+      });
+
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'own')).resolves.toMatchObject({ role: 'owner' });
+    });
+
+    it('should give team members the role granted to their team', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({
+        id: 'project-1',
+        members: [],
+        teamGrants: [{ role: 'reader' }, { role: 'writer' }],
+        organization: { members: [{ role: 'member' }] }
+      });
+
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'write')).resolves.toMatchObject({ role: 'writer' });
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'export')).resolves.toMatchObject({ status: 403 });
+    });
+
+    it('should not give plain organization members access', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({
+        id: 'project-1',
+        members: [],
+        teamGrants: [],
+        organization: { members: [{ role: 'member' }] }
+      });
+
+      await expect(checkProjectAccess(mockRequest, 'project-1', 'metadata')).resolves.toEqual({
+        status: 404,
+        error: 'Project not found'
+      });
+    });
+  });
+
+  describe('organization members', () => {
+    it('should add an existing user by email', async () => {
+      mockRequest.body = { email: 'new@example.com' };
+      organizationMembers('admin');
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-2' });
+      (prisma.organizationMember.create as jest.Mock).mockResolvedValue({ userId: 'user-2', role: 'member' });
+
+      await addOrganizationMember(mockRequest, mockResponse as Response);
+
+      expect(prisma.organizationMember.create).toHaveBeenCalledWith({
+        data: { organizationId: 'org-1', userId: 'user-2', role: 'member' },
+        select: { userId: true, role: true }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should not let admins add admins', async () => {
+      mockRequest.body = { email: 'new@example.com', role: 'admin' };
+      organizationMembers('admin');
+
+      await addOrganizationMember(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.organizationMember.create).not.toHaveBeenCalled();
+    });
+
+    it('should not demote the last owner', async () => {
+      mockRequest.params = { organizationId: 'org-1', userId: 'test-user-id' };
+      mockRequest.body = { role: 'admin' };
+      organizationMembers('owner', { id: 'membership-1', role: 'owner' });
+      (prisma.organizationMember.count as jest.Mock).mockResolvedValue(1);
+
+      await updateOrganizationMember(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.organizationMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should offboard a member from the organization, its teams and its projects', async () => {
+      mockRequest.params = { organizationId: 'org-1', userId: 'user-2' };
+      organizationMembers('admin', { id: 'membership-2', role: 'member' });
+
+      await removeOrganizationMember(mockRequest, mockResponse as Response);
+
+      expect(prisma.teamMember.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-2', team: { organizationId: 'org-1' } }
+      });
+      expect(prisma.projectMember.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-2', project: { organizationId: 'org-1' } }
+      });
+      expect(prisma.organizationMember.delete).toHaveBeenCalledWith({ where: { id: 'membership-2' } });
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Member removed successfully' });
+    });
+
+    it('should not let admins remove owners', async () => {
+      mockRequest.params = { organizationId: 'org-1', userId: 'user-2' };
+      organizationMembers('admin', { id: 'membership-2', role: 'owner' });
+
+      await removeOrganizationMember(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteOrganization', () => {
+    it('should refuse while projects remain', async () => {
+      organizationMembers('owner');
+      (prisma.project.count as jest.Mock).mockResolvedValue(2);
+
+      await deleteOrganization(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(prisma.organization.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('teams', () => {
+    it('should only add organization members to teams', async () => {
+      mockRequest.params = { organizationId: 'org-1', teamId: 'team-1' };
+      mockRequest.body = { userId: 'outsider' };
+      organizationMembers('admin');
+      (prisma.organizationMember.findUnique as jest.Mock).mockResolvedValueOnce(null);
+      (prisma.team.findFirst as jest.Mock).mockResolvedValue({ id: 'team-1', organizationId: 'org-1' });
+
+      await addTeamMember(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.teamMember.create).not.toHaveBeenCalled();
+    });
+
+    it('should grant a team of the owning organization a role on the project', async () => {
+      mockRequest.params = { id: 'project-1', teamId: 'team-1' };
+      mockRequest.body = { role: 'writer' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', organizationId: 'org-1', members: [{ role: 'admin' }] });
+      (prisma.team.findFirst as jest.Mock).mockResolvedValue({ id: 'team-1', organizationId: 'org-1' });
+      (prisma.teamGrant.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.teamGrant.upsert as jest.Mock).mockResolvedValue({ teamId: 'team-1', role: 'writer' });
+
+      await grantTeamAccess(mockRequest, mockResponse as Response);
+
+      expect(prisma.team.findFirst).toHaveBeenCalledWith({ where: { id: 'team-1', organizationId: 'org-1' } });
+      expect(prisma.teamGrant.upsert).toHaveBeenCalledWith({
+        where: { teamId_projectId: { teamId: 'team-1', projectId: 'project-1' } },
+        update: { role: 'writer' },
+        create: { teamId: 'team-1', projectId: 'project-1', role: 'writer' },
+        select: { teamId: true, role: true }
+      });
+      expect(queueWebhookDeliveries).toHaveBeenCalledWith('project-1', 'member.added', {
+        teamId: 'team-1',
+        role: 'writer',
+        source: 'team'
+      });
+    });
+
+    it('should not report a new member when only the role of a granted team changes', async () => {
+      mockRequest.params = { id: 'project-1', teamId: 'team-1' };
+      mockRequest.body = { role: 'writer' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', organizationId: 'org-1', members: [{ role: 'admin' }] });
+      (prisma.team.findFirst as jest.Mock).mockResolvedValue({ id: 'team-1', organizationId: 'org-1' });
+      (prisma.teamGrant.findUnique as jest.Mock).mockResolvedValue({ id: 'grant-1', teamId: 'team-1', role: 'reader' });
+      (prisma.teamGrant.upsert as jest.Mock).mockResolvedValue({ teamId: 'team-1', role: 'writer' });
+
+      await grantTeamAccess(mockRequest, mockResponse as Response);
+
+      expect(prisma.teamGrant.upsert).toHaveBeenCalled();
+      expect(queueWebhookDeliveries).not.toHaveBeenCalled();
+    });
+
+    it('should not change a grant with an unknown role', async () => {
+      mockRequest.params = { id: 'project-1', teamId: 'team-1' };
+      mockRequest.body = { role: 'reader' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', organizationId: 'org-1', members: [{ role: 'owner' }] });
+      (prisma.team.findFirst as jest.Mock).mockResolvedValue({ id: 'team-1', organizationId: 'org-1' });
+      (prisma.teamGrant.findUnique as jest.Mock).mockResolvedValue({ id: 'grant-1', teamId: 'team-1', role: 'auditor' });
+
+      await grantTeamAccess(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.teamGrant.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not grant teams of other organizations', async () => {
+      mockRequest.params = { id: 'project-1', teamId: 'team-x' };
+      mockRequest.body = { role: 'reader' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', organizationId: 'org-1', members: [{ role: 'owner' }] });
+      (prisma.team.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await grantTeamAccess(mockRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(prisma.teamGrant.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
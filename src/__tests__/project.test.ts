@@ -1,5 +1,22 @@
 import { Request, Response } from 'express';
-import { getProjects, createProject, getProject, updateProject, deleteProject } from '../api/controllers/projectController';
+import {
+  getProjects,
+  createProject,
+  getProject,
+  updateProject,
+  deleteProject,
+  getTrashedProjects,
+  restoreProject,
+  purgeTrashedProject
+} from '../api/controllers/projectController';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    secretReminders: { intervalMinutes: 0, dueSoonDays: 7 },
+    trash: { retentionDays: 30, purgeIntervalMinutes: 0 }
+  },
+}));
 
 // Mock the prisma import
 jest.mock('../infrastructure/db/prisma', () => ({
@@ -7,16 +24,55 @@ jest.mock('../infrastructure/db/prisma', () => ({
   default: {
     project: {
       findMany: jest.fn(),
+      count: jest.fn(),
       create: jest.fn(),
       findFirst: jest.fn(),
+      findUnique: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
     },
+    organization: {
+      upsert: jest.fn(),
+    },
+    organizationMember: {
+      findUnique: jest.fn(),
+    },
+    projectKey: {
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
   },
 }));
 
+jest.mock('../api/services/webhooks', () => ({
+  __esModule: true,
+  queueWebhookDeliveries: jest.fn(),
+}));
+
 // Import the mocked prisma
 import prisma from '../infrastructure/db/prisma';
+import { queueWebhookDeliveries } from '../api/services/webhooks';
+
+// The query checkProjectAccess runs for the signed-in test user
+function projectAccessQuery(id: string) {
+  const userId = 'test-user-id';
+  return {
+    where: {
+      id,
+      deletedAt: null,
+      OR: [
+        { members: { some: { userId } } },
+        { teamGrants: { some: { team: { members: { some: { userId } } } } } },
+        { organization: { members: { some: { userId, role: { in: ['owner', 'admin'] } } } } },
+      ]
+    },
+    include: {
+      members: { where: { userId }, select: { role: true } },
+      teamGrants: { where: { team: { members: { some: { userId } } } }, select: { role: true } },
+      organization: { select: { members: { where: { userId }, select: { role: true } } } }
+    }
+  };
+}
 
 describe('Project Controller', () => {
   let mockRequest: Partial<Request & { user?: { userId: string; email: string } }>;
@@ -28,6 +84,7 @@ describe('Project Controller', () => {
       user: { userId: 'test-user-id', email: 'test@example.com' },
       body: {},
       params: {},
+      query: {},
     };
     mockResponse = {
       json: jest.fn(),
@@ -39,25 +96,124 @@ describe('Project Controller', () => {
 
   describe('getProjects', () => {
     it('should return user projects', async () => {
-      const mockProjects = [
-        { id: '1', name: 'Project 1', description: 'Test project', createdAt: new Date(), updatedAt: new Date() }
-      ];
+      const mockProject = { id: '1', name: 'Project 1', description: 'Test project', createdAt: new Date(), updatedAt: new Date() };
+      const mockProjects = [{ ...mockProject, members: [{ role: 'writer' }], teamGrants: [], organization: { members: [] } }];
       (prisma.project.findMany as jest.Mock).mockResolvedValue(mockProjects);
+      (prisma.project.count as jest.Mock).mockResolvedValue(1);
 
       await getProjects(mockRequest as Request, mockResponse as Response);
 
+      const { where, include } = projectAccessQuery('1');
       expect(prisma.project.findMany).toHaveBeenCalledWith({
-        where: { userId: 'test-user-id' },
+        where: { OR: where.OR, deletedAt: null },
         select: {
           id: true,
           name: true,
           description: true,
+          versionRetention: true,
+          revealRequiresMfa: true,
+          defaultRotationDays: true,
+          blockExpiredSecrets: true,
+          organizationId: true,
           createdAt: true,
-          updatedAt: true
+          updatedAt: true,
+          ...include
         },
-        orderBy: { createdAt: 'desc' }
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 51
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        projects: [{ ...mockProject, role: 'writer' }],
+        pagination: { limit: 50, total: 1, nextCursor: null }
+      });
+    });
+
+    it('should take the highest role across membership, teams and organization', async () => {
+      (prisma.project.findMany as jest.Mock).mockResolvedValue([
+        { id: '1', members: [{ role: 'reader' }], teamGrants: [{ role: 'writer' }], organization: { members: [{ role: 'member' }] } },
+        { id: '2', members: [], teamGrants: [], organization: { members: [{ role: 'admin' }] } }
+      ]);
+
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        projects: [{ id: '1', role: 'writer' }, { id: '2', role: 'owner' }],
+        pagination: expect.any(Object)
+      });
+    });
+
+    it('should search names and continue from the cursor of the previous page', async () => {
+      const rows = [
+        { id: 'p1', name: 'Billing', members: [{ role: 'owner' }] },
+        { id: 'p2', name: 'Billing API', members: [{ role: 'owner' }] },
+        { id: 'p3', name: 'Billing jobs', members: [{ role: 'owner' }] }
+      ];
+      mockRequest.query = { q: 'bill', sort: 'name', order: 'asc', limit: '2' };
+      (prisma.project.findMany as jest.Mock).mockResolvedValueOnce(rows);
+      (prisma.project.count as jest.Mock).mockResolvedValue(3);
+
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      const firstQuery = (prisma.project.findMany as jest.Mock).mock.calls[0][0];
+      expect(firstQuery.where.name).toEqual({ contains: 'bill', mode: 'insensitive' });
+      expect(firstQuery.orderBy).toEqual([{ name: 'asc' }, { id: 'asc' }]);
+      expect(firstQuery.take).toBe(3);
+      const { projects, pagination } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(projects.map(({ id }: { id: string }) => id)).toEqual(['p1', 'p2']);
+      expect(pagination).toEqual({ limit: 2, total: 3, nextCursor: expect.any(String) });
+
+      mockRequest.query = { q: 'bill', sort: 'name', order: 'asc', limit: '2', cursor: pagination.nextCursor };
+      (prisma.project.findMany as jest.Mock).mockResolvedValueOnce([rows[2]]);
+
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      const { where } = (prisma.project.findMany as jest.Mock).mock.calls[1][0];
+      expect(where.AND[1]).toEqual({
+        OR: [{ name: { gt: 'Billing API' } }, { name: 'Billing API', id: { gt: 'p2' } }]
       });
-      expect(mockResponse.json).toHaveBeenCalledWith({ projects: mockProjects });
+      expect((mockResponse.json as jest.Mock).mock.calls[1][0].pagination.nextCursor).toBeNull();
+    });
+
+    it('should return 400 for an unknown sort or a cursor of another sort', async () => {
+      mockRequest.query = { sort: 'key' };
+
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Sort must be one of: name, created, updated' });
+
+      mockRequest.query = { sort: 'updated', cursor: Buffer.from(JSON.stringify(['name', 'Billing', 'p1'])).toString('base64url') };
+
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenLastCalledWith({ error: 'Invalid cursor' });
+      expect(prisma.project.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a cursor value that is not a plain string, number or date', async () => {
+      const cursor = (field: string, value: unknown) =>
+        Buffer.from(JSON.stringify([field, value, 'p1'])).toString('base64url');
+
+      mockRequest.query = { sort: 'name', cursor: cursor('name', { not: 'Billing' }) };
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenLastCalledWith({ error: 'Invalid cursor' });
+
+      mockRequest.query = { sort: 'created', cursor: cursor('createdAt', 'yesterday') };
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenLastCalledWith({ error: 'Invalid cursor' });
+      expect(prisma.project.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should filter by organization', async () => {
+      mockRequest.query = { organizationId: 'org-1' };
+      (prisma.project.findMany as jest.Mock).mockResolvedValue([]);
+
+      await getProjects(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.project.findMany as jest.Mock).mock.calls[0][0].where.organizationId).toBe('org-1');
     });
 
     it('should return 401 if user not authenticated', async () => {
@@ -71,23 +227,49 @@ describe('Project Controller', () => {
   });
 
   describe('createProject', () => {
-    it('should create a new project', async () => {
+    it('should create a new project in the personal organization', async () => {
       const mockProject = { id: '1', name: 'New Project', description: 'Test', createdAt: new Date(), updatedAt: new Date() };
       mockRequest.body = { name: 'New Project', description: 'Test' };
+      (prisma.organization.upsert as jest.Mock).mockResolvedValue({ id: 'org-personal' });
       (prisma.project.create as jest.Mock).mockResolvedValue(mockProject);
 
       await createProject(mockRequest as Request, mockResponse as Response);
 
+      expect(prisma.organization.upsert).toHaveBeenCalledWith({
+        where: { personalUserId: 'test-user-id' },
+        update: {},
+        create: {
+          name: 'Personal',
+          personalUserId: 'test-user-id',
+          members: { create: { userId: 'test-user-id', role: 'owner' } }
+        }
+      });
       expect(prisma.project.create).toHaveBeenCalledWith({
         data: {
           name: 'New Project',
           description: 'Test',
-          userId: 'test-user-id'
+          organizationId: 'org-personal',
+          createdById: 'test-user-id',
+          members: {
+            create: { userId: 'test-user-id', role: 'owner' }
+          },
+          environments: {
+            create: [
+              { name: 'development', isDefault: true },
+              { name: 'staging', isDefault: false },
+              { name: 'production', isDefault: false }
+            ]
+          }
         },
         select: {
           id: true,
           name: true,
           description: true,
+          versionRetention: true,
+          revealRequiresMfa: true,
+          defaultRotationDays: true,
+          blockExpiredSecrets: true,
+          organizationId: true,
           createdAt: true,
           updatedAt: true
         }
@@ -95,10 +277,31 @@ describe('Project Controller', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(201);
       expect(mockResponse.json).toHaveBeenCalledWith({
         message: 'Project created successfully',
-        project: mockProject
+        project: { ...mockProject, role: 'owner' }
       });
     });
 
+    it('should create the project in a named organization the user belongs to', async () => {
+      mockRequest.body = { name: 'New Project', organizationId: 'org-1' };
+      (prisma.organizationMember.findUnique as jest.Mock).mockResolvedValue({ role: 'member', organization: { id: 'org-1' } });
+      (prisma.project.create as jest.Mock).mockResolvedValue({ id: '1' });
+
+      await createProject(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.organization.upsert).not.toHaveBeenCalled();
+      expect((prisma.project.create as jest.Mock).mock.calls[0][0].data.organizationId).toBe('org-1');
+    });
+
+    it('should return 404 for an organization the user is not in', async () => {
+      mockRequest.body = { name: 'New Project', organizationId: 'org-2' };
+      (prisma.organizationMember.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await createProject(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(prisma.project.create).not.toHaveBeenCalled();
+    });
+
     it('should return 400 if name is missing', async () => {
       mockRequest.body = { description: 'Test' };
 
@@ -119,24 +322,31 @@ describe('Project Controller', () => {
   });
 
   describe('getProject', () => {
-    it('should return project if it exists and belongs to user', async () => {
+    it('should return project with the caller role if they are a member', async () => {
       const mockProject = { id: '1', name: 'Project 1', description: 'Test', createdAt: new Date(), updatedAt: new Date() };
       mockRequest.params = { id: '1' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue(mockProject);
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', members: [{ role: 'reader' }] });
+      (prisma.project.findUnique as jest.Mock).mockResolvedValue(mockProject);
 
       await getProject(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.findFirst).toHaveBeenCalledWith({
-        where: { id: '1', userId: 'test-user-id' },
+      expect(prisma.project.findFirst).toHaveBeenCalledWith(projectAccessQuery('1'));
+      expect(prisma.project.findUnique).toHaveBeenCalledWith({
+        where: { id: '1' },
         select: {
           id: true,
           name: true,
           description: true,
+          versionRetention: true,
+          revealRequiresMfa: true,
+          defaultRotationDays: true,
+          blockExpiredSecrets: true,
+          organizationId: true,
           createdAt: true,
           updatedAt: true
         }
       });
-      expect(mockResponse.json).toHaveBeenCalledWith({ project: mockProject });
+      expect(mockResponse.json).toHaveBeenCalledWith({ project: { ...mockProject, role: 'reader' } });
     });
 
     it('should return 404 if project not found', async () => {
@@ -155,7 +365,7 @@ describe('Project Controller', () => {
       const mockProject = { id: '1', name: 'Updated Project', description: 'Updated', createdAt: new Date(), updatedAt: new Date() };
       mockRequest.params = { id: '1' };
       mockRequest.body = { name: 'Updated Project', description: 'Updated' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', members: [{ role: 'owner' }] });
       (prisma.project.update as jest.Mock).mockResolvedValue(mockProject);
 
       await updateProject(mockRequest as Request, mockResponse as Response);
@@ -164,12 +374,21 @@ describe('Project Controller', () => {
         where: { id: '1' },
         data: {
           name: 'Updated Project',
-          description: 'Updated'
+          description: 'Updated',
+          versionRetention: undefined,
+          revealRequiresMfa: undefined,
+          defaultRotationDays: undefined,
+          blockExpiredSecrets: undefined
         },
         select: {
           id: true,
           name: true,
           description: true,
+          versionRetention: true,
+          revealRequiresMfa: true,
+          defaultRotationDays: true,
+          blockExpiredSecrets: true,
+          organizationId: true,
           createdAt: true,
           updatedAt: true
         }
@@ -178,6 +397,7 @@ describe('Project Controller', () => {
         message: 'Project updated successfully',
         project: mockProject
       });
+      expect(queueWebhookDeliveries).toHaveBeenCalledWith('1', 'project.updated', { project: mockProject });
     });
 
     it('should return 404 if project not found', async () => {
@@ -192,18 +412,45 @@ describe('Project Controller', () => {
     });
   });
 
+  describe('updateProject version retention', () => {
+    it('should update the version retention limit', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { versionRetention: 5 };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', members: [{ role: 'owner' }] });
+      (prisma.project.update as jest.Mock).mockResolvedValue({ id: '1', versionRetention: 5 });
+
+      await updateProject(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.project.update as jest.Mock).mock.calls[0][0].data.versionRetention).toBe(5);
+    });
+
+    it('should return 400 for an invalid retention limit', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { versionRetention: 0 };
+
+      await updateProject(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Version retention must be an integer between 1 and 1000' });
+    });
+  });
+
   describe('deleteProject', () => {
-    it('should delete project if it exists and belongs to user', async () => {
+    it('should move the project to the trash if it belongs to the user', async () => {
       mockRequest.params = { id: '1' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1' });
-      (prisma.project.delete as jest.Mock).mockResolvedValue({ id: '1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', members: [{ role: 'owner' }] });
+      (prisma.project.update as jest.Mock).mockResolvedValue({ id: '1' });
 
       await deleteProject(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.delete).toHaveBeenCalledWith({
-        where: { id: '1' }
+      const { where, data } = (prisma.project.update as jest.Mock).mock.calls[0][0];
+      expect(where).toEqual({ id: '1' });
+      expect(data).toEqual({ deletedAt: expect.any(Date), deletedById: 'test-user-id' });
+      expect(prisma.project.delete).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Project moved to the trash',
+        purgeAt: new Date(data.deletedAt.getTime() + 30 * 24 * 60 * 60 * 1000)
       });
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Project deleted successfully' });
     });
 
     it('should return 404 if project not found', async () => {
@@ -215,5 +462,90 @@ describe('Project Controller', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(404);
       expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Project not found' });
     });
+
+    it('should return 403 if the caller is not the owner', async () => {
+      mockRequest.params = { id: '1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', members: [{ role: 'admin' }] });
+
+      await deleteProject(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.project.delete).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Your project role does not allow this action' });
+    });
+  });
+
+  describe('trash', () => {
+    const deletedAt = new Date('2025-12-01T00:00:00Z');
+
+    it('should list the deleted projects the user owns', async () => {
+      (prisma.project.findMany as jest.Mock).mockResolvedValue([{ id: '1', name: 'Project 1', deletedAt, deletedById: 'test-user-id' }]);
+
+      await getTrashedProjects(mockRequest as Request, mockResponse as Response);
+
+      const { where } = (prisma.project.findMany as jest.Mock).mock.calls[0][0];
+      expect(where.deletedAt).toEqual({ not: null });
+      expect(where.OR[0]).toEqual({ members: { some: { userId: 'test-user-id', role: { in: ['owner'] } } } });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        projects: [{
+          id: '1',
+          name: 'Project 1',
+          deletedAt,
+          deletedById: 'test-user-id',
+          purgeAt: new Date('2025-12-31T00:00:00Z')
+        }]
+      });
+    });
+
+    it('should restore a project from the trash', async () => {
+      mockRequest.params = { id: '1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', deletedAt, members: [{ role: 'owner' }] });
+      (prisma.project.update as jest.Mock).mockResolvedValue({ id: '1', name: 'Project 1' });
+
+      await restoreProject(mockRequest as Request, mockResponse as Response);
+
+      // Projects in the trash are found too
+      expect((prisma.project.findFirst as jest.Mock).mock.calls[0][0].where).not.toHaveProperty('deletedAt');
+      expect((prisma.project.update as jest.Mock).mock.calls[0][0].data).toEqual({ deletedAt: null, deletedById: null });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Project restored successfully',
+        project: { id: '1', name: 'Project 1', role: 'owner' }
+      });
+    });
+
+    it('should return 409 when restoring a project that is not in the trash', async () => {
+      mockRequest.params = { id: '1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', deletedAt: null, members: [{ role: 'owner' }] });
+
+      await restoreProject(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Project is not in the trash' });
+      expect(prisma.project.update).not.toHaveBeenCalled();
+    });
+
+    it('should delete the data key and then the project when purging', async () => {
+      mockRequest.params = { id: '1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', deletedAt, members: [{ role: 'owner' }] });
+      (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+
+      await purgeTrashedProject(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.projectKey.deleteMany).toHaveBeenCalledWith({ where: { projectId: '1' } });
+      expect(prisma.project.delete).toHaveBeenCalledWith({ where: { id: '1' } });
+      expect((prisma.projectKey.deleteMany as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan((prisma.project.delete as jest.Mock).mock.invocationCallOrder[0]);
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Project permanently deleted' });
+    });
+
+    it('should only let owners purge a project', async () => {
+      mockRequest.params = { id: '1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: '1', deletedAt, members: [{ role: 'admin' }] });
+
+      await purgeTrashedProject(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.project.delete).not.toHaveBeenCalled();
+    });
   });
 });
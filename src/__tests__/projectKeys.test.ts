@@ -0,0 +1,113 @@
+import { CryptoService } from '../infrastructure/crypto/crypto';
+import {
+  encryptForProject,
+  decryptForProject,
+  getOrCreateProjectDataKey
+} from '../infrastructure/crypto/projectKeys';
+
+// The key provider reads its settings from config
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: { encryption: { provider: 'env', keyFile: '', kms: { url: '', keyId: '' } } },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    projectKey: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    secret: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    secretVersion: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('Project data keys', () => {
+  const crypto = new CryptoService();
+  const masterKey = 'default-key-for-development';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.ENCRYPTION_KEY;
+  });
+
+  function storedKey(id: string, dataKey: string) {
+    return { id, wrappedKey: JSON.stringify(crypto.wrapKey(dataKey, masterKey)), masterKeyId: 'default' };
+  }
+
+  it('should reuse an existing project key', async () => {
+    const dataKey = crypto.generateKey();
+    (prisma.projectKey.findUnique as jest.Mock).mockResolvedValue(storedKey('key-1', dataKey));
+
+    const result = await getOrCreateProjectDataKey('project-1');
+
+    expect(result).toEqual({ id: 'key-1', key: dataKey });
+    expect(prisma.projectKey.create).not.toHaveBeenCalled();
+  });
+
+  it('should generate a wrapped key and re-encrypt legacy secrets', async () => {
+    const legacyValue = JSON.stringify(crypto.encrypt('legacy-secret', masterKey));
+    (prisma.projectKey.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.projectKey.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'key-1', ...data }));
+    (prisma.secret.findMany as jest.Mock).mockResolvedValue([{ id: 'secret-1', value: legacyValue }]);
+    (prisma.secretVersion.findMany as jest.Mock).mockResolvedValue([{ id: 'version-1', value: legacyValue }]);
+
+    const result = await getOrCreateProjectDataKey('project-1');
+
+    const created = (prisma.projectKey.create as jest.Mock).mock.calls[0][0].data;
+    expect(created.projectId).toBe('project-1');
+    expect(created.masterKeyId).toBe('default');
+    expect(crypto.unwrapKey(JSON.parse(created.wrappedKey), masterKey)).toBe(result.key);
+
+    const update = (prisma.secret.update as jest.Mock).mock.calls[0][0];
+    expect(update.where).toEqual({ id: 'secret-1' });
+    const payload = JSON.parse(update.data.value);
+    expect(payload.keyId).toBe('key-1');
+    expect(crypto.decrypt(payload, result.key).value).toBe('legacy-secret');
+
+    const versionUpdate = (prisma.secretVersion.update as jest.Mock).mock.calls[0][0];
+    expect(versionUpdate.where).toEqual({ id: 'version-1' });
+    expect(JSON.parse(versionUpdate.data.value).keyId).toBe('key-1');
+  });
+
+  it('should encrypt values with the project key rather than the master key', async () => {
+    const dataKey = crypto.generateKey();
+    (prisma.projectKey.findUnique as jest.Mock).mockResolvedValue(storedKey('key-1', dataKey));
+
+    const stored = await encryptForProject('project-1', 'value');
+    const payload = JSON.parse(stored);
+
+    expect(payload.keyId).toBe('key-1');
+    expect(crypto.decrypt(payload, dataKey).value).toBe('value');
+    expect(() => crypto.decrypt(payload, masterKey)).toThrow();
+    await expect(decryptForProject('project-1', stored)).resolves.toBe('value');
+  });
+
+  it('should still decrypt legacy values without a key id', async () => {
+    (prisma.projectKey.findUnique as jest.Mock).mockResolvedValue(null);
+    const legacyValue = JSON.stringify(crypto.encrypt('legacy-secret', masterKey));
+
+    await expect(decryptForProject('project-1', legacyValue)).resolves.toBe('legacy-secret');
+  });
+
+  it('should not decrypt values with another project\'s key', async () => {
+    const dataKey = crypto.generateKey();
+    (prisma.projectKey.findUnique as jest.Mock).mockResolvedValue(storedKey('key-2', crypto.generateKey()));
+    const foreign = JSON.stringify({ ...crypto.encrypt('value', dataKey), keyId: 'key-1' });
+
+    await expect(decryptForProject('project-2', foreign)).rejects.toThrow('unknown data key');
+  });
+});
@@ -0,0 +1,111 @@
+import { rotateMasterKey } from '../infrastructure/crypto/rotation';
+import { getKeyProvider } from '../infrastructure/crypto/keyProvider';
+import { getOrCreateProjectDataKey } from '../infrastructure/crypto/projectKeys';
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    project: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+    projectKey: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    keyRotation: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+jest.mock('../infrastructure/crypto/keyProvider', () => ({
+  __esModule: true,
+  getKeyProvider: jest.fn(),
+}));
+
+jest.mock('../infrastructure/crypto/projectKeys', () => ({
+  __esModule: true,
+  getOrCreateProjectDataKey: jest.fn(),
+  wrapDataKey: jest.fn(async (dataKey: string) => ({ wrappedKey: `wrapped(${dataKey})`, masterKeyId: 'k2' })),
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('rotateMasterKey', () => {
+  let rotation: Record<string, unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rotation = { id: 'rotation-1', targetKeyId: 'k2', cursor: null, processed: 0, total: 3 };
+
+    (getKeyProvider as jest.Mock).mockReturnValue({
+      activeKeyId: 'k2',
+      unwrapKey: jest.fn(async (wrappedKey: string) => JSON.parse(wrappedKey).data),
+    });
+    (prisma.keyRotation.create as jest.Mock).mockImplementation(async ({ data }) => ({ ...rotation, ...data }));
+    (prisma.keyRotation.update as jest.Mock).mockImplementation(async ({ data }) => {
+      rotation = {
+        ...rotation,
+        ...data,
+        processed: (rotation.processed as number) + (data.processed?.increment || 0),
+      };
+      return rotation;
+    });
+  });
+
+  it('should migrate keyless projects and re-wrap outdated keys in batches', async () => {
+    (prisma.keyRotation.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.project.count as jest.Mock).mockResolvedValue(1);
+    (prisma.projectKey.count as jest.Mock).mockResolvedValue(2);
+    (prisma.project.findMany as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'project-1' }])
+      .mockResolvedValueOnce([]);
+    (prisma.projectKey.findMany as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'a', wrappedKey: JSON.stringify({ data: 'dek-a' }) }])
+      .mockResolvedValueOnce([{ id: 'b', wrappedKey: JSON.stringify({ data: 'dek-b' }) }])
+      .mockResolvedValueOnce([]);
+
+    const progress: number[] = [];
+    const result = await rotateMasterKey({ batchSize: 1, onProgress: (p) => progress.push(p.processed) });
+
+    expect(getOrCreateProjectDataKey).toHaveBeenCalledWith('project-1');
+    expect(prisma.projectKey.update).toHaveBeenCalledWith({
+      where: { id: 'a' },
+      data: { wrappedKey: 'wrapped(dek-a)', masterKeyId: 'k2' }
+    });
+    expect(prisma.projectKey.update).toHaveBeenCalledWith({
+      where: { id: 'b' },
+      data: { wrappedKey: 'wrapped(dek-b)', masterKeyId: 'k2' }
+    });
+    expect(progress).toEqual([1, 2, 3, 3]);
+    expect(result).toEqual({ rotationId: 'rotation-1', targetKeyId: 'k2', processed: 3, total: 3, completed: true });
+    expect(rotation.status).toBe('completed');
+  });
+
+  it('should resume a running rotation from its cursor', async () => {
+    rotation = { ...rotation, cursor: 'a', processed: 2 };
+    (prisma.keyRotation.findFirst as jest.Mock).mockResolvedValue(rotation);
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.projectKey.findMany as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'b', wrappedKey: JSON.stringify({ data: 'dek-b' }) }])
+      .mockResolvedValueOnce([]);
+
+    const result = await rotateMasterKey();
+
+    expect(prisma.keyRotation.create).not.toHaveBeenCalled();
+    expect((prisma.projectKey.findMany as jest.Mock).mock.calls[0][0].where).toEqual({
+      masterKeyId: { not: 'k2' },
+      id: { gt: 'a' }
+    });
+    expect(result.processed).toBe(3);
+    expect(result.completed).toBe(true);
+  });
+});
@@ -4,41 +4,105 @@ import {
   createSecret,
   getSecret,
   updateSecret,
-  deleteSecret
+  deleteSecret,
+  getSecretVersions,
+  getSecretVersion,
+  rollbackSecret,
+  importSecrets,
+  exportSecrets,
+  getTrashedSecrets,
+  restoreSecret,
+  purgeTrashedSecret
 } from '../api/controllers/secretController';
 
-// Mock the prisma import
-jest.mock('../infrastructure/db/prisma', () => ({
+jest.mock('../infrastructure/config', () => ({
   __esModule: true,
   default: {
+    jwt: { secret: 'test-secret' },
+    mfa: { issuer: 'Keep Safe', freshnessMinutes: 5 },
+    trash: { retentionDays: 30, purgeIntervalMinutes: 0 }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
     project: {
       findFirst: jest.fn(),
     },
+    environment: {
+      findFirst: jest.fn(),
+    },
     secret: {
       findMany: jest.fn(),
+      count: jest.fn(),
       create: jest.fn(),
       findFirst: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
     },
-  },
-}));
+    secretVersion: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    auditLog: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findFirst: jest.fn(),
+    },
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
 
-// Mock the crypto service
-jest.mock('../infrastructure/crypto/crypto', () => ({
+// Mock the project key service
+jest.mock('../infrastructure/crypto/projectKeys', () => ({
   __esModule: true,
-  default: {
-    encrypt: jest.fn(() => ({
-      encryptedValue: 'encrypted_value',
-      iv: 'test_iv',
-      authTag: 'test_auth_tag'
-    })),
-    decrypt: jest.fn(() => ({ value: 'decrypted_value' }))
-  }
+  encryptForProject: jest.fn(async () => JSON.stringify({
+    encryptedValue: 'encrypted_value',
+    iv: 'test_iv',
+    authTag: 'test_auth_tag',
+    keyId: 'key-1'
+  })),
+  decryptForProject: jest.fn(async () => 'decrypted_value')
 }));
 
+jest.mock('../api/services/secretEvents');
+
 // Import the mocked prisma
 import prisma from '../infrastructure/db/prisma';
+import { encryptForProject, decryptForProject } from '../infrastructure/crypto/projectKeys';
+import { publishSecretEvents } from '../api/services/secretEvents';
+
+// The query checkProjectAccess runs for the signed-in test user
+function projectAccessQuery(id: string) {
+  const userId = 'test-user-id';
+  return {
+    where: {
+      id,
+      deletedAt: null,
+      OR: [
+        { members: { some: { userId } } },
+        { teamGrants: { some: { team: { members: { some: { userId } } } } } },
+        { organization: { members: { some: { userId, role: { in: ['owner', 'admin'] } } } } },
+      ]
+    },
+    include: {
+      members: { where: { userId }, select: { role: true } },
+      teamGrants: { where: { team: { members: { some: { userId } } } }, select: { role: true } },
+      organization: { select: { members: { where: { userId }, select: { role: true } } } }
+    }
+  };
+}
 
 describe('Secret Controller', () => {
   let mockRequest: Partial<Request & { user?: { userId: string; email: string } }>;
@@ -49,12 +113,15 @@ describe('Secret Controller', () => {
       user: { userId: 'test-user-id', email: 'test@example.com' },
       body: {},
       params: {},
+      query: {},
     };
     mockResponse = {
       json: jest.fn(),
       status: jest.fn().mockReturnThis(),
     };
     jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-dev', name: 'development', isDefault: true });
   });
 
   describe('getSecrets', () => {
@@ -65,25 +132,80 @@ describe('Secret Controller', () => {
       ];
       
       mockRequest.params = { id: 'project-1' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
       (prisma.secret.findMany as jest.Mock).mockResolvedValue(mockSecrets);
+      (prisma.secret.count as jest.Mock).mockResolvedValue(2);
 
       await getSecrets(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.findFirst).toHaveBeenCalledWith({
-        where: { id: 'project-1', userId: 'test-user-id' }
-      });
+      expect(prisma.project.findFirst).toHaveBeenCalledWith(projectAccessQuery('project-1'));
       expect(prisma.secret.findMany).toHaveBeenCalledWith({
-        where: { projectId: 'project-1' },
+        where: { projectId: 'project-1', environmentId: 'env-dev', deletedAt: null },
         select: {
           id: true,
           key: true,
+          type: true,
+          description: true,
+          tags: true,
+          ownerId: true,
+          version: true,
+          expiresAt: true,
+          rotationIntervalDays: true,
+          rotatedAt: true,
           createdAt: true,
           updatedAt: true
         },
-        orderBy: { createdAt: 'desc' }
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 51
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        secrets: mockSecrets,
+        pagination: { limit: 50, total: 2, nextCursor: null }
       });
-      expect(mockResponse.json).toHaveBeenCalledWith({ secrets: mockSecrets });
+    });
+
+    it('should filter by tag, type and owner', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.query = { tag: 'Billing', type: 'url', owner: 'user-2' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'metadata' }] });
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([]);
+
+      await getSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.secret.findMany as jest.Mock).mock.calls[0][0].where).toEqual({
+        projectId: 'project-1',
+        environmentId: 'env-dev',
+        deletedAt: null,
+        tags: { has: 'billing' },
+        type: 'url',
+        ownerId: 'user-2'
+      });
+    });
+
+    it('should search keys by prefix and sort by key', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.query = { prefix: 'STRIPE_', sort: 'key', order: 'asc' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'metadata' }] });
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.secret.count as jest.Mock).mockResolvedValue(0);
+
+      await getSecrets(mockRequest as Request, mockResponse as Response);
+
+      const query = (prisma.secret.findMany as jest.Mock).mock.calls[0][0];
+      expect(query.where.key).toEqual({ startsWith: 'STRIPE_', mode: 'insensitive' });
+      expect(query.orderBy).toEqual([{ key: 'asc' }, { id: 'asc' }]);
+      expect(prisma.secret.count).toHaveBeenCalledWith({ where: query.where });
+      expect(mockResponse.json).toHaveBeenCalledWith({ secrets: [], pagination: { limit: 50, total: 0, nextCursor: null } });
+    });
+
+    it('should return 400 for an unknown type filter', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.query = { type: 'binary' };
+
+      await getSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.secret.findMany).not.toHaveBeenCalled();
     });
 
     it('should return 401 if user not authenticated', async () => {
@@ -107,37 +229,105 @@ describe('Secret Controller', () => {
     });
   });
 
+  describe('environment-scoped routes', () => {
+    it('should list secrets of the named environment', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'staging' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-staging', name: 'staging' });
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([]);
+
+      await getSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.environment.findFirst).toHaveBeenCalledWith({
+        where: { projectId: 'project-1', name: 'staging' }
+      });
+      expect((prisma.secret.findMany as jest.Mock).mock.calls[0][0].where).toEqual({
+        projectId: 'project-1',
+        environmentId: 'env-staging',
+        deletedAt: null
+      });
+    });
+
+    it('should return 404 for an unknown environment', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'qa' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await getSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Environment not found' });
+    });
+
+    it('should only find secrets inside the named environment', async () => {
+      mockRequest.params = { id: 'project-1', environment: 'production', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secret.findFirst).toHaveBeenCalledWith({
+        where: { id: 'secret-1', projectId: 'project-1', environment: { name: 'production' }, deletedAt: null }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
   describe('createSecret', () => {
     it('should create a new secret successfully', async () => {
       const mockSecret = { id: '1', key: 'API_KEY', createdAt: new Date(), updatedAt: new Date() };
       mockRequest.params = { id: 'project-1' };
       mockRequest.body = { key: 'API_KEY', value: 'secret-value' };
       
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
       (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
       (prisma.secret.create as jest.Mock).mockResolvedValue(mockSecret);
 
       await createSecret(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.findFirst).toHaveBeenCalledWith({
-        where: { id: 'project-1', userId: 'test-user-id' }
+      expect(prisma.project.findFirst).toHaveBeenCalledWith(projectAccessQuery('project-1'));
+      expect(prisma.environment.findFirst).toHaveBeenCalledWith({
+        where: { projectId: 'project-1', isDefault: true }
       });
       expect(prisma.secret.findFirst).toHaveBeenCalledWith({
-        where: { projectId: 'project-1', key: 'API_KEY' }
+        where: { projectId: 'project-1', environmentId: 'env-dev', key: 'API_KEY' }
       });
+      expect(encryptForProject).toHaveBeenCalledWith('project-1', 'secret-value');
       expect(prisma.secret.create).toHaveBeenCalledWith({
         data: {
           key: 'API_KEY',
           value: JSON.stringify({
             encryptedValue: 'encrypted_value',
             iv: 'test_iv',
-            authTag: 'test_auth_tag'
+            authTag: 'test_auth_tag',
+            keyId: 'key-1'
           }),
-          projectId: 'project-1'
+          projectId: 'project-1',
+          environmentId: 'env-dev',
+          versions: {
+            create: {
+              version: 1,
+              value: JSON.stringify({
+                encryptedValue: 'encrypted_value',
+                iv: 'test_iv',
+                authTag: 'test_auth_tag',
+                keyId: 'key-1'
+              }),
+              createdById: 'test-user-id'
+            }
+          }
         },
         select: {
           id: true,
           key: true,
+          type: true,
+          description: true,
+          tags: true,
+          ownerId: true,
+          version: true,
+          expiresAt: true,
+          rotationIntervalDays: true,
+          rotatedAt: true,
           createdAt: true,
           updatedAt: true
         }
@@ -179,17 +369,83 @@ describe('Secret Controller', () => {
       expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret key and value are required' });
     });
 
-    it('should return 409 if secret key already exists', async () => {
+    it('should return 409 if secret key already exists in the environment', async () => {
       mockRequest.params = { id: 'project-1' };
       mockRequest.body = { key: 'API_KEY', value: 'secret-value' };
       
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
       (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: '1', key: 'API_KEY' });
 
       await createSecret(mockRequest as Request, mockResponse as Response);
 
       expect(mockResponse.status).toHaveBeenCalledWith(409);
-      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret key already exists in this project' });
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret key already exists in this environment' });
+    });
+
+    it('should point to the trash when a deleted secret holds the key', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = { key: 'API_KEY', value: 'secret-value' };
+
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: '1', key: 'API_KEY', deletedAt: new Date() });
+
+      await createSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'A secret with this key is in the trash; restore it or delete it permanently first'
+      });
+      expect(prisma.secret.create).not.toHaveBeenCalled();
+    });
+
+    it('should store the description, tags, owner and type', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = {
+        key: 'STRIPE_KEY_2',
+        value: '{"live":true}',
+        type: 'json',
+        description: ' Stripe key for the EU account ',
+        tags: ['Billing', 'billing', 'eu'],
+        ownerId: 'user-2'
+      };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', organizationId: 'org-1', members: [{ role: 'owner' }] });
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({ id: 'user-2' });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await createSecret(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.user.findFirst as jest.Mock).mock.calls[0][0].where.id).toBe('user-2');
+      expect((prisma.secret.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        type: 'json',
+        description: 'Stripe key for the EU account',
+        tags: ['billing', 'eu'],
+        ownerId: 'user-2'
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should return 400 if the value does not fit the type', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = { key: 'WEBHOOK_URL', value: 'not a url', type: 'url' };
+
+      await createSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Value must be an absolute URL' });
+      expect(prisma.secret.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the owner has no access to the project', async () => {
+      mockRequest.params = { id: 'project-1' };
+      mockRequest.body = { key: 'API_KEY', value: 'secret-value', ownerId: 'stranger' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', organizationId: 'org-1', members: [{ role: 'owner' }] });
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await createSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'The owner must be a user with access to the project' });
+      expect(prisma.secret.create).not.toHaveBeenCalled();
     });
   });
 
@@ -203,27 +459,29 @@ describe('Secret Controller', () => {
           iv: 'test_iv',
           authTag: 'test_auth_tag'
         }),
+        version: 1,
         createdAt: new Date(),
         updatedAt: new Date()
       };
       
       mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
       (prisma.secret.findFirst as jest.Mock).mockResolvedValue(mockSecret);
 
       await getSecret(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.findFirst).toHaveBeenCalledWith({
-        where: { id: 'project-1', userId: 'test-user-id' }
-      });
+      expect(prisma.project.findFirst).toHaveBeenCalledWith(projectAccessQuery('project-1'));
       expect(prisma.secret.findFirst).toHaveBeenCalledWith({
-        where: { id: 'secret-1', projectId: 'project-1' }
+        where: { id: 'secret-1', projectId: 'project-1', deletedAt: null }
       });
+      expect(decryptForProject).toHaveBeenCalledWith('project-1', mockSecret.value);
       expect(mockResponse.json).toHaveBeenCalledWith({
         secret: {
           id: '1',
           key: 'API_KEY',
           value: 'decrypted_value',
+          resolvedValue: 'decrypted_value',
+          version: 1,
           createdAt: mockSecret.createdAt,
           updatedAt: mockSecret.updatedAt
         }
@@ -232,7 +490,7 @@ describe('Secret Controller', () => {
 
     it('should return 404 if secret not found', async () => {
       mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
       (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
 
       await getSecret(mockRequest as Request, mockResponse as Response);
@@ -240,48 +498,208 @@ describe('Secret Controller', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(404);
       expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret not found' });
     });
+
+    it('should require a recent second factor when the project asks for it', async () => {
+      const user = { userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-1' };
+      mockRequest.user = user;
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', revealRequiresMfa: true, members: [{ role: 'owner' }] });
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ mfaVerifiedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.session.findUnique).toHaveBeenCalledWith({ where: { id: 'session-1' }, select: { mfaVerifiedAt: true } });
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ mfaRequired: true }));
+      expect(decryptForProject).not.toHaveBeenCalled();
+    });
+
+    it('should reveal the secret after a fresh second-factor check', async () => {
+      const user = { userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-1' };
+      mockRequest.user = user;
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', revealRequiresMfa: true, members: [{ role: 'reader' }] });
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ mfaVerifiedAt: new Date() });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'API_KEY', value: 'encrypted', version: 1 });
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(decryptForProject).toHaveBeenCalledWith('project-1', 'encrypted');
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it('should resolve references alongside the raw value', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'reader' }] });
+      (prisma.secret.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'secret-1', key: 'DATABASE_URL', value: 'stored-url', environmentId: 'env-dev', version: 1 })
+        .mockResolvedValueOnce({ value: 'stored-host', expiresAt: null });
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-prod', name: 'production' });
+      (decryptForProject as jest.Mock)
+        .mockResolvedValueOnce('postgres://${production/DB_HOST}/app')
+        .mockResolvedValueOnce('db.internal');
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.environment.findFirst).toHaveBeenCalledWith({ where: { projectId: 'project-1', name: 'production' } });
+      expect(prisma.secret.findFirst).toHaveBeenLastCalledWith({
+        where: { projectId: 'project-1', environmentId: 'env-prod', key: 'DB_HOST', deletedAt: null },
+        select: { value: true, expiresAt: true }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        secret: expect.objectContaining({
+          value: 'postgres://${production/DB_HOST}/app',
+          resolvedValue: 'postgres://db.internal/app'
+        })
+      });
+    });
+
+    it('should report a missing reference next to the raw value unless the raw view is asked for', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'reader' }] });
+      (prisma.secret.findFirst as jest.Mock).mockImplementation(async ({ where }) => (
+        where.id ? { id: 'secret-1', key: 'DATABASE_URL', value: 'stored', environmentId: 'env-dev', version: 1 } : null
+      ));
+      (decryptForProject as jest.Mock)
+        .mockResolvedValueOnce('postgres://${DB_HOST}/app')
+        .mockResolvedValueOnce('postgres://${DB_HOST}/app');
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).not.toHaveBeenCalled();
+      const { secret: resolved } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(resolved.value).toBe('postgres://${DB_HOST}/app');
+      expect(resolved).not.toHaveProperty('resolvedValue');
+      expect(resolved.referenceError).toEqual({
+        error: 'Secret reference ${DB_HOST} does not name an existing secret',
+        reference: 'DB_HOST'
+      });
+
+      mockRequest.query = { view: 'raw' };
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      const { secret } = (mockResponse.json as jest.Mock).mock.calls[1][0];
+      expect(secret.value).toBe('postgres://${DB_HOST}/app');
+      expect(secret).not.toHaveProperty('resolvedValue');
+      expect(secret).not.toHaveProperty('referenceError');
+      (prisma.secret.findFirst as jest.Mock).mockReset();
+    });
+
+    it('should not resolve references into projects the caller cannot read', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'project-1', members: [{ role: 'reader' }] })
+        .mockResolvedValueOnce(null);
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'SMTP_URL', value: 'stored', environmentId: 'env-dev', version: 1 });
+      (decryptForProject as jest.Mock).mockResolvedValueOnce('smtp://${project-2/shared/SMTP_HOST}');
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.project.findFirst).toHaveBeenLastCalledWith(projectAccessQuery('project-2'));
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        secret: expect.objectContaining({
+          value: 'smtp://${project-2/shared/SMTP_HOST}',
+          referenceError: {
+            error: 'Secret reference ${project-2/shared/SMTP_HOST} cannot be read: Project not found',
+            reference: 'project-2/shared/SMTP_HOST'
+          }
+        })
+      });
+    });
+
+    it('should refuse to reveal an expired secret when the project blocks them', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', blockExpiredSecrets: true, members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({
+        id: 'secret-1', key: 'API_KEY', value: 'encrypted', version: 1, expiresAt: new Date(Date.now() - 1000)
+      });
+
+      await getSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ expired: true }));
+      expect(decryptForProject).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateSecret', () => {
     it('should update secret successfully', async () => {
-      const mockSecret = { id: '1', key: 'API_KEY', createdAt: new Date(), updatedAt: new Date() };
+      const mockSecret = { id: '1', key: 'API_KEY', version: 2, createdAt: new Date(), updatedAt: new Date() };
+      const encryptedValue = JSON.stringify({
+        encryptedValue: 'encrypted_value',
+        iv: 'test_iv',
+        authTag: 'test_auth_tag',
+        keyId: 'key-1'
+      });
       mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
       mockRequest.body = { value: 'new-secret-value' };
       
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }], versionRetention: 20 });
       (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1' });
       (prisma.secret.update as jest.Mock).mockResolvedValue(mockSecret);
+      (prisma.secretVersion.findFirst as jest.Mock).mockResolvedValue(null);
 
       await updateSecret(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.findFirst).toHaveBeenCalledWith({
-        where: { id: 'project-1', userId: 'test-user-id' }
-      });
+      expect(prisma.project.findFirst).toHaveBeenCalledWith(projectAccessQuery('project-1'));
       expect(prisma.secret.findFirst).toHaveBeenCalledWith({
-        where: { id: 'secret-1', projectId: 'project-1' }
+        where: { id: 'secret-1', projectId: 'project-1', deletedAt: null }
       });
       expect(prisma.secret.update).toHaveBeenCalledWith({
         where: { id: 'secret-1' },
         data: {
-          value: JSON.stringify({
-            encryptedValue: 'encrypted_value',
-            iv: 'test_iv',
-            authTag: 'test_auth_tag'
-          })
+          value: encryptedValue,
+          version: { increment: 1 },
+          rotatedAt: expect.any(Date),
+          remindedAt: null
         },
         select: {
           id: true,
           key: true,
+          type: true,
+          description: true,
+          tags: true,
+          ownerId: true,
+          version: true,
+          expiresAt: true,
+          rotationIntervalDays: true,
+          rotatedAt: true,
           createdAt: true,
           updatedAt: true
         }
       });
+      expect(prisma.secretVersion.create).toHaveBeenCalledWith({
+        data: { secretId: 'secret-1', version: 2, value: encryptedValue, createdById: 'test-user-id' }
+      });
+      expect(prisma.secretVersion.deleteMany).not.toHaveBeenCalled();
       expect(mockResponse.json).toHaveBeenCalledWith({
         message: 'Secret updated successfully',
         secret: mockSecret
       });
     });
 
+    it('should prune versions beyond the project retention limit', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      mockRequest.body = { value: 'new-secret-value' };
+
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }], versionRetention: 3 });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1' });
+      (prisma.secret.update as jest.Mock).mockResolvedValue({ id: 'secret-1', version: 5 });
+      (prisma.secretVersion.findFirst as jest.Mock).mockResolvedValue({ version: 3 });
+
+      await updateSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secretVersion.findFirst).toHaveBeenCalledWith({
+        where: { secretId: 'secret-1' },
+        orderBy: { version: 'desc' },
+        skip: 2,
+        select: { version: true }
+      });
+      expect(prisma.secretVersion.deleteMany).toHaveBeenCalledWith({
+        where: { secretId: 'secret-1', version: { lt: 3 } }
+      });
+    });
+
     it('should return 400 if value is missing', async () => {
       mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
       mockRequest.body = {};
@@ -301,33 +719,242 @@ describe('Secret Controller', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(400);
       expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret value is required and must be a string' });
     });
+
+    it('should change the schedule alone without writing a version', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      mockRequest.body = { expiresAt: '2026-01-01T00:00:00Z', rotationIntervalDays: null };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'writer' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'API_KEY' });
+
+      await updateSecret(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.secret.update as jest.Mock).mock.calls[0][0].data).toEqual({
+        expiresAt: new Date('2026-01-01T00:00:00Z'),
+        rotationIntervalDays: null,
+        remindedAt: null
+      });
+      expect(encryptForProject).not.toHaveBeenCalled();
+      expect(prisma.secretVersion.create).not.toHaveBeenCalled();
+    });
+
+    it('should check the current value when only the type changes', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      mockRequest.body = { type: 'json', tags: ['legacy'] };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'writer' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'CONFIG', type: 'string', value: 'encrypted' });
+      (decryptForProject as jest.Mock).mockResolvedValueOnce('{"debug":false}');
+
+      await updateSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(decryptForProject).toHaveBeenCalledWith('project-1', 'encrypted');
+      expect((prisma.secret.update as jest.Mock).mock.calls[0][0].data).toEqual({ type: 'json', tags: ['legacy'] });
+      expect(prisma.secretVersion.create).not.toHaveBeenCalled();
+
+      (decryptForProject as jest.Mock).mockResolvedValueOnce('plain text');
+      await updateSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenLastCalledWith({ error: 'Value must be valid JSON' });
+      expect(prisma.secret.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 400 for an invalid rotation interval', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      mockRequest.body = { value: 'new', rotationIntervalDays: 0 };
+
+      await updateSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'rotationIntervalDays must be an integer between 1 and 3650 or null' });
+    });
+  });
+
+  describe('getSecretVersions', () => {
+    it('should list version metadata without values', async () => {
+      const versions = [
+        { version: 2, createdById: 'test-user-id', createdAt: new Date() },
+        { version: 1, createdById: 'test-user-id', createdAt: new Date() }
+      ];
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'API_KEY', version: 2 });
+      (prisma.secretVersion.findMany as jest.Mock).mockResolvedValue(versions);
+
+      await getSecretVersions(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secretVersion.findMany).toHaveBeenCalledWith({
+        where: { secretId: 'secret-1' },
+        select: { version: true, createdById: true, createdAt: true },
+        orderBy: { version: 'desc' }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        secret: { id: 'secret-1', key: 'API_KEY', currentVersion: 2 },
+        versions
+      });
+    });
+
+    it('should return 404 if secret not found', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await getSecretVersions(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret not found' });
+    });
+  });
+
+  describe('getSecretVersion', () => {
+    it('should return the decrypted value of a version', async () => {
+      const createdAt = new Date();
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1', version: '1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secretVersion.findFirst as jest.Mock).mockResolvedValue({
+        version: 1,
+        value: 'old_payload',
+        createdById: 'test-user-id',
+        createdAt,
+        secret: { key: 'API_KEY' }
+      });
+
+      await getSecretVersion(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secretVersion.findFirst).toHaveBeenCalledWith({
+        where: { secretId: 'secret-1', version: 1, secret: { projectId: 'project-1', deletedAt: null } },
+        include: { secret: { select: { key: true, expiresAt: true } } }
+      });
+      expect(decryptForProject).toHaveBeenCalledWith('project-1', 'old_payload');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        secret: {
+          id: 'secret-1',
+          key: 'API_KEY',
+          value: 'decrypted_value',
+          version: 1,
+          createdById: 'test-user-id',
+          createdAt
+        }
+      });
+    });
+
+    it('should return 400 if version is not a number', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1', version: 'latest' };
+
+      await getSecretVersion(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Version must be a number' });
+    });
+  });
+
+  describe('rollbackSecret', () => {
+    it('should write the old value as a new version', async () => {
+      const mockSecret = { id: 'secret-1', key: 'API_KEY', version: 4, createdAt: new Date(), updatedAt: new Date() };
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1', version: '2' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }], versionRetention: 20 });
+      (prisma.secretVersion.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ version: 2, value: 'old_payload', secret: { environmentId: 'env-dev' } })
+        .mockResolvedValueOnce(null);
+      (prisma.secret.update as jest.Mock).mockResolvedValue(mockSecret);
+
+      await rollbackSecret(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.secret.update as jest.Mock).mock.calls[0][0].data).toEqual({
+        value: 'old_payload',
+        version: { increment: 1 },
+        rotatedAt: expect.any(Date),
+        remindedAt: null
+      });
+      expect(prisma.secretVersion.create).toHaveBeenCalledWith({
+        data: { secretId: 'secret-1', version: 4, value: 'old_payload', createdById: 'test-user-id' }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Secret rolled back to version 2',
+        secret: mockSecret
+      });
+    });
+
+    it('should refuse an old value that does not fit the type of the secret', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1', version: '2' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }], versionRetention: 20 });
+      (prisma.secretVersion.findFirst as jest.Mock).mockResolvedValueOnce({
+        version: 2, value: 'old_payload', secret: { environmentId: 'env-dev', type: 'url' }
+      });
+      (decryptForProject as jest.Mock).mockResolvedValueOnce('not a url');
+
+      await rollbackSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Version 2 does not fit the secret's type: Value must be an absolute URL"
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if version not found', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1', version: '9' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secretVersion.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await rollbackSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret version not found' });
+      expect(prisma.secret.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('deleteSecret', () => {
-    it('should delete secret successfully', async () => {
+    it('should move the secret to the trash', async () => {
       mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
       
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
-      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1' });
-      (prisma.secret.delete as jest.Mock).mockResolvedValue({ id: 'secret-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'API_KEY', environmentId: 'env-dev', version: 3 });
+      (prisma.secret.update as jest.Mock).mockResolvedValue({ id: 'secret-1' });
 
       await deleteSecret(mockRequest as Request, mockResponse as Response);
 
-      expect(prisma.project.findFirst).toHaveBeenCalledWith({
-        where: { id: 'project-1', userId: 'test-user-id' }
-      });
+      expect(prisma.project.findFirst).toHaveBeenCalledWith(projectAccessQuery('project-1'));
       expect(prisma.secret.findFirst).toHaveBeenCalledWith({
-        where: { id: 'secret-1', projectId: 'project-1' }
+        where: { id: 'secret-1', projectId: 'project-1', deletedAt: null }
+      });
+      const { data } = (prisma.secret.update as jest.Mock).mock.calls[0][0];
+      expect(data).toEqual({ deletedAt: expect.any(Date), deletedById: 'test-user-id', deletedByTokenId: null });
+      expect(prisma.secret.delete).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Secret moved to the trash',
+        purgeAt: new Date(data.deletedAt.getTime() + 30 * 24 * 60 * 60 * 1000)
       });
-      expect(prisma.secret.delete).toHaveBeenCalledWith({
-        where: { id: 'secret-1' }
+      expect(publishSecretEvents).toHaveBeenCalledWith([{
+        type: 'deleted',
+        projectId: 'project-1',
+        environmentId: 'env-dev',
+        secretId: 'secret-1',
+        key: 'API_KEY',
+        version: 3
+      }]);
+    });
+
+    it('should record a service token that deletes a secret apart from users', async () => {
+      const req = {
+        params: { id: 'project-1', secretId: 'secret-1' },
+        serviceToken: { id: 'token-1', projectId: 'project-1', environmentId: null, permission: 'write', canExport: false },
+      } as unknown as Request;
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'API_KEY', environmentId: 'env-dev', version: 3 });
+
+      await deleteSecret(req, mockResponse as Response);
+
+      expect((prisma.secret.update as jest.Mock).mock.calls[0][0].data).toEqual({
+        deletedAt: expect.any(Date),
+        deletedById: null,
+        deletedByTokenId: 'token-1'
       });
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Secret deleted successfully' });
     });
 
     it('should return 404 if secret not found', async () => {
       mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
-      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
       (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
 
       await deleteSecret(mockRequest as Request, mockResponse as Response);
@@ -336,4 +963,335 @@ describe('Secret Controller', () => {
       expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret not found' });
     });
   });
+
+  describe('trash', () => {
+    const deletedAt = new Date('2025-12-01T00:00:00Z');
+
+    it('should list deleted secrets with the environment and purge date', async () => {
+      mockRequest.params = { id: 'project-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'metadata' }] });
+      (prisma.secret.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'secret-1', key: 'OLD_TOKEN', deletedAt, deletedById: 'user-2', deletedByTokenId: null, environment: { name: 'production' } }
+      ]);
+
+      await getTrashedSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect((prisma.secret.findMany as jest.Mock).mock.calls[0][0].where).toEqual({
+        projectId: 'project-1',
+        deletedAt: { not: null }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        secrets: [{
+          id: 'secret-1',
+          key: 'OLD_TOKEN',
+          deletedAt,
+          deletedById: 'user-2',
+          deletedByTokenId: null,
+          environment: 'production',
+          purgeAt: new Date('2025-12-31T00:00:00Z')
+        }]
+      });
+    });
+
+    it('should restore a secret from the trash', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'writer' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'OLD_TOKEN', deletedAt });
+      (prisma.secret.update as jest.Mock).mockResolvedValue({ id: 'secret-1', key: 'OLD_TOKEN' });
+
+      await restoreSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secret.findFirst).toHaveBeenCalledWith({
+        where: { id: 'secret-1', projectId: 'project-1', deletedAt: { not: null } }
+      });
+      expect((prisma.secret.update as jest.Mock).mock.calls[0][0].data).toEqual({ deletedAt: null, deletedById: null, deletedByTokenId: null });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Secret restored successfully',
+        secret: { id: 'secret-1', key: 'OLD_TOKEN' }
+      });
+    });
+
+    it('should return 404 when restoring a secret that is not in the trash', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await restoreSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Secret not found in the trash' });
+      expect(prisma.secret.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let owners delete secrets permanently', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'admin' }] });
+
+      await purgeTrashedSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.secret.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete a secret permanently, in the trash or not', async () => {
+      mockRequest.params = { id: 'project-1', secretId: 'secret-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ key: 'OLD_TOKEN', environmentId: 'env-dev', version: 2, deletedAt });
+
+      await purgeTrashedSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secret.findFirst).toHaveBeenCalledWith({
+        where: { id: 'secret-1', projectId: 'project-1', deletedAt: undefined },
+        select: { key: true, environmentId: true, version: true, deletedAt: true }
+      });
+      expect(prisma.secret.delete).toHaveBeenCalledWith({ where: { id: 'secret-1' } });
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Secret permanently deleted' });
+      // Reported when it went to the trash
+      expect(publishSecretEvents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importSecrets', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 'project-1' };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }], versionRetention: 20 });
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([
+        { id: 'secret-1', key: 'SAME', value: 'stored' },
+        { id: 'secret-2', key: 'CHANGED', value: 'stored' }
+      ]);
+      (prisma.secret.update as jest.Mock).mockResolvedValue({ version: 2 });
+      (prisma.secret.create as jest.Mock).mockResolvedValue({ id: 'secret-3' });
+      (decryptForProject as jest.Mock).mockResolvedValue('old');
+    });
+
+    const content = 'NEW=fresh\nSAME=old\nexport CHANGED="new"\n';
+
+    it('should report the planned changes without writing on a dry run', async () => {
+      mockRequest.body = { format: 'dotenv', content, conflict: 'overwrite', dryRun: true };
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        dryRun: true,
+        created: ['NEW'],
+        updated: ['CHANGED'],
+        unchanged: ['SAME'],
+        skipped: []
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(prisma.secret.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to change existing keys with the fail policy', async () => {
+      mockRequest.body = { format: 'dotenv', content };
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Secret keys already exist in this environment',
+        conflicts: ['CHANGED']
+      });
+      expect(prisma.secret.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse keys held by secrets in the trash', async () => {
+      mockRequest.body = { format: 'dotenv', content, conflict: 'overwrite' };
+      (prisma.secret.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'secret-1', key: 'SAME', value: 'stored', deletedAt: new Date() }
+      ]);
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Secrets with these keys are in the trash; restore them or delete them permanently first',
+        trashed: ['SAME']
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should leave existing keys alone with the skip policy', async () => {
+      mockRequest.body = { format: 'dotenv', content, conflict: 'skip' };
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.secret.create).toHaveBeenCalledTimes(1);
+      expect((prisma.secret.create as jest.Mock).mock.calls[0][0].data.key).toBe('NEW');
+      expect(prisma.secret.update).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ skipped: ['CHANGED'] }));
+    });
+
+    it('should create and overwrite secrets in one transaction', async () => {
+      mockRequest.body = { format: 'json', content: '{"NEW":"fresh","CHANGED":"new","SAME":"old"}', conflict: 'overwrite' };
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(encryptForProject).toHaveBeenCalledWith('project-1', 'fresh');
+      expect(encryptForProject).toHaveBeenCalledWith('project-1', 'new');
+      expect(prisma.secret.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'secret-2' },
+        data: expect.objectContaining({ version: { increment: 1 } })
+      }));
+      expect(prisma.secretVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ secretId: 'secret-2', version: 2 })
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Secrets imported successfully',
+        dryRun: false,
+        created: ['NEW'],
+        updated: ['CHANGED'],
+        unchanged: ['SAME'],
+        skipped: []
+      });
+      expect(publishSecretEvents).toHaveBeenCalledWith([
+        { type: 'created', projectId: 'project-1', environmentId: 'env-dev', secretId: 'secret-3', key: 'NEW', version: 1 },
+        { type: 'updated', projectId: 'project-1', environmentId: 'env-dev', secretId: 'secret-2', key: 'CHANGED', version: 2 }
+      ]);
+    });
+
+    it('should refuse to overwrite secrets with values that do not fit their type', async () => {
+      mockRequest.body = { format: 'dotenv', content, conflict: 'overwrite' };
+      (prisma.secret.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'secret-1', key: 'SAME', value: 'stored', type: 'string' },
+        { id: 'secret-2', key: 'CHANGED', value: 'stored', type: 'json' }
+      ]);
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Import contains invalid secrets',
+        invalid: [{ key: 'CHANGED', error: 'Value must be valid JSON' }]
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a dryRun flag that is not a boolean', async () => {
+      mockRequest.body = { format: 'dotenv', content, conflict: 'overwrite', dryRun: 'true' };
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'dryRun must be a boolean' });
+      expect(prisma.project.findFirst).not.toHaveBeenCalled();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject secrets that fail validation', async () => {
+      mockRequest.body = { format: 'dotenv', content: 'EMPTY=\nOK=1\n' };
+
+      await importSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Import contains invalid secrets',
+        invalid: [{ key: 'EMPTY', error: 'Secret key and value are required' }]
+      });
+      expect(prisma.project.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportSecrets', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 'project-1' };
+      mockResponse.setHeader = jest.fn();
+      mockResponse.type = jest.fn().mockReturnThis();
+      mockResponse.send = jest.fn();
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }], name: 'My API' });
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([
+        { key: 'API_KEY', value: 'stored' },
+        { key: 'DB_URL', value: 'stored' }
+      ]);
+      (decryptForProject as jest.Mock).mockResolvedValue('decrypted_value');
+    });
+
+    it('should export decrypted values and record the export', async () => {
+      mockRequest.query = { format: 'dotenv' };
+
+      await exportSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.type).toHaveBeenCalledWith('text/plain');
+      expect(mockResponse.send).toHaveBeenCalledWith('API_KEY=\'decrypted_value\'\nDB_URL=\'decrypted_value\'\n');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="development.env"');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'secret.export',
+          outcome: 'success',
+          projectId: 'project-1',
+          environment: 'development',
+          userId: 'test-user-id',
+          metadata: { format: 'dotenv', keys: 2 }
+        })
+      });
+    });
+
+    it('should export values with their references resolved', async () => {
+      mockRequest.query = { format: 'dotenv' };
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([
+        { key: 'DB_HOST', value: 'host' },
+        { key: 'DB_URL', value: 'url' }
+      ]);
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue({ value: 'host', expiresAt: null });
+      (decryptForProject as jest.Mock).mockImplementation(async (_projectId: string, value: string) => (
+        value === 'host' ? 'db.internal' : 'postgres://${DB_HOST}/app'
+      ));
+
+      await exportSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.send).toHaveBeenCalledWith('DB_HOST=\'db.internal\'\nDB_URL=\'postgres://db.internal/app\'\n');
+      (decryptForProject as jest.Mock).mockResolvedValue('decrypted_value');
+    });
+
+    it('should export unresolvable values as stored and name them', async () => {
+      mockRequest.query = { format: 'dotenv' };
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([
+        { key: 'API_KEY', value: 'key' },
+        { key: 'TEMPLATE', value: 'template' }
+      ]);
+      (prisma.secret.findFirst as jest.Mock).mockResolvedValue(null);
+      (decryptForProject as jest.Mock).mockImplementation(async (_projectId: string, value: string) => (
+        value === 'key' ? 'sk-123' : 'Hello ${name}'
+      ));
+
+      await exportSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.send).toHaveBeenCalledWith('API_KEY=\'sk-123\'\nTEMPLATE=\'Hello ${name}\'\n');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-Unresolved-Secrets', 'TEMPLATE');
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ metadata: { format: 'dotenv', keys: 2, unresolved: ['TEMPLATE'] } })
+      });
+      (decryptForProject as jest.Mock).mockResolvedValue('decrypted_value');
+    });
+
+    it('should name the Kubernetes Secret after the project and environment', async () => {
+      mockRequest.query = { format: 'k8s' };
+
+      await exportSecrets(mockRequest as Request, mockResponse as Response);
+
+      const manifest = (mockResponse.send as jest.Mock).mock.calls[0][0];
+      expect(manifest).toContain('name: my-api-development');
+      expect(manifest).toContain(`API_KEY: ${Buffer.from('decrypted_value').toString('base64')}`);
+    });
+
+    it('should reject unknown formats', async () => {
+      mockRequest.query = { format: 'xml' };
+
+      await exportSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.secret.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not export without the audit entry', async () => {
+      mockRequest.query = { format: 'json' };
+      (prisma.auditLog.create as jest.Mock).mockRejectedValueOnce(new Error('database down'));
+
+      await exportSecrets(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.send).not.toHaveBeenCalled();
+    });
+  });
 });
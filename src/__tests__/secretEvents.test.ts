@@ -0,0 +1,326 @@
+import { Request, Response } from 'express';
+import { streamSecretEvents } from '../api/controllers/secretEventController';
+import { publishSecretEvents, SecretChange } from '../api/services/secretEvents';
+import { PostgresEventBus } from '../infrastructure/events/eventBus';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    database: { url: 'postgresql://localhost:5432/keep_safe' },
+    events: { bus: 'memory', retentionHours: 24, heartbeatSeconds: 25 },
+  },
+}));
+
+// Stands in for the pg client the postgres bus listens with
+const mockClients: (import('events').EventEmitter & { options: unknown; query: jest.Mock; end: jest.Mock })[] = [];
+jest.mock('pg', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return {
+    Client: jest.fn().mockImplementation((options: unknown) => {
+      const client = Object.assign(new EventEmitter(), {
+        options,
+        connect: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue({}),
+        end: jest.fn().mockResolvedValue(undefined),
+      });
+      mockClients.push(client);
+      return client;
+    }),
+  };
+});
+
+jest.mock('../api/services/audit', () => ({
+  __esModule: true,
+  recordAudit: jest.fn(),
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    project: {
+      findFirst: jest.fn(),
+    },
+    environment: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    secretEvent: {
+      createManyAndReturn: jest.fn(),
+      findMany: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+    },
+    serviceToken: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../api/services/webhooks', () => ({
+  __esModule: true,
+  queueWebhookDeliveries: jest.fn(),
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+import { recordAudit } from '../api/services/audit';
+import { queueWebhookDeliveries } from '../api/services/webhooks';
+
+const CREATED_AT = new Date('2026-01-03T09:00:00Z');
+
+function change(key: string, environmentId = 'env-dev'): SecretChange {
+  return { type: 'updated', projectId: 'project-1', environmentId, secretId: `secret-${key}`, key, version: 2 };
+}
+
+describe('Secret events', () => {
+  let mockRequest: Partial<Request & {
+    user?: { userId: string; email: string; sessionId: string };
+    serviceToken?: { id: string; projectId: string; environmentId: string | null; permission: string; canExport: boolean };
+  }>;
+  let written: string[];
+  let closeHandlers: (() => void)[];
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequest = {
+      user: { userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-1' },
+      headers: {},
+      params: { id: 'project-1' },
+      query: {},
+    };
+    written = [];
+    closeHandlers = [];
+    mockResponse = {
+      headersSent: false,
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      flushHeaders: jest.fn(),
+      write: jest.fn((chunk: string) => written.push(chunk) > 0),
+      end: jest.fn(),
+      on: jest.fn((event: string, handler: () => void) => {
+        if (event === 'close') {
+          closeHandlers.push(handler);
+        }
+        return mockResponse as Response;
+      }) as unknown as Response['on'],
+    };
+    (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'metadata' }] });
+    (prisma.environment.findMany as jest.Mock).mockResolvedValue([{ id: 'env-dev', name: 'development' }]);
+  });
+
+  afterEach(() => {
+    // Ends the subscription and the heartbeat of a stream left open
+    closeHandlers.forEach((handler) => handler());
+  });
+
+  it('should replay missed events and then stream new ones of the project', async () => {
+    mockRequest.headers = { 'last-event-id': '7' };
+    (prisma.secretEvent.findMany as jest.Mock).mockResolvedValueOnce([
+      { id: 8, ...change('API_KEY'), createdAt: CREATED_AT, environment: { name: 'development' } }
+    ]);
+
+    await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+
+    expect(prisma.secretEvent.findMany).toHaveBeenCalledWith({
+      where: { projectId: 'project-1', id: { gt: 7 } },
+      include: { environment: { select: { name: true } } },
+      orderBy: { id: 'asc' },
+      take: 500
+    });
+    expect(mockResponse.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+    expect(recordAudit).toHaveBeenCalledWith(mockRequest, expect.objectContaining({ action: 'secret.events' }));
+
+    (prisma.secretEvent.createManyAndReturn as jest.Mock).mockResolvedValueOnce([
+      { id: 9, ...change('DB_URL'), createdAt: CREATED_AT },
+      { id: 10, ...change('OTHER', 'env-prod'), projectId: 'project-2', createdAt: CREATED_AT }
+    ]);
+    await publishSecretEvents([change('DB_URL'), { ...change('OTHER', 'env-prod'), projectId: 'project-2' }]);
+
+    expect(written).toEqual([
+      ': connected\n\n',
+      `id: 8\nevent: updated\ndata: ${JSON.stringify({
+        id: 8,
+        type: 'updated',
+        projectId: 'project-1',
+        environmentId: 'env-dev',
+        environment: 'development',
+        secretId: 'secret-API_KEY',
+        key: 'API_KEY',
+        version: 2,
+        createdAt: CREATED_AT.toISOString()
+      })}\n\n`,
+      expect.stringMatching(/^id: 9\nevent: updated\ndata: .*"key":"DB_URL"/)
+    ]);
+  });
+
+  it('should only stream events of the requested environment', async () => {
+    mockRequest.params = { id: 'project-1', environment: 'production' };
+    (prisma.environment.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'env-prod', name: 'production' });
+
+    await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+
+    (prisma.secretEvent.createManyAndReturn as jest.Mock).mockResolvedValueOnce([
+      { id: 11, ...change('API_KEY'), createdAt: CREATED_AT },
+      { id: 12, ...change('API_KEY', 'env-prod'), createdAt: CREATED_AT }
+    ]);
+    await publishSecretEvents([change('API_KEY'), change('API_KEY', 'env-prod')]);
+
+    expect(prisma.secretEvent.findMany).not.toHaveBeenCalled();
+    expect(written).toEqual([': connected\n\n', expect.stringMatching(/^id: 12\n/)]);
+    // Webhooks get every change of the project, whatever the streams listen to
+    expect(queueWebhookDeliveries).toHaveBeenCalledTimes(2);
+    expect(queueWebhookDeliveries).toHaveBeenCalledWith('project-1', 'secret.updated', expect.objectContaining({
+      id: 12,
+      environmentId: 'env-prod',
+      key: 'API_KEY'
+    }));
+  });
+
+  it('should leave out events of a type it does not know', async () => {
+    mockRequest.headers = { 'last-event-id': '7' };
+    (prisma.secretEvent.findMany as jest.Mock).mockResolvedValueOnce([
+      { id: 8, ...change('API_KEY'), type: 'renamed', createdAt: CREATED_AT, environment: { name: 'development' } },
+      { id: 9, ...change('DB_URL'), createdAt: CREATED_AT, environment: { name: 'development' } }
+    ]);
+
+    await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+
+    expect(written).toEqual([': connected\n\n', expect.stringMatching(/^id: 9\n/)]);
+  });
+
+  it('should stop streaming once the client disconnects', async () => {
+    await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+    closeHandlers.forEach((handler) => handler());
+
+    (prisma.secretEvent.createManyAndReturn as jest.Mock).mockResolvedValueOnce([
+      { id: 13, ...change('API_KEY'), createdAt: CREATED_AT }
+    ]);
+    await publishSecretEvents([change('API_KEY')]);
+
+    expect(written).toEqual([': connected\n\n']);
+  });
+
+  describe('heartbeat', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should keep the stream open while the session and access hold', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+
+      await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+      await jest.advanceTimersByTimeAsync(25_000);
+
+      expect(prisma.session.findUnique).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        select: { revokedAt: true, expiresAt: true }
+      });
+      expect(written).toEqual([': connected\n\n', ': heartbeat\n\n']);
+      expect(mockResponse.end).not.toHaveBeenCalled();
+    });
+
+    it('should end the stream once the session is signed out', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: new Date(), expiresAt: new Date(Date.now() + 60_000) });
+
+      await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+      await jest.advanceTimersByTimeAsync(25_000);
+
+      expect(mockResponse.end).toHaveBeenCalled();
+      expect(written).toEqual([': connected\n\n']);
+    });
+
+    it('should end the stream once the service token is revoked', async () => {
+      mockRequest.user = undefined;
+      mockRequest.serviceToken = { id: 'token-1', projectId: 'project-1', environmentId: null, permission: 'read', canExport: false };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+      (prisma.serviceToken.findUnique as jest.Mock).mockResolvedValue({ revokedAt: new Date(), expiresAt: null });
+
+      await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+      await jest.advanceTimersByTimeAsync(25_000);
+
+      expect(prisma.serviceToken.findUnique).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        select: { revokedAt: true, expiresAt: true }
+      });
+      expect(mockResponse.end).toHaveBeenCalled();
+    });
+  });
+
+  it('should reject an invalid Last-Event-ID', async () => {
+    mockRequest.headers = { 'last-event-id': 'latest' };
+
+    await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Last-Event-ID must be an event id' });
+    expect(prisma.project.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should not stream projects the user cannot access', async () => {
+    (prisma.project.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+    await streamSecretEvents(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(404);
+    expect(mockResponse.flushHeaders).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the change when publishing fails', async () => {
+    (prisma.secretEvent.createManyAndReturn as jest.Mock).mockRejectedValueOnce(new Error('Connection lost'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(publishSecretEvents([change('API_KEY')])).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith('Publish secret events error:', expect.any(Error));
+  });
+});
+
+describe('Postgres event bus', () => {
+  beforeEach(() => {
+    mockClients.length = 0;
+  });
+
+  it('should listen on its own connection and deliver notifications', async () => {
+    const bus = new PostgresEventBus('postgresql://localhost:5432/keep_safe');
+    const listener = jest.fn();
+
+    bus.subscribe(listener);
+    bus.subscribe(jest.fn());
+    await new Promise(process.nextTick);
+
+    expect(mockClients).toHaveLength(1);
+    const [client] = mockClients;
+    expect(client.options).toMatchObject({ connectionString: 'postgresql://localhost:5432/keep_safe' });
+    expect(client.query).toHaveBeenCalledWith('LISTEN keep_safe_events');
+
+    client.emit('notification', { channel: 'keep_safe_events', payload: '{"type":"created","key":"API_KEY"}' });
+    expect(listener).toHaveBeenCalledWith({ type: 'created', key: 'API_KEY' });
+  });
+
+  it('should reconnect once the connection is lost', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined).mockClear();
+    try {
+      new PostgresEventBus('postgresql://localhost:5432/keep_safe').subscribe(jest.fn());
+      await Promise.resolve();
+
+      mockClients[0].emit('error', new Error('Connection terminated'));
+      mockClients[0].emit('end');
+      jest.advanceTimersByTime(5000);
+
+      expect(mockClients).toHaveLength(2);
+      expect(mockClients[0].end).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith('Event bus connection error:', expect.any(Error));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { parseScheduleInput, secretDue, sendSecretReminders } from '../api/services/secretExpiry';
+import { getDueSecrets } from '../api/controllers/secretExpiryController';
+import { getMailer, MemoryMailer } from '../infrastructure/mail/mailer';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    secretReminders: { intervalMinutes: 60, dueSoonDays: 7 },
+    mail: { transport: 'memory', from: 'Keep Safe <no-reply@example.com>', appUrl: 'https://keep-safe.test' }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    secret: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-12-13T09:00:00Z');
+const project = { id: 'project-1', name: 'Payments', organizationId: 'org-1', defaultRotationDays: null };
+
+function daysFromNow(days: number): Date {
+  return new Date(NOW.getTime() + days * DAY_MS);
+}
+
+function scheduledSecret(overrides: object) {
+  return {
+    id: 'secret-1',
+    key: 'API_KEY',
+    expiresAt: null,
+    rotationIntervalDays: null,
+    rotatedAt: daysFromNow(-10),
+    remindedAt: null,
+    environment: { name: 'production' },
+    project,
+    ...overrides
+  };
+}
+
+describe('Secret expiry', () => {
+  let mockResponse: Partial<Response>;
+  const outbox = (getMailer() as MemoryMailer).outbox;
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    outbox.length = 0;
+  });
+
+  describe('secretDue', () => {
+    it('should report the earliest of expiry and rotation within the window', () => {
+      const secret = { expiresAt: daysFromNow(5), rotationIntervalDays: 12, rotatedAt: daysFromNow(-10) };
+
+      expect(secretDue(secret, project, 7, NOW)).toEqual({ status: 'rotation_due', dueAt: daysFromNow(2) });
+      expect(secretDue({ ...secret, expiresAt: daysFromNow(-1) }, project, 7, NOW)).toEqual({ status: 'expired', dueAt: daysFromNow(-1) });
+      expect(secretDue({ ...secret, rotationIntervalDays: null }, project, 3, NOW)).toBeNull();
+    });
+
+    it('should fall back to the project rotation interval', () => {
+      const secret = { expiresAt: null, rotationIntervalDays: null, rotatedAt: daysFromNow(-40) };
+
+      expect(secretDue(secret, project, 7, NOW)).toBeNull();
+      expect(secretDue(secret, { defaultRotationDays: 30 }, 7, NOW)).toEqual({ status: 'rotation_overdue', dueAt: daysFromNow(-10) });
+    });
+  });
+
+  describe('parseScheduleInput', () => {
+    it('should read dates and intervals, and nulls that clear them', () => {
+      expect(parseScheduleInput({})).toEqual({ schedule: {} });
+      expect(parseScheduleInput({ expiresAt: '2026-01-01T00:00:00Z', rotationIntervalDays: 90 })).toEqual({
+        schedule: { expiresAt: new Date('2026-01-01T00:00:00Z'), rotationIntervalDays: 90 }
+      });
+      expect(parseScheduleInput({ expiresAt: null, rotationIntervalDays: null })).toEqual({
+        schedule: { expiresAt: null, rotationIntervalDays: null }
+      });
+    });
+
+    it('should reject invalid dates and intervals', () => {
+      expect(parseScheduleInput({ expiresAt: 'tomorrow' }).error).toBe('expiresAt must be a date-time or null');
+      expect(parseScheduleInput({ expiresAt: 1765616400000 }).error).toBe('expiresAt must be a date-time or null');
+      expect(parseScheduleInput({ rotationIntervalDays: 1.5 }).error).toBe('rotationIntervalDays must be an integer between 1 and 3650 or null');
+      expect(parseScheduleInput({ rotationIntervalDays: 5000 }).error).toBe('rotationIntervalDays must be an integer between 1 and 3650 or null');
+    });
+  });
+
+  describe('getDueSecrets', () => {
+    it('should list due secrets across the user\'s projects, soonest first', async () => {
+      const mockRequest = { user: { userId: 'test-user-id', email: 'test@example.com' }, query: { days: '30' } };
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([
+        scheduledSecret({ id: 'secret-1', key: 'LATER', expiresAt: new Date(Date.now() + 20 * DAY_MS) }),
+        scheduledSecret({ id: 'secret-2', key: 'FAR', expiresAt: new Date(Date.now() + 60 * DAY_MS) }),
+        scheduledSecret({ id: 'secret-3', key: 'GONE', expiresAt: new Date(Date.now() - DAY_MS) })
+      ]);
+
+      await getDueSecrets(mockRequest as unknown as Request, mockResponse as Response);
+
+      const { where } = (prisma.secret.findMany as jest.Mock).mock.calls[0][0];
+      expect(where.AND[0]).toEqual({ project: { OR: expect.any(Array) } });
+      const { days, secrets } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(days).toBe(30);
+      expect(secrets.map(({ key, status }: { key: string; status: string }) => [key, status])).toEqual([
+        ['GONE', 'expired'],
+        ['LATER', 'expiring']
+      ]);
+      expect(secrets[0]).toMatchObject({ environment: 'production', project: { id: 'project-1', name: 'Payments' } });
+    });
+
+    it('should return 400 for an invalid number of days', async () => {
+      const mockRequest = { user: { userId: 'test-user-id', email: 'test@example.com' }, query: { days: '-1' } };
+
+      await getDueSecrets(mockRequest as unknown as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Days must be an integer between 0 and 365' });
+      expect(prisma.secret.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendSecretReminders', () => {
+    it('should email project owners and admins once per secret entering the window', async () => {
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([
+        scheduledSecret({ id: 'secret-1', key: 'API_KEY', expiresAt: daysFromNow(3) }),
+        scheduledSecret({ id: 'secret-2', key: 'DB_PASSWORD', expiresAt: daysFromNow(5), remindedAt: daysFromNow(-1) }),
+        scheduledSecret({ id: 'secret-3', key: 'OLD_TOKEN', expiresAt: daysFromNow(-1), remindedAt: daysFromNow(-5) })
+      ]);
+      (prisma.secret.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.user.findMany as jest.Mock).mockResolvedValue([{ email: 'owner@example.com', name: 'Owner' }]);
+
+      await expect(sendSecretReminders(NOW)).resolves.toBe(2);
+
+      // Reminded already while coming due, but not since it expired
+      expect(prisma.secret.updateMany).toHaveBeenCalledTimes(2);
+      expect(prisma.secret.updateMany).toHaveBeenCalledWith({
+        where: { id: 'secret-3', remindedAt: daysFromNow(-5) },
+        data: { remindedAt: NOW }
+      });
+      expect((prisma.user.findMany as jest.Mock).mock.calls[0][0].where.OR).toHaveLength(3);
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0]).toMatchObject({ to: 'owner@example.com', subject: 'Secrets in Payments need rotating' });
+      expect(outbox[0].text).toContain('- OLD_TOKEN (production) expired on 2025-12-12');
+      expect(outbox[0].text).toContain('- API_KEY (production) expires on 2025-12-16');
+      expect(outbox[0].text).not.toContain('DB_PASSWORD');
+    });
+
+    it('should skip secrets another server claimed first', async () => {
+      (prisma.secret.findMany as jest.Mock).mockResolvedValue([scheduledSecret({ expiresAt: daysFromNow(3) })]);
+      (prisma.secret.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(sendSecretReminders(NOW)).resolves.toBe(0);
+
+      expect(prisma.user.findMany).not.toHaveBeenCalled();
+      expect(outbox).toHaveLength(0);
+    });
+  });
+});
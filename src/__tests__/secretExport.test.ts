@@ -0,0 +1,58 @@
+import { formatSecrets, toKubernetesName } from '../api/services/secretExport';
+import { parseSecretFile } from '../api/services/secretImport';
+
+describe('Secret export formatting', () => {
+  const secrets = {
+    API_KEY: 'sk-123',
+    QUOTED: 'it\'s "here"',
+    CERT: '-----BEGIN-----\nabc\n-----END-----',
+  };
+  const options = { name: 'api-production' };
+
+  it('should write dotenv that reads back unchanged', () => {
+    const result = formatSecrets('dotenv', secrets, options);
+
+    expect(result).toMatchObject({ contentType: 'text/plain', extension: 'env' });
+    expect(parseSecretFile('dotenv', result.content!)).toEqual({ secrets });
+  });
+
+  it('should write JSON and YAML that read back unchanged', () => {
+    expect(parseSecretFile('json', formatSecrets('json', secrets, options).content!)).toEqual({ secrets });
+    expect(parseSecretFile('yaml', formatSecrets('yaml', secrets, options).content!)).toEqual({ secrets });
+  });
+
+  it('should escape single quotes in shell exports', () => {
+    const result = formatSecrets('shell', { NAME: 'it\'s' }, options);
+
+    expect(result.content).toBe('export NAME=\'it\'\\\'\'s\'\n');
+  });
+
+  it('should reject keys that are not valid shell variables', () => {
+    expect(formatSecrets('shell', { 'my-key': 'x' }, options)).toEqual({
+      error: 'Keys cannot be exported as shell: my-key'
+    });
+  });
+
+  it('should write a Kubernetes Secret with base64 data', () => {
+    const result = formatSecrets('k8s', { API_KEY: 'sk-123' }, options);
+
+    expect(result.content).toBe([
+      'apiVersion: v1',
+      'kind: Secret',
+      'metadata:',
+      '  name: api-production',
+      'type: Opaque',
+      'data:',
+      `  API_KEY: ${Buffer.from('sk-123').toString('base64')}`,
+      '',
+    ].join('\n'));
+  });
+
+  it('should derive valid Kubernetes names', () => {
+    expect(toKubernetesName('My API_v2-production')).toBe('my-api-v2-production');
+    expect(toKubernetesName('__')).toBe('secrets');
+    expect(formatSecrets('k8s', {}, { name: 'Not Valid' })).toEqual({
+      error: 'Name must be a valid Kubernetes object name'
+    });
+  });
+});
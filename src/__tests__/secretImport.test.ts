@@ -0,0 +1,51 @@
+import { parseSecretFile } from '../api/services/secretImport';
+
+describe('Secret import parsing', () => {
+  it('should parse dotenv files with quotes, multiline values and export lines', () => {
+    const content = [
+      '# database',
+      'export DATABASE_URL=postgres://localhost/app',
+      'GREETING="hello world"',
+      "SINGLE='keep # this'",
+      'CERT="-----BEGIN-----',
+      'abc',
+      '-----END-----"',
+      'PLAIN=value # comment',
+    ].join('\n');
+
+    expect(parseSecretFile('dotenv', content)).toEqual({
+      secrets: {
+        DATABASE_URL: 'postgres://localhost/app',
+        GREETING: 'hello world',
+        SINGLE: 'keep # this',
+        CERT: '-----BEGIN-----\nabc\n-----END-----',
+        PLAIN: 'value'
+      }
+    });
+  });
+
+  it('should parse flat JSON and keep scalars as strings', () => {
+    expect(parseSecretFile('json', '{"PORT": 8080, "DEBUG": false, "NAME": "api"}')).toEqual({
+      secrets: { PORT: '8080', DEBUG: 'false', NAME: 'api' }
+    });
+  });
+
+  it('should parse flat YAML', () => {
+    expect(parseSecretFile('yaml', 'API_KEY: sk-123\nRETRIES: 3\n')).toEqual({
+      secrets: { API_KEY: 'sk-123', RETRIES: '3' }
+    });
+  });
+
+  it('should reject nested documents', () => {
+    expect(parseSecretFile('yaml', 'database:\n  url: x\n')).toEqual({
+      error: 'Value of "database" must be a string, number or boolean'
+    });
+    expect(parseSecretFile('json', '["a"]')).toEqual({
+      error: 'Import must be a flat object of keys and values'
+    });
+  });
+
+  it('should report invalid syntax', () => {
+    expect(parseSecretFile('json', '{not json')).toEqual({ error: 'Content is not valid JSON' });
+  });
+});
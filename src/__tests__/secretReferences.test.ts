@@ -0,0 +1,78 @@
+import {
+  findReferences,
+  ReferenceLoader,
+  resolveSecretValue,
+  SecretReferenceError
+} from '../api/services/secretReferences';
+
+// Secrets by project, environment name and key; the environment id is its name
+const store: Record<string, string> = {
+  'project-1/development/DB_HOST': 'db.internal',
+  'project-1/development/DATABASE_URL': 'postgres://app@${DB_HOST}:5432/app',
+  'project-1/development/READ_REPLICA_URL': 'postgres://app@replica.${DB_HOST}/app',
+  'project-1/production/DB_HOST': 'db.prod.internal',
+  'project-2/shared/SMTP_HOST': 'smtp.example.com',
+  'project-1/development/LOOP_A': '${LOOP_B}',
+  'project-1/development/LOOP_B': '${LOOP_A}',
+};
+
+const load: ReferenceLoader = async (from, target) => {
+  if (target.projectId === 'project-3') {
+    return { error: 'Project not found' };
+  }
+  const environmentId = target.environment ?? from.environmentId;
+  const value = store[`${target.projectId}/${environmentId}/${target.key}`];
+  return value === undefined ? null : { location: { projectId: target.projectId, environmentId }, value };
+};
+
+const location = { projectId: 'project-1', environmentId: 'development' };
+
+async function resolve(value: string): Promise<string> {
+  return resolveSecretValue(value, location, load, []);
+}
+
+async function resolveError(value: string): Promise<SecretReferenceError> {
+  try {
+    await resolve(value);
+  } catch (error) {
+    return error as SecretReferenceError;
+  }
+  throw new Error('Expected the value not to resolve');
+}
+
+describe('Secret references', () => {
+  it('should resolve references in the same environment, recursively', async () => {
+    await expect(resolve('${DATABASE_URL}?ssl=true')).resolves.toBe('postgres://app@db.internal:5432/app?ssl=true');
+    await expect(resolve('${READ_REPLICA_URL}')).resolves.toBe('postgres://app@replica.db.internal/app');
+  });
+
+  it('should resolve references to other environments and projects', async () => {
+    await expect(resolve('${production/DB_HOST} ${project-2/shared/SMTP_HOST}')).resolves.toBe('db.prod.internal smtp.example.com');
+  });
+
+  it('should keep escaped references and values without references as they are', async () => {
+    await expect(resolve('plain value')).resolves.toBe('plain value');
+    await expect(resolve('$${DB_HOST} is ${DB_HOST}')).resolves.toBe('${DB_HOST} is db.internal');
+    expect(findReferences('$${DB_HOST} ${A} ${b/C}')).toEqual(['A', 'b/C']);
+  });
+
+  it('should report missing, malformed and unreadable references', async () => {
+    await expect(resolveError('${MISSING}')).resolves.toMatchObject({
+      message: 'Secret reference ${MISSING} does not name an existing secret',
+      reference: 'MISSING'
+    });
+    await expect(resolveError('${a/b/c/D}')).resolves.toMatchObject({ message: 'Invalid secret reference ${a/b/c/D}' });
+    await expect(resolveError('${}')).resolves.toBeInstanceOf(SecretReferenceError);
+    await expect(resolveError('${project-3/production/KEY}')).resolves.toMatchObject({
+      message: 'Secret reference ${project-3/production/KEY} cannot be read: Project not found'
+    });
+  });
+
+  it('should detect cycles', async () => {
+    const error = await resolveSecretValue('${LOOP_B}', location, load, ['project-1/development/LOOP_A'])
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SecretReferenceError);
+    expect(error.message).toBe('Secret reference ${LOOP_A} leads back to a secret it is used in');
+  });
+});
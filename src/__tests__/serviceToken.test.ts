@@ -0,0 +1,257 @@
+import { Request, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../api/middleware/auth';
+import { checkProjectAccess, canAccessEnvironment } from '../api/services/projectAccess';
+import { hashServiceToken } from '../api/services/serviceTokens';
+import { createServiceToken, revokeServiceToken } from '../api/controllers/serviceTokenController';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: { jwt: { secret: 'test-secret' } },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    project: {
+      findFirst: jest.fn(),
+    },
+    environment: {
+      findFirst: jest.fn(),
+    },
+    serviceToken: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('Service Tokens', () => {
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('authenticateToken', () => {
+    const token = 'ks_test-token';
+    const storedToken = {
+      id: 'token-1',
+      projectId: 'project-1',
+      environmentId: null,
+      permission: 'read',
+      canExport: false,
+      revokedAt: null,
+      expiresAt: null,
+    };
+
+    function request(): AuthRequest {
+      return { headers: { authorization: `Bearer ${token}` } } as AuthRequest;
+    }
+
+    it('should accept a valid service token and record its use', async () => {
+      (prisma.serviceToken.findUnique as jest.Mock).mockResolvedValue(storedToken);
+      const req = request();
+      const next = jest.fn();
+
+      await authenticateToken(req, mockResponse as Response, next);
+
+      expect(prisma.serviceToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashServiceToken(token) }
+      });
+      expect(prisma.serviceToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { lastUsedAt: expect.any(Date) }
+      });
+      expect(req.serviceToken).toEqual({
+        id: 'token-1',
+        projectId: 'project-1',
+        environmentId: null,
+        permission: 'read',
+        canExport: false
+      });
+      expect(req.user).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should reject revoked tokens', async () => {
+      (prisma.serviceToken.findUnique as jest.Mock).mockResolvedValue({ ...storedToken, revokedAt: new Date() });
+      const next = jest.fn();
+
+      await authenticateToken(request(), mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      (prisma.serviceToken.findUnique as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        expiresAt: new Date(Date.now() - 1000)
+      });
+      const next = jest.fn();
+
+      await authenticateToken(request(), mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens with an unknown permission', async () => {
+      (prisma.serviceToken.findUnique as jest.Mock).mockResolvedValue({ ...storedToken, permission: 'admin' });
+      const req = request();
+      const next = jest.fn();
+
+      await authenticateToken(req, mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(req.serviceToken).toBeUndefined();
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkProjectAccess', () => {
+    function tokenRequest(
+      permission: 'read' | 'write',
+      environmentId: string | null = null,
+      canExport = false,
+    ): AuthRequest {
+      return {
+        serviceToken: { id: 'token-1', projectId: 'project-1', environmentId, permission, canExport }
+      } as AuthRequest;
+    }
+
+    it('should not let a token reach another project', async () => {
+      const result = await checkProjectAccess(tokenRequest('write'), 'project-2', 'read');
+
+      expect(result).toEqual({ status: 404, error: 'Project not found' });
+      expect(prisma.project.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should refuse writes with a read-only token', async () => {
+      const result = await checkProjectAccess(tokenRequest('read'), 'project-1', 'write');
+
+      expect(result).toEqual({ status: 403, error: 'Token does not have write access' });
+    });
+
+    it('should allow reads with a read-only token', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+
+      const result = await checkProjectAccess(tokenRequest('read'), 'project-1', 'read');
+
+      expect(result).toEqual({ project: { id: 'project-1' } });
+    });
+
+    it('should require the export grant to export', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1' });
+
+      await expect(checkProjectAccess(tokenRequest('write'), 'project-1', 'export')).resolves.toEqual({
+        status: 403,
+        error: 'Token does not have export access'
+      });
+      await expect(checkProjectAccess(tokenRequest('read', null, true), 'project-1', 'export')).resolves.toEqual({
+        project: { id: 'project-1' }
+      });
+    });
+
+    it('should never let a token manage the project', async () => {
+      await expect(checkProjectAccess(tokenRequest('write'), 'project-1', 'manage')).resolves.toEqual({
+        status: 403,
+        error: 'Service tokens cannot manage projects'
+      });
+    });
+
+    it('should restrict tokens to their environment', () => {
+      expect(canAccessEnvironment(tokenRequest('read', 'env-prod'), 'env-prod')).toBe(true);
+      expect(canAccessEnvironment(tokenRequest('read', 'env-prod'), 'env-dev')).toBe(false);
+      expect(canAccessEnvironment(tokenRequest('read'), 'env-dev')).toBe(true);
+    });
+  });
+
+  describe('createServiceToken', () => {
+    let mockRequest: Partial<Request & { user?: { userId: string; email: string } }>;
+
+    beforeEach(() => {
+      mockRequest = {
+        user: { userId: 'test-user-id', email: 'test@example.com' },
+        params: { id: 'project-1' },
+        body: { name: 'CI', permission: 'read', environment: 'production' },
+      };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'admin' }] });
+      (prisma.environment.findFirst as jest.Mock).mockResolvedValue({ id: 'env-prod', name: 'production' });
+      (prisma.serviceToken.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'token-1', ...data }));
+    });
+
+    it('should store only the hash and return the token once', async () => {
+      await createServiceToken(mockRequest as AuthRequest, mockResponse as Response);
+
+      const data = (prisma.serviceToken.create as jest.Mock).mock.calls[0][0].data;
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(body.token).toMatch(/^ks_/);
+      expect(data.tokenHash).toBe(hashServiceToken(body.token));
+      expect(data).not.toHaveProperty('token');
+      expect(data.environmentId).toBe('env-prod');
+      expect(data.createdById).toBe('test-user-id');
+    });
+
+    it('should require a role that can manage the project', async () => {
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'writer' }] });
+
+      await createServiceToken(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.serviceToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown permission', async () => {
+      mockRequest.body.permission = 'admin';
+
+      await createServiceToken(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.serviceToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let service tokens create tokens', async () => {
+      const req = {
+        params: { id: 'project-1' },
+        body: { name: 'CI', permission: 'write' },
+        serviceToken: { id: 'token-1', projectId: 'project-1', environmentId: null, permission: 'write', canExport: false },
+      } as unknown as AuthRequest;
+
+      await createServiceToken(req, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(prisma.serviceToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeServiceToken', () => {
+    it('should mark the token as revoked', async () => {
+      const req = {
+        user: { userId: 'test-user-id', email: 'test@example.com' },
+        params: { id: 'project-1', tokenId: 'token-1' },
+      } as unknown as AuthRequest;
+      (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'owner' }] });
+      (prisma.serviceToken.findFirst as jest.Mock).mockResolvedValue({ id: 'token-1', revokedAt: null });
+
+      await revokeServiceToken(req, mockResponse as Response);
+
+      expect(prisma.serviceToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { revokedAt: expect.any(Date) }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Service token revoked successfully' });
+    });
+  });
+});
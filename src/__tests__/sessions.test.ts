@@ -0,0 +1,212 @@
+import { Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticateToken, AuthRequest } from '../api/middleware/auth';
+import { createSession, rotateRefreshToken, verifyAccessToken } from '../api/services/sessions';
+import { signJwt } from '../infrastructure/crypto/signingKeys';
+import { logout } from '../api/controllers/authController';
+import { revokeSession } from '../api/controllers/sessionController';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: {
+      secret: 'test-secret',
+      expiresIn: '15m',
+      refreshTokenTtlDays: 30,
+      algorithm: 'RS256',
+      issuer: 'http://localhost:4000',
+      audience: 'keep-safe-api',
+      keyRotationDays: 30,
+      keyOverlapHours: 24
+    },
+    encryption: { provider: 'env' }
+  },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const signingKeys: { expiresAt: Date }[] = [];
+  const client = {
+    session: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    refreshToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    signingKey: {
+      findMany: jest.fn(async () => signingKeys),
+      create: jest.fn(async ({ data }) => {
+        signingKeys.push(data);
+        return data;
+      }),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+describe('Sessions', () => {
+  const user = { id: 'user-1', email: 'test@example.com' };
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  });
+
+  describe('createSession', () => {
+    it('should bind the access token to a new session and store only the refresh token hash', async () => {
+      (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1' });
+
+      const tokens = await createSession(user, { ip: '127.0.0.1', userAgent: 'jest' });
+
+      const data = (prisma.session.create as jest.Mock).mock.calls[0][0].data;
+      expect(data.refreshTokens.create.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(data.refreshTokens.create.tokenHash).not.toBe(tokens.refreshToken);
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+      await expect(verifyAccessToken(tokens.token)).resolves.toEqual({ userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    const storedToken = {
+      id: 'refresh-1',
+      session: { id: 'session-1', revokedAt: null, expiresAt: new Date(Date.now() + 60000), user },
+    };
+
+    it('should issue a new refresh token and retire the old one', async () => {
+      (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(storedToken);
+      (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const result = await rotateRefreshToken('old-token', {});
+
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refresh-1', usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+      expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session-1', tokenHash: expect.any(String) }
+      });
+      expect(result.tokens?.refreshToken).not.toBe('old-token');
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when a used token is presented again', async () => {
+      (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(storedToken);
+      (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const result = await rotateRefreshToken('old-token', {});
+
+      expect(result).toEqual({ status: 401, error: 'Refresh token reuse detected; the session has been revoked' });
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'reuse' }
+      });
+    });
+
+    it('should refuse tokens of a revoked session', async () => {
+      (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        session: { ...storedToken.session, revokedAt: new Date() }
+      });
+
+      const result = await rotateRefreshToken('old-token', {});
+
+      expect(result).toEqual({ status: 401, error: 'Session has expired or been revoked' });
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticateToken', () => {
+    async function request(payload: Record<string, unknown>): Promise<AuthRequest> {
+      const token = await signJwt(payload, 900);
+      return { headers: { authorization: `Bearer ${token}` } } as AuthRequest;
+    }
+
+    it('should accept access tokens of an active session', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60000) });
+      const req = await request({ userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' });
+      const next = jest.fn();
+
+      await authenticateToken(req, mockResponse as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toEqual({ userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' });
+    });
+
+    it('should reject access tokens of a revoked session', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: new Date(), expiresAt: new Date(Date.now() + 60000) });
+      const next = jest.fn();
+
+      await authenticateToken(await request({ userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' }), mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Session has been revoked' });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens signed with the shared secret', async () => {
+      const token = jwt.sign({ userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' }, 'test-secret');
+      const next = jest.fn();
+
+      await authenticateToken({ headers: { authorization: `Bearer ${token}` } } as AuthRequest, mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.session.findUnique).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens without a session', async () => {
+      const next = jest.fn();
+
+      await authenticateToken(await request({ userId: 'user-1', email: 'test@example.com' }), mockResponse as Response, next);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout and revocation', () => {
+    const currentUser = { userId: 'user-1', email: 'test@example.com', sessionId: 'session-1' };
+
+    it('should revoke the current session on logout', async () => {
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await logout({ user: currentUser } as AuthRequest, mockResponse as Response);
+
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'logout' }
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Logged out successfully' });
+    });
+
+    it('should only revoke sessions of the caller', async () => {
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      const req = { user: currentUser, params: { sessionId: 'someone-elses' } } as unknown as AuthRequest;
+
+      await revokeSession(req, mockResponse as Response);
+
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'someone-elses', userId: 'user-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'revoked' }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+});
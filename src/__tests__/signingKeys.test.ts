@@ -0,0 +1,209 @@
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { durationSeconds } from '../infrastructure/crypto/jws';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: {
+      secret: 'test-secret',
+      expiresIn: '15m',
+      refreshTokenTtlDays: 30,
+      algorithm: 'RS256',
+      issuer: 'http://localhost:4000',
+      audience: 'keep-safe-api',
+      keyRotationDays: 30,
+      keyOverlapHours: 24
+    },
+    encryption: { provider: 'env' }
+  },
+}));
+
+// Mock the prisma import with a table that honours the queries the keys are read with.
+// Every copy of the module shares it, like servers sharing a database.
+const mockSigningKeys: { activatesAt: Date; retiresAt: Date; expiresAt: Date }[] = [];
+jest.mock('../infrastructure/db/prisma', () => {
+  const keys = mockSigningKeys;
+  return {
+    __esModule: true,
+    default: {
+      signingKey: {
+        findMany: jest.fn(async ({ where }) => keys
+          .filter((key) => key.expiresAt > where.expiresAt.gt)
+          .sort((a, b) => a.activatesAt.getTime() - b.activatesAt.getTime())
+          .map((key) => ({ ...key }))),
+        create: jest.fn(async ({ data }) => {
+          const key = { ...data, createdAt: new Date() };
+          keys.push(key);
+          return key;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const matched = keys.filter((key) => key.activatesAt <= where.activatesAt.lte && key.retiresAt > where.retiresAt.gt);
+          matched.forEach((key) => Object.assign(key, data));
+          return { count: matched.length };
+        }),
+      },
+    },
+  };
+});
+
+// One event bus for every copy of the module as well
+const mockListeners = new Set<(event: unknown) => void>();
+jest.mock('../infrastructure/events/eventBus', () => ({
+  getEventBus: () => ({
+    publish: async (event: object) => mockListeners.forEach((listener) => listener(JSON.parse(JSON.stringify(event)))),
+    subscribe: (listener: (event: unknown) => void) => {
+      mockListeners.add(listener);
+      return () => mockListeners.delete(listener);
+    }
+  })
+}));
+
+type SigningKeys = typeof import('../infrastructure/crypto/signingKeys');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = new Date('2025-12-01T00:00:00Z').getTime();
+
+describe('Signing keys', () => {
+  let signingKeys: SigningKeys;
+  let config: { jwt: { algorithm: string; issuer: string; audience: string } };
+  let prisma: { signingKey: { create: jest.Mock } };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    // Every test starts without keys and with cold caches
+    mockSigningKeys.length = 0;
+    mockListeners.clear();
+    jest.isolateModules(() => {
+      signingKeys = require('../infrastructure/crypto/signingKeys');
+      config = require('../infrastructure/config').default;
+      prisma = require('../infrastructure/db/prisma').default;
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function header(token: string) {
+    return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+  }
+
+  it('should create the first key on demand and sign tokens that verify', async () => {
+    const token = await signingKeys.signJwt({ userId: 'user-1' }, 900);
+
+    const [key] = await signingKeys.listSigningKeys();
+    expect(header(token)).toEqual({ alg: 'RS256', typ: 'JWT', kid: key.id });
+    expect(key.privateKey).not.toContain('PRIVATE KEY');
+    await expect(signingKeys.verifyJwt(token)).resolves.toMatchObject({
+      userId: 'user-1',
+      iss: 'http://localhost:4000',
+      aud: 'keep-safe-api',
+      exp: START / 1000 + 900
+    });
+  });
+
+  it('should refuse tokens for another issuer or audience, tampered, expired or unsigned ones', async () => {
+    const token = await signingKeys.signJwt({ userId: 'user-1' }, 900);
+    const [encodedHeader, , signature] = token.split('.');
+    const tampered = `${encodedHeader}.${Buffer.from(JSON.stringify({ userId: 'admin' })).toString('base64url')}.${signature}`;
+
+    await expect(signingKeys.verifyJwt(tampered)).resolves.toBeNull();
+    await expect(signingKeys.verifyJwt(jwt.sign({ userId: 'user-1' }, 'test-secret'))).resolves.toBeNull();
+
+    config.jwt.audience = 'another-api';
+    await expect(signingKeys.verifyJwt(token)).resolves.toBeNull();
+    config.jwt.audience = 'keep-safe-api';
+    config.jwt.issuer = 'https://elsewhere.example';
+    await expect(signingKeys.verifyJwt(token)).resolves.toBeNull();
+    config.jwt.issuer = 'http://localhost:4000';
+
+    jest.setSystemTime(START + 901 * 1000);
+    await expect(signingKeys.verifyJwt(token)).resolves.toBeNull();
+  });
+
+  it('should publish the next key ahead of rotation and keep the old one for the overlap', async () => {
+    const first = await signingKeys.signJwt({}, 900);
+
+    // Not yet within the overlap of the first key retiring
+    jest.setSystemTime(START + 28 * DAY_MS);
+    await signingKeys.signJwt({}, 900);
+    expect(await signingKeys.getPublishedKeys()).toHaveLength(1);
+
+    jest.setSystemTime(START + 29 * DAY_MS + 1);
+    const published = await signingKeys.getPublishedKeys();
+    expect(published.map(({ kid }) => kid)).toEqual([header(first).kid, expect.any(String)]);
+
+    jest.setSystemTime(START + 30 * DAY_MS - 60 * 1000);
+    const beforeRotation = await signingKeys.signJwt({}, 900);
+    expect(header(beforeRotation).kid).toBe(header(first).kid);
+
+    jest.setSystemTime(START + 30 * DAY_MS);
+    const afterRotation = await signingKeys.signJwt({}, 900);
+    expect(header(afterRotation).kid).toBe(published[1].kid);
+    await expect(signingKeys.verifyJwt(beforeRotation)).resolves.not.toBeNull();
+
+    jest.setSystemTime(START + 31 * DAY_MS + 1);
+    expect((await signingKeys.getPublishedKeys()).map(({ kid }) => kid)).toEqual([published[1].kid]);
+    expect(prisma.signingKey.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should publish public keys only', async () => {
+    const res = { set: jest.fn(), json: jest.fn(), status: jest.fn().mockReturnThis() };
+    let getJwks!: (req: Request, res: Response) => Promise<void>;
+    jest.isolateModules(() => {
+      ({ getJwks } = require('../api/controllers/jwksController'));
+    });
+
+    await getJwks({} as Request, res as unknown as Response);
+
+    const { keys } = res.json.mock.calls[0][0];
+    expect(keys).toEqual([expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig', kid: expect.any(String) })]);
+    expect(keys[0].d).toBeUndefined();
+    expect(res.set).toHaveBeenCalledWith('Cache-Control', expect.stringContaining('max-age'));
+  });
+
+  it('should switch to EdDSA keys while tokens of the RSA key stay valid', async () => {
+    const rsaToken = await signingKeys.signJwt({}, 900);
+
+    config.jwt.algorithm = 'EdDSA';
+    const edToken = await signingKeys.signJwt({}, 900);
+    config.jwt.algorithm = 'RS256';
+
+    expect(header(edToken).alg).toBe('EdDSA');
+    await expect(signingKeys.verifyJwt(edToken)).resolves.not.toBeNull();
+    await expect(signingKeys.verifyJwt(rsaToken)).resolves.not.toBeNull();
+    expect((await signingKeys.getPublishedKeys()).map(({ kty }) => kty)).toEqual(['RSA', 'OKP']);
+  });
+
+  it('should stop accepting tokens of a revoked key', async () => {
+    const token = await signingKeys.signJwt({}, 900);
+
+    const replacement = await signingKeys.rotateSigningKey({ revoke: true });
+
+    await expect(signingKeys.verifyJwt(token)).resolves.toBeNull();
+    expect(header(await signingKeys.signJwt({}, 900)).kid).toBe(replacement.id);
+  });
+
+  it('should stop accepting tokens of a key another server revoked', async () => {
+    let otherServer!: SigningKeys;
+    jest.isolateModules(() => {
+      otherServer = require('../infrastructure/crypto/signingKeys');
+    });
+    signingKeys.watchSigningKeys();
+    const token = await signingKeys.signJwt({}, 900);
+    await expect(signingKeys.verifyJwt(token)).resolves.not.toBeNull();
+
+    await otherServer.rotateSigningKey({ revoke: true });
+
+    await expect(signingKeys.verifyJwt(token)).resolves.toBeNull();
+  });
+
+  it('should parse token lifetimes', () => {
+    expect(durationSeconds('900')).toBe(900);
+    expect(durationSeconds('15m')).toBe(900);
+    expect(durationSeconds('12h')).toBe(12 * 60 * 60);
+    expect(() => durationSeconds('soon')).toThrow('Invalid duration');
+  });
+});
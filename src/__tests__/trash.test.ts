@@ -0,0 +1,53 @@
+import { purgeAt, purgeExpiredTrash } from '../api/services/trash';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: { trash: { retentionDays: 30, purgeIntervalMinutes: 60 } },
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => {
+  const client = {
+    project: {
+      findMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    projectKey: {
+      deleteMany: jest.fn(),
+    },
+    secret: {
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+
+const NOW = new Date('2025-12-31T00:00:00Z');
+
+describe('Trash', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should purge items once the retention period is over', () => {
+    expect(purgeAt(new Date('2025-12-01T00:00:00Z'))).toEqual(NOW);
+  });
+
+  it('should purge projects and secrets deleted before the retention period', async () => {
+    (prisma.project.findMany as jest.Mock).mockResolvedValue([{ id: 'project-1' }, { id: 'project-2' }]);
+    (prisma.secret.deleteMany as jest.Mock).mockResolvedValue({ count: 3 });
+
+    await expect(purgeExpiredTrash(NOW)).resolves.toEqual({ projects: 2, secrets: 3 });
+
+    const cutoff = new Date('2025-12-01T00:00:00Z');
+    expect(prisma.project.findMany).toHaveBeenCalledWith({ where: { deletedAt: { lte: cutoff } }, select: { id: true } });
+    expect(prisma.secret.deleteMany).toHaveBeenCalledWith({ where: { deletedAt: { lte: cutoff } } });
+    expect(prisma.projectKey.deleteMany).toHaveBeenCalledWith({ where: { projectId: 'project-1' } });
+    expect(prisma.project.delete).toHaveBeenCalledWith({ where: { id: 'project-2' } });
+  });
+});
@@ -0,0 +1,469 @@
+import { createHmac } from 'crypto';
+import { EventEmitter } from 'events';
+import https from 'https';
+import { Request, Response } from 'express';
+import {
+  checkWebhookTarget,
+  deliverDueWebhooks,
+  parseWebhookInput,
+  queueWebhookDeliveries,
+  retryDelayMs,
+  signWebhookPayload
+} from '../api/services/webhooks';
+import { createWebhook, getWebhookDeliveries, redeliverWebhook } from '../api/controllers/webhookController';
+
+jest.mock('../infrastructure/config', () => ({
+  __esModule: true,
+  default: {
+    webhooks: {
+      deliveryIntervalSeconds: 10,
+      maxAttempts: 3,
+      retryBaseSeconds: 30,
+      timeoutSeconds: 10,
+      logRetentionDays: 30,
+      allowHttp: true,
+      allowedPrivateHosts: ['deploy.internal']
+    },
+  },
+}));
+
+jest.mock('dns/promises', () => ({
+  __esModule: true,
+  lookup: jest.fn()
+}));
+
+// Mock the prisma import
+jest.mock('../infrastructure/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    project: {
+      findFirst: jest.fn(),
+    },
+    webhook: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    webhookDelivery: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      createMany: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock the project key service
+jest.mock('../infrastructure/crypto/projectKeys', () => ({
+  __esModule: true,
+  encryptForProject: jest.fn(async () => 'encrypted_secret'),
+  decryptForProject: jest.fn(async () => 'whsec_test')
+}));
+
+// Import the mocked prisma
+import prisma from '../infrastructure/db/prisma';
+import config from '../infrastructure/config';
+import { lookup } from 'dns/promises';
+import { encryptForProject } from '../infrastructure/crypto/projectKeys';
+
+const PAYLOAD = JSON.stringify({ event: 'secret.updated', projectId: 'project-1', data: { key: 'API_KEY', version: 2 } });
+
+function dueDelivery(attempts = 0) {
+  return {
+    id: 'delivery-1',
+    event: 'secret.updated',
+    payload: PAYLOAD,
+    attempts,
+    nextAttemptAt: new Date('2026-01-10T09:00:00Z'),
+    webhook: { url: 'https://deploy.example.com/hook', secret: 'encrypted_secret', projectId: 'project-1' }
+  };
+}
+
+describe('Webhooks', () => {
+  let mockRequest: Partial<Request & { user?: { userId: string; email: string } }>;
+  let mockResponse: Partial<Response>;
+  let requestMock: jest.SpyInstance;
+
+  // Stands in for the endpoint: answers with the status, or fails the request with the error
+  function endpointResponds(outcome: number | Error) {
+    requestMock.mockImplementationOnce((_url, _options, callback) => {
+      const req = Object.assign(new EventEmitter(), {
+        end: jest.fn(() => process.nextTick(() => (
+          outcome instanceof Error ? req.emit('error', outcome) : callback({ statusCode: outcome, resume: jest.fn() })
+        )))
+      });
+      return req;
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequest = {
+      user: { userId: 'test-user-id', email: 'test@example.com' },
+      body: {},
+      params: { id: 'project-1' },
+      query: {},
+    };
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+    };
+    (prisma.project.findFirst as jest.Mock).mockResolvedValue({ id: 'project-1', members: [{ role: 'admin' }] });
+    (prisma.webhookDelivery.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (lookup as jest.Mock).mockResolvedValue([{ address: '93.184.215.14', family: 4 }]);
+    requestMock = jest.spyOn(https, 'request');
+  });
+
+  afterEach(() => {
+    requestMock.mockRestore();
+  });
+
+  describe('parseWebhookInput', () => {
+    it('should accept http and https URLs with known events only', () => {
+      expect(parseWebhookInput({ url: 'ftp://example.com' }).error).toBe('url must be an http or https URL');
+      expect(parseWebhookInput({ events: ['secret.read'] }).error).toMatch(/^events must be a non-empty array of/);
+      expect(parseWebhookInput({ events: [] }).error).toMatch(/^events must be a non-empty array of/);
+      expect(parseWebhookInput({ url: ' https://example.com/hook ', events: ['member.added', 'member.added'] })).toEqual({
+        webhook: { url: 'https://example.com/hook', events: ['member.added'] }
+      });
+    });
+
+    it('should only accept https URLs unless http is allowed', () => {
+      config.webhooks.allowHttp = false;
+      try {
+        expect(parseWebhookInput({ url: 'http://example.com/hook' }).error).toBe('url must be an https URL');
+        expect(parseWebhookInput({ url: 'https://example.com/hook' }).error).toBeUndefined();
+      } finally {
+        config.webhooks.allowHttp = true;
+      }
+    });
+  });
+
+  describe('checkWebhookTarget', () => {
+    it('should accept hosts resolving to public addresses only', async () => {
+      await expect(checkWebhookTarget('https://deploy.example.com/hook')).resolves.toBeNull();
+      expect(lookup).toHaveBeenCalledWith('deploy.example.com', { all: true, verbatim: true });
+
+      (lookup as jest.Mock).mockResolvedValueOnce([
+        { address: '93.184.215.14', family: 4 },
+        { address: '10.0.0.5', family: 4 }
+      ]);
+      await expect(checkWebhookTarget('https://deploy.example.com/hook')).resolves.toBe(
+        'url must not point at a loopback, link-local or private address'
+      );
+    });
+
+    it.each([
+      ['127.0.0.1', 4],
+      ['169.254.169.254', 4],
+      ['172.20.1.1', 4],
+      ['192.168.1.10', 4],
+      ['::1', 6],
+      ['fe80::1', 6],
+      ['fd12:3456::1', 6],
+      ['::ffff:127.0.0.1', 6]
+    ])('should refuse %s', async (address, family) => {
+      (lookup as jest.Mock).mockResolvedValueOnce([{ address, family }]);
+
+      await expect(checkWebhookTarget('https://internal.example.com/hook')).resolves.toBe(
+        'url must not point at a loopback, link-local or private address'
+      );
+    });
+
+    it('should let allowed hosts reach private addresses', async () => {
+      await expect(checkWebhookTarget('https://Deploy.Internal:8443/hook')).resolves.toBeNull();
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('should refuse hosts that do not resolve', async () => {
+      (lookup as jest.Mock).mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(checkWebhookTarget('https://nowhere.example.com/hook')).resolves.toBe(
+        'url host nowhere.example.com could not be resolved'
+      );
+    });
+  });
+
+  it('should sign the timestamp and body', () => {
+    const expected = createHmac('sha256', 'whsec_test').update(`1767949200.${PAYLOAD}`).digest('hex');
+    expect(signWebhookPayload('whsec_test', 1767949200, PAYLOAD)).toBe(`sha256=${expected}`);
+  });
+
+  it('should double the wait with every retry', () => {
+    expect([1, 2, 3].map(retryDelayMs)).toEqual([30000, 60000, 120000]);
+  });
+
+  describe('queueWebhookDeliveries', () => {
+    it('should queue the event for the active webhooks subscribed to it', async () => {
+      (prisma.webhook.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'webhook-1' }, { id: 'webhook-2' }]);
+
+      await queueWebhookDeliveries('project-1', 'secret.updated', { key: 'API_KEY', version: 2 });
+
+      expect(prisma.webhook.findMany).toHaveBeenCalledWith({
+        where: { projectId: 'project-1', active: true, events: { has: 'secret.updated' } },
+        select: { id: true }
+      });
+      const { data } = (prisma.webhookDelivery.createMany as jest.Mock).mock.calls[0][0];
+      expect(data.map((row: { webhookId: string }) => row.webhookId)).toEqual(['webhook-1', 'webhook-2']);
+      expect(JSON.parse(data[0].payload)).toEqual({
+        event: 'secret.updated',
+        projectId: 'project-1',
+        occurredAt: expect.any(String),
+        data: { key: 'API_KEY', version: 2 }
+      });
+    });
+
+    it('should not queue anything without subscribed webhooks', async () => {
+      (prisma.webhook.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      await queueWebhookDeliveries('project-1', 'member.added', { userId: 'user-2' });
+
+      expect(prisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliverDueWebhooks', () => {
+    it('should send signed deliveries and record the response', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([dueDelivery()]);
+      endpointResponds(204);
+
+      await expect(deliverDueWebhooks()).resolves.toBe(1);
+
+      expect(prisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: { id: 'delivery-1', status: 'pending', nextAttemptAt: new Date('2026-01-10T09:00:00Z') },
+        data: { nextAttemptAt: expect.any(Date) }
+      });
+      const [url, options] = requestMock.mock.calls[0];
+      expect(url.href).toBe('https://deploy.example.com/hook');
+      expect(options.method).toBe('POST');
+      expect(requestMock.mock.results[0].value.end).toHaveBeenCalledWith(PAYLOAD);
+      expect(options.headers['X-Keep-Safe-Delivery']).toBe('delivery-1');
+      expect(options.headers['X-Keep-Safe-Signature']).toBe(
+        signWebhookPayload('whsec_test', Number(options.headers['X-Keep-Safe-Timestamp']), PAYLOAD)
+      );
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: {
+          status: 'succeeded',
+          attempts: 1,
+          nextAttemptAt: null,
+          lastAttemptAt: expect.any(Date),
+          responseStatus: 204,
+          error: null
+        }
+      });
+    });
+
+    it('should retry failed deliveries with backoff', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([dueDelivery(1)]);
+      endpointResponds(502);
+
+      const before = Date.now();
+      await expect(deliverDueWebhooks()).resolves.toBe(0);
+
+      const { data } = (prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0];
+      expect(data).toMatchObject({
+        status: 'pending',
+        attempts: 2,
+        responseStatus: 502,
+        error: 'Endpoint responded with status 502'
+      });
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('should give up after the last attempt', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([dueDelivery(2)]);
+      endpointResponds(new Error('connect ECONNREFUSED'));
+
+      await deliverDueWebhooks();
+
+      expect((prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        nextAttemptAt: null,
+        responseStatus: null,
+        error: 'connect ECONNREFUSED'
+      });
+    });
+
+    it('should connect to the addresses that were checked without resolving the host again', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([dueDelivery()]);
+      endpointResponds(204);
+
+      await deliverDueWebhooks();
+
+      const { lookup: connectLookup } = requestMock.mock.calls[0][1];
+      const callback = jest.fn();
+      connectLookup('deploy.example.com', { all: true }, callback);
+      connectLookup('deploy.example.com', {}, callback);
+      expect(callback).toHaveBeenNthCalledWith(1, null, [{ address: '93.184.215.14', family: 4 }]);
+      expect(callback).toHaveBeenNthCalledWith(2, null, '93.184.215.14', 4);
+      expect(lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send deliveries to a host that now resolves to a private address', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([dueDelivery()]);
+      (lookup as jest.Mock).mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }]);
+
+      await expect(deliverDueWebhooks()).resolves.toBe(0);
+
+      expect(requestMock).not.toHaveBeenCalled();
+      expect((prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        responseStatus: null,
+        error: 'url must not point at a loopback, link-local or private address'
+      });
+    });
+
+    it('should skip deliveries without a scheduled attempt', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([{ ...dueDelivery(), nextAttemptAt: null }]);
+
+      await deliverDueWebhooks();
+
+      expect(prisma.webhookDelivery.updateMany).not.toHaveBeenCalled();
+      expect(requestMock).not.toHaveBeenCalled();
+    });
+
+    it('should skip deliveries another server claimed', async () => {
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([dueDelivery()]);
+      (prisma.webhookDelivery.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+      await deliverDueWebhooks();
+
+      expect(requestMock).not.toHaveBeenCalled();
+      expect(prisma.webhookDelivery.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createWebhook', () => {
+    it('should store the signing secret encrypted and show it once', async () => {
+      const webhook = { id: 'webhook-1', url: 'https://deploy.example.com/hook', events: ['secret.updated'] };
+      mockRequest.body = { url: 'https://deploy.example.com/hook', events: ['secret.updated'] };
+      (prisma.webhook.create as jest.Mock).mockResolvedValueOnce(webhook);
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      const { secret } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(secret).toMatch(/^whsec_/);
+      expect(encryptForProject).toHaveBeenCalledWith('project-1', secret);
+      expect((prisma.webhook.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        projectId: 'project-1',
+        url: 'https://deploy.example.com/hook',
+        events: ['secret.updated'],
+        active: true,
+        secret: 'encrypted_secret',
+        createdById: 'test-user-id'
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ webhook }));
+    });
+
+    it('should require the URL and events', async () => {
+      mockRequest.body = { url: 'https://deploy.example.com/hook' };
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'url and events are required' });
+      expect(prisma.webhook.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse endpoints on private addresses', async () => {
+      mockRequest.body = { url: 'https://metadata.example.com/hook', events: ['secret.updated'] };
+      (lookup as jest.Mock).mockResolvedValueOnce([{ address: '169.254.169.254', family: 4 }]);
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'url must not point at a loopback, link-local or private address'
+      });
+      expect(prisma.webhook.create).not.toHaveBeenCalled();
+    });
+
+    it('should only let owners and admins manage webhooks', async () => {
+      mockRequest.body = { url: 'https://deploy.example.com/hook', events: ['secret.updated'] };
+      (prisma.project.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'project-1', members: [{ role: 'writer' }] });
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(prisma.webhook.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWebhookDeliveries', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 'project-1', webhookId: 'webhook-1' };
+    });
+
+    it('should filter by status', async () => {
+      mockRequest.query = { status: 'failed' };
+      (prisma.webhook.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'webhook-1' });
+      (prisma.webhookDelivery.findMany as jest.Mock).mockResolvedValueOnce([]);
+      (prisma.webhookDelivery.count as jest.Mock).mockResolvedValueOnce(0);
+
+      await getWebhookDeliveries(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.webhookDelivery.count).toHaveBeenCalledWith({ where: { webhookId: 'webhook-1', status: 'failed' } });
+      expect(mockResponse.json).toHaveBeenCalledWith({ deliveries: [], pagination: { limit: 50, total: 0, nextCursor: null } });
+    });
+
+    it('should reject unknown or repeated delivery statuses', async () => {
+      mockRequest.query = { status: 'delivered' };
+
+      await getWebhookDeliveries(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Status must be one of: pending, succeeded, failed' });
+
+      mockRequest.query = { status: ['pending', 'failed'] };
+
+      await getWebhookDeliveries(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenLastCalledWith({ error: 'Status must be one of: pending, succeeded, failed' });
+      expect(prisma.project.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redeliverWebhook', () => {
+    it('should queue the payload again as a new delivery', async () => {
+      mockRequest.params = { id: 'project-1', webhookId: 'webhook-1', deliveryId: 'delivery-1' };
+      (prisma.webhookDelivery.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'delivery-1', event: 'secret.updated', payload: PAYLOAD });
+      (prisma.webhookDelivery.create as jest.Mock).mockResolvedValueOnce({ id: 'delivery-2', status: 'pending' });
+
+      await redeliverWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(prisma.webhookDelivery.findFirst).toHaveBeenCalledWith({
+        where: { id: 'delivery-1', webhookId: 'webhook-1', webhook: { projectId: 'project-1' } },
+        select: { id: true, event: true, payload: true }
+      });
+      expect((prisma.webhookDelivery.create as jest.Mock).mock.calls[0][0].data).toEqual({
+        webhookId: 'webhook-1',
+        event: 'secret.updated',
+        payload: PAYLOAD,
+        redeliveryOf: 'delivery-1'
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Redelivery queued',
+        delivery: { id: 'delivery-2', status: 'pending' }
+      });
+    });
+
+    it('should return 404 for deliveries of other webhooks', async () => {
+      mockRequest.params = { id: 'project-1', webhookId: 'webhook-2', deliveryId: 'delivery-1' };
+      (prisma.webhookDelivery.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+      await redeliverWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Delivery not found' });
+      expect(prisma.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+  });
+});
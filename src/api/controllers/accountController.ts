@@ -0,0 +1,450 @@
+import { Response } from 'express';
+import bcrypt from 'bcryptjs';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { revokeSessions } from '../services/sessions';
+import { hasFreshSecondFactor } from '../services/mfa';
+import { sendVerificationEmail } from '../services/accountEmails';
+import { checkPasswordPolicy } from '../services/passwordPolicy';
+import { isSsoEnforced } from '../services/oidc';
+import { accessibleProjectsWhere, projectRoleInclude, resolveProjectRole } from '../services/projectAccess';
+import {
+  AccountDeletionPlan,
+  executeAccountDeletion,
+  isOwnedProjectsChoice,
+  planAccountDeletion
+} from '../services/accountDeletion';
+import {
+  accountThrottle,
+  clearFailures,
+  getRetryAfter,
+  ipThrottle,
+  recordFailure,
+  sendTooManyAttempts
+} from '../services/authThrottle';
+
+const SALT_ROUNDS = 10;
+
+// How recent a single sign-on has to be to stand in for the password
+const RECENT_SIGN_IN_MS = 5 * 60 * 1000;
+
+const PROFILE_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerifiedAt: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+
+interface Profile {
+  totpEnabledAt: Date | null;
+  [field: string]: unknown;
+}
+
+
+function toProfile({ totpEnabledAt, ...profile }: Profile) {
+  return { ...profile, totpEnabled: Boolean(totpEnabledAt) };
+}
+
+
+async function isRecentSignIn(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { createdAt: true }
+  });
+  return Boolean(session && session.createdAt.getTime() >= Date.now() - RECENT_SIGN_IN_MS);
+}
+
+
+/**
+ * Check the current password before a sensitive account change, with the
+ * same brute-force protection as logins. Users who have to sign in through
+ * single sign-on know no password, so a sign-in moments ago counts instead.
+ * Sends the error response and returns false when it does not check out.
+ */
+async function checkPassword(
+  req: AuthRequest,
+  res: Response,
+  user: { email: string; password: string },
+  password: unknown,
+): Promise<boolean> {
+  if (isSsoEnforced(user.email)) {
+    if (req.user && await isRecentSignIn(req.user.sessionId)) {
+      return true;
+    }
+    res.status(403).json({ error: 'Sign in again through single sign-on to confirm this change', ssoRequired: true });
+    return false;
+  }
+
+  if (typeof password !== 'string' || !password) {
+    res.status(400).json({ error: 'Current password is required' });
+    return false;
+  }
+
+  const throttles = [accountThrottle(user.email), ipThrottle(req.ip)];
+  const retryAfter = await getRetryAfter(throttles);
+  if (retryAfter > 0) {
+    sendTooManyAttempts(res, retryAfter);
+    return false;
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    await recordFailure(throttles);
+    res.status(401).json({ error: 'Invalid password' });
+    return false;
+  }
+
+  await clearFailures(throttles[0]);
+  return true;
+}
+
+
+export const getAccount = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: PROFILE_SELECT
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ user: toProfile(user) });
+  } catch (error) {
+    console.error('Get account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Update the name and email. A new email needs the current password, is
+ * unverified until the link sent to it is followed, and old links stop working.
+ */
+export const updateAccount = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { name, email, currentPassword } = req.body;
+
+    if (name !== undefined && name !== null && typeof name !== 'string') {
+      return res.status(400).json({ error: 'Name must be a string' });
+    }
+
+    if (email !== undefined && (typeof email !== 'string' || !email.includes('@'))) {
+      return res.status(400).json({ error: 'Invalid email format' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const data: { name?: string | null; email?: string; emailVerifiedAt?: null } = {};
+    if (name !== undefined) {
+      data.name = name?.trim() || null;
+    }
+
+    const emailChanged = email !== undefined && email !== user.email;
+    if (emailChanged) {
+      if (!(await checkPassword(req, res, user, currentPassword))) {
+        return;
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email }
+      });
+
+      if (existingUser) {
+        return res.status(409).json({ error: 'Email is already in use' });
+      }
+
+      data.email = email;
+      data.emailVerifiedAt = null;
+      annotateAudit(req, { metadata: { previousEmail: user.email, email } });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data,
+      select: PROFILE_SELECT
+    });
+
+    if (emailChanged) {
+      await sendVerificationEmail(updated).catch((error) => {
+        console.error('Send verification email error:', error);
+      });
+    }
+
+    res.json({
+      message: emailChanged ? 'Account updated. Check your inbox to verify the new email.' : 'Account updated',
+      user: toProfile(updated)
+    });
+  } catch (error) {
+    console.error('Update account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Change the password and sign out every other session; the current one
+ * stays signed in
+ */
+export const changePassword = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (isSsoEnforced(user.email)) {
+      return res.status(403).json({ error: 'Passwords are not used for this email domain', ssoRequired: true });
+    }
+
+    const passwordError = checkPasswordPolicy(newPassword, user.email);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    if (newPassword === currentPassword) {
+      return res.status(400).json({ error: 'The new password must differ from the current one' });
+    }
+
+    if (!(await checkPassword(req, res, user, currentPassword))) {
+      return;
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword }
+    });
+
+    const revokedSessions = await revokeSessions(
+      { userId: user.id, id: { not: req.user.sessionId } },
+      'password_change'
+    );
+    annotateAudit(req, { metadata: { revokedSessions } });
+
+    res.json({ message: 'Password changed successfully. Your other sessions have been signed out.', revokedSessions });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Delete the account for good. Takes the password, the email typed out as
+ * confirmation and, with two-factor authentication on, a fresh second-factor
+ * check. Projects the user owns are transferred or deleted as they choose.
+ */
+export const deleteAccount = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { password, confirm, ownedProjects } = req.body;
+
+    if (ownedProjects !== undefined && !isOwnedProjectsChoice(ownedProjects)) {
+      return res.status(400).json({ error: 'ownedProjects must be one of: transfer, delete' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (confirm !== user.email) {
+      return res.status(400).json({ error: 'Type your email address as confirm to delete the account' });
+    }
+
+    if (!(await checkPassword(req, res, user, password))) {
+      return;
+    }
+
+    if (user.totpEnabledAt && !(await hasFreshSecondFactor(req.user.sessionId))) {
+      return res.status(403).json({
+        error: 'A recent second-factor check is required to delete the account',
+        mfaRequired: true
+      });
+    }
+
+    const result = await planAccountDeletion(user.id, ownedProjects);
+    if (result.error) {
+      const { status, ...body } = result;
+      return res.status(status).json(body);
+    }
+
+    const plan = result.plan as AccountDeletionPlan;
+    const { transfers, deletions } = plan;
+    const transferredProjects = transfers.map(({ id, name, newOwnerId }) => ({ id, name, newOwnerId }));
+    const deletedProjects = deletions.map(({ id, name }) => ({ id, name }));
+    annotateAudit(req, { metadata: { email: user.email, transferredProjects, deletedProjects } });
+
+    await executeAccountDeletion(plan);
+
+    res.json({ message: 'Account deleted successfully', transferredProjects, deletedProjects });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Everything stored about the user, for data subject access requests:
+ * profile, single sign-on identities, sessions, memberships, the projects
+ * they reach with the keys and versions of their secrets, never values, and
+ * their audit trail
+ */
+export const exportAccountData = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { userId } = req.user;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: PROFILE_SELECT
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        ip: true,
+        userAgent: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+        revokedReason: true
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const organizationMemberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      select: {
+        role: true,
+        createdAt: true,
+        organization: { select: { id: true, name: true, personalUserId: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const teamMemberships = await prisma.teamMember.findMany({
+      where: { userId },
+      select: {
+        createdAt: true,
+        team: { select: { id: true, name: true, organizationId: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const identities = await prisma.userIdentity.findMany({
+      where: { userId },
+      select: { issuer: true, subject: true, email: true, lastLoginAt: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const projects = await prisma.project.findMany({
+      where: accessibleProjectsWhere(userId),
+      include: {
+        ...projectRoleInclude(userId),
+        environments: { select: { name: true }, orderBy: { name: 'asc' } },
+        secrets: {
+          select: {
+            key: true,
+            version: true,
+            createdAt: true,
+            updatedAt: true,
+            environment: { select: { name: true } }
+          },
+          orderBy: { key: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const activity = await prisma.auditLog.findMany({
+      where: { userId },
+      select: {
+        action: true,
+        outcome: true,
+        projectId: true,
+        environment: true,
+        secretKey: true,
+        ip: true,
+        userAgent: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.setHeader('Content-Disposition', 'attachment; filename="keep-safe-account.json"');
+    res.json({
+      exportedAt: new Date(),
+      user: toProfile(user),
+      identities,
+      sessions,
+      organizations: organizationMemberships.map(({ organization, role, createdAt }) => ({
+        id: organization.id,
+        name: organization.name,
+        personal: organization.personalUserId === userId,
+        role,
+        joinedAt: createdAt
+      })),
+      teams: teamMemberships.map(({ team, createdAt }) => ({ ...team, joinedAt: createdAt })),
+      projects: projects.map((project) => ({
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        organizationId: project.organizationId,
+        role: resolveProjectRole(project),
+        createdAt: project.createdAt,
+        environments: project.environments.map(({ name }) => name),
+        secrets: project.secrets.map(({ environment, ...secret }) => ({ ...secret, environment: environment.name }))
+      })),
+      activity
+    });
+  } catch (error) {
+    console.error('Export account data error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,99 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { verifyAuditChain } from '../services/audit';
+import { accessibleProjectsWhere } from '../services/projectAccess';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const OUTCOMES = ['success', 'failure', 'denied'];
+
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+
+export const getAuditLogs = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { projectId, action, outcome, secretKey } = req.query;
+    const page = req.query.page === undefined ? 1 : parseInt(String(req.query.page), 10);
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(String(req.query.limit), 10);
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if (isNaN(page) || page < 1) {
+      return res.status(400).json({ error: 'Page must be a positive integer' });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'From and to must be valid dates' });
+    }
+
+    if (outcome !== undefined && !OUTCOMES.includes(String(outcome))) {
+      return res.status(400).json({ error: 'Outcome must be one of: success, failure, denied' });
+    }
+
+    // Users see their own actions and everything that happened in the projects they administer
+    const administered = await prisma.project.findMany({
+      where: accessibleProjectsWhere(req.user.userId, ['owner', 'admin']),
+      select: { id: true }
+    });
+    const projectIds = administered.map((project: { id: string }) => project.id);
+
+    const where: Record<string, unknown> = {
+      OR: [{ userId: req.user.userId }, { projectId: { in: projectIds } }],
+      ...(projectId !== undefined && { projectId: String(projectId) }),
+      ...(action !== undefined && { action: String(action) }),
+      ...(outcome !== undefined && { outcome: String(outcome) }),
+      ...(secretKey !== undefined && { secretKey: String(secretKey) }),
+      ...((from || to) && { createdAt: { ...(from && { gte: from }), ...(to && { lte: to }) } })
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    res.json({
+      entries,
+      pagination: { page, limit, total }
+    });
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const verifyAuditLogs = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const verification = await verifyAuditChain();
+
+    res.json(verification);
+  } catch (error) {
+    console.error('Verify audit logs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,18 +1,50 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import prisma from '../../infrastructure/db/prisma';
-import config from '../../infrastructure/config';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { createSession, revokeSessions, rotateRefreshToken, sessionClient } from '../services/sessions';
+import { createChallengeToken, verifyChallengeToken, verifySecondFactor } from '../services/mfa';
+import { consumeAccountToken } from '../services/accountTokens';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../services/accountEmails';
+import { checkPasswordPolicy } from '../services/passwordPolicy';
+import { isSsoEnforced } from '../services/oidc';
+import {
+    accountThrottle,
+    clearFailures,
+    getRetryAfter,
+    ipThrottle,
+    recordFailure,
+    secondFactorThrottle,
+    sendTooManyAttempts
+} from '../services/authThrottle';
+
+const SALT_ROUNDS = 10;
+
+// Compared against when the email is unknown, so that takes as long as a wrong password
+const UNKNOWN_USER_PASSWORD_HASH = bcrypt.hashSync('unknown-user', SALT_ROUNDS);
+
+const SSO_REQUIRED = 'Sign in through single sign-on for this email domain';
 
 export const signup = async (req: Request, res: Response) => {
     try {
         const { email, password, name } = req.body;
+        annotateAudit(req, { metadata: { email } });
 
-      
-        if (!email || !email.includes('@')) {
+        if (!email || typeof email !== 'string' || !email.includes('@')) {
             return res.status(400).json({ error: 'Invalid email format' });
         }
 
+        // Accounts in these domains are created on their first single sign-on
+        if (isSsoEnforced(email)) {
+            return res.status(403).json({ error: SSO_REQUIRED, ssoRequired: true });
+        }
+
+        const passwordError = checkPasswordPolicy(password, email);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
         const existingUser = await prisma.user.findUnique({
             where: { email }
         });
@@ -21,8 +53,7 @@ export const signup = async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'User already exists' });
         }
 
-        const saltRounds = 10;
-        const hashedPassword = await bcrypt.hash(password, saltRounds);
+        const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
 
         const user = await prisma.user.create({
             data: {
@@ -31,16 +62,19 @@ export const signup = async (req: Request, res: Response) => {
                 name
             }
         });
+        annotateAudit(req, { userId: user.id });
+
+        // The account works without a confirmed address, so a mail outage must not fail signup
+        await sendVerificationEmail(user).catch((error) => {
+            console.error('Send verification email error:', error);
+        });
 
-        const token = jwt.sign(
-            { userId: user.id, email: user.email },
-            config.jwt.secret as any,
-            { expiresIn: config.jwt.expiresIn as any }
-        );
+        const { token, refreshToken } = await createSession(user, sessionClient(req));
 
         res.status(201).json({
             message: 'User created successfully',
             token,
+            refreshToken,
             user: {
                 id: user.id,
                 email: user.email,
@@ -56,30 +90,51 @@ export const signup = async (req: Request, res: Response) => {
 export const login = async (req: Request, res: Response) => {
     try {
         const { email, password } = req.body;
+        annotateAudit(req, { metadata: { email } });
+
+        if (typeof email !== 'string' || typeof password !== 'string') {
+            return res.status(400).json({ error: 'Email and password are required' });
+        }
+
+        if (isSsoEnforced(email)) {
+            return res.status(403).json({ error: SSO_REQUIRED, ssoRequired: true });
+        }
+
+        // Unknown emails are throttled like accounts, so lockouts do not reveal which exist
+        const throttles = [accountThrottle(email), ipThrottle(req.ip)];
+        const retryAfter = await getRetryAfter(throttles);
+        if (retryAfter > 0) {
+            return sendTooManyAttempts(res, retryAfter);
+        }
 
         const user = await prisma.user.findUnique({
             where: { email }
         });
 
-        if (!user) {
+        const isValidPassword = await bcrypt.compare(password, user?.password ?? UNKNOWN_USER_PASSWORD_HASH);
+
+        if (!user || !isValidPassword) {
+            await recordFailure(throttles);
             return res.status(401).json({ error: 'Invalid credentials' });
         }
+        annotateAudit(req, { userId: user.id });
+        await clearFailures(throttles[0]);
 
-        const isValidPassword = await bcrypt.compare(password, user.password);
-
-        if (!isValidPassword) {
-            return res.status(401).json({ error: 'Invalid credentials' });
+        // With two-factor authentication the password only earns a challenge for /auth/login/mfa
+        if (user.totpEnabledAt) {
+            return res.json({
+                message: 'Second factor required',
+                mfaRequired: true,
+                challengeToken: createChallengeToken(user.id)
+            });
         }
 
-        const token = jwt.sign(
-            { userId: user.id, email: user.email },
-            config.jwt.secret as any,
-            { expiresIn: config.jwt.expiresIn as any }
-        );
+        const { token, refreshToken } = await createSession(user, sessionClient(req));
 
         res.json({
             message: 'Login successful',
             token,
+            refreshToken,
             user: {
                 id: user.id,
                 email: user.email,
@@ -91,3 +146,234 @@ export const login = async (req: Request, res: Response) => {
         res.status(500).json({ error: 'Internal server error' });
     }
 };
+
+export const loginWithSecondFactor = async (req: Request, res: Response) => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+
+        if (!challengeToken || typeof challengeToken !== 'string') {
+            return res.status(400).json({ error: 'Challenge token is required' });
+        }
+
+        if (typeof code !== 'string' && typeof recoveryCode !== 'string') {
+            return res.status(400).json({ error: 'A code or recovery code is required' });
+        }
+
+        const userId = verifyChallengeToken(challengeToken);
+        if (!userId) {
+            return res.status(401).json({ error: 'Invalid or expired challenge' });
+        }
+        annotateAudit(req, { userId, metadata: { method: typeof code === 'string' ? 'totp' : 'recovery' } });
+
+        const throttles = [secondFactorThrottle(userId), ipThrottle(req.ip)];
+        const retryAfter = await getRetryAfter(throttles);
+        if (retryAfter > 0) {
+            return sendTooManyAttempts(res, retryAfter);
+        }
+
+        if (!(await verifySecondFactor(userId, { code, recoveryCode }))) {
+            await recordFailure(throttles);
+            return res.status(401).json({ error: 'Invalid code' });
+        }
+        await clearFailures(throttles[0]);
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId }
+        });
+
+        if (!user) {
+            return res.status(401).json({ error: 'Invalid or expired challenge' });
+        }
+
+        const { token, refreshToken } = await createSession(user, sessionClient(req), { mfaVerified: true });
+
+        res.json({
+            message: 'Login successful',
+            token,
+            refreshToken,
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name
+            }
+        });
+    } catch (error) {
+        console.error('Login with second factor error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const refresh = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ error: 'Refresh token is required' });
+        }
+
+        const result = await rotateRefreshToken(refreshToken, sessionClient(req));
+        if (result.error !== undefined) {
+            return res.status(result.status).json({ error: result.error });
+        }
+        annotateAudit(req, { metadata: { sessionId: result.tokens.sessionId } });
+
+        res.json({
+            message: 'Token refreshed successfully',
+            token: result.tokens.token,
+            refreshToken: result.tokens.refreshToken
+        });
+    } catch (error) {
+        console.error('Refresh error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const logout = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        await revokeSessions({ id: req.user.sessionId }, 'logout');
+
+        res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+/**
+ * Always answers the same way, so the endpoint does not reveal which emails
+ * have an account
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body;
+        annotateAudit(req, { metadata: { email } });
+
+        if (!email || typeof email !== 'string') {
+            return res.status(400).json({ error: 'Email is required' });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { email }
+        });
+
+        // Passwords of accounts that have to use single sign-on are never reset
+        if (user && !isSsoEnforced(user.email)) {
+            annotateAudit(req, { userId: user.id });
+            await sendPasswordResetEmail(user).catch((error) => {
+                console.error('Send password reset email error:', error);
+            });
+        }
+
+        res.json({ message: 'If an account exists for this email, a password reset link has been sent' });
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const resetPassword = async (req: Request, res: Response) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!token || typeof token !== 'string') {
+            return res.status(400).json({ error: 'Token is required' });
+        }
+
+        const passwordError = checkPasswordPolicy(password);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
+        const claims = await consumeAccountToken(token, 'password_reset');
+        if (!claims) {
+            return res.status(400).json({ error: 'Invalid or expired token' });
+        }
+        annotateAudit(req, { userId: claims.userId });
+
+        if (isSsoEnforced(claims.email)) {
+            return res.status(403).json({ error: SSO_REQUIRED, ssoRequired: true });
+        }
+
+        const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+
+        // Following the emailed link also proves the address belongs to the user
+        const updated = await prisma.user.updateMany({
+            where: { id: claims.userId, email: claims.email },
+            data: { password: hashedPassword, emailVerifiedAt: new Date() }
+        });
+
+        if (updated.count === 0) {
+            return res.status(400).json({ error: 'Invalid or expired token' });
+        }
+
+        const revokedSessions = await revokeSessions({ userId: claims.userId }, 'password_reset');
+        annotateAudit(req, { metadata: { revokedSessions } });
+
+        res.json({ message: 'Password reset successfully. Please log in again.' });
+    } catch (error) {
+        console.error('Reset password error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const verifyEmail = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token || typeof token !== 'string') {
+            return res.status(400).json({ error: 'Token is required' });
+        }
+
+        const claims = await consumeAccountToken(token, 'email_verification');
+        if (!claims) {
+            return res.status(400).json({ error: 'Invalid or expired token' });
+        }
+        annotateAudit(req, { userId: claims.userId });
+
+        // A link sent to an address the account no longer uses proves nothing
+        const updated = await prisma.user.updateMany({
+            where: { id: claims.userId, email: claims.email },
+            data: { emailVerifiedAt: new Date() }
+        });
+
+        if (updated.count === 0) {
+            return res.status(400).json({ error: 'Invalid or expired token' });
+        }
+
+        res.json({ message: 'Email verified successfully' });
+    } catch (error) {
+        console.error('Verify email error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const resendVerificationEmail = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: req.user.userId }
+        });
+
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        if (user.emailVerifiedAt) {
+            return res.status(409).json({ error: 'Email is already verified' });
+        }
+
+        await sendVerificationEmail(user);
+
+        res.json({ message: 'Verification email sent' });
+    } catch (error) {
+        console.error('Resend verification email error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
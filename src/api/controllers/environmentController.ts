@@ -0,0 +1,232 @@
+import { Response } from 'express';
+import { createHash } from 'crypto';
+import prisma from '../../infrastructure/db/prisma';
+import { decryptForProject } from '../../infrastructure/crypto/projectKeys';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { checkProjectAccess } from '../services/projectAccess';
+
+
+const ENVIRONMENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+
+/**
+ * Map each key of an environment to a digest of its value, so environments
+ * can be compared without holding or returning the plaintext
+ */
+async function digestEnvironment(projectId: string, environmentId: string): Promise<Map<string, string>> {
+  const secrets = await prisma.secret.findMany({
+    where: { projectId, environmentId, deletedAt: null },
+    select: { key: true, value: true }
+  });
+
+  const digests = new Map<string, string>();
+  for (const secret of secrets) {
+    const value = await decryptForProject(projectId, secret.value);
+    digests.set(secret.key, createHash('sha256').update(value).digest('hex'));
+  }
+  return digests;
+}
+
+
+export const getEnvironments = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const environments = await prisma.environment.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        name: true,
+        isDefault: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { secrets: { where: { deletedAt: null } } } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ environments });
+  } catch (error) {
+    console.error('Get environments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const createEnvironment = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+    const { name } = req.body;
+
+    if (typeof name !== 'string' || !ENVIRONMENT_NAME_PATTERN.test(name)) {
+      return res.status(400).json({
+        error: 'Environment name must be lowercase letters, digits, "-" or "_" (max 64 characters)'
+      });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const existingEnvironment = await prisma.environment.findFirst({
+      where: { projectId, name }
+    });
+
+    if (existingEnvironment) {
+      return res.status(409).json({ error: 'Environment already exists in this project' });
+    }
+
+    const environment = await prisma.environment.create({
+      data: { name, projectId },
+      select: {
+        id: true,
+        name: true,
+        isDefault: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    });
+
+    annotateAudit(req, { metadata: { environmentId: environment.id, name: environment.name } });
+
+    res.status(201).json({
+      message: 'Environment created successfully',
+      environment
+    });
+  } catch (error) {
+    console.error('Create environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Deleting an environment is permanent and takes its events and the service
+ * tokens restricted to it along, so only the owner can, and only once its
+ * secrets are gone from the trash as well
+ */
+export const deleteEnvironment = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, environment: name } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'own');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const environment = await prisma.environment.findFirst({
+      where: { projectId, name }
+    });
+
+    if (!environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    if (environment.isDefault) {
+      return res.status(400).json({ error: 'The default environment cannot be deleted' });
+    }
+
+    // Trashed secrets count too: they would otherwise go without being purged
+    const secrets = await prisma.secret.count({
+      where: { environmentId: environment.id }
+    });
+    if (secrets > 0) {
+      return res.status(409).json({
+        error: 'Environment still has secrets; delete them and purge them from the trash first'
+      });
+    }
+
+    await prisma.environment.delete({
+      where: { id: environment.id }
+    });
+
+    res.json({ message: 'Environment deleted successfully' });
+  } catch (error) {
+    console.error('Delete environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const diffEnvironments = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+    const { from, to } = req.query;
+
+    if (typeof from !== 'string' || typeof to !== 'string' || !from || !to) {
+      return res.status(400).json({ error: 'Query parameters "from" and "to" are required' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'read');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const environments = await prisma.environment.findMany({
+      where: { projectId, name: { in: [from, to] } }
+    });
+    const source = environments.find((environment: { name: string }) => environment.name === from);
+    const target = environments.find((environment: { name: string }) => environment.name === to);
+
+    if (!source || !target) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    const [sourceDigests, targetDigests] = await Promise.all([
+      digestEnvironment(projectId, source.id),
+      digestEnvironment(projectId, target.id),
+    ]);
+
+    const missingInTarget: string[] = [];
+    const differing: string[] = [];
+    const identical: string[] = [];
+
+    for (const [key, digest] of sourceDigests) {
+      const other = targetDigests.get(key);
+      if (other === undefined) {
+        missingInTarget.push(key);
+      } else if (other !== digest) {
+        differing.push(key);
+      } else {
+        identical.push(key);
+      }
+    }
+
+    const missingInSource = [...targetDigests.keys()].filter((key) => !sourceDigests.has(key));
+
+    res.json({
+      from,
+      to,
+      missingInTarget: missingInTarget.sort(),
+      missingInSource: missingInSource.sort(),
+      differing: differing.sort(),
+      identical: identical.sort()
+    });
+  } catch (error) {
+    console.error('Diff environments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
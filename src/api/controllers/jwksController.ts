@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { getPublishedKeys } from '../../infrastructure/crypto/signingKeys';
+
+// Long enough to spare the database, well within the overlap a new key is published ahead
+const JWKS_MAX_AGE_SECONDS = 300;
+
+
+/**
+ * Public keys that access tokens are signed with, so other services can
+ * verify them without sharing a secret
+ */
+export const getJwks = async (req: Request, res: Response) => {
+  try {
+    const keys = await getPublishedKeys();
+
+    res.set('Cache-Control', `public, max-age=${JWKS_MAX_AGE_SECONDS}`);
+    res.json({ keys });
+  } catch (error) {
+    console.error('Get JWKS error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
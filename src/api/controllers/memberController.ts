@@ -0,0 +1,380 @@
+import { Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { checkProjectAccess, isProjectRole, outranks, ProjectRole } from '../services/projectAccess';
+import { queueWebhookDeliveries } from '../services/webhooks';
+
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+
+function findMember(projectId: string, userId: string) {
+  return prisma.projectMember.findUnique({
+    where: { projectId_userId: { projectId, userId } }
+  });
+}
+
+
+export const getMembers = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId },
+      select: {
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, email: true, name: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ members });
+  } catch (error) {
+    console.error('Get members error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const updateMemberRole = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, userId } = req.params;
+    const { role } = req.body;
+
+    if (!isProjectRole(role) || role === 'owner') {
+      return res.status(400).json({ error: 'Role must be one of: admin, writer, reader, metadata' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const actorRole = access.role as ProjectRole;
+
+    const member = await findMember(projectId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    // A role this version does not know is never outranked
+    if (!isProjectRole(member.role) || !outranks(actorRole, member.role) || !outranks(actorRole, role)) {
+      return res.status(403).json({ error: 'You can only manage roles below your own' });
+    }
+
+    annotateAudit(req, { metadata: { memberId: userId, from: member.role, to: role } });
+
+    const updated = await prisma.projectMember.update({
+      where: { id: member.id },
+      data: { role },
+      select: { userId: true, role: true }
+    });
+
+    res.json({
+      message: 'Member role updated successfully',
+      member: updated
+    });
+  } catch (error) {
+    console.error('Update member role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const removeMember = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, userId } = req.params;
+    const leaving = userId === req.user.userId;
+
+    // Anyone can leave a project; removing others takes the manage permission
+    const access = await checkProjectAccess(req, projectId, leaving ? 'metadata' : 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const member = await findMember(projectId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (member.role === 'owner') {
+      return res.status(400).json({ error: 'The owner cannot be removed; transfer ownership first' });
+    }
+
+    if (!leaving && (!isProjectRole(member.role) || !outranks(access.role as ProjectRole, member.role))) {
+      return res.status(403).json({ error: 'You can only manage roles below your own' });
+    }
+
+    annotateAudit(req, { metadata: { memberId: userId, role: member.role } });
+
+    await prisma.projectMember.delete({
+      where: { id: member.id }
+    });
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const transferOwnership = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ error: 'New owner user id is required' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'own');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const member = await findMember(projectId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'The new owner must already be a member of the project' });
+    }
+
+    if (member.role === 'owner') {
+      return res.status(400).json({ error: 'That member already owns this project' });
+    }
+
+    annotateAudit(req, { metadata: { newOwnerId: userId } });
+
+    // The previous owner, if any is left, stays on as an admin; organization
+    // admins can hand out ownership of a project whose owner has left
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.projectMember.updateMany({
+        where: { projectId, role: 'owner' },
+        data: { role: 'admin' }
+      });
+      await tx.projectMember.update({
+        where: { id: member.id },
+        data: { role: 'owner' }
+      });
+    });
+
+    res.json({ message: 'Ownership transferred successfully' });
+  } catch (error) {
+    console.error('Transfer ownership error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getInvites = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const invites = await prisma.projectInvite.findMany({
+      where: { projectId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        invitedById: true,
+        expiresAt: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ invites });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const createInvite = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+    const { email, role } = req.body;
+
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      return res.status(400).json({ error: 'Invalid email format' });
+    }
+
+    if (!isProjectRole(role) || role === 'owner') {
+      return res.status(400).json({ error: 'Role must be one of: admin, writer, reader, metadata' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (!outranks(access.role as ProjectRole, role)) {
+      return res.status(403).json({ error: 'You can only manage roles below your own' });
+    }
+
+    const existingMember = await prisma.projectMember.findFirst({
+      where: { projectId, user: { email } }
+    });
+
+    if (existingMember) {
+      return res.status(409).json({ error: 'User is already a member of this project' });
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const invite = await prisma.projectInvite.create({
+      data: {
+        projectId,
+        email,
+        role,
+        tokenHash: hashInviteToken(token),
+        invitedById: req.user.userId,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS)
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true
+      }
+    });
+
+    annotateAudit(req, { metadata: { inviteId: invite.id, email, role } });
+
+    res.status(201).json({
+      message: 'Invite created successfully. Share the token with the invitee, it will not be shown again',
+      token,
+      invite
+    });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const revokeInvite = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, inviteId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const revoked = await prisma.projectInvite.updateMany({
+      where: { id: inviteId, projectId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (revoked.count === 0) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+
+    res.json({ message: 'Invite revoked successfully' });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const acceptInvite = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Invite token is required' });
+    }
+
+    const invite = await prisma.projectInvite.findUnique({
+      where: { tokenHash: hashInviteToken(token) }
+    });
+
+    if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt <= new Date()) {
+      return res.status(404).json({ error: 'Invite not found or expired' });
+    }
+
+    if (invite.email.toLowerCase() !== req.user.email.toLowerCase()) {
+      return res.status(403).json({ error: 'This invite was sent to a different email address' });
+    }
+
+    const existingMember = await findMember(invite.projectId, req.user.userId);
+    if (existingMember) {
+      return res.status(409).json({ error: 'You are already a member of this project' });
+    }
+
+    const userId = req.user.userId;
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.projectInvite.update({
+        where: { id: invite.id },
+        data: { acceptedAt: new Date() }
+      });
+      await tx.projectMember.create({
+        data: { projectId: invite.projectId, userId, role: invite.role }
+      });
+    });
+
+    annotateAudit(req, { projectId: invite.projectId, metadata: { inviteId: invite.id, role: invite.role } });
+    await queueWebhookDeliveries(invite.projectId, 'member.added', { userId, role: invite.role, source: 'direct' });
+
+    res.json({
+      message: 'Invite accepted successfully',
+      projectId: invite.projectId,
+      role: invite.role
+    });
+  } catch (error) {
+    console.error('Accept invite error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,250 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import {
+  confirmTotpEnrollment,
+  markSecondFactorVerified,
+  replaceRecoveryCodes,
+  SecondFactor,
+  startTotpEnrollment,
+  verifySecondFactor
+} from '../services/mfa';
+import { generateRecoveryCodes } from '../services/totp';
+import {
+  clearFailures,
+  getRetryAfter,
+  ipThrottle,
+  recordFailure,
+  secondFactorThrottle,
+  sendTooManyAttempts
+} from '../services/authThrottle';
+
+
+function hasSecondFactor(body: { code?: unknown; recoveryCode?: unknown }): boolean {
+  return typeof body.code === 'string' || typeof body.recoveryCode === 'string';
+}
+
+
+/**
+ * Verify a second factor with the same brute-force protection as logins.
+ * Sends the error response and returns false when it does not check out.
+ */
+async function checkSecondFactor(req: AuthRequest, res: Response, userId: string, factor: SecondFactor): Promise<boolean> {
+  const throttles = [secondFactorThrottle(userId), ipThrottle(req.ip)];
+  const retryAfter = await getRetryAfter(throttles);
+  if (retryAfter > 0) {
+    sendTooManyAttempts(res, retryAfter);
+    return false;
+  }
+
+  if (!(await verifySecondFactor(userId, factor))) {
+    await recordFailure(throttles);
+    res.status(401).json({ error: 'Invalid code' });
+    return false;
+  }
+
+  await clearFailures(throttles[0]);
+  return true;
+}
+
+
+export const getMfaStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { totpEnabledAt: true }
+    });
+
+    const recoveryCodesRemaining = await prisma.recoveryCode.count({
+      where: { userId: req.user.userId, usedAt: null }
+    });
+
+    res.json({
+      totpEnabled: Boolean(user?.totpEnabledAt),
+      totpEnabledAt: user?.totpEnabledAt ?? null,
+      recoveryCodesRemaining
+    });
+  } catch (error) {
+    console.error('Get MFA status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const enrollTotp = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { totpEnabledAt: true }
+    });
+
+    if (user?.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const { secret, otpauthUri } = await startTotpEnrollment(req.user);
+
+    // The QR code is rendered client-side from the otpauth URI
+    res.json({
+      message: 'Scan the QR code and confirm with a code from your authenticator',
+      secret,
+      otpauthUri,
+      qrPayload: otpauthUri
+    });
+  } catch (error) {
+    console.error('Enroll TOTP error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const confirmTotp = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { totpSecret: true, totpEnabledAt: true }
+    });
+
+    if (!user?.totpSecret) {
+      return res.status(400).json({ error: 'Start enrollment first' });
+    }
+
+    if (user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const recoveryCodes = await confirmTotpEnrollment(req.user.userId, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    // Enrolling counts as a second-factor check for this session
+    await markSecondFactorVerified(req.user.sessionId);
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are only shown once.',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Confirm TOTP error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const disableTotp = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!hasSecondFactor(req.body)) {
+      return res.status(400).json({ error: 'A code or recovery code is required' });
+    }
+
+    if (!(await checkSecondFactor(req, res, req.user.userId, req.body))) {
+      return;
+    }
+
+    const userId = req.user.userId;
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpKeyId: null, totpEnabledAt: null, totpLastUsedStep: null }
+      });
+      await tx.recoveryCode.deleteMany({ where: { userId } });
+    });
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Disable TOTP error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Replace all recovery codes; requires a TOTP code so a lost set cannot be
+ * used to mint a new one
+ */
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    if (!(await checkSecondFactor(req, res, req.user.userId, { code }))) {
+      return;
+    }
+
+    const userId = req.user.userId;
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await replaceRecoveryCodes(tx, userId, recoveryCodes);
+    });
+
+    res.json({
+      message: 'Recovery codes regenerated. The previous codes no longer work.',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Step-up check for the current session, e.g. before revealing secrets of a
+ * project that requires a fresh second factor
+ */
+export const verifyStepUp = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!hasSecondFactor(req.body)) {
+      return res.status(400).json({ error: 'A code or recovery code is required' });
+    }
+
+    annotateAudit(req, { metadata: { method: typeof req.body.code === 'string' ? 'totp' : 'recovery' } });
+
+    if (!(await checkSecondFactor(req, res, req.user.userId, req.body))) {
+      return;
+    }
+
+    await markSecondFactorVerified(req.user.sessionId);
+
+    res.json({ message: 'Second factor verified' });
+  } catch (error) {
+    console.error('Verify second factor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
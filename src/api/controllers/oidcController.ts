@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { annotateAudit } from '../services/audit';
+import { createSession, sessionClient } from '../services/sessions';
+import { createChallengeToken } from '../services/mfa';
+import {
+  consumeLoginRequest,
+  createLoginRequest,
+  findOrProvisionUser,
+  groupsFromClaims,
+  syncGroupRoles
+} from '../services/oidc';
+import { getOidcClient, IdTokenClaims, isOidcEnabled } from '../../infrastructure/oidc/client';
+
+
+/**
+ * Send the browser to the identity provider to sign in
+ */
+export const startOidcLogin = async (req: Request, res: Response) => {
+  try {
+    if (!isOidcEnabled()) {
+      return res.status(404).json({ error: 'Single sign-on is not configured' });
+    }
+
+    const request = await createLoginRequest();
+    res.redirect(await getOidcClient().authorizationUrl(request));
+  } catch (error) {
+    console.error('Start OIDC login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Where the identity provider sends the browser back to. Redeems the code,
+ * signs the user in, creating or linking their account on first use, and
+ * brings their group-granted project roles up to date.
+ */
+export const finishOidcLogin = async (req: Request, res: Response) => {
+  try {
+    if (!isOidcEnabled()) {
+      return res.status(404).json({ error: 'Single sign-on is not configured' });
+    }
+
+    const { code, state, error: providerError } = req.query;
+
+    if (typeof providerError === 'string') {
+      return res.status(401).json({ error: `The identity provider refused the sign-in: ${providerError}` });
+    }
+
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      return res.status(400).json({ error: 'Code and state are required' });
+    }
+
+    const request = await consumeLoginRequest(state);
+    if (!request) {
+      return res.status(400).json({ error: 'Invalid or expired sign-in request' });
+    }
+
+    const client = getOidcClient();
+    let claims: IdTokenClaims;
+    try {
+      claims = await client.exchangeCode(code, request.codeVerifier, request.nonce);
+    } catch (error) {
+      console.error('OIDC code exchange error:', error);
+      return res.status(401).json({ error: 'Sign-in with the identity provider failed' });
+    }
+    annotateAudit(req, { metadata: { issuer: client.issuer, subject: claims.sub, email: claims.email } });
+
+    const result = await findOrProvisionUser(claims);
+    if (result.error !== undefined) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    const { user, outcome } = result;
+    annotateAudit(req, { userId: user.id, metadata: { issuer: client.issuer, subject: claims.sub, outcome } });
+
+    await syncGroupRoles(user.id, groupsFromClaims(claims));
+
+    // Two-factor authentication set up here applies to single sign-on as well
+    if (user.totpEnabledAt) {
+      return res.json({
+        message: 'Second factor required',
+        mfaRequired: true,
+        challengeToken: createChallengeToken(user.id)
+      });
+    }
+
+    const { token, refreshToken } = await createSession(user, sessionClient(req));
+
+    res.status(outcome === 'provisioned' ? 201 : 200).json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name
+      }
+    });
+  } catch (error) {
+    console.error('Finish OIDC login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
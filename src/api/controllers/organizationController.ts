@@ -0,0 +1,361 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import {
+  canManageOrganizationMember,
+  checkOrganizationAccess,
+  isOrganizationRole,
+  OrganizationRole
+} from '../services/organizationAccess';
+
+
+const ORGANIZATION_SELECT = {
+  id: true,
+  name: true,
+  personalUserId: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+
+function findOrganizationMember(organizationId: string, userId: string) {
+  return prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } }
+  });
+}
+
+
+function countOwners(organizationId: string) {
+  return prisma.organizationMember.count({
+    where: { organizationId, role: 'owner' }
+  });
+}
+
+
+export const getOrganizations = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId: req.user.userId },
+      select: { role: true, organization: { select: ORGANIZATION_SELECT } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      organizations: memberships.map(({ role, organization }: { role: string; organization: object }) => ({
+        ...organization,
+        role
+      }))
+    });
+  } catch (error) {
+    console.error('Get organizations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const createOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ error: 'Organization name is required' });
+    }
+
+    const organization = await prisma.organization.create({
+      data: {
+        name: name.trim(),
+        members: { create: { userId: req.user.userId, role: 'owner' } }
+      },
+      select: ORGANIZATION_SELECT
+    });
+
+    annotateAudit(req, { metadata: { organizationId: organization.id } });
+
+    res.status(201).json({
+      message: 'Organization created successfully',
+      organization: { ...organization, role: 'owner' }
+    });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+
+    const access = await checkOrganizationAccess(req, organizationId, 'member');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: ORGANIZATION_SELECT
+    });
+
+    res.json({ organization: { ...organization, role: access.role } });
+  } catch (error) {
+    console.error('Get organization error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const updateOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ error: 'Organization name is required' });
+    }
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: { name: name.trim() },
+      select: ORGANIZATION_SELECT
+    });
+
+    res.json({
+      message: 'Organization updated successfully',
+      organization: { ...organization, role: access.role }
+    });
+  } catch (error) {
+    console.error('Update organization error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const deleteOrganization = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+
+    const access = await checkOrganizationAccess(req, organizationId, 'owner');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (access.organization.personalUserId) {
+      return res.status(400).json({ error: 'Personal organizations cannot be deleted' });
+    }
+
+    // Deleting projects destroys their secrets, so that has to be done deliberately first
+    const projects = await prisma.project.count({ where: { organizationId } });
+    if (projects > 0) {
+      return res.status(409).json({
+        error: 'Delete or move the organization\'s projects first, and permanently delete those in the trash'
+      });
+    }
+
+    await prisma.organization.delete({
+      where: { id: organizationId }
+    });
+
+    res.json({ message: 'Organization deleted successfully' });
+  } catch (error) {
+    console.error('Delete organization error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getOrganizationMembers = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+
+    const access = await checkOrganizationAccess(req, organizationId, 'member');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId },
+      select: {
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, email: true, name: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ members });
+  } catch (error) {
+    console.error('Get organization members error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const addOrganizationMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+    const { email, role = 'member' } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    if (!isOrganizationRole(role)) {
+      return res.status(400).json({ error: 'Role must be one of: owner, admin, member' });
+    }
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const actorRole = access.role as OrganizationRole;
+
+    if (!canManageOrganizationMember(actorRole, role)) {
+      return res.status(403).json({ error: 'Only owners can add owners and admins' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true }
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (await findOrganizationMember(organizationId, user.id)) {
+      return res.status(409).json({ error: 'User is already a member of this organization' });
+    }
+
+    const member = await prisma.organizationMember.create({
+      data: { organizationId, userId: user.id, role },
+      select: { userId: true, role: true }
+    });
+
+    annotateAudit(req, { metadata: { organizationId, memberId: user.id, role } });
+
+    res.status(201).json({
+      message: 'Member added successfully',
+      member
+    });
+  } catch (error) {
+    console.error('Add organization member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const updateOrganizationMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId, userId } = req.params;
+    const { role } = req.body;
+
+    if (!isOrganizationRole(role)) {
+      return res.status(400).json({ error: 'Role must be one of: owner, admin, member' });
+    }
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const actorRole = access.role as OrganizationRole;
+
+    const member = await findOrganizationMember(organizationId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const currentRole = member.role as OrganizationRole;
+    if (!canManageOrganizationMember(actorRole, currentRole) || !canManageOrganizationMember(actorRole, role)) {
+      return res.status(403).json({ error: 'Only owners can manage owners and admins' });
+    }
+
+    if (currentRole === 'owner' && role !== 'owner' && await countOwners(organizationId) === 1) {
+      return res.status(400).json({ error: 'An organization needs at least one owner' });
+    }
+
+    annotateAudit(req, { metadata: { organizationId, memberId: userId, from: currentRole, to: role } });
+
+    const updated = await prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role },
+      select: { userId: true, role: true }
+    });
+
+    res.json({
+      message: 'Member role updated successfully',
+      member: updated
+    });
+  } catch (error) {
+    console.error('Update organization member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Offboarding: removes the user from the organization, its teams and every
+ * project of the organization they were added to directly. The projects
+ * themselves stay with the organization.
+ */
+export const removeOrganizationMember = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { organizationId, userId } = req.params;
+    const leaving = userId === req.user.userId;
+
+    const access = await checkOrganizationAccess(req, organizationId, leaving ? 'member' : 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const actorRole = access.role as OrganizationRole;
+
+    const member = await findOrganizationMember(organizationId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (!leaving && !canManageOrganizationMember(actorRole, member.role as OrganizationRole)) {
+      return res.status(403).json({ error: 'Only owners can manage owners and admins' });
+    }
+
+    if (member.role === 'owner' && await countOwners(organizationId) === 1) {
+      return res.status(400).json({ error: 'An organization needs at least one owner' });
+    }
+
+    annotateAudit(req, { metadata: { organizationId, memberId: userId, role: member.role } });
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.teamMember.deleteMany({
+        where: { userId, team: { organizationId } }
+      });
+      await tx.projectMember.deleteMany({
+        where: { userId, project: { organizationId } }
+      });
+      await tx.organizationMember.delete({
+        where: { id: member.id }
+      });
+    });
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove organization member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
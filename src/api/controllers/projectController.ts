@@ -1,13 +1,44 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { pageArgs, pageOf, parsePage } from '../services/pagination';
+import { checkOrganizationAccess, ensurePersonalOrganization } from '../services/organizationAccess';
+import {
+  accessibleProjectsWhere,
+  checkProjectAccess,
+  projectRoleInclude,
+  resolveProjectRole
+} from '../services/projectAccess';
+import { isValidRotationInterval, MAX_ROTATION_INTERVAL_DAYS } from '../services/secretExpiry';
+import { purgeAt, purgeProject } from '../services/trash';
+import { queueWebhookDeliveries } from '../services/webhooks';
 
-interface AuthRequest extends Request {
-  user?: {
-    userId: string;
-    email: string;
-  };
-}
 
+const MAX_VERSION_RETENTION = 1000;
+
+// Environments every new project starts with; the first is the default.
+const DEFAULT_ENVIRONMENTS = ['development', 'staging', 'production'];
+
+const PROJECT_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  versionRetention: true,
+  revealRequiresMfa: true,
+  defaultRotationDays: true,
+  blockExpiredSecrets: true,
+  organizationId: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const PROJECT_PAGE_OPTIONS = {
+  sortFields: { name: 'name', created: 'createdAt', updated: 'updatedAt' },
+  defaultSort: 'created',
+  defaultOrder: 'desc' as const,
+  searchField: 'name'
+};
 
 export const getProjects = async (req: AuthRequest, res: Response) => {
   try {
@@ -17,19 +48,39 @@ export const getProjects = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const projects = await prisma.project.findMany({
-      where: { userId },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        createdAt: true,
-        updatedAt: true
-      },
-      orderBy: { createdAt: 'desc' }
-    });
+    const { organizationId } = req.query;
+
+    const { page, error } = parsePage(req.query, PROJECT_PAGE_OPTIONS);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
+    }
+
+    const where = {
+      ...accessibleProjectsWhere(userId),
+      deletedAt: null,
+      ...(organizationId !== undefined && { organizationId: String(organizationId) }),
+      ...page.search
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.project.findMany({
+        ...pageArgs(page, where),
+        select: {
+          ...PROJECT_SELECT,
+          ...projectRoleInclude(userId)
+        }
+      }),
+      prisma.project.count({ where }),
+    ]);
+    const { items, pagination } = pageOf(rows, page, total);
 
-    res.json({ projects });
+    res.json({
+      projects: items.map(({ members, teamGrants, organization, ...project }) => ({
+        ...project,
+        role: resolveProjectRole({ members, teamGrants, organization })
+      })),
+      pagination
+    });
   } catch (error) {
     console.error('Get projects error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -39,7 +90,7 @@ export const getProjects = async (req: AuthRequest, res: Response) => {
 export const createProject = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { name, description } = req.body;
+    const { name, description, organizationId } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -49,24 +100,42 @@ export const createProject = async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Project name is required' });
     }
 
+    // Without an organization the project goes into the creator's personal one
+    let ownerOrganizationId: string;
+    if (organizationId !== undefined) {
+      const access = await checkOrganizationAccess(req, String(organizationId), 'member');
+      if (access.error !== undefined) {
+        return res.status(access.status).json({ error: access.error });
+      }
+      ownerOrganizationId = access.organization.id;
+    } else {
+      ownerOrganizationId = (await ensurePersonalOrganization(userId)).id;
+    }
+
     const project = await prisma.project.create({
       data: {
         name: name.trim(),
         description: description?.trim() || null,
-        userId
+        organizationId: ownerOrganizationId,
+        createdById: userId,
+        members: {
+          create: { userId, role: 'owner' }
+        },
+        environments: {
+          create: DEFAULT_ENVIRONMENTS.map((environment, index) => ({
+            name: environment,
+            isDefault: index === 0
+          }))
+        }
       },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        createdAt: true,
-        updatedAt: true
-      }
+      select: PROJECT_SELECT
     });
 
+    annotateAudit(req, { projectId: project.id });
+
     res.status(201).json({
       message: 'Project created successfully',
-      project
+      project: { ...project, role: 'owner' }
     });
   } catch (error) {
     console.error('Create project error:', error);
@@ -83,25 +152,17 @@ export const getProject = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const project = await prisma.project.findFirst({
-      where: {
-        id,
-        userId
-      },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        createdAt: true,
-        updatedAt: true
-      }
-    });
-
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    const access = await checkProjectAccess(req, id, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
     }
 
-    res.json({ project });
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: PROJECT_SELECT
+    });
+
+    res.json({ project: { ...project, role: access.role } });
   } catch (error) {
     console.error('Get project error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -112,7 +173,7 @@ export const updateProject = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, description, versionRetention, revealRequiresMfa, defaultRotationDays, blockExpiredSecrets } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -122,32 +183,49 @@ export const updateProject = async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Project name cannot be empty' });
     }
 
-    const existingProject = await prisma.project.findFirst({
-      where: {
-        id,
-        userId
-      }
-    });
+    if (
+      versionRetention !== undefined &&
+      (!Number.isInteger(versionRetention) || versionRetention < 1 || versionRetention > MAX_VERSION_RETENTION)
+    ) {
+      return res.status(400).json({
+        error: `Version retention must be an integer between 1 and ${MAX_VERSION_RETENTION}`
+      });
+    }
+
+    if (revealRequiresMfa !== undefined && typeof revealRequiresMfa !== 'boolean') {
+      return res.status(400).json({ error: 'revealRequiresMfa must be a boolean' });
+    }
+
+    if (defaultRotationDays !== undefined && defaultRotationDays !== null && !isValidRotationInterval(defaultRotationDays)) {
+      return res.status(400).json({
+        error: `defaultRotationDays must be an integer between 1 and ${MAX_ROTATION_INTERVAL_DAYS} or null`
+      });
+    }
+
+    if (blockExpiredSecrets !== undefined && typeof blockExpiredSecrets !== 'boolean') {
+      return res.status(400).json({ error: 'blockExpiredSecrets must be a boolean' });
+    }
 
-    if (!existingProject) {
-      return res.status(404).json({ error: 'Project not found' });
+    const access = await checkProjectAccess(req, id, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
     }
 
     const project = await prisma.project.update({
       where: { id },
       data: {
         name: name !== undefined ? name.trim() : undefined,
-        description: description !== undefined ? description.trim() : undefined
+        description: description !== undefined ? description.trim() : undefined,
+        versionRetention,
+        revealRequiresMfa,
+        defaultRotationDays,
+        blockExpiredSecrets
       },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        createdAt: true,
-        updatedAt: true
-      }
+      select: PROJECT_SELECT
     });
 
+    await queueWebhookDeliveries(id, 'project.updated', { project });
+
     res.json({
       message: 'Project updated successfully',
       project
@@ -167,24 +245,102 @@ export const deleteProject = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const existingProject = await prisma.project.findFirst({
-      where: {
-        id,
-        userId
-      }
+    const access = await checkProjectAccess(req, id, 'own');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const deletedAt = new Date();
+    await prisma.project.update({
+      where: { id },
+      data: { deletedAt, deletedById: userId }
+    });
+
+    res.json({ message: 'Project moved to the trash', purgeAt: purgeAt(deletedAt) });
+  } catch (error) {
+    console.error('Delete project error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getTrashedProjects = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Only those who could delete a project see it in the trash
+    const projects = await prisma.project.findMany({
+      where: { ...accessibleProjectsWhere(userId, ['owner']), deletedAt: { not: null } },
+      select: { ...PROJECT_SELECT, deletedAt: true, deletedById: true },
+      orderBy: { deletedAt: 'desc' }
+    });
+
+    // Only trashed projects are selected, so every one has its deletion date
+    res.json({
+      projects: projects.map((project) => ({ ...project, purgeAt: purgeAt(project.deletedAt!) }))
     });
+  } catch (error) {
+    console.error('Get trashed projects error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const restoreProject = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const access = await checkProjectAccess(req, id, 'own', { includeDeleted: true });
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
 
-    if (!existingProject) {
-      return res.status(404).json({ error: 'Project not found' });
+    if (!access.project.deletedAt) {
+      return res.status(409).json({ error: 'Project is not in the trash' });
     }
 
-    await prisma.project.delete({
-      where: { id }
+    const project = await prisma.project.update({
+      where: { id },
+      data: { deletedAt: null, deletedById: null },
+      select: PROJECT_SELECT
     });
 
-    res.json({ message: 'Project deleted successfully' });
+    res.json({
+      message: 'Project restored successfully',
+      project: { ...project, role: access.role }
+    });
   } catch (error) {
-    console.error('Delete project error:', error);
+    console.error('Restore project error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const purgeTrashedProject = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const access = await checkProjectAccess(req, id, 'own', { includeDeleted: true });
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    await purgeProject(id);
+
+    res.json({ message: 'Project permanently deleted' });
+  } catch (error) {
+    console.error('Purge project error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -1,74 +1,272 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
+import { Prisma, Project } from '@prisma/client';
 import prisma from '../../infrastructure/db/prisma';
-import cryptoService from '../../infrastructure/crypto/crypto';
+import { encryptForProject, decryptForProject } from '../../infrastructure/crypto/projectKeys';
+import { AuthRequest } from '../middleware/auth';
+import {
+  canAccessEnvironment,
+  checkProjectAccess,
+  isAuthenticated,
+  isProjectUser,
+  ProjectAccessResult
+} from '../services/projectAccess';
+import {
+  CONFLICT_POLICIES,
+  ConflictPolicy,
+  IMPORT_FORMATS,
+  ImportFormat,
+  parseSecretFile
+} from '../services/secretImport';
+import { EXPORT_FORMATS, ExportFormat, formatSecrets, toKubernetesName } from '../services/secretExport';
+import { annotateAudit, recordAudit } from '../services/audit';
+import { pageArgs, pageOf, parsePage } from '../services/pagination';
+import { hasFreshSecondFactor } from '../services/mfa';
+import { publishSecretEvents, SecretChange } from '../services/secretEvents';
+import { isSecretExpired, parseScheduleInput } from '../services/secretExpiry';
+import { purgeAt, purgeSecret } from '../services/trash';
+import {
+  isSecretType,
+  parseMetadataInput,
+  parseSecretFilters,
+  SecretType,
+  validateSecretValue
+} from '../services/secretMetadata';
+import {
+  LoadedReference,
+  ReferenceLoader,
+  referenceId,
+  ReferenceTarget,
+  resolveSecretValue,
+  SecretLocation,
+  SecretReferenceError
+} from '../services/secretReferences';
 
-interface AuthRequest extends Request {
-  user?: {
-    userId: string;
-    email: string;
-  };
-}
+const SECOND_FACTOR_REQUIRED = 'A recent second-factor check is required to reveal secrets in this project';
+const SECRET_EXPIRED = 'This secret has expired and the project does not allow reading expired secrets';
+const OWNER_NOT_IN_PROJECT = 'The owner must be a user with access to the project';
+const SECRET_IN_TRASH = 'A secret with this key is in the trash; restore it or delete it permanently first';
+const SECRET_VIEWS = ['resolved', 'raw'];
+
+// Metadata returned for secrets; values only ever come back from the reveal routes
+const SECRET_SELECT = {
+  id: true,
+  key: true,
+  type: true,
+  description: true,
+  tags: true,
+  ownerId: true,
+  version: true,
+  expiresAt: true,
+  rotationIntervalDays: true,
+  rotatedAt: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const SECRET_PAGE_OPTIONS = {
+  sortFields: { key: 'key', created: 'createdAt', updated: 'updatedAt' },
+  defaultSort: 'created',
+  defaultOrder: 'desc' as const,
+  searchField: 'key'
+};
 
 
-async function checkProjectOwnership(projectId: string, userId: string) {
-  const project = await prisma.project.findFirst({
-    where: { id: projectId, userId }
+/**
+ * Environment addressed by the request, or the project's default environment
+ * for the routes that are not scoped to one
+ */
+async function findEnvironment(projectId: string, name?: string) {
+  return prisma.environment.findFirst({
+    where: name ? { projectId, name } : { projectId, isDefault: true }
   });
-  return project;
 }
 
 
-function encryptSecretValue(value: string): string {
-  const encryptionKey = process.env.ENCRYPTION_KEY || 'default-key-for-development';
+// Live secrets the request can reach; spread `deletedAt` after it to reach the trash instead
+function secretScope(req: AuthRequest, projectId: string, environment?: string) {
+  const scope: Record<string, unknown> = environment
+    ? { projectId, environment: { name: environment }, deletedAt: null }
+    : { projectId, deletedAt: null };
+
+  if (req.serviceToken?.environmentId) {
+    scope.environmentId = req.serviceToken.environmentId;
+  }
+  return scope;
+}
+
+
+/**
+ * Validation shared by single and bulk secret writes; returns the error
+ * message for an invalid key/value pair
+ */
+function validateSecretInput(key: unknown, value: unknown): string | null {
+  if (!key || !value) {
+    return 'Secret key and value are required';
+  }
+
+  if (typeof key !== 'string' || typeof value !== 'string') {
+    return 'Secret key and value must be strings';
+  }
 
-  const encrypted = cryptoService.encrypt(value, encryptionKey);
+  if (key.trim().length === 0) {
+    return 'Secret key cannot be empty';
+  }
+  return null;
+}
 
 
-  return JSON.stringify(encrypted);
+// A stored type this version does not know is checked as a plain string
+function storedSecretType(type: string): SecretType {
+  return isSecretType(type) ? type : 'string';
 }
 
 
-function decryptSecretValue(encryptedData: string): string {
-  const encryptionKey = process.env.ENCRYPTION_KEY || 'default-key-for-development';
+/**
+ * Projects can require users to pass a second factor shortly before secret
+ * values are revealed. Service tokens have no second factor and are exempt.
+ */
+async function needsSecondFactor(req: AuthRequest, project: { revealRequiresMfa?: boolean }): Promise<boolean> {
+  if (!project.revealRequiresMfa || !req.user) {
+    return false;
+  }
+  return !(await hasFreshSecondFactor(req.user.sessionId));
+}
+
+
+async function encryptSecretValue(projectId: string, value: string): Promise<string> {
+  return encryptForProject(projectId, value);
+}
+
 
+async function decryptSecretValue(projectId: string, encryptedData: string): Promise<string> {
   try {
-    const encrypted = JSON.parse(encryptedData);
-    const decrypted = cryptoService.decrypt(encrypted, encryptionKey);
-    return decrypted.value;
+    return await decryptForProject(projectId, encryptedData);
   } catch (error) {
     throw new Error('Failed to decrypt secret value');
   }
 }
 
 
+/**
+ * Loads the secrets that references in a value point at, under the same rules
+ * as reading them directly: read access and the second-factor rule of other
+ * projects, blocked expired secrets and the environment a service token is
+ * restricted to. Each secret is loaded once per request.
+ */
+function referenceLoader(req: AuthRequest, project: Project): ReferenceLoader {
+  const projects = new Map<string, Promise<ProjectAccessResult>>([[project.id, Promise.resolve({ project })]]);
+  const loaded = new Map<string, Promise<LoadedReference | null>>();
+
+  const load = async (from: SecretLocation, target: ReferenceTarget): Promise<LoadedReference | null> => {
+    if (!projects.has(target.projectId)) {
+      projects.set(target.projectId, checkProjectAccess(req, target.projectId, 'read'));
+    }
+    const access = await (projects.get(target.projectId) as Promise<ProjectAccessResult>);
+    if (access.error !== undefined) {
+      return { error: access.error };
+    }
+
+    if (target.projectId !== project.id && await needsSecondFactor(req, access.project)) {
+      return { error: SECOND_FACTOR_REQUIRED };
+    }
+
+    const environment = target.environment === null
+      ? { id: from.environmentId }
+      : await prisma.environment.findFirst({ where: { projectId: target.projectId, name: target.environment } });
+    if (!environment) {
+      return null;
+    }
+
+    if (!canAccessEnvironment(req, environment.id)) {
+      return { error: 'Token is not valid for this environment' };
+    }
+
+    const secret = await prisma.secret.findFirst({
+      where: { projectId: target.projectId, environmentId: environment.id, key: target.key, deletedAt: null },
+      select: { value: true, expiresAt: true }
+    });
+    if (!secret) {
+      return null;
+    }
+
+    if (access.project.blockExpiredSecrets && isSecretExpired(secret)) {
+      return { error: SECRET_EXPIRED };
+    }
+
+    return {
+      location: { projectId: target.projectId, environmentId: environment.id },
+      value: await decryptSecretValue(target.projectId, secret.value)
+    };
+  };
+
+  return (from, target) => {
+    const cacheKey = [target.projectId, target.environment ?? `#${from.environmentId}`, target.key].join('/');
+    if (!loaded.has(cacheKey)) {
+      loaded.set(cacheKey, load(from, target));
+    }
+    return loaded.get(cacheKey) as Promise<LoadedReference | null>;
+  };
+}
+
+
+async function pruneSecretVersions(tx: Prisma.TransactionClient, secretId: string, retention: number) {
+  const oldestKept = await tx.secretVersion.findFirst({
+    where: { secretId },
+    orderBy: { version: 'desc' },
+    skip: retention - 1,
+    select: { version: true }
+  });
+
+  if (oldestKept) {
+    await tx.secretVersion.deleteMany({
+      where: { secretId, version: { lt: oldestKept.version } }
+    });
+  }
+}
+
+
 
 export const getSecrets = async (req: AuthRequest, res: Response) => {
   try {
-    if (!req.user) {
+    if (!isAuthenticated(req)) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { id: projectId } = req.params;
+    const { id: projectId, environment: environmentName } = req.params;
+
+    const { filters, error: filterError } = parseSecretFilters(req.query);
+    if (filterError !== undefined) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    const { page, error: pageError } = parsePage(req.query, SECRET_PAGE_OPTIONS);
+    if (pageError !== undefined) {
+      return res.status(400).json({ error: pageError });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
 
 
-    const project = await checkProjectOwnership(projectId, req.user.userId);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    const environment = await findEnvironment(projectId, environmentName);
+    if (!environment) {
+      return res.status(404).json({ error: 'Environment not found' });
     }
 
+    if (!canAccessEnvironment(req, environment.id)) {
+      return res.status(403).json({ error: 'Token is not valid for this environment' });
+    }
 
-    const secrets = await prisma.secret.findMany({
-      where: { projectId },
-      select: {
-        id: true,
-        key: true,
-        createdAt: true,
-        updatedAt: true
-      },
-      orderBy: { createdAt: 'desc' }
-    });
+    const where = { projectId, environmentId: environment.id, deletedAt: null, ...filters, ...page.search };
+    const [rows, total] = await Promise.all([
+      prisma.secret.findMany({ ...pageArgs(page, where), select: SECRET_SELECT }),
+      prisma.secret.count({ where }),
+    ]);
+    const { items, pagination } = pageOf(rows, page, total);
 
-    res.json({ secrets });
+    res.json({ secrets: items, pagination });
   } catch (error) {
     console.error('Get secrets error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -78,59 +276,93 @@ export const getSecrets = async (req: AuthRequest, res: Response) => {
 
 export const createSecret = async (req: AuthRequest, res: Response) => {
   try {
-    if (!req.user) {
+    if (!isAuthenticated(req)) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { id: projectId } = req.params;
+    const { id: projectId, environment: environmentName } = req.params;
     const { key, value } = req.body;
 
     
-    if (!key || !value) {
-      return res.status(400).json({ error: 'Secret key and value are required' });
+    const validationError = validateSecretInput(key, value);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    annotateAudit(req, { secretKey: key });
+
+    const { schedule, error: scheduleError } = parseScheduleInput(req.body);
+    if (scheduleError !== undefined) {
+      return res.status(400).json({ error: scheduleError });
     }
 
-    if (typeof key !== 'string' || typeof value !== 'string') {
-      return res.status(400).json({ error: 'Secret key and value must be strings' });
+    const { metadata, error: metadataError } = parseMetadataInput(req.body);
+    if (metadataError !== undefined) {
+      return res.status(400).json({ error: metadataError });
     }
 
-    if (key.trim().length === 0) {
-      return res.status(400).json({ error: 'Secret key cannot be empty' });
+    const valueError = validateSecretValue(metadata.type ?? 'string', value);
+    if (valueError) {
+      return res.status(400).json({ error: valueError });
     }
 
    
-    const project = await checkProjectOwnership(projectId, req.user.userId);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    const access = await checkProjectAccess(req, projectId, 'write');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (metadata.ownerId && !(await isProjectUser(access.project, metadata.ownerId))) {
+      return res.status(400).json({ error: OWNER_NOT_IN_PROJECT });
     }
 
    
+    const environment = await findEnvironment(projectId, environmentName);
+    if (!environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    if (!canAccessEnvironment(req, environment.id)) {
+      return res.status(403).json({ error: 'Token is not valid for this environment' });
+    }
+
     const existingSecret = await prisma.secret.findFirst({
-      where: { projectId, key }
+      where: { projectId, environmentId: environment.id, key }
     });
 
     if (existingSecret) {
-      return res.status(409).json({ error: 'Secret key already exists in this project' });
+      return res.status(409).json({
+        error: existingSecret.deletedAt ? SECRET_IN_TRASH : 'Secret key already exists in this environment'
+      });
     }
 
 
-    const encryptedValue = encryptSecretValue(value);
+    const encryptedValue = await encryptSecretValue(projectId, value);
 
 
     const secret = await prisma.secret.create({
       data: {
         key,
         value: encryptedValue,
-        projectId
+        projectId,
+        environmentId: environment.id,
+        ...metadata,
+        ...schedule,
+        versions: {
+          create: { version: 1, value: encryptedValue, createdById: req.user?.userId ?? null }
+        }
       },
-      select: {
-        id: true,
-        key: true,
-        createdAt: true,
-        updatedAt: true
-      }
+      select: SECRET_SELECT
     });
 
+    await publishSecretEvents([{
+      type: 'created',
+      projectId,
+      environmentId: environment.id,
+      secretId: secret.id,
+      key: secret.key,
+      version: secret.version
+    }]);
+
     res.status(201).json({
       message: 'Secret created successfully',
       secret
@@ -144,33 +376,79 @@ export const createSecret = async (req: AuthRequest, res: Response) => {
 
 export const getSecret = async (req: AuthRequest, res: Response) => {
   try {
-    if (!req.user) {
+    if (!isAuthenticated(req)) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { id: projectId, secretId } = req.params;
+    const { id: projectId, secretId, environment } = req.params;
+    const { view = 'resolved' } = req.query;
+
+    if (!SECRET_VIEWS.includes(view as string)) {
+      return res.status(400).json({ error: 'View must be resolved or raw' });
+    }
+
 
+    const access = await checkProjectAccess(req, projectId, 'read');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
 
-    const project = await checkProjectOwnership(projectId, req.user.userId);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    if (await needsSecondFactor(req, access.project)) {
+      return res.status(403).json({ error: SECOND_FACTOR_REQUIRED, mfaRequired: true });
     }
 
     const secret = await prisma.secret.findFirst({
-      where: { id: secretId, projectId }
+      where: { id: secretId, ...secretScope(req, projectId, environment) }
     });
 
     if (!secret) {
       return res.status(404).json({ error: 'Secret not found' });
     }
+    annotateAudit(req, { secretKey: secret.key });
+
+    if (access.project.blockExpiredSecrets && isSecretExpired(secret)) {
+      return res.status(403).json({ error: SECRET_EXPIRED, expired: true });
+    }
 
-    const decryptedValue = decryptSecretValue(secret.value);
+    const decryptedValue = await decryptSecretValue(projectId, secret.value);
+
+    // The resolved view comes with the raw value, so references stay editable.
+    // A reference that cannot be resolved is reported instead of failing the
+    // read, since values that merely look like one still have to be readable.
+    let resolvedValue: string | undefined;
+    let referenceError: { error: string; reference: string } | undefined;
+    if (view === 'resolved') {
+      const location = { projectId, environmentId: secret.environmentId };
+      try {
+        resolvedValue = await resolveSecretValue(
+          decryptedValue,
+          location,
+          referenceLoader(req, access.project),
+          [referenceId(location, secret.key)],
+        );
+      } catch (error) {
+        if (!(error instanceof SecretReferenceError)) {
+          throw error;
+        }
+        referenceError = { error: error.message, reference: error.reference };
+      }
+    }
 
     res.json({
       secret: {
         id: secret.id,
         key: secret.key,
         value: decryptedValue,
+        ...(resolvedValue !== undefined && { resolvedValue }),
+        ...(referenceError && { referenceError }),
+        type: secret.type,
+        description: secret.description,
+        tags: secret.tags,
+        ownerId: secret.ownerId,
+        version: secret.version,
+        expiresAt: secret.expiresAt,
+        rotationIntervalDays: secret.rotationIntervalDays,
+        rotatedAt: secret.rotatedAt,
         createdAt: secret.createdAt,
         updatedAt: secret.updatedAt
       }
@@ -184,43 +462,107 @@ export const getSecret = async (req: AuthRequest, res: Response) => {
 
 export const updateSecret = async (req: AuthRequest, res: Response) => {
   try {
-    if (!req.user) {
+    if (!isAuthenticated(req)) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { id: projectId, secretId } = req.params;
+    const { id: projectId, secretId, environment } = req.params;
     const { value } = req.body;
 
-    if (!value || typeof value !== 'string') {
+    const { schedule, error: scheduleError } = parseScheduleInput(req.body);
+    if (scheduleError !== undefined) {
+      return res.status(400).json({ error: scheduleError });
+    }
+    const changesSchedule = Object.keys(schedule).length > 0;
+
+    const { metadata, error: metadataError } = parseMetadataInput(req.body);
+    if (metadataError !== undefined) {
+      return res.status(400).json({ error: metadataError });
+    }
+
+    // The value may be left out when only the schedule or metadata change
+    const changesSettings = changesSchedule || Object.keys(metadata).length > 0;
+    if ((value !== undefined || !changesSettings) && (!value || typeof value !== 'string')) {
       return res.status(400).json({ error: 'Secret value is required and must be a string' });
     }
 
-    const project = await checkProjectOwnership(projectId, req.user.userId);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    const access = await checkProjectAccess(req, projectId, 'write');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
     }
+    const { project } = access;
 
     const existingSecret = await prisma.secret.findFirst({
-      where: { id: secretId, projectId }
+      where: { id: secretId, ...secretScope(req, projectId, environment) }
     });
 
     if (!existingSecret) {
       return res.status(404).json({ error: 'Secret not found' });
     }
+    annotateAudit(req, { secretKey: existingSecret.key });
+    const changedSecret = {
+      projectId,
+      environmentId: existingSecret.environmentId,
+      secretId,
+      key: existingSecret.key
+    };
 
-    const encryptedValue = encryptSecretValue(value);
+    if (metadata.ownerId && !(await isProjectUser(project, metadata.ownerId))) {
+      return res.status(400).json({ error: OWNER_NOT_IN_PROJECT });
+    }
 
-    const updatedSecret = await prisma.secret.update({
-      where: { id: secretId },
-      data: { value: encryptedValue },
-      select: {
-        id: true,
-        key: true,
-        createdAt: true,
-        updatedAt: true
+    // The value, new or current, has to fit the type the secret ends up with
+    const type = metadata.type ?? storedSecretType(existingSecret.type);
+    if (value !== undefined || type !== existingSecret.type) {
+      const valueError = validateSecretValue(type, value ?? await decryptSecretValue(projectId, existingSecret.value));
+      if (valueError) {
+        return res.status(400).json({ error: valueError });
       }
+    }
+
+    if (value === undefined) {
+      const secret = await prisma.secret.update({
+        where: { id: secretId },
+        data: { ...metadata, ...schedule, ...(changesSchedule && { remindedAt: null }) },
+        select: SECRET_SELECT
+      });
+
+      await publishSecretEvents([{ type: 'updated', ...changedSecret, version: secret.version }]);
+
+      return res.json({
+        message: 'Secret updated successfully',
+        secret
+      });
+    }
+
+    const encryptedValue = await encryptSecretValue(projectId, value);
+
+    const userId = req.user?.userId ?? null;
+    const updatedSecret = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // A new value is a rotation: its schedule starts over
+      const secret = await tx.secret.update({
+        where: { id: secretId },
+        data: {
+          value: encryptedValue,
+          version: { increment: 1 },
+          ...metadata,
+          ...schedule,
+          rotatedAt: new Date(),
+          remindedAt: null
+        },
+        select: SECRET_SELECT
+      });
+
+      await tx.secretVersion.create({
+        data: { secretId, version: secret.version, value: encryptedValue, createdById: userId }
+      });
+      await pruneSecretVersions(tx, secretId, project.versionRetention);
+
+      return secret;
     });
 
+    await publishSecretEvents([{ type: 'updated', ...changedSecret, version: updatedSecret.version }]);
+
     res.json({
       message: 'Secret updated successfully',
       secret: updatedSecret
@@ -234,32 +576,626 @@ export const updateSecret = async (req: AuthRequest, res: Response) => {
 
 export const deleteSecret = async (req: AuthRequest, res: Response) => {
   try {
-    if (!req.user) {
+    if (!isAuthenticated(req)) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { id: projectId, secretId } = req.params;
+    const { id: projectId, secretId, environment } = req.params;
 
-    const project = await checkProjectOwnership(projectId, req.user.userId);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    const access = await checkProjectAccess(req, projectId, 'write');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
     }
 
     const existingSecret = await prisma.secret.findFirst({
-      where: { id: secretId, projectId }
+      where: { id: secretId, ...secretScope(req, projectId, environment) }
     });
 
     if (!existingSecret) {
       return res.status(404).json({ error: 'Secret not found' });
     }
+    annotateAudit(req, { secretKey: existingSecret.key });
 
-    await prisma.secret.delete({
-      where: { id: secretId }
+    const deletedAt = new Date();
+    await prisma.secret.update({
+      where: { id: secretId },
+      data: { deletedAt, deletedById: req.user?.userId ?? null, deletedByTokenId: req.serviceToken?.id ?? null }
     });
 
-    res.json({ message: 'Secret deleted successfully' });
+    await publishSecretEvents([{
+      type: 'deleted',
+      projectId,
+      environmentId: existingSecret.environmentId,
+      secretId,
+      key: existingSecret.key,
+      version: existingSecret.version
+    }]);
+
+    res.json({ message: 'Secret moved to the trash', purgeAt: purgeAt(deletedAt) });
   } catch (error) {
     console.error('Delete secret error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+
+export const getTrashedSecrets = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, environment } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const secrets = await prisma.secret.findMany({
+      where: { ...secretScope(req, projectId, environment), deletedAt: { not: null } },
+      select: {
+        ...SECRET_SELECT,
+        deletedAt: true,
+        deletedById: true,
+        deletedByTokenId: true,
+        environment: { select: { name: true } }
+      },
+      orderBy: { deletedAt: 'desc' }
+    });
+
+    // Only trashed secrets are selected, so every one has its deletion date
+    res.json({
+      secrets: secrets.map(({ environment: { name }, ...secret }) => ({
+        ...secret,
+        environment: name,
+        purgeAt: purgeAt(secret.deletedAt!)
+      }))
+    });
+  } catch (error) {
+    console.error('Get trashed secrets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const restoreSecret = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, secretId, environment } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'write');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const trashedSecret = await prisma.secret.findFirst({
+      where: { id: secretId, ...secretScope(req, projectId, environment), deletedAt: { not: null } }
+    });
+
+    if (!trashedSecret) {
+      return res.status(404).json({ error: 'Secret not found in the trash' });
+    }
+    annotateAudit(req, { secretKey: trashedSecret.key });
+
+    const secret = await prisma.secret.update({
+      where: { id: secretId },
+      data: { deletedAt: null, deletedById: null, deletedByTokenId: null },
+      select: SECRET_SELECT
+    });
+
+    await publishSecretEvents([{
+      type: 'created',
+      projectId,
+      environmentId: trashedSecret.environmentId,
+      secretId,
+      key: secret.key,
+      version: secret.version
+    }]);
+
+    res.json({
+      message: 'Secret restored successfully',
+      secret
+    });
+  } catch (error) {
+    console.error('Restore secret error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const purgeTrashedSecret = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, secretId, environment } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'own');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    // Live secrets can be deleted permanently right away as well
+    const secret = await prisma.secret.findFirst({
+      where: { id: secretId, ...secretScope(req, projectId, environment), deletedAt: undefined },
+      select: { key: true, environmentId: true, version: true, deletedAt: true }
+    });
+
+    if (!secret) {
+      return res.status(404).json({ error: 'Secret not found' });
+    }
+    annotateAudit(req, { secretKey: secret.key });
+
+    await purgeSecret(secretId);
+
+    // Secrets in the trash were reported deleted when they went there
+    if (!secret.deletedAt) {
+      await publishSecretEvents([{
+        type: 'deleted',
+        projectId,
+        environmentId: secret.environmentId,
+        secretId,
+        key: secret.key,
+        version: secret.version
+      }]);
+    }
+
+    res.json({ message: 'Secret permanently deleted' });
+  } catch (error) {
+    console.error('Purge secret error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getSecretVersions = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, secretId, environment } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const secret = await prisma.secret.findFirst({
+      where: { id: secretId, ...secretScope(req, projectId, environment) },
+      select: { id: true, key: true, version: true }
+    });
+
+    if (!secret) {
+      return res.status(404).json({ error: 'Secret not found' });
+    }
+    annotateAudit(req, { secretKey: secret.key });
+
+    const versions = await prisma.secretVersion.findMany({
+      where: { secretId },
+      select: {
+        version: true,
+        createdById: true,
+        createdAt: true
+      },
+      orderBy: { version: 'desc' }
+    });
+
+    res.json({
+      secret: { id: secret.id, key: secret.key, currentVersion: secret.version },
+      versions
+    });
+  } catch (error) {
+    console.error('Get secret versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getSecretVersion = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, secretId, environment } = req.params;
+    const version = parseInt(req.params.version, 10);
+
+    if (isNaN(version)) {
+      return res.status(400).json({ error: 'Version must be a number' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'read');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (await needsSecondFactor(req, access.project)) {
+      return res.status(403).json({ error: SECOND_FACTOR_REQUIRED, mfaRequired: true });
+    }
+
+    const secretVersion = await prisma.secretVersion.findFirst({
+      where: { secretId, version, secret: secretScope(req, projectId, environment) },
+      include: { secret: { select: { key: true, expiresAt: true } } }
+    });
+
+    if (!secretVersion) {
+      return res.status(404).json({ error: 'Secret version not found' });
+    }
+    annotateAudit(req, { secretKey: secretVersion.secret.key, metadata: { version } });
+
+    if (access.project.blockExpiredSecrets && isSecretExpired(secretVersion.secret)) {
+      return res.status(403).json({ error: SECRET_EXPIRED, expired: true });
+    }
+
+    const decryptedValue = await decryptSecretValue(projectId, secretVersion.value);
+
+    res.json({
+      secret: {
+        id: secretId,
+        key: secretVersion.secret.key,
+        value: decryptedValue,
+        version: secretVersion.version,
+        createdById: secretVersion.createdById,
+        createdAt: secretVersion.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Get secret version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const rollbackSecret = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, secretId, environment } = req.params;
+    const version = parseInt(req.params.version, 10);
+
+    if (isNaN(version)) {
+      return res.status(400).json({ error: 'Version must be a number' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'write');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const { project } = access;
+
+    const target = await prisma.secretVersion.findFirst({
+      where: { secretId, version, secret: secretScope(req, projectId, environment) },
+      include: { secret: { select: { environmentId: true, type: true } } }
+    });
+
+    if (!target) {
+      return res.status(404).json({ error: 'Secret version not found' });
+    }
+
+    // The secret may have been given a type the old value does not fit
+    const valueError = validateSecretValue(
+      storedSecretType(target.secret.type),
+      await decryptSecretValue(projectId, target.value),
+    );
+    if (valueError) {
+      return res.status(400).json({ error: `Version ${version} does not fit the secret's type: ${valueError}` });
+    }
+
+    // Rolling back records the old value as a new version; history is never rewritten.
+    const userId = req.user?.userId ?? null;
+    const updatedSecret = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const secret = await tx.secret.update({
+        where: { id: secretId },
+        data: { value: target.value, version: { increment: 1 }, rotatedAt: new Date(), remindedAt: null },
+        select: SECRET_SELECT
+      });
+
+      await tx.secretVersion.create({
+        data: { secretId, version: secret.version, value: target.value, createdById: userId }
+      });
+      await pruneSecretVersions(tx, secretId, project.versionRetention);
+
+      return secret;
+    });
+
+    annotateAudit(req, { secretKey: updatedSecret.key, metadata: { version } });
+
+    await publishSecretEvents([{
+      type: 'updated',
+      projectId,
+      environmentId: target.secret.environmentId,
+      secretId,
+      key: updatedSecret.key,
+      version: updatedSecret.version
+    }]);
+
+    res.json({
+      message: `Secret rolled back to version ${version}`,
+      secret: updatedSecret
+    });
+  } catch (error) {
+    console.error('Rollback secret error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const importSecrets = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, environment: environmentName } = req.params;
+    const { format, content, conflict = 'fail', dryRun = false } = req.body;
+
+    if (!IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: 'Format must be one of: dotenv, json, yaml' });
+    }
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return res.status(400).json({ error: 'Import content is required and must be a string' });
+    }
+
+    if (!CONFLICT_POLICIES.includes(conflict)) {
+      return res.status(400).json({ error: 'Conflict policy must be one of: skip, overwrite, fail' });
+    }
+
+    if (typeof dryRun !== 'boolean') {
+      return res.status(400).json({ error: 'dryRun must be a boolean' });
+    }
+
+    const parsed = parseSecretFile(format as ImportFormat, content);
+    if (parsed.error !== undefined) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const entries = Object.entries(parsed.secrets);
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'No secrets found in import' });
+    }
+
+    const invalid = entries
+      .map(([key, value]) => ({ key, error: validateSecretInput(key, value) }))
+      .filter((entry) => entry.error !== null);
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: 'Import contains invalid secrets', invalid });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'write');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const { project } = access;
+
+    const environment = await findEnvironment(projectId, environmentName);
+    if (!environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    if (!canAccessEnvironment(req, environment.id)) {
+      return res.status(403).json({ error: 'Token is not valid for this environment' });
+    }
+
+    const existingSecrets = await prisma.secret.findMany({
+      where: { projectId, environmentId: environment.id, key: { in: entries.map(([key]) => key) } },
+      select: { id: true, key: true, value: true, type: true, deletedAt: true }
+    });
+
+    const trashed = existingSecrets.filter((secret: { deletedAt: Date | null }) => secret.deletedAt);
+    if (trashed.length > 0) {
+      return res.status(409).json({
+        error: 'Secrets with these keys are in the trash; restore them or delete them permanently first',
+        trashed: trashed.map((secret: { key: string }) => secret.key)
+      });
+    }
+
+    const existingByKey = new Map<string, { id: string; key: string; value: string; type: string }>(
+      existingSecrets.map((secret: { id: string; key: string; value: string; type: string }) => [secret.key, secret]),
+    );
+
+    const toCreate: [string, string][] = [];
+    const toUpdate: [string, string][] = [];
+    const unchanged: string[] = [];
+    for (const [key, value] of entries) {
+      const existing = existingByKey.get(key);
+      if (!existing) {
+        toCreate.push([key, value]);
+      } else if ((await decryptSecretValue(projectId, existing.value)) === value) {
+        unchanged.push(key);
+      } else {
+        toUpdate.push([key, value]);
+      }
+    }
+
+    const policy = conflict as ConflictPolicy;
+    if (policy === 'fail' && toUpdate.length > 0) {
+      return res.status(409).json({
+        error: 'Secret keys already exist in this environment',
+        conflicts: toUpdate.map(([key]) => key)
+      });
+    }
+
+    const skipped = policy === 'skip' ? toUpdate.map(([key]) => key) : [];
+    const updates = policy === 'overwrite' ? toUpdate : [];
+
+    // Overwritten values have to fit the type each secret already has
+    const mistyped = updates
+      .map(([key, value]) => ({ key, error: validateSecretValue(storedSecretType(existingByKey.get(key)!.type), value) }))
+      .filter((entry) => entry.error !== null);
+    if (mistyped.length > 0) {
+      return res.status(400).json({ error: 'Import contains invalid secrets', invalid: mistyped });
+    }
+    const summary = {
+      created: toCreate.map(([key]) => key),
+      updated: updates.map(([key]) => key),
+      unchanged,
+      skipped
+    };
+    annotateAudit(req, { metadata: { format, conflict, dryRun, ...summary } });
+
+    if (dryRun) {
+      return res.json({ dryRun: true, ...summary });
+    }
+
+    // Encrypt up front so the transaction only holds the writes
+    const encrypt = async ([key, value]: [string, string]) =>
+      [key, await encryptSecretValue(projectId, value)] as [string, string];
+    const encryptedCreates = await Promise.all(toCreate.map(encrypt));
+    const encryptedUpdates = await Promise.all(updates.map(encrypt));
+
+    const userId = req.user?.userId ?? null;
+    const changes: SecretChange[] = [];
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const [key, encryptedValue] of encryptedCreates) {
+        const secret = await tx.secret.create({
+          data: {
+            key,
+            value: encryptedValue,
+            projectId,
+            environmentId: environment.id,
+            versions: {
+              create: { version: 1, value: encryptedValue, createdById: userId }
+            }
+          },
+          select: { id: true }
+        });
+        changes.push({ type: 'created', projectId, environmentId: environment.id, secretId: secret.id, key, version: 1 });
+      }
+
+      for (const [key, encryptedValue] of encryptedUpdates) {
+        const secretId = existingByKey.get(key)!.id;
+        const secret = await tx.secret.update({
+          where: { id: secretId },
+          data: { value: encryptedValue, version: { increment: 1 }, rotatedAt: new Date(), remindedAt: null },
+          select: { version: true }
+        });
+
+        await tx.secretVersion.create({
+          data: { secretId, version: secret.version, value: encryptedValue, createdById: userId }
+        });
+        await pruneSecretVersions(tx, secretId, project.versionRetention);
+        changes.push({ type: 'updated', projectId, environmentId: environment.id, secretId, key, version: secret.version });
+      }
+    });
+
+    await publishSecretEvents(changes);
+
+    res.json({
+      message: 'Secrets imported successfully',
+      dryRun: false,
+      ...summary
+    });
+  } catch (error) {
+    console.error('Import secrets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const exportSecrets = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, environment: environmentName } = req.params;
+    const { format, name } = req.query;
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return res.status(400).json({ error: 'Format must be one of: dotenv, json, yaml, shell, k8s' });
+    }
+
+    if (name !== undefined && typeof name !== 'string') {
+      return res.status(400).json({ error: 'Name must be a string' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'export');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const { project } = access;
+
+    if (await needsSecondFactor(req, project)) {
+      return res.status(403).json({ error: SECOND_FACTOR_REQUIRED, mfaRequired: true });
+    }
+
+    const environment = await findEnvironment(projectId, environmentName);
+    if (!environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    if (!canAccessEnvironment(req, environment.id)) {
+      return res.status(403).json({ error: 'Token is not valid for this environment' });
+    }
+
+    const secrets = await prisma.secret.findMany({
+      where: { projectId, environmentId: environment.id, deletedAt: null },
+      select: { key: true, value: true, expiresAt: true },
+      orderBy: { key: 'asc' }
+    });
+
+    if (project.blockExpiredSecrets) {
+      const expired = secrets.filter((secret: { expiresAt: Date | null }) => isSecretExpired(secret));
+      if (expired.length > 0) {
+        return res.status(403).json({
+          error: 'The environment holds expired secrets, which the project does not allow reading',
+          expired: expired.map((secret: { key: string }) => secret.key)
+        });
+      }
+    }
+
+    // Secrets whose references cannot be resolved are exported as stored and
+    // named in a header, rather than failing the whole export
+    const values: Record<string, string> = {};
+    const unresolved: string[] = [];
+    const load = referenceLoader(req, project);
+    const location = { projectId, environmentId: environment.id };
+    for (const secret of secrets) {
+      const value = await decryptSecretValue(projectId, secret.value);
+      try {
+        values[secret.key] = await resolveSecretValue(value, location, load, [referenceId(location, secret.key)]);
+      } catch (error) {
+        if (!(error instanceof SecretReferenceError)) {
+          throw error;
+        }
+        values[secret.key] = value;
+        unresolved.push(secret.key);
+      }
+    }
+
+    const exported = formatSecrets(format as ExportFormat, values, {
+      name: name ?? toKubernetesName(`${project.name}-${environment.name}`)
+    });
+    if (exported.error !== undefined) {
+      return res.status(400).json({ error: exported.error });
+    }
+
+    // The export is only handed out once it is on the audit trail
+    await recordAudit(req, {
+      action: 'secret.export',
+      outcome: 'success',
+      statusCode: 200,
+      projectId,
+      environment: environment.name,
+      metadata: { format, keys: secrets.length, ...(unresolved.length > 0 && { unresolved }) }
+    });
+
+    res.setHeader('Content-Disposition', `attachment; filename="${environment.name}.${exported.extension}"`);
+    if (unresolved.length > 0) {
+      res.setHeader('X-Unresolved-Secrets', unresolved.map(encodeURIComponent).join(','));
+    }
+    res.type(exported.contentType).send(exported.content);
+  } catch (error) {
+    console.error('Export secrets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,171 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../services/audit';
+import { canAccessEnvironment, checkProjectAccess, isAuthenticated } from '../services/projectAccess';
+import { isSessionActive } from '../services/sessions';
+import {
+  listSecretEvents,
+  SecretEvent,
+  SecretEventFilter,
+  subscribeSecretEvents
+} from '../services/secretEvents';
+
+const EVENT_ID_PATTERN = /^\d+$/;
+
+
+/**
+ * Where a stream resumes: the Last-Event-ID header EventSource sends when it
+ * reconnects, or the lastEventId query parameter for the first connection.
+ * null to only receive new events.
+ */
+function parseLastEventId(req: AuthRequest): { lastEventId: number | null; error?: string } {
+  const value = req.headers['last-event-id'] ?? req.query.lastEventId;
+  if (value === undefined) {
+    return { lastEventId: null };
+  }
+
+  if (typeof value !== 'string' || !EVENT_ID_PATTERN.test(value) || !Number.isSafeInteger(Number(value))) {
+    return { lastEventId: null, error: 'Last-Event-ID must be an event id' };
+  }
+  return { lastEventId: Number(value) };
+}
+
+
+/**
+ * Whether the credentials the stream was opened with still hold: the session
+ * is not signed out or the service token revoked, and neither has expired
+ */
+async function isStillAuthenticated(req: AuthRequest): Promise<boolean> {
+  if (req.user) {
+    return isSessionActive(req.user.sessionId);
+  }
+  if (!req.serviceToken) {
+    return false;
+  }
+
+  const token = await prisma.serviceToken.findUnique({
+    where: { id: req.serviceToken.id },
+    select: { revokedAt: true, expiresAt: true }
+  });
+  return Boolean(token && !token.revokedAt && (!token.expiresAt || token.expiresAt > new Date()));
+}
+
+
+function formatEvent(event: SecretEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+
+/**
+ * Stream changes to the secrets of a project, or one environment of it, as
+ * Server-Sent Events. Events carry keys and versions, never values. The
+ * session or token and the access it gives are checked again with every
+ * heartbeat, and the stream ends once either is gone.
+ */
+export const streamSecretEvents = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, environment: environmentName } = req.params;
+
+    const { lastEventId, error } = parseLastEventId(req);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    let environmentId = req.serviceToken?.environmentId ?? undefined;
+    if (environmentName) {
+      const environment = await prisma.environment.findFirst({ where: { projectId, name: environmentName } });
+      if (!environment) {
+        return res.status(404).json({ error: 'Environment not found' });
+      }
+
+      if (!canAccessEnvironment(req, environment.id)) {
+        return res.status(403).json({ error: 'Token is not valid for this environment' });
+      }
+      environmentId = environment.id;
+    }
+    const filter: SecretEventFilter = environmentId ? { projectId, environmentId } : { projectId };
+
+    // The stream has no end the audit middleware could wait for
+    await recordAudit(req, {
+      action: 'secret.events',
+      outcome: 'success',
+      statusCode: 200,
+      projectId,
+      environment: environmentName,
+      metadata: { lastEventId }
+    });
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Keeps reverse proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    // Live events wait until the missed ones are replayed, so the order holds and nothing is sent twice
+    let replaying = true;
+    const pending: SecretEvent[] = [];
+    const unsubscribe = subscribeSecretEvents(filter, (event) => {
+      if (replaying) {
+        pending.push(event);
+      } else {
+        res.write(formatEvent(event));
+      }
+    });
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await isStillAuthenticated(req))) {
+          res.end();
+          return;
+        }
+
+        const current = await checkProjectAccess(req, projectId, 'metadata');
+        if (current.error !== undefined) {
+          res.end();
+        } else {
+          res.write(': heartbeat\n\n');
+        }
+      } catch (error) {
+        console.error('Secret event stream error:', error);
+        res.end();
+      }
+    }, Math.max(config.events.heartbeatSeconds, 1) * 1000);
+
+    res.on('close', () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+    });
+
+    const replayed = new Set<number>();
+    if (lastEventId !== null) {
+      for (const event of await listSecretEvents(filter, lastEventId)) {
+        replayed.add(event.id);
+        res.write(formatEvent(event));
+      }
+    }
+    pending.filter((event) => !replayed.has(event.id)).forEach((event) => res.write(formatEvent(event)));
+    replaying = false;
+  } catch (error) {
+    console.error('Secret event stream error:', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+};
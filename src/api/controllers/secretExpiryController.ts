@@ -0,0 +1,34 @@
+import { Response } from 'express';
+import config from '../../infrastructure/config';
+import { AuthRequest } from '../middleware/auth';
+import { listDueSecrets } from '../services/secretExpiry';
+
+const MAX_DUE_DAYS = 365;
+
+
+/**
+ * Secrets in all of the caller's projects that have expired or missed their
+ * rotation, or will within the given number of days
+ */
+export const getDueSecrets = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const days = req.query.days === undefined
+      ? config.secretReminders.dueSoonDays
+      : Number(req.query.days);
+
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DUE_DAYS) {
+      return res.status(400).json({ error: `Days must be an integer between 0 and ${MAX_DUE_DAYS}` });
+    }
+
+    const secrets = await listDueSecrets(req.user.userId, days);
+
+    res.json({ days, secrets });
+  } catch (error) {
+    console.error('Get due secrets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
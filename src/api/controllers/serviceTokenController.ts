@@ -0,0 +1,168 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { checkProjectAccess } from '../services/projectAccess';
+import { generateServiceToken, isServiceTokenPermission } from '../services/serviceTokens';
+
+
+export const getServiceTokens = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const tokens = await prisma.serviceToken.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        name: true,
+        displayPrefix: true,
+        permission: true,
+        canExport: true,
+        environment: { select: { name: true } },
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ tokens });
+  } catch (error) {
+    console.error('Get service tokens error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const createServiceToken = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+    const { name, permission, environment: environmentName, expiresAt, canExport = false } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ error: 'Token name is required' });
+    }
+
+    if (!isServiceTokenPermission(permission)) {
+      return res.status(400).json({ error: 'Permission must be "read" or "write"' });
+    }
+
+    if (typeof canExport !== 'boolean') {
+      return res.status(400).json({ error: 'canExport must be a boolean' });
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return res.status(400).json({ error: 'Expiry must be a date in the future' });
+      }
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    let environmentId: string | null = null;
+    if (environmentName !== undefined && environmentName !== null) {
+      const environment = await prisma.environment.findFirst({
+        where: { projectId, name: environmentName }
+      });
+      if (!environment) {
+        return res.status(404).json({ error: 'Environment not found' });
+      }
+      environmentId = environment.id;
+    }
+
+    const { token, tokenHash, displayPrefix } = generateServiceToken();
+
+    const serviceToken = await prisma.serviceToken.create({
+      data: {
+        name: name.trim(),
+        tokenHash,
+        displayPrefix,
+        permission,
+        canExport,
+        projectId,
+        environmentId,
+        createdById: req.user.userId,
+        expiresAt: expiry
+      },
+      select: {
+        id: true,
+        name: true,
+        displayPrefix: true,
+        permission: true,
+        canExport: true,
+        expiresAt: true,
+        createdAt: true
+      }
+    });
+
+    annotateAudit(req, {
+      metadata: { tokenId: serviceToken.id, permission, canExport, environment: environmentName ?? null }
+    });
+
+    res.status(201).json({
+      message: 'Service token created successfully. Store it now, it will not be shown again',
+      token,
+      serviceToken
+    });
+  } catch (error) {
+    console.error('Create service token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const revokeServiceToken = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, tokenId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const serviceToken = await prisma.serviceToken.findFirst({
+      where: { id: tokenId, projectId }
+    });
+
+    if (!serviceToken) {
+      return res.status(404).json({ error: 'Service token not found' });
+    }
+
+    if (!serviceToken.revokedAt) {
+      await prisma.serviceToken.update({
+        where: { id: tokenId },
+        data: { revokedAt: new Date() }
+      });
+    }
+
+    annotateAudit(req, { metadata: { tokenId } });
+
+    res.json({ message: 'Service token revoked successfully' });
+  } catch (error) {
+    console.error('Revoke service token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,71 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { revokeSessions } from '../services/sessions';
+
+
+export const getSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.user.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        ip: true,
+        userAgent: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    const currentSessionId = req.user.sessionId;
+    res.json({
+      sessions: sessions.map((session: { id: string }) => ({ ...session, current: session.id === currentSessionId }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const revokeSession = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { sessionId } = req.params;
+
+    const revoked = await revokeSessions({ id: sessionId, userId: req.user.userId }, 'revoked');
+    if (revoked === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const revokeAllSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const revoked = await revokeSessions({ userId: req.user.userId }, 'revoked');
+
+    res.json({ message: 'All sessions revoked successfully', revoked });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,318 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { checkOrganizationAccess } from '../services/organizationAccess';
+import { checkProjectAccess, isProjectRole, outranks, ProjectRole } from '../services/projectAccess';
+import { queueWebhookDeliveries } from '../services/webhooks';
+
+
+function findTeam(organizationId: string, teamId: string) {
+  return prisma.team.findFirst({
+    where: { id: teamId, organizationId }
+  });
+}
+
+
+export const getTeams = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+
+    const access = await checkOrganizationAccess(req, organizationId, 'member');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const teams = await prisma.team.findMany({
+      where: { organizationId },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        members: {
+          select: { user: { select: { id: true, email: true, name: true } } }
+        },
+        grants: {
+          select: { projectId: true, role: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({ teams });
+  } catch (error) {
+    console.error('Get teams error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const createTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId } = req.params;
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ error: 'Team name is required' });
+    }
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { organizationId_name: { organizationId, name: name.trim() } }
+    });
+    if (existingTeam) {
+      return res.status(409).json({ error: 'Team with this name already exists' });
+    }
+
+    const team = await prisma.team.create({
+      data: { organizationId, name: name.trim() },
+      select: { id: true, name: true, createdAt: true }
+    });
+
+    annotateAudit(req, { metadata: { organizationId, teamId: team.id } });
+
+    res.status(201).json({
+      message: 'Team created successfully',
+      team
+    });
+  } catch (error) {
+    console.error('Create team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const deleteTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId, teamId } = req.params;
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    // Team grants go with the team, so its members lose access they only had through it
+    const deleted = await prisma.team.deleteMany({
+      where: { id: teamId, organizationId }
+    });
+
+    if (deleted.count === 0) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    annotateAudit(req, { metadata: { organizationId, teamId } });
+
+    res.json({ message: 'Team deleted successfully' });
+  } catch (error) {
+    console.error('Delete team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const addTeamMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId, teamId } = req.params;
+    const { userId } = req.body;
+
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ error: 'User id is required' });
+    }
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const team = await findTeam(organizationId, teamId);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const organizationMember = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } }
+    });
+    if (!organizationMember) {
+      return res.status(400).json({ error: 'Only members of the organization can join its teams' });
+    }
+
+    const existingMember = await prisma.teamMember.findUnique({
+      where: { teamId_userId: { teamId, userId } }
+    });
+    if (existingMember) {
+      return res.status(409).json({ error: 'User is already a member of this team' });
+    }
+
+    await prisma.teamMember.create({
+      data: { teamId, userId }
+    });
+
+    annotateAudit(req, { metadata: { organizationId, teamId, memberId: userId } });
+
+    res.status(201).json({ message: 'Team member added successfully' });
+  } catch (error) {
+    console.error('Add team member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const removeTeamMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { organizationId, teamId, userId } = req.params;
+
+    const access = await checkOrganizationAccess(req, organizationId, 'admin');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const removed = await prisma.teamMember.deleteMany({
+      where: { teamId, userId, team: { organizationId } }
+    });
+
+    if (removed.count === 0) {
+      return res.status(404).json({ error: 'Team member not found' });
+    }
+
+    annotateAudit(req, { metadata: { organizationId, teamId, memberId: userId } });
+
+    res.json({ message: 'Team member removed successfully' });
+  } catch (error) {
+    console.error('Remove team member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getProjectTeams = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'metadata');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const grants = await prisma.teamGrant.findMany({
+      where: { projectId },
+      select: {
+        role: true,
+        createdAt: true,
+        team: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ teams: grants });
+  } catch (error) {
+    console.error('Get project teams error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const grantTeamAccess = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, teamId } = req.params;
+    const { role } = req.body;
+
+    if (!isProjectRole(role) || role === 'owner') {
+      return res.status(400).json({ error: 'Role must be one of: admin, writer, reader, metadata' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    const actorRole = access.role as ProjectRole;
+
+    // Only teams of the organization that owns the project can be granted onto it
+    const team = await findTeam(access.project.organizationId, teamId);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const existingGrant = await prisma.teamGrant.findUnique({
+      where: { teamId_projectId: { teamId, projectId } }
+    });
+
+    // A role this version does not know is never outranked
+    if (
+      !outranks(actorRole, role) ||
+      (existingGrant && (!isProjectRole(existingGrant.role) || !outranks(actorRole, existingGrant.role)))
+    ) {
+      return res.status(403).json({ error: 'You can only manage roles below your own' });
+    }
+
+    const grant = await prisma.teamGrant.upsert({
+      where: { teamId_projectId: { teamId, projectId } },
+      update: { role },
+      create: { teamId, projectId, role },
+      select: { teamId: true, role: true }
+    });
+
+    annotateAudit(req, { metadata: { teamId, role } });
+    // Changing the role of a team that already had access adds nobody
+    if (!existingGrant) {
+      await queueWebhookDeliveries(projectId, 'member.added', { teamId, role, source: 'team' });
+    }
+
+    res.json({
+      message: 'Team access granted successfully',
+      grant
+    });
+  } catch (error) {
+    console.error('Grant team access error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const revokeTeamAccess = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, teamId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const grant = await prisma.teamGrant.findUnique({
+      where: { teamId_projectId: { teamId, projectId } }
+    });
+    if (!grant) {
+      return res.status(404).json({ error: 'Team does not have access to this project' });
+    }
+
+    if (!isProjectRole(grant.role) || !outranks(access.role as ProjectRole, grant.role)) {
+      return res.status(403).json({ error: 'You can only manage roles below your own' });
+    }
+
+    annotateAudit(req, { metadata: { teamId, role: grant.role } });
+
+    await prisma.teamGrant.delete({
+      where: { id: grant.id }
+    });
+
+    res.json({ message: 'Team access revoked successfully' });
+  } catch (error) {
+    console.error('Revoke team access error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,303 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import { encryptForProject } from '../../infrastructure/crypto/projectKeys';
+import { AuthRequest } from '../middleware/auth';
+import { annotateAudit } from '../services/audit';
+import { pageArgs, pageOf, parsePage } from '../services/pagination';
+import { checkProjectAccess } from '../services/projectAccess';
+import { checkWebhookTarget, generateWebhookSecret, parseWebhookInput } from '../services/webhooks';
+
+const WEBHOOK_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  active: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const DELIVERY_SELECT = {
+  id: true,
+  event: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  error: true,
+  lastAttemptAt: true,
+  nextAttemptAt: true,
+  redeliveryOf: true,
+  createdAt: true
+};
+
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+const DELIVERY_PAGE_OPTIONS = {
+  sortFields: { created: 'createdAt' },
+  defaultSort: 'created',
+  defaultOrder: 'desc' as const,
+  searchField: 'event'
+};
+
+
+function isDeliveryStatus(value: unknown): value is DeliveryStatus {
+  return DELIVERY_STATUSES.includes(value as DeliveryStatus);
+}
+
+
+function findWebhook(projectId: string, webhookId: string) {
+  return prisma.webhook.findFirst({
+    where: { id: webhookId, projectId },
+    select: { id: true }
+  });
+}
+
+
+export const getWebhooks = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      where: { projectId },
+      select: WEBHOOK_SELECT,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ webhooks });
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const createWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId } = req.params;
+
+    const { webhook: input, error } = parseWebhookInput(req.body);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
+    }
+
+    if (!input.url || !input.events) {
+      return res.status(400).json({ error: 'url and events are required' });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const targetError = await checkWebhookTarget(input.url);
+    if (targetError) {
+      return res.status(400).json({ error: targetError });
+    }
+
+    const secret = generateWebhookSecret();
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        projectId,
+        url: input.url,
+        events: input.events,
+        description: input.description ?? null,
+        active: input.active ?? true,
+        secret: await encryptForProject(projectId, secret),
+        createdById: req.user.userId
+      },
+      select: WEBHOOK_SELECT
+    });
+
+    annotateAudit(req, { metadata: { webhookId: webhook.id, url: webhook.url, events: webhook.events } });
+
+    res.status(201).json({
+      message: 'Webhook created successfully. Store the signing secret now, it will not be shown again',
+      secret,
+      webhook
+    });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const updateWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, webhookId } = req.params;
+
+    const { webhook: input, error } = parseWebhookInput(req.body);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (!(await findWebhook(projectId, webhookId))) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const targetError = input.url && await checkWebhookTarget(input.url);
+    if (targetError) {
+      return res.status(400).json({ error: targetError });
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id: webhookId },
+      data: input,
+      select: WEBHOOK_SELECT
+    });
+
+    annotateAudit(req, { metadata: { webhookId, changes: Object.keys(input) } });
+
+    res.json({
+      message: 'Webhook updated successfully',
+      webhook
+    });
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const deleteWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, webhookId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (!(await findWebhook(projectId, webhookId))) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    // Its queued deliveries and delivery log go with it
+    await prisma.webhook.delete({ where: { id: webhookId } });
+
+    annotateAudit(req, { metadata: { webhookId } });
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+export const getWebhookDeliveries = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, webhookId } = req.params;
+    const { status } = req.query;
+
+    const { page, error } = parsePage(req.query, DELIVERY_PAGE_OPTIONS);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
+    }
+
+    if (status !== undefined && !isDeliveryStatus(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (!(await findWebhook(projectId, webhookId))) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const where = { webhookId, ...(status !== undefined && { status }), ...page.search };
+    const [rows, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        ...pageArgs(page, where),
+        select: DELIVERY_SELECT
+      }),
+      prisma.webhookDelivery.count({ where })
+    ]);
+    const { items, pagination } = pageOf(rows, page, total);
+
+    res.json({ deliveries: items, pagination });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+
+/**
+ * Queue the payload of an earlier delivery once more, as a new delivery
+ * that keeps the log of the original intact
+ */
+export const redeliverWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { id: projectId, webhookId, deliveryId } = req.params;
+
+    const access = await checkProjectAccess(req, projectId, 'manage');
+    if (access.error !== undefined) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const original = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId, webhook: { projectId } },
+      select: { id: true, event: true, payload: true }
+    });
+
+    if (!original) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: { webhookId, event: original.event, payload: original.payload, redeliveryOf: original.id },
+      select: DELIVERY_SELECT
+    });
+
+    annotateAudit(req, { metadata: { webhookId, deliveryId: original.id } });
+
+    res.status(202).json({
+      message: 'Redelivery queued',
+      delivery
+    });
+  } catch (error) {
+    console.error('Redeliver webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,27 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { outcomeForStatus, recordAudit } from '../services/audit';
+
+/**
+ * Record the request in the audit log once the response is sent, whatever
+ * the outcome. Handlers that must record before responding (exports) call
+ * recordAudit themselves and are not recorded twice.
+ */
+export const auditTrail = (action: string) => (req: AuthRequest, res: Response, next: NextFunction) => {
+  res.on('finish', () => {
+    if (req.audit?.recorded) {
+      return;
+    }
+
+    recordAudit(req, {
+      action,
+      outcome: outcomeForStatus(res.statusCode),
+      statusCode: res.statusCode,
+      projectId: req.params.id,
+      environment: req.params.environment
+    }).catch((error) => {
+      console.error('Audit log error:', error);
+    });
+  });
+  next();
+};
@@ -1,15 +1,67 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import config from '../../infrastructure/config';
+import prisma from '../../infrastructure/db/prisma';
+import {
+  hashServiceToken,
+  isServiceTokenPermission,
+  SERVICE_TOKEN_PREFIX,
+  ServiceTokenPermission
+} from '../services/serviceTokens';
+import { AuditContext } from '../services/audit';
+import { AccessTokenClaims, isSessionActive, verifyAccessToken } from '../services/sessions';
 
-interface AuthRequest extends Request {
+export interface ServiceTokenPrincipal {
+  id: string;
+  projectId: string;
+  environmentId: string | null;
+  permission: ServiceTokenPermission;
+  canExport: boolean;
+}
+
+export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    sessionId: string;
+  };
+  serviceToken?: ServiceTokenPrincipal;
+  audit?: AuditContext;
+}
+
+async function authenticateServiceToken(req: AuthRequest, res: Response, next: NextFunction, token: string) {
+  const serviceToken = await prisma.serviceToken.findUnique({
+    where: { tokenHash: hashServiceToken(token) }
+  });
+
+  if (
+    !serviceToken ||
+    serviceToken.revokedAt ||
+    (serviceToken.expiresAt && serviceToken.expiresAt <= new Date())
+  ) {
+    return res.status(403).json({ error: 'Invalid or expired token' });
+  }
+
+  // A row edited outside the API must not grant more than read or write
+  const { permission } = serviceToken;
+  if (!isServiceTokenPermission(permission)) {
+    return res.status(403).json({ error: 'Invalid or expired token' });
+  }
+
+  await prisma.serviceToken.update({
+    where: { id: serviceToken.id },
+    data: { lastUsedAt: new Date() }
+  });
+
+  req.serviceToken = {
+    id: serviceToken.id,
+    projectId: serviceToken.projectId,
+    environmentId: serviceToken.environmentId,
+    permission,
+    canExport: serviceToken.canExport
   };
+  next();
 }
 
-export const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; 
 
@@ -17,11 +69,38 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  if (token.startsWith(SERVICE_TOKEN_PREFIX)) {
+    try {
+      return await authenticateServiceToken(req, res, next, token);
+    } catch (error) {
+      console.error('Service token authentication error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Only tokens signed with a published key for this issuer and audience are
+  // accepted, and they are bound to a session so logging out takes effect at once
+  let decoded: AccessTokenClaims | null;
   try {
-    const decoded = jwt.verify(token, config.jwt.secret as any) as { userId: string; email: string };
-    req.user = decoded;
-    next();
+    decoded = await verifyAccessToken(token);
   } catch (error) {
+    console.error('Access token verification error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  if (!decoded) {
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
+
+  try {
+    if (!(await isSessionActive(decoded.sessionId))) {
+      return res.status(403).json({ error: 'Session has been revoked' });
+    }
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  req.user = { userId: decoded.userId, email: decoded.email, sessionId: decoded.sessionId };
+  next();
 };
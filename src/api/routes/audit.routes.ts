@@ -0,0 +1,175 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { getAuditLogs, verifyAuditLogs } from '../controllers/auditController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditLogEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         sequence:
+ *           type: integer
+ *           description: Position in the hash chain
+ *         action:
+ *           type: string
+ *           example: "secret.read"
+ *         outcome:
+ *           type: string
+ *           enum: [success, failure, denied]
+ *         statusCode:
+ *           type: integer
+ *         projectId:
+ *           type: string
+ *         environment:
+ *           type: string
+ *         secretKey:
+ *           type: string
+ *         userId:
+ *           type: string
+ *           description: The user who made the request
+ *         serviceTokenId:
+ *           type: string
+ *           description: The service token that made the request
+ *         ip:
+ *           type: string
+ *         userAgent:
+ *           type: string
+ *         metadata:
+ *           type: object
+ *         prevHash:
+ *           type: string
+ *         hash:
+ *           type: string
+ *           description: SHA-256 over the entry and the previous entry's hash
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     AuditVerification:
+ *       type: object
+ *       properties:
+ *         valid:
+ *           type: boolean
+ *         checked:
+ *           type: integer
+ *           description: Number of entries verified before stopping
+ *         brokenAt:
+ *           type: object
+ *           description: The first entry that fails verification
+ *           properties:
+ *             sequence:
+ *               type: integer
+ *             id:
+ *               type: string
+ *             reason:
+ *               type: string
+ */
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: Query the audit log
+ *     description: Returns the caller's own actions and every action in the projects they own or administer, newest first
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: outcome
+ *         schema:
+ *           type: string
+ *           enum: [success, failure, denied]
+ *       - in: query
+ *         name: secretKey
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Audit log entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditLogEntry'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *       400:
+ *         description: Invalid filter or pagination parameters
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', authenticateToken, getAuditLogs);
+
+/**
+ * @swagger
+ * /audit/verify:
+ *   get:
+ *     summary: Verify the audit log hash chain
+ *     description: Recomputes every entry's hash and reports the first entry that was edited, removed or reordered
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuditVerification'
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/verify', authenticateToken, verifyAuditLogs);
+
+export default router;
@@ -1,5 +1,34 @@
 import { Router } from 'express';
-import { signup, login } from '../controllers/authController';
+import {
+  signup,
+  login,
+  loginWithSecondFactor,
+  refresh,
+  logout,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail
+} from '../controllers/authController';
+import {
+  getAccount,
+  updateAccount,
+  changePassword,
+  deleteAccount,
+  exportAccountData
+} from '../controllers/accountController';
+import { getSessions, revokeSession, revokeAllSessions } from '../controllers/sessionController';
+import { startOidcLogin, finishOidcLogin } from '../controllers/oidcController';
+import {
+  getMfaStatus,
+  enrollTotp,
+  confirmTotp,
+  disableTotp,
+  regenerateRecoveryCodes,
+  verifyStepUp
+} from '../controllers/mfaController';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
 
 const router = Router();
 
@@ -22,12 +51,24 @@ const router = Router();
  *         name:
  *           type: string
  *           description: The user's name
+ *         emailVerifiedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the user confirmed their email address
  *         createdAt:
  *           type: string
  *           format: date-time
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     Account:
+ *       allOf:
+ *         - $ref: '#/components/schemas/User'
+ *         - type: object
+ *           properties:
+ *             totpEnabled:
+ *               type: boolean
+ *               description: Whether two-factor authentication is on
  *     SignupRequest:
  *       type: object
  *       required:
@@ -40,8 +81,9 @@ const router = Router();
  *           description: User's email address
  *         password:
  *           type: string
- *           minLength: 6
- *           description: User's password
+ *           minLength: 8
+ *           maxLength: 72
+ *           description: User's password. Passwords from lists of breached passwords and the email itself are refused.
  *         name:
  *           type: string
  *           description: User's name
@@ -66,9 +108,76 @@ const router = Router();
  *           description: Success message
  *         token:
  *           type: string
- *           description: JWT token
+ *           description: Short-lived JWT access token
+ *         refreshToken:
+ *           type: string
+ *           description: Single-use token for /auth/refresh
  *         user:
  *           $ref: '#/components/schemas/User'
+ *     MfaChallenge:
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *         mfaRequired:
+ *           type: boolean
+ *         challengeToken:
+ *           type: string
+ *           description: Five-minute token for /auth/login/mfa
+ *     SecondFactorRequest:
+ *       type: object
+ *       description: Either a code from the authenticator or an unused recovery code
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: Six-digit TOTP code
+ *         recoveryCode:
+ *           type: string
+ *           description: Single-use recovery code
+ *     RefreshRequest:
+ *       type: object
+ *       required:
+ *         - refreshToken
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *     Session:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         ip:
+ *           type: string
+ *         userAgent:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         current:
+ *           type: boolean
+ *           description: Whether this is the session making the request
+ *   responses:
+ *     TooManyAttempts:
+ *       description: Too many failed attempts; retry after the number of seconds in the Retry-After header
+ *       headers:
+ *         Retry-After:
+ *           schema:
+ *             type: integer
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               error:
+ *                 type: string
+ *               retryAfter:
+ *                 type: integer
  */
 
 /**
@@ -76,6 +185,7 @@ const router = Router();
  * /auth/signup:
  *   post:
  *     summary: Register a new user
+ *     description: Also sends an email with a link to confirm the address.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -91,7 +201,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/AuthResponse'
  *       400:
- *         description: Bad request - Invalid email or user already exists
+ *         description: Bad request - Invalid email, password not allowed by the policy or user already exists
  *         content:
  *           application/json:
  *             schema:
@@ -99,16 +209,22 @@ const router = Router();
  *               properties:
  *                 error:
  *                   type: string
+ *       403:
+ *         description: The email's domain has to sign in through single sign-on
  *       500:
  *         description: Internal server error
  */
-router.post('/signup', signup);
+router.post('/signup', auditTrail('auth.signup'), signup);
 
 /**
  * @swagger
  * /auth/login:
  *   post:
  *     summary: Login user
+ *     description: >
+ *       Users with two-factor authentication get a challenge token instead of tokens and finish at /auth/login/mfa.
+ *       Repeated failures slow down further attempts and eventually lock the account and the client address out
+ *       for a while; unknown emails are treated the same way.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -118,11 +234,15 @@ router.post('/signup', signup);
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a second factor is required
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthResponse'
+ *                 - $ref: '#/components/schemas/MfaChallenge'
+ *       400:
+ *         description: Email and password are required
  *       401:
  *         description: Unauthorized - Invalid credentials
  *         content:
@@ -132,9 +252,783 @@ router.post('/signup', signup);
  *               properties:
  *                 error:
  *                   type: string
+ *       403:
+ *         description: The email's domain has to sign in through single sign-on
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/login', auditTrail('auth.login'), login);
+
+/**
+ * @swagger
+ * /auth/login/mfa:
+ *   post:
+ *     summary: Finish a login with a second factor
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/SecondFactorRequest'
+ *               - type: object
+ *                 required:
+ *                   - challengeToken
+ *                 properties:
+ *                   challengeToken:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Challenge token and a code or recovery code are required
+ *       401:
+ *         description: Invalid or expired challenge, or invalid code
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/login/mfa', auditTrail('auth.login.mfa'), loginWithSecondFactor);
+
+/**
+ * @swagger
+ * /auth/oidc/login:
+ *   get:
+ *     summary: Start single sign-on
+ *     description: Redirects the browser to the configured OpenID Connect issuer, using the authorization code flow with PKCE.
+ *     tags: [Authentication]
+ *     responses:
+ *       302:
+ *         description: Redirect to the identity provider
+ *       404:
+ *         description: Single sign-on is not configured
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/oidc/login', auditTrail('auth.login.oidc.start'), startOidcLogin);
+
+/**
+ * @swagger
+ * /auth/oidc/callback:
+ *   get:
+ *     summary: Finish single sign-on
+ *     description: |
+ *       Where the identity provider sends the browser back to. The first sign-in links the
+ *       identity to the account with the same email, or creates an account, as long as the
+ *       issuer reports the email as verified. An existing account is only linked once its
+ *       own email has been verified too. Project roles mapped from the user's groups
+ *       are brought up to date at every sign-in.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: error
+ *         schema:
+ *           type: string
+ *         description: Set by the issuer when the sign-in did not complete
+ *     responses:
+ *       200:
+ *         description: Login successful, or a second factor is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthResponse'
+ *                 - $ref: '#/components/schemas/MfaChallenge'
+ *       201:
+ *         description: Account created and logged in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Missing code or state, or the sign-in request is unknown or expired
+ *       401:
+ *         description: The identity provider refused the sign-in or its token did not check out
+ *       403:
+ *         description: The identity provider did not confirm an email address for a new identity
+ *       404:
+ *         description: Single sign-on is not configured
+ *       409:
+ *         description: An account with the same email exists but its email is not verified
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/oidc/callback', auditTrail('auth.login.oidc'), finishOidcLogin);
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for new tokens
+ *     description: Refresh tokens are single use. Presenting one that was already used revokes its whole session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshRequest'
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       400:
+ *         description: Refresh token is required
+ *       401:
+ *         description: Invalid, reused or expired refresh token
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/refresh', auditTrail('auth.refresh'), refresh);
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Log out and revoke the current session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/logout', auditTrail('auth.logout'), authenticateToken, logout);
+
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Email a password reset link
+ *     description: Answers the same whether or not an account exists for the email. The link is valid for one hour and can be used once.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Email is required
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/forgot-password', auditTrail('auth.password.forgot'), forgotPassword);
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Choose a new password with a reset token
+ *     description: Signs out every session of the account.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the reset email
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 maxLength: 72
+ *                 description: Same rules as at signup
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Missing, invalid, used or expired token, or invalid password
+ *       403:
+ *         description: The email's domain has to sign in through single sign-on
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/reset-password', auditTrail('auth.password.reset'), resetPassword);
+
+/**
+ * @swagger
+ * /auth/verify-email:
+ *   post:
+ *     summary: Confirm an email address
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the verification email
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Missing, invalid, used or expired token
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/verify-email', auditTrail('auth.email.verify'), verifyEmail);
+
+/**
+ * @swagger
+ * /auth/verify-email/resend:
+ *   post:
+ *     summary: Send a new verification email
+ *     description: Links from earlier verification emails stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       401:
+ *         description: User not authenticated
+ *       409:
+ *         description: Email is already verified
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/verify-email/resend', auditTrail('auth.email.resend'), authenticateToken, resendVerificationEmail);
+
+/**
+ * @swagger
+ * /auth/me:
+ *   get:
+ *     summary: Get my account
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The signed-in user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/Account'
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/me', auditTrail('auth.account.read'), authenticateToken, getAccount);
+
+/**
+ * @swagger
+ * /auth/me:
+ *   patch:
+ *     summary: Update my name or email
+ *     description: A new email needs the current password and has to be verified again through the link sent to it.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 nullable: true
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               currentPassword:
+ *                 type: string
+ *                 description: Required to change the email
+ *     responses:
+ *       200:
+ *         description: Account updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 user:
+ *                   $ref: '#/components/schemas/Account'
+ *       400:
+ *         description: Invalid name or email, or the current password is missing
+ *       401:
+ *         description: User not authenticated or invalid password
+ *       403:
+ *         description: Users of a domain that has to sign in through single sign-on must have signed in within the last five minutes
+ *       409:
+ *         description: Email is already in use
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.patch('/me', auditTrail('auth.account.update'), authenticateToken, updateAccount);
+
+/**
+ * @swagger
+ * /auth/me:
+ *   delete:
+ *     summary: Delete my account
+ *     description: |
+ *       Needs the password, the account's email as confirmation and, with two-factor
+ *       authentication on, a recent check through /auth/mfa/verify. Organizations the user
+ *       is the only owner of must get another owner or be deleted first. Projects in other
+ *       organizations stay with them. Projects in the personal organization move to the
+ *       personal organization of another owner or, with ownedProjects set to transfer, of
+ *       their highest-ranked member; with ownedProjects set to delete, projects without
+ *       another owner are deleted with their secrets.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - confirm
+ *             properties:
+ *               password:
+ *                 type: string
+ *               confirm:
+ *                 type: string
+ *                 description: The account's email address
+ *               ownedProjects:
+ *                 type: string
+ *                 enum: [transfer, delete]
+ *                 description: What happens to the projects the user owns
+ *     responses:
+ *       200:
+ *         description: Account deleted, with the projects that were transferred or deleted
+ *       400:
+ *         description: Missing password or confirmation, or invalid ownedProjects
+ *       401:
+ *         description: User not authenticated or invalid password
+ *       403:
+ *         description: A recent second-factor check is required, or for users of a domain that has to sign in through single sign-on, a sign-in within the last five minutes
+ *       409:
+ *         description: Sole-owned organizations or owned projects need a decision first; they are listed in the response
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/me', auditTrail('auth.account.delete'), authenticateToken, deleteAccount);
+
+/**
+ * @swagger
+ * /auth/me/password:
+ *   post:
+ *     summary: Change my password
+ *     description: Every other session is signed out; the current one stays signed in.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *                 maxLength: 72
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 revokedSessions:
+ *                   type: integer
+ *       400:
+ *         description: Current password missing or new password not allowed by the policy
+ *       401:
+ *         description: User not authenticated or invalid password
+ *       403:
+ *         description: The email's domain has to sign in through single sign-on and uses no password
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/me/password', auditTrail('auth.password.change'), authenticateToken, changePassword);
+
+/**
+ * @swagger
+ * /auth/me/export:
+ *   get:
+ *     summary: Export my data
+ *     description: |
+ *       Everything stored about the signed-in user as a JSON download: profile, single sign-on identities, sessions,
+ *       organization and team memberships, the projects they reach with the keys and
+ *       versions of their secrets (never values), and their audit trail.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The exported data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/me/export', auditTrail('auth.account.export'), authenticateToken, exportAccountData);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List my active sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/sessions', auditTrail('auth.sessions.list'), authenticateToken, getSessions);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   delete:
+ *     summary: Revoke all my sessions, including the current one
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked successfully
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/sessions', auditTrail('auth.sessions.revoke'), authenticateToken, revokeAllSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of my sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/sessions/:sessionId', auditTrail('auth.session.revoke'), authenticateToken, revokeSession);
+
+/**
+ * @swagger
+ * /auth/mfa:
+ *   get:
+ *     summary: Get my two-factor authentication status
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 totpEnabled:
+ *                   type: boolean
+ *                 totpEnabledAt:
+ *                   type: string
+ *                   format: date-time
+ *                 recoveryCodesRemaining:
+ *                   type: integer
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/mfa', auditTrail('auth.mfa.status'), authenticateToken, getMfaStatus);
+
+/**
+ * @swagger
+ * /auth/mfa/totp:
+ *   post:
+ *     summary: Start TOTP enrollment
+ *     description: Returns a new secret and its otpauth URI. Nothing changes for logins until the enrollment is confirmed.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   type: string
+ *                   description: Base32 secret for manual entry
+ *                 otpauthUri:
+ *                   type: string
+ *                 qrPayload:
+ *                   type: string
+ *                   description: The content to encode in the QR code
+ *       401:
+ *         description: User not authenticated
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/mfa/totp', auditTrail('auth.mfa.enroll'), authenticateToken, enrollTotp);
+
+/**
+ * @swagger
+ * /auth/mfa/totp/confirm:
+ *   post:
+ *     summary: Confirm TOTP enrollment
+ *     description: Enables two-factor authentication and returns recovery codes. They are stored hashed and only shown once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Missing or invalid code, or enrollment not started
+ *       401:
+ *         description: User not authenticated
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/mfa/totp/confirm', auditTrail('auth.mfa.confirm'), authenticateToken, confirmTotp);
+
+/**
+ * @swagger
+ * /auth/mfa/totp:
+ *   delete:
+ *     summary: Disable two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SecondFactorRequest'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: A code or recovery code is required
+ *       401:
+ *         description: User not authenticated or invalid code
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/mfa/totp', auditTrail('auth.mfa.disable'), authenticateToken, disableTotp);
+
+/**
+ * @swagger
+ * /auth/mfa/recovery-codes:
+ *   post:
+ *     summary: Replace my recovery codes
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Six-digit TOTP code
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Code is required
+ *       401:
+ *         description: User not authenticated or invalid code
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/mfa/recovery-codes', auditTrail('auth.mfa.recovery'), authenticateToken, regenerateRecoveryCodes);
+
+/**
+ * @swagger
+ * /auth/mfa/verify:
+ *   post:
+ *     summary: Verify a second factor for the current session
+ *     description: Needed before revealing secrets of projects that require a recent second-factor check.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SecondFactorRequest'
+ *     responses:
+ *       200:
+ *         description: Second factor verified
+ *       400:
+ *         description: A code or recovery code is required
+ *       401:
+ *         description: User not authenticated or invalid code
+ *       429:
+ *         $ref: '#/components/responses/TooManyAttempts'
  *       500:
  *         description: Internal server error
  */
-router.post('/login', login);
+router.post('/mfa/verify', auditTrail('auth.mfa.verify'), authenticateToken, verifyStepUp);
 
 export default router;
@@ -0,0 +1,245 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import {
+  getEnvironments,
+  createEnvironment,
+  deleteEnvironment,
+  diffEnvironments
+} from '../controllers/environmentController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Environment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           description: Environment name, unique within the project
+ *           example: "staging"
+ *         isDefault:
+ *           type: boolean
+ *           description: Whether the routes without an environment use this environment
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreateEnvironmentRequest:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           pattern: '^[a-z0-9][a-z0-9_-]{0,63}$'
+ *           example: "qa"
+ *       required:
+ *         - name
+ *
+ *     EnvironmentDiff:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *         to:
+ *           type: string
+ *         missingInTarget:
+ *           type: array
+ *           description: Keys present in "from" but not in "to"
+ *           items:
+ *             type: string
+ *         missingInSource:
+ *           type: array
+ *           description: Keys present in "to" but not in "from"
+ *           items:
+ *             type: string
+ *         differing:
+ *           type: array
+ *           description: Keys present in both with different values
+ *           items:
+ *             type: string
+ *         identical:
+ *           type: array
+ *           description: Keys present in both with the same value
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments:
+ *   get:
+ *     summary: List the environments of a project
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Environments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 environments:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Environment'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments', auditTrail('environment.list'), authenticateToken, getEnvironments);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments:
+ *   post:
+ *     summary: Create an environment
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateEnvironmentRequest'
+ *     responses:
+ *       201:
+ *         description: Environment created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 environment:
+ *                   $ref: '#/components/schemas/Environment'
+ *       400:
+ *         description: Invalid environment name
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: Environment already exists in this project
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/environments', auditTrail('environment.create'), authenticateToken, createEnvironment);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/diff:
+ *   get:
+ *     summary: Compare two environments
+ *     description: Reports which keys are missing or differ between two environments without revealing any values
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Source environment name
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Target environment name
+ *     responses:
+ *       200:
+ *         description: Comparison of the two environments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EnvironmentDiff'
+ *       400:
+ *         description: Missing "from" or "to"
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or environment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/diff', auditTrail('environment.diff'), authenticateToken, diffEnvironments);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}:
+ *   delete:
+ *     summary: Delete an environment
+ *     description: |
+ *       Only the project owner can delete an environment, and only once it has no secrets left, in the
+ *       trash included. Service tokens restricted to the environment and its change events go with it.
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *     responses:
+ *       200:
+ *         description: Environment deleted successfully
+ *       400:
+ *         description: The default environment cannot be deleted
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only the project owner can delete environments
+ *       404:
+ *         description: Project or environment not found
+ *       409:
+ *         description: The environment still has live or trashed secrets
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/environments/:environment', auditTrail('environment.delete'), authenticateToken, deleteEnvironment);
+
+export default router;
@@ -3,6 +3,13 @@ import healthRoutes from './health.routes';
 import authRoutes from './auth.routes';
 import projectRoutes from './project.routes';
 import secretRoutes from './secret.routes';
+import environmentRoutes from './environment.routes';
+import serviceTokenRoutes from './serviceToken.routes';
+import webhookRoutes from './webhook.routes';
+import memberRoutes from './member.routes';
+import organizationRoutes from './organization.routes';
+import auditRoutes from './audit.routes';
+import secretExpiryRoutes from './secretExpiry.routes';
 
 const router = Router();
 
@@ -12,11 +19,32 @@ router.use('/', healthRoutes);
 // auth routes
 router.use('/auth', authRoutes);
 
+// member routes, before the project routes so /projects/invites is not taken for a project id
+router.use('/projects', memberRoutes);
+
 // project routes
 router.use('/projects', projectRoutes);
 
 // secret routes
 router.use('/projects', secretRoutes);
 
+// environment routes
+router.use('/projects', environmentRoutes);
+
+// service token routes
+router.use('/projects', serviceTokenRoutes);
+
+// webhook routes
+router.use('/projects', webhookRoutes);
+
+// secrets coming due across projects
+router.use('/secrets', secretExpiryRoutes);
+
+// organization and team routes
+router.use('/organizations', organizationRoutes);
+
+// audit routes
+router.use('/audit', auditRoutes);
+
 
 export default router;
@@ -0,0 +1,516 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import {
+  getMembers,
+  updateMemberRole,
+  removeMember,
+  transferOwnership,
+  getInvites,
+  createInvite,
+  revokeInvite,
+  acceptInvite
+} from '../controllers/memberController';
+import { getProjectTeams, grantTeamAccess, revokeTeamAccess } from '../controllers/teamController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ProjectRole:
+ *       type: string
+ *       enum: [owner, admin, writer, reader, metadata]
+ *       description: |
+ *         owner - everything, including deleting the project and transferring ownership
+ *         admin - settings, environments, service tokens, members below admin, and all secret operations
+ *         writer - read and write secrets
+ *         reader - read secrets
+ *         metadata - list secret keys and versions, never values
+ *
+ *     ProjectMember:
+ *       type: object
+ *       properties:
+ *         role:
+ *           $ref: '#/components/schemas/ProjectRole'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         user:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             email:
+ *               type: string
+ *             name:
+ *               type: string
+ *
+ *     ProjectInvite:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         email:
+ *           type: string
+ *         role:
+ *           $ref: '#/components/schemas/ProjectRole'
+ *         invitedById:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /projects/invites/accept:
+ *   post:
+ *     summary: Accept a project invite
+ *     description: The invite must have been sent to the email address of the signed-in user
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *             required:
+ *               - token
+ *     responses:
+ *       200:
+ *         description: Invite accepted successfully
+ *       400:
+ *         description: Invite token is required
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: The invite was sent to a different email address
+ *       404:
+ *         description: Invite not found or expired
+ *       409:
+ *         description: Already a member of the project
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/invites/accept', auditTrail('member.invite.accept'), authenticateToken, acceptInvite);
+
+/**
+ * @swagger
+ * /projects/{projectId}/members:
+ *   get:
+ *     summary: List the members of a project
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Members retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 members:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProjectMember'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/members', auditTrail('member.list'), authenticateToken, getMembers);
+
+/**
+ * @swagger
+ * /projects/{projectId}/members/{userId}:
+ *   put:
+ *     summary: Change a member's role
+ *     description: Members can only manage roles below their own; ownership changes through the transfer endpoint
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The member's user ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 $ref: '#/components/schemas/ProjectRole'
+ *             required:
+ *               - role
+ *     responses:
+ *       200:
+ *         description: Member role updated successfully
+ *       400:
+ *         description: Invalid role
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow managing this member
+ *       404:
+ *         description: Project or member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id/members/:userId', auditTrail('member.update'), authenticateToken, updateMemberRole);
+
+/**
+ * @swagger
+ * /projects/{projectId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member, or leave the project
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The member's user ID, or your own to leave
+ *     responses:
+ *       200:
+ *         description: Member removed successfully
+ *       400:
+ *         description: The owner cannot be removed
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow managing this member
+ *       404:
+ *         description: Project or member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/members/:userId', auditTrail('member.remove'), authenticateToken, removeMember);
+
+/**
+ * @swagger
+ * /projects/{projectId}/transfer:
+ *   post:
+ *     summary: Transfer ownership to another member
+ *     description: The previous owner becomes an admin
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *             required:
+ *               - userId
+ *     responses:
+ *       200:
+ *         description: Ownership transferred successfully
+ *       400:
+ *         description: Missing user id or already the owner
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only the owner can transfer ownership
+ *       404:
+ *         description: Project not found or new owner is not a member
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/transfer', auditTrail('project.transfer'), authenticateToken, transferOwnership);
+
+/**
+ * @swagger
+ * /projects/{projectId}/invites:
+ *   get:
+ *     summary: List pending invites
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Pending invites
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invites:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProjectInvite'
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow managing members
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/invites', auditTrail('member.invite.list'), authenticateToken, getInvites);
+
+/**
+ * @swagger
+ * /projects/{projectId}/invites:
+ *   post:
+ *     summary: Invite someone to the project
+ *     description: Returns an invite token, valid for 7 days, that the invitee accepts while signed in with the invited email
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 $ref: '#/components/schemas/ProjectRole'
+ *             required:
+ *               - email
+ *               - role
+ *     responses:
+ *       201:
+ *         description: Invite created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                 invite:
+ *                   $ref: '#/components/schemas/ProjectInvite'
+ *       400:
+ *         description: Invalid email or role
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow granting this role
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: User is already a member
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/invites', auditTrail('member.invite'), authenticateToken, createInvite);
+
+/**
+ * @swagger
+ * /projects/{projectId}/invites/{inviteId}:
+ *   delete:
+ *     summary: Revoke a pending invite
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: inviteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The invite ID
+ *     responses:
+ *       200:
+ *         description: Invite revoked successfully
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow managing members
+ *       404:
+ *         description: Project or invite not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/invites/:inviteId', auditTrail('member.invite.revoke'), authenticateToken, revokeInvite);
+
+/**
+ * @swagger
+ * /projects/{projectId}/teams:
+ *   get:
+ *     summary: List the teams granted access to a project
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Team grants retrieved successfully
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/teams', auditTrail('member.team.list'), authenticateToken, getProjectTeams);
+
+/**
+ * @swagger
+ * /projects/{projectId}/teams/{teamId}:
+ *   put:
+ *     summary: Grant a team a role on the project
+ *     description: Every member of the team gets the role; only teams of the organization owning the project can be granted
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The team ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 $ref: '#/components/schemas/ProjectRole'
+ *             required:
+ *               - role
+ *     responses:
+ *       200:
+ *         description: Team access granted successfully
+ *       400:
+ *         description: Invalid role
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow granting this role
+ *       404:
+ *         description: Project or team not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id/teams/:teamId', auditTrail('member.team.grant'), authenticateToken, grantTeamAccess);
+
+/**
+ * @swagger
+ * /projects/{projectId}/teams/{teamId}:
+ *   delete:
+ *     summary: Revoke a team's access to the project
+ *     tags: [Members]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The team ID
+ *     responses:
+ *       200:
+ *         description: Team access revoked successfully
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Role does not allow managing this grant
+ *       404:
+ *         description: Project not found or team has no access
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/teams/:teamId', auditTrail('member.team.revoke'), authenticateToken, revokeTeamAccess);
+
+export default router;
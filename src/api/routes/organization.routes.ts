@@ -0,0 +1,619 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import {
+  getOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  deleteOrganization,
+  getOrganizationMembers,
+  addOrganizationMember,
+  updateOrganizationMember,
+  removeOrganizationMember
+} from '../controllers/organizationController';
+import {
+  getTeams,
+  createTeam,
+  deleteTeam,
+  addTeamMember,
+  removeTeamMember
+} from '../controllers/teamController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrganizationRole:
+ *       type: string
+ *       enum: [owner, admin, member]
+ *       description: |
+ *         owner - everything, including managing other owners and admins and deleting the organization
+ *         admin - members, teams, and owner access to every project of the organization
+ *         member - create projects in the organization and join its teams
+ *
+ *     Organization:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         personalUserId:
+ *           type: string
+ *           nullable: true
+ *           description: Set on the personal organization a user's own projects live in
+ *         role:
+ *           $ref: '#/components/schemas/OrganizationRole'
+ *           description: The caller's role in the organization
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     Team:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               user:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                   name:
+ *                     type: string
+ *         grants:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               projectId:
+ *                 type: string
+ *               role:
+ *                 $ref: '#/components/schemas/ProjectRole'
+ */
+
+/**
+ * @swagger
+ * /organizations:
+ *   get:
+ *     summary: List the organizations the authenticated user belongs to
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 organizations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Organization'
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', auditTrail('organization.list'), authenticateToken, getOrganizations);
+
+/**
+ * @swagger
+ * /organizations:
+ *   post:
+ *     summary: Create an organization owned by the authenticated user
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *             required:
+ *               - name
+ *     responses:
+ *       201:
+ *         description: Organization created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 organization:
+ *                   $ref: '#/components/schemas/Organization'
+ *       400:
+ *         description: Organization name is required
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', auditTrail('organization.create'), authenticateToken, createOrganization);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}:
+ *   get:
+ *     summary: Get an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organization retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 organization:
+ *                   $ref: '#/components/schemas/Organization'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:organizationId', auditTrail('organization.read'), authenticateToken, getOrganization);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}:
+ *   put:
+ *     summary: Rename an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *             required:
+ *               - name
+ *     responses:
+ *       200:
+ *         description: Organization updated successfully
+ *       400:
+ *         description: Organization name is required
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners and admins can rename the organization
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:organizationId', auditTrail('organization.update'), authenticateToken, updateOrganization);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}:
+ *   delete:
+ *     summary: Delete an organization without projects
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organization deleted successfully
+ *       400:
+ *         description: Personal organizations cannot be deleted
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners can delete the organization
+ *       404:
+ *         description: Organization not found
+ *       409:
+ *         description: The organization still has projects
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:organizationId', auditTrail('organization.delete'), authenticateToken, deleteOrganization);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/members:
+ *   get:
+ *     summary: List the members of an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Members retrieved successfully
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:organizationId/members', auditTrail('organization.member.list'), authenticateToken, getOrganizationMembers);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/members:
+ *   post:
+ *     summary: Add an existing user to the organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 $ref: '#/components/schemas/OrganizationRole'
+ *             required:
+ *               - email
+ *     responses:
+ *       201:
+ *         description: Member added successfully
+ *       400:
+ *         description: Invalid email or role
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners can add owners and admins
+ *       404:
+ *         description: Organization or user not found
+ *       409:
+ *         description: User is already a member
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:organizationId/members', auditTrail('organization.member.add'), authenticateToken, addOrganizationMember);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/members/{userId}:
+ *   put:
+ *     summary: Change a member's organization role
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 $ref: '#/components/schemas/OrganizationRole'
+ *             required:
+ *               - role
+ *     responses:
+ *       200:
+ *         description: Member role updated successfully
+ *       400:
+ *         description: Invalid role, or the last owner would be demoted
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners can manage owners and admins
+ *       404:
+ *         description: Organization or member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:organizationId/members/:userId', auditTrail('organization.member.update'), authenticateToken, updateOrganizationMember);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from the organization, or leave it
+ *     description: |
+ *       Also removes the user from the organization's teams and from every project of the
+ *       organization they were added to directly. The projects stay with the organization.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed successfully
+ *       400:
+ *         description: The last owner cannot be removed
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners can manage owners and admins
+ *       404:
+ *         description: Organization or member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:organizationId/members/:userId', auditTrail('organization.member.remove'), authenticateToken, removeOrganizationMember);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/teams:
+ *   get:
+ *     summary: List the teams of an organization
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Teams retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 teams:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Team'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:organizationId/teams', auditTrail('team.list'), authenticateToken, getTeams);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/teams:
+ *   post:
+ *     summary: Create a team
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *             required:
+ *               - name
+ *     responses:
+ *       201:
+ *         description: Team created successfully
+ *       400:
+ *         description: Team name is required
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners and admins can manage teams
+ *       404:
+ *         description: Organization not found
+ *       409:
+ *         description: Team with this name already exists
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:organizationId/teams', auditTrail('team.create'), authenticateToken, createTeam);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/teams/{teamId}:
+ *   delete:
+ *     summary: Delete a team and its project grants
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Team deleted successfully
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners and admins can manage teams
+ *       404:
+ *         description: Organization or team not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:organizationId/teams/:teamId', auditTrail('team.delete'), authenticateToken, deleteTeam);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/teams/{teamId}/members:
+ *   post:
+ *     summary: Add an organization member to a team
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *             required:
+ *               - userId
+ *     responses:
+ *       201:
+ *         description: Team member added successfully
+ *       400:
+ *         description: Missing user id, or the user is not a member of the organization
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners and admins can manage teams
+ *       404:
+ *         description: Organization or team not found
+ *       409:
+ *         description: User is already a member of the team
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:organizationId/teams/:teamId/members', auditTrail('team.member.add'), authenticateToken, addTeamMember);
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/teams/{teamId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from a team
+ *     tags: [Teams]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Team member removed successfully
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only owners and admins can manage teams
+ *       404:
+ *         description: Organization, team or team member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:organizationId/teams/:teamId/members/:userId', auditTrail('team.member.remove'), authenticateToken, removeTeamMember);
+
+export default router;
@@ -1,6 +1,16 @@
 import { Router } from 'express';
-import { getProjects, createProject, getProject, updateProject, deleteProject } from '../controllers/projectController';
+import {
+  getProjects,
+  createProject,
+  getProject,
+  updateProject,
+  deleteProject,
+  getTrashedProjects,
+  restoreProject,
+  purgeTrashedProject
+} from '../controllers/projectController';
 import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
 
 const router = Router();
 
@@ -22,6 +32,25 @@ const router = Router();
  *         description:
  *           type: string
  *           description: The project description
+ *         versionRetention:
+ *           type: integer
+ *           description: Number of versions kept for each secret
+ *         revealRequiresMfa:
+ *           type: boolean
+ *           description: Whether revealing secret values needs a recent second-factor check
+ *         defaultRotationDays:
+ *           type: integer
+ *           nullable: true
+ *           description: Days between rotations for secrets that do not set their own interval
+ *         blockExpiredSecrets:
+ *           type: boolean
+ *           description: Whether values of expired secrets are refused
+ *         organizationId:
+ *           type: string
+ *           description: The organization that owns the project
+ *         role:
+ *           $ref: '#/components/schemas/ProjectRole'
+ *           description: The caller's role in the project
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -40,6 +69,9 @@ const router = Router();
  *         description:
  *           type: string
  *           description: Project description
+ *         organizationId:
+ *           type: string
+ *           description: Organization to create the project in; defaults to the caller's personal organization
  *     UpdateProjectRequest:
  *       type: object
  *       properties:
@@ -50,6 +82,23 @@ const router = Router();
  *         description:
  *           type: string
  *           description: Project description
+ *         versionRetention:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *           description: Number of versions kept for each secret
+ *         revealRequiresMfa:
+ *           type: boolean
+ *           description: Require a second-factor check within the last few minutes before secret values are revealed to users
+ *         defaultRotationDays:
+ *           type: integer
+ *           nullable: true
+ *           minimum: 1
+ *           maximum: 3650
+ *           description: Days between rotations for secrets that do not set their own interval; null for none
+ *         blockExpiredSecrets:
+ *           type: boolean
+ *           description: Refuse to reveal or export the values of secrets past their expiry date
  *     ProjectResponse:
  *       type: object
  *       properties:
@@ -65,23 +114,106 @@ const router = Router();
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/Project'
+ *         pagination:
+ *           $ref: '#/components/schemas/Pagination'
+ *     TrashedProject:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Project'
+ *         - type: object
+ *           properties:
+ *             deletedAt:
+ *               type: string
+ *               format: date-time
+ *             deletedById:
+ *               type: string
+ *               nullable: true
+ *             purgeAt:
+ *               type: string
+ *               format: date-time
+ *               description: When the project is permanently deleted unless restored
+ *     Pagination:
+ *       type: object
+ *       properties:
+ *         limit:
+ *           type: integer
+ *         total:
+ *           type: integer
+ *           description: Rows matching the filters and search across all pages
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *           description: Pass as cursor to fetch the next page; null on the last page
+ *   parameters:
+ *     PageLimit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         default: 50
+ *         minimum: 1
+ *         maximum: 200
+ *     PageCursor:
+ *       in: query
+ *       name: cursor
+ *       schema:
+ *         type: string
+ *       description: nextCursor of the previous page, requested with the same sort and order
+ *     SortOrder:
+ *       in: query
+ *       name: order
+ *       schema:
+ *         type: string
+ *         enum: [asc, desc]
+ *         default: desc
+ *     SearchQuery:
+ *       in: query
+ *       name: q
+ *       schema:
+ *         type: string
+ *       description: Case-insensitive substring search
+ *     SearchPrefix:
+ *       in: query
+ *       name: prefix
+ *       schema:
+ *         type: string
+ *       description: Case-insensitive prefix search
  */
 
 /**
  * @swagger
  * /projects:
  *   get:
- *     summary: Get all projects for the authenticated user
+ *     summary: Get all projects the authenticated user can access
+ *     description: Projects the user is a member of, reaches through a team, or administers as an organization admin
  *     tags: [Projects]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: organizationId
+ *         schema:
+ *           type: string
+ *         description: Only list projects of this organization
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, created, updated]
+ *           default: created
+ *       - $ref: '#/components/parameters/SortOrder'
+ *       - $ref: '#/components/parameters/SearchQuery'
+ *       - $ref: '#/components/parameters/SearchPrefix'
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
- *         description: List of user's projects
+ *         description: A page of the user's projects
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ProjectsListResponse'
+ *       400:
+ *         description: Invalid sort, order, limit or cursor
  *       401:
  *         description: Unauthorized - User not authenticated
  *         content:
@@ -94,7 +226,7 @@ const router = Router();
  *       500:
  *         description: Internal server error
  */
-router.get('/', authenticateToken, getProjects);
+router.get('/', auditTrail('project.list'), authenticateToken, getProjects);
 
 /**
  * @swagger
@@ -128,10 +260,40 @@ router.get('/', authenticateToken, getProjects);
  *                   type: string
  *       401:
  *         description: Unauthorized - User not authenticated
+ *       404:
+ *         description: Organization not found
  *       500:
  *         description: Internal server error
  */
-router.post('/', authenticateToken, createProject);
+router.post('/', auditTrail('project.create'), authenticateToken, createProject);
+
+/**
+ * @swagger
+ * /projects/trash:
+ *   get:
+ *     summary: List the deleted projects the user can restore
+ *     description: Projects in the trash that the user owns, directly, through a team or as an organization admin
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deleted projects, most recently deleted first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 projects:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedProject'
+ *       401:
+ *         description: Unauthorized - User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/trash', auditTrail('project.trash.list'), authenticateToken, getTrashedProjects);
 
 /**
  * @swagger
@@ -172,7 +334,7 @@ router.post('/', authenticateToken, createProject);
  *       500:
  *         description: Internal server error
  */
-router.get('/:id', authenticateToken, getProject);
+router.get('/:id', auditTrail('project.read'), authenticateToken, getProject);
 
 /**
  * @swagger
@@ -213,6 +375,8 @@ router.get('/:id', authenticateToken, getProject);
  *                   type: string
  *       401:
  *         description: Unauthorized - User not authenticated
+ *       403:
+ *         description: Your role cannot change project settings
  *       404:
  *         description: Project not found
  *         content:
@@ -225,13 +389,14 @@ router.get('/:id', authenticateToken, getProject);
  *       500:
  *         description: Internal server error
  */
-router.put('/:id', authenticateToken, updateProject);
+router.put('/:id', auditTrail('project.update'), authenticateToken, updateProject);
 
 /**
  * @swagger
  * /projects/{id}:
  *   delete:
- *     summary: Delete a project and all its secrets
+ *     summary: Move a project to the trash
+ *     description: The project and its secrets become unreachable and are permanently deleted once the trash retention period is over, unless restored first
  *     tags: [Projects]
  *     security:
  *       - bearerAuth: []
@@ -244,7 +409,7 @@ router.put('/:id', authenticateToken, updateProject);
  *         description: Project ID
  *     responses:
  *       200:
- *         description: Project deleted successfully
+ *         description: Project moved to the trash
  *         content:
  *           application/json:
  *             schema:
@@ -252,8 +417,13 @@ router.put('/:id', authenticateToken, updateProject);
  *               properties:
  *                 message:
  *                   type: string
+ *                 purgeAt:
+ *                   type: string
+ *                   format: date-time
  *       401:
  *         description: Unauthorized - User not authenticated
+ *       403:
+ *         description: Only the owner can delete the project
  *       404:
  *         description: Project not found
  *         content:
@@ -266,6 +436,79 @@ router.put('/:id', authenticateToken, updateProject);
  *       500:
  *         description: Internal server error
  */
-router.delete('/:id', authenticateToken, deleteProject);
+router.delete('/:id', auditTrail('project.delete'), authenticateToken, deleteProject);
+
+/**
+ * @swagger
+ * /projects/{id}/restore:
+ *   post:
+ *     summary: Restore a project from the trash
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Project restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectResponse'
+ *       401:
+ *         description: Unauthorized - User not authenticated
+ *       403:
+ *         description: Only the owner can restore the project
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: Project is not in the trash
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/restore', auditTrail('project.restore'), authenticateToken, restoreProject);
+
+/**
+ * @swagger
+ * /projects/{id}/permanent:
+ *   delete:
+ *     summary: Permanently delete a project and all its secrets
+ *     description: Works on projects in the trash as well as live ones. Also destroys the project data key, leaving any copies of its encrypted secrets unreadable. This cannot be undone.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Project permanently deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *       401:
+ *         description: Unauthorized - User not authenticated
+ *       403:
+ *         description: Only the owner can delete the project
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/permanent', auditTrail('project.purge'), authenticateToken, purgeTrashedProject);
+
 
 export default router;
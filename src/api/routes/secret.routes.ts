@@ -1,12 +1,22 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
 import {
   getSecrets,
   createSecret,
   getSecret,
   updateSecret,
-  deleteSecret
+  deleteSecret,
+  getSecretVersions,
+  getSecretVersion,
+  rollbackSecret,
+  importSecrets,
+  exportSecrets,
+  getTrashedSecrets,
+  restoreSecret,
+  purgeTrashedSecret
 } from '../controllers/secretController';
+import { streamSecretEvents } from '../controllers/secretEventController';
 
 const router = Router();
 
@@ -25,7 +35,50 @@ const router = Router();
  *           description: The secret key/name
  *         value:
  *           type: string
- *           description: The decrypted secret value (only returned when fetching individual secret)
+ *           description: The decrypted secret value as stored, references included (only returned when fetching individual secret)
+ *         resolvedValue:
+ *           type: string
+ *           description: The value with its references replaced by the values they name (only returned by the resolved view)
+ *         referenceError:
+ *           type: object
+ *           description: Why the references could not be resolved, in place of resolvedValue (only returned by the resolved view)
+ *           properties:
+ *             error:
+ *               type: string
+ *             reference:
+ *               type: string
+ *         type:
+ *           type: string
+ *           enum: [string, url, json, pem, password, connection_string]
+ *           description: Declared kind of value, checked on every write
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           description: What the secret is for
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         ownerId:
+ *           type: string
+ *           nullable: true
+ *           description: The user responsible for the secret
+ *         version:
+ *           type: integer
+ *           description: Current version number, incremented on every write
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the value stops being valid
+ *         rotationIntervalDays:
+ *           type: integer
+ *           nullable: true
+ *           description: Days between rotations; the project default applies when null
+ *         rotatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the value last changed
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -47,6 +100,31 @@ const router = Router();
  *           type: string
  *         key:
  *           type: string
+ *         type:
+ *           type: string
+ *           enum: [string, url, json, pem, password, connection_string]
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         ownerId:
+ *           type: string
+ *           nullable: true
+ *         version:
+ *           type: integer
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         rotationIntervalDays:
+ *           type: integer
+ *           nullable: true
+ *         rotatedAt:
+ *           type: string
+ *           format: date-time
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -54,6 +132,18 @@ const router = Router();
  *           type: string
  *           format: date-time
  *     
+ *     SecretVersion:
+ *       type: object
+ *       properties:
+ *         version:
+ *           type: integer
+ *         createdById:
+ *           type: string
+ *           description: The user who wrote this version
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     
  *     CreateSecretRequest:
  *       type: object
  *       properties:
@@ -63,21 +153,179 @@ const router = Router();
  *           example: "API_KEY"
  *         value:
  *           type: string
- *           description: The secret value to encrypt and store
+ *           description: The secret value to encrypt and store. It may reference other secrets as ${KEY}, ${environment/KEY} or ${projectId/environment/KEY}, resolved when read or exported; $${ writes a literal ${
  *           example: "sk-1234567890abcdef"
+ *         type:
+ *           type: string
+ *           enum: [string, url, json, pem, password, connection_string]
+ *           description: Declared kind of value; the value must fit it
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 1000
+ *           description: What the secret is for; null clears it
+ *         tags:
+ *           type: array
+ *           maxItems: 20
+ *           items:
+ *             type: string
+ *           description: Stored in lowercase
+ *         ownerId:
+ *           type: string
+ *           nullable: true
+ *           description: A user with access to the project who is responsible for the secret; null clears it
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the value stops being valid; null clears it
+ *         rotationIntervalDays:
+ *           type: integer
+ *           nullable: true
+ *           minimum: 1
+ *           maximum: 3650
+ *           description: Days between rotations, overriding the project default; null clears it
  *       required:
  *         - key
  *         - value
  *     
  *     UpdateSecretRequest:
  *       type: object
+ *       description: A new value rotates the secret; the value can be left out to only change the schedule or metadata
  *       properties:
  *         value:
  *           type: string
  *           description: The new secret value to encrypt and store
  *           example: "sk-new-api-key-123"
+ *         type:
+ *           type: string
+ *           enum: [string, url, json, pem, password, connection_string]
+ *           description: Declared kind of value; the current value is checked when only the type changes
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 1000
+ *           description: What the secret is for; null clears it
+ *         tags:
+ *           type: array
+ *           maxItems: 20
+ *           items:
+ *             type: string
+ *           description: Replaces the tags; stored in lowercase
+ *         ownerId:
+ *           type: string
+ *           nullable: true
+ *           description: A user with access to the project who is responsible for the secret; null clears it
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the value stops being valid; null clears it
+ *         rotationIntervalDays:
+ *           type: integer
+ *           nullable: true
+ *           minimum: 1
+ *           maximum: 3650
+ *           description: Days between rotations, overriding the project default; null clears it
+ *     
+ *     ImportSecretsRequest:
+ *       type: object
+ *       properties:
+ *         format:
+ *           type: string
+ *           enum: [dotenv, json, yaml]
+ *         content:
+ *           type: string
+ *           description: The file to import; JSON and YAML must be a flat object of keys and values
+ *           example: "API_KEY=sk-123\nexport DEBUG=false"
+ *         conflict:
+ *           type: string
+ *           enum: [skip, overwrite, fail]
+ *           default: fail
+ *           description: What to do with keys that already exist with a different value
+ *         dryRun:
+ *           type: boolean
+ *           default: false
+ *           description: Report what would change without writing anything
  *       required:
- *         - value
+ *         - format
+ *         - content
+ *     
+ *     TrashedSecret:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SecretList'
+ *         - type: object
+ *           properties:
+ *             environment:
+ *               type: string
+ *               description: Name of the environment the secret was deleted from
+ *             deletedAt:
+ *               type: string
+ *               format: date-time
+ *             deletedById:
+ *               type: string
+ *               nullable: true
+ *               description: User that deleted the secret
+ *             deletedByTokenId:
+ *               type: string
+ *               nullable: true
+ *               description: Service token that deleted the secret
+ *             purgeAt:
+ *               type: string
+ *               format: date-time
+ *               description: When the secret is permanently deleted unless restored
+ *     SecretEvent:
+ *       type: object
+ *       description: A change to a secret; values are never included
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: Event ID, sent as the SSE id to resume from with Last-Event-ID
+ *         type:
+ *           type: string
+ *           enum: [created, updated, deleted]
+ *           description: Also the SSE event name. Restoring a secret from the trash counts as created.
+ *         projectId:
+ *           type: string
+ *         environmentId:
+ *           type: string
+ *         environment:
+ *           type: string
+ *           description: Environment name
+ *         secretId:
+ *           type: string
+ *         key:
+ *           type: string
+ *         version:
+ *           type: integer
+ *           description: Version of the secret after the change
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ImportSecretsResult:
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *         dryRun:
+ *           type: boolean
+ *         created:
+ *           type: array
+ *           items:
+ *             type: string
+ *         updated:
+ *           type: array
+ *           items:
+ *             type: string
+ *         unchanged:
+ *           type: array
+ *           items:
+ *             type: string
+ *         skipped:
+ *           type: array
+ *           description: Existing keys left alone by the skip policy
+ *           items:
+ *             type: string
  */
 
 /**
@@ -85,7 +333,7 @@ const router = Router();
  * /projects/{projectId}/secrets:
  *   get:
  *     summary: Get all secrets for a project
- *     description: Returns a list of secret keys (no values) for the specified project
+ *     description: Returns a list of secret keys (no values) in the default environment of the specified project
  *     tags: [Secrets]
  *     security:
  *       - bearerAuth: []
@@ -96,6 +344,33 @@ const router = Router();
  *         schema:
  *           type: string
  *         description: The project ID
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Only secrets with this tag
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [string, url, json, pem, password, connection_string]
+ *         description: Only secrets of this type
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *         description: Only secrets owned by this user ID
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [key, created, updated]
+ *           default: created
+ *       - $ref: '#/components/parameters/SortOrder'
+ *       - $ref: '#/components/parameters/SearchQuery'
+ *       - $ref: '#/components/parameters/SearchPrefix'
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: List of secrets retrieved successfully
@@ -108,6 +383,161 @@ const router = Router();
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/SecretList'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Invalid filter, sort, order, limit or cursor
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/secrets', auditTrail('secret.list'), authenticateToken, getSecrets);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/export:
+ *   get:
+ *     summary: Export all secret values
+ *     description: Downloads the decrypted secrets of the default environment in a deploy-ready format. Service tokens need the export grant; every export is recorded in the audit log.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [dotenv, json, yaml, shell, k8s]
+ *         description: dotenv file, flat JSON, flat YAML, shell export script or Kubernetes Secret manifest
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Name of the Kubernetes Secret, defaults to the project and environment names
+ *     responses:
+ *       200:
+ *         description: The exported secrets, with their references resolved
+ *         headers:
+ *           X-Unresolved-Secrets:
+ *             description: Comma-separated, URL-encoded keys whose references could not be resolved; they are exported as stored
+ *             schema:
+ *               type: string
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               additionalProperties:
+ *                 type: string
+ *           application/yaml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid format or name, or keys that the format cannot represent
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Token does not have export access, the project requires a recent second-factor check, or the environment holds expired secrets the project refuses to reveal
+ *       404:
+ *         description: Project or environment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/secrets/export', auditTrail('secret.export'), authenticateToken, exportSecrets);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/events:
+ *   get:
+ *     summary: Stream changes to the secrets of a project
+ *     description: |
+ *       Server-Sent Events for secrets created, updated or deleted in all environments of the project, or the one a service token is restricted to.
+ *       Each event carries the secret key and version but never its value. Events are kept for
+ *       SECRET_EVENT_RETENTION_HOURS; a stream resumes after the event given in the Last-Event-ID
+ *       header (sent by EventSource when it reconnects) or the lastEventId query parameter. Comments
+ *       are sent as heartbeats, and the stream ends once the caller loses access to the project.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
+ *         description: Replay the events after this one before streaming new ones
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: integer
+ *         description: Same as the Last-Event-ID header, for clients that cannot set headers
+ *     responses:
+ *       200:
+ *         description: "Event stream; every event's data is a SecretEvent"
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               id: 42
+ *               event: updated
+ *               data: {"id":42,"type":"updated","key":"DB_PASSWORD","version":3,...}
+ *       400:
+ *         description: Invalid Last-Event-ID
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/secrets/events', auditTrail('secret.events'), authenticateToken, streamSecretEvents);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/trash:
+ *   get:
+ *     summary: List deleted secrets of a project
+ *     description: Secrets in the trash across all environments of the project, most recently deleted first
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Deleted secrets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secrets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedSecret'
  *       401:
  *         description: User not authenticated
  *       404:
@@ -115,14 +545,14 @@ const router = Router();
  *       500:
  *         description: Internal server error
  */
-router.get('/:id/secrets', authenticateToken, getSecrets);
+router.get('/:id/secrets/trash', auditTrail('secret.trash.list'), authenticateToken, getTrashedSecrets);
 
 /**
  * @swagger
  * /projects/{projectId}/secrets:
  *   post:
  *     summary: Create a new secret
- *     description: Creates and encrypts a new secret in the specified project
+ *     description: Creates and encrypts a new secret in the default environment of the specified project
  *     tags: [Secrets]
  *     security:
  *       - bearerAuth: []
@@ -152,17 +582,59 @@ router.get('/:id/secrets', authenticateToken, getSecrets);
  *                 secret:
  *                   $ref: '#/components/schemas/SecretList'
  *       400:
- *         description: Invalid input - missing key/value or empty key
+ *         description: Invalid input - missing key/value, empty key, a value that does not fit the type, or invalid metadata, expiry or rotation interval
  *       401:
  *         description: User not authenticated
  *       404:
  *         description: Project not found
  *       409:
- *         description: Secret key already exists in this project
+ *         description: Secret key already exists in the default environment
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/secrets', auditTrail('secret.create'), authenticateToken, createSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/import:
+ *   post:
+ *     summary: Import secrets from a dotenv, JSON or YAML file
+ *     description: Creates and updates the secrets of the default environment in a single transaction
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ImportSecretsRequest'
+ *     responses:
+ *       200:
+ *         description: Secrets imported, or the changes an import would make when dryRun is set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportSecretsResult'
+ *       400:
+ *         description: Invalid format, conflict policy, dryRun flag, content or secrets
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or environment not found
+ *       409:
+ *         description: Keys already exist with different values and the conflict policy is fail
  *       500:
  *         description: Internal server error
  */
-router.post('/:id/secrets', authenticateToken, createSecret);
+router.post('/:id/secrets/import', auditTrail('secret.import'), authenticateToken, importSecrets);
 
 /**
  * @swagger
@@ -186,6 +658,13 @@ router.post('/:id/secrets', authenticateToken, createSecret);
  *         schema:
  *           type: string
  *         description: The secret ID
+ *       - in: query
+ *         name: view
+ *         schema:
+ *           type: string
+ *           enum: [resolved, raw]
+ *           default: resolved
+ *         description: resolved adds resolvedValue with the references replaced, or referenceError when they cannot be; raw only returns the stored value
  *     responses:
  *       200:
  *         description: Secret retrieved successfully
@@ -196,14 +675,18 @@ router.post('/:id/secrets', authenticateToken, createSecret);
  *               properties:
  *                 secret:
  *                   $ref: '#/components/schemas/Secret'
+ *       400:
+ *         description: Unknown view
  *       401:
  *         description: User not authenticated
+ *       403:
+ *         description: The project requires a recent second-factor check (POST /auth/mfa/verify), or the secret has expired and the project refuses to reveal it
  *       404:
  *         description: Project or secret not found
  *       500:
  *         description: Internal server error
  */
-router.get('/:id/secrets/:secretId', authenticateToken, getSecret);
+router.get('/:id/secrets/:secretId', auditTrail('secret.read'), authenticateToken, getSecret);
 
 /**
  * @swagger
@@ -235,7 +718,7 @@ router.get('/:id/secrets/:secretId', authenticateToken, getSecret);
  *             $ref: '#/components/schemas/UpdateSecretRequest'
  *     responses:
  *       200:
- *         description: Secret updated successfully
+ *         description: Secret updated successfully, previous value kept as a version
  *         content:
  *           application/json:
  *             schema:
@@ -246,7 +729,7 @@ router.get('/:id/secrets/:secretId', authenticateToken, getSecret);
  *                 secret:
  *                   $ref: '#/components/schemas/SecretList'
  *       400:
- *         description: Invalid input - missing value
+ *         description: Invalid input - missing value, a value that does not fit the type, or invalid metadata, expiry or rotation interval
  *       401:
  *         description: User not authenticated
  *       404:
@@ -254,14 +737,14 @@ router.get('/:id/secrets/:secretId', authenticateToken, getSecret);
  *       500:
  *         description: Internal server error
  */
-router.put('/:id/secrets/:secretId', authenticateToken, updateSecret);
+router.put('/:id/secrets/:secretId', auditTrail('secret.update'), authenticateToken, updateSecret);
 
 /**
  * @swagger
  * /projects/{projectId}/secrets/{secretId}:
  *   delete:
  *     summary: Delete a secret
- *     description: Permanently deletes a secret from the project
+ *     description: Moves the secret to the trash, from where it can be restored until the trash retention period is over
  *     tags: [Secrets]
  *     security:
  *       - bearerAuth: []
@@ -280,7 +763,7 @@ router.put('/:id/secrets/:secretId', authenticateToken, updateSecret);
  *         description: The secret ID
  *     responses:
  *       200:
- *         description: Secret deleted successfully
+ *         description: Secret moved to the trash
  *         content:
  *           application/json:
  *             schema:
@@ -288,6 +771,9 @@ router.put('/:id/secrets/:secretId', authenticateToken, updateSecret);
  *               properties:
  *                 message:
  *                   type: string
+ *                 purgeAt:
+ *                   type: string
+ *                   format: date-time
  *       401:
  *         description: User not authenticated
  *       404:
@@ -295,6 +781,1029 @@ router.put('/:id/secrets/:secretId', authenticateToken, updateSecret);
  *       500:
  *         description: Internal server error
  */
-router.delete('/:id/secrets/:secretId', authenticateToken, deleteSecret);
+router.delete('/:id/secrets/:secretId', auditTrail('secret.delete'), authenticateToken, deleteSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/{secretId}/restore:
+ *   post:
+ *     summary: Restore a secret from the trash
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Secret restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   $ref: '#/components/schemas/SecretList'
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Write access is required
+ *       404:
+ *         description: Project or secret not found in the trash
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/secrets/:secretId/restore', auditTrail('secret.restore'), authenticateToken, restoreSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/{secretId}/permanent:
+ *   delete:
+ *     summary: Permanently delete a secret
+ *     description: Deletes the secret and all its versions, whether it is in the trash or not. This cannot be undone. Only project owners can do this.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Secret permanently deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only the project owner can permanently delete secrets
+ *       404:
+ *         description: Project or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/secrets/:secretId/permanent', auditTrail('secret.purge'), authenticateToken, purgeTrashedSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/{secretId}/versions:
+ *   get:
+ *     summary: List the versions of a secret
+ *     description: Returns version metadata (no values), newest first
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     key:
+ *                       type: string
+ *                     currentVersion:
+ *                       type: integer
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SecretVersion'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/secrets/:secretId/versions', auditTrail('secret.versions'), authenticateToken, getSecretVersions);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/{secretId}/versions/{version}:
+ *   get:
+ *     summary: Get a specific version of a secret
+ *     description: Retrieves and decrypts the value a secret had at the given version
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The version number
+ *     responses:
+ *       200:
+ *         description: Secret version retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   $ref: '#/components/schemas/Secret'
+ *       400:
+ *         description: Version is not a number
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: The project requires a recent second-factor check (POST /auth/mfa/verify), or the secret has expired and the project refuses to reveal it
+ *       404:
+ *         description: Project or secret version not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/secrets/:secretId/versions/:version', auditTrail('secret.version.read'), authenticateToken, getSecretVersion);
+
+/**
+ * @swagger
+ * /projects/{projectId}/secrets/{secretId}/versions/{version}/rollback:
+ *   post:
+ *     summary: Roll a secret back to an earlier version
+ *     description: Writes the value of the given version as a new version of the secret
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The version to restore
+ *     responses:
+ *       200:
+ *         description: Secret rolled back successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   $ref: '#/components/schemas/SecretList'
+ *       400:
+ *         description: Version is not a number, or its value does not fit the type of the secret
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: The project requires a recent second-factor check (POST /auth/mfa/verify)
+ *       404:
+ *         description: Project or secret version not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/secrets/:secretId/versions/:version/rollback', auditTrail('secret.rollback'), authenticateToken, rollbackSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets:
+ *   get:
+ *     summary: Get all secrets for a project in an environment
+ *     description: Returns a list of secret keys (no values) for the specified project
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Only secrets with this tag
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [string, url, json, pem, password, connection_string]
+ *         description: Only secrets of this type
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *         description: Only secrets owned by this user ID
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [key, created, updated]
+ *           default: created
+ *       - $ref: '#/components/parameters/SortOrder'
+ *       - $ref: '#/components/parameters/SearchQuery'
+ *       - $ref: '#/components/parameters/SearchPrefix'
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: List of secrets retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secrets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SecretList'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Invalid filter, sort, order, limit or cursor
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or environment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets', auditTrail('secret.list'), authenticateToken, getSecrets);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/export:
+ *   get:
+ *     summary: Export all secret values
+ *     description: Downloads the decrypted secrets of the given environment in a deploy-ready format. Service tokens need the export grant; every export is recorded in the audit log.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [dotenv, json, yaml, shell, k8s]
+ *         description: dotenv file, flat JSON, flat YAML, shell export script or Kubernetes Secret manifest
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Name of the Kubernetes Secret, defaults to the project and environment names
+ *     responses:
+ *       200:
+ *         description: The exported secrets, with their references resolved
+ *         headers:
+ *           X-Unresolved-Secrets:
+ *             description: Comma-separated, URL-encoded keys whose references could not be resolved; they are exported as stored
+ *             schema:
+ *               type: string
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               additionalProperties:
+ *                 type: string
+ *           application/yaml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid format or name, or keys that the format cannot represent
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Token does not have export access, the project requires a recent second-factor check, or the environment holds expired secrets the project refuses to reveal
+ *       404:
+ *         description: Project or environment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets/export', auditTrail('secret.export'), authenticateToken, exportSecrets);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/events:
+ *   get:
+ *     summary: Stream changes to the secrets of an environment
+ *     description: |
+ *       Server-Sent Events for secrets created, updated or deleted in the environment.
+ *       Each event carries the secret key and version but never its value. Events are kept for
+ *       SECRET_EVENT_RETENTION_HOURS; a stream resumes after the event given in the Last-Event-ID
+ *       header (sent by EventSource when it reconnects) or the lastEventId query parameter. Comments
+ *       are sent as heartbeats, and the stream ends once the caller loses access to the project.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
+ *         description: Replay the events after this one before streaming new ones
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: integer
+ *         description: Same as the Last-Event-ID header, for clients that cannot set headers
+ *     responses:
+ *       200:
+ *         description: "Event stream; every event's data is a SecretEvent"
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               id: 42
+ *               event: updated
+ *               data: {"id":42,"type":"updated","key":"DB_PASSWORD","version":3,...}
+ *       400:
+ *         description: Invalid Last-Event-ID
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Token is not valid for this environment
+ *       404:
+ *         description: Project or environment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets/events', auditTrail('secret.events'), authenticateToken, streamSecretEvents);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/trash:
+ *   get:
+ *     summary: List deleted secrets of an environment
+ *     description: Secrets of the environment in the trash, most recently deleted first
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *     responses:
+ *       200:
+ *         description: Deleted secrets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secrets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedSecret'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets/trash', auditTrail('secret.trash.list'), authenticateToken, getTrashedSecrets);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets:
+ *   post:
+ *     summary: Create a new secret in an environment
+ *     description: Creates and encrypts a new secret in the specified project
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateSecretRequest'
+ *     responses:
+ *       201:
+ *         description: Secret created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   $ref: '#/components/schemas/SecretList'
+ *       400:
+ *         description: Invalid input - missing key/value, empty key, a value that does not fit the type, or invalid metadata, expiry or rotation interval
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or environment not found
+ *       409:
+ *         description: Secret key already exists in this environment
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/environments/:environment/secrets', auditTrail('secret.create'), authenticateToken, createSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/import:
+ *   post:
+ *     summary: Import secrets from a dotenv, JSON or YAML file
+ *     description: Creates and updates the secrets of the given environment in a single transaction
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ImportSecretsRequest'
+ *     responses:
+ *       200:
+ *         description: Secrets imported, or the changes an import would make when dryRun is set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportSecretsResult'
+ *       400:
+ *         description: Invalid format, conflict policy, dryRun flag, content or secrets
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or environment not found
+ *       409:
+ *         description: Keys already exist with different values and the conflict policy is fail
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/environments/:environment/secrets/import', auditTrail('secret.import'), authenticateToken, importSecrets);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}:
+ *   get:
+ *     summary: Get a specific secret in an environment
+ *     description: Retrieves and decrypts a specific secret (includes the decrypted value)
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *       - in: query
+ *         name: view
+ *         schema:
+ *           type: string
+ *           enum: [resolved, raw]
+ *           default: resolved
+ *         description: resolved adds resolvedValue with the references replaced, or referenceError when they cannot be; raw only returns the stored value
+ *     responses:
+ *       200:
+ *         description: Secret retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   $ref: '#/components/schemas/Secret'
+ *       400:
+ *         description: Unknown view
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: The project requires a recent second-factor check (POST /auth/mfa/verify), or the secret has expired and the project refuses to reveal it
+ *       404:
+ *         description: Project, environment or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets/:secretId', auditTrail('secret.read'), authenticateToken, getSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}:
+ *   put:
+ *     summary: Update a secret in an environment
+ *     description: Updates and re-encrypts the value of an existing secret
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateSecretRequest'
+ *     responses:
+ *       200:
+ *         description: Secret updated successfully, previous value kept as a version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   $ref: '#/components/schemas/SecretList'
+ *       400:
+ *         description: Invalid input - missing value, a value that does not fit the type, or invalid metadata, expiry or rotation interval
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project, environment or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id/environments/:environment/secrets/:secretId', auditTrail('secret.update'), authenticateToken, updateSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}:
+ *   delete:
+ *     summary: Delete a secret in an environment
+ *     description: Moves the secret to the trash, from where it can be restored until the trash retention period is over
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Secret moved to the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 purgeAt:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project, environment or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/environments/:environment/secrets/:secretId', auditTrail('secret.delete'), authenticateToken, deleteSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}/restore:
+ *   post:
+ *     summary: Restore a secret in an environment from the trash
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Secret restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   $ref: '#/components/schemas/SecretList'
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Write access is required
+ *       404:
+ *         description: Project, environment or secret not found in the trash
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/environments/:environment/secrets/:secretId/restore', auditTrail('secret.restore'), authenticateToken, restoreSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}/permanent:
+ *   delete:
+ *     summary: Permanently delete a secret in an environment
+ *     description: Deletes the secret and all its versions, whether it is in the trash or not. This cannot be undone. Only project owners can do this.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Secret permanently deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only the project owner can permanently delete secrets
+ *       404:
+ *         description: Project, environment or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/environments/:environment/secrets/:secretId/permanent', auditTrail('secret.purge'), authenticateToken, purgeTrashedSecret);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}/versions:
+ *   get:
+ *     summary: List the versions of a secret in an environment
+ *     description: Returns version metadata (no values), newest first
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *     responses:
+ *       200:
+ *         description: Versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     key:
+ *                       type: string
+ *                     currentVersion:
+ *                       type: integer
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SecretVersion'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project, environment or secret not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets/:secretId/versions', auditTrail('secret.versions'), authenticateToken, getSecretVersions);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}/versions/{version}:
+ *   get:
+ *     summary: Get a specific version of a secret in an environment
+ *     description: Retrieves and decrypts the value a secret had at the given version
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The version number
+ *     responses:
+ *       200:
+ *         description: Secret version retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   $ref: '#/components/schemas/Secret'
+ *       400:
+ *         description: Version is not a number
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project, environment or secret version not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/environments/:environment/secrets/:secretId/versions/:version', auditTrail('secret.version.read'), authenticateToken, getSecretVersion);
+
+/**
+ * @swagger
+ * /projects/{projectId}/environments/{environment}/secrets/{secretId}/versions/{version}/rollback:
+ *   post:
+ *     summary: Roll a secret back to an earlier version in an environment
+ *     description: Writes the value of the given version as a new version of the secret
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: environment
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The environment name
+ *       - in: path
+ *         name: secretId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The secret ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The version to restore
+ *     responses:
+ *       200:
+ *         description: Secret rolled back successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   $ref: '#/components/schemas/SecretList'
+ *       400:
+ *         description: Version is not a number, or its value does not fit the type of the secret
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project, environment or secret version not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/environments/:environment/secrets/:secretId/versions/:version/rollback', auditTrail('secret.rollback'), authenticateToken, rollbackSecret);
 
 export default router;
@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import { getDueSecrets } from '../controllers/secretExpiryController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DueSecret:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         key:
+ *           type: string
+ *         environment:
+ *           type: string
+ *         project:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *         status:
+ *           type: string
+ *           enum: [expired, expiring, rotation_overdue, rotation_due]
+ *           description: Whichever of expiry and rotation comes first
+ *         dueAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         rotationDueAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Last rotation plus the secret's interval, or the project default
+ */
+
+/**
+ * @swagger
+ * /secrets/due:
+ *   get:
+ *     summary: List secrets that are expired or due for rotation
+ *     description: >
+ *       Secrets across all projects of the user that have expired or missed their rotation, or will
+ *       within the given number of days, soonest first. Values are never included.
+ *     tags: [Secrets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 365
+ *         description: How far ahead to look; defaults to SECRET_REMINDER_DAYS
+ *     responses:
+ *       200:
+ *         description: Due secrets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 days:
+ *                   type: integer
+ *                 secrets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DueSecret'
+ *       400:
+ *         description: Invalid number of days
+ *       401:
+ *         description: User not authenticated
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/due', auditTrail('secret.due'), authenticateToken, getDueSecrets);
+
+export default router;
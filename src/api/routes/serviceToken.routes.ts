@@ -0,0 +1,198 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import {
+  getServiceTokens,
+  createServiceToken,
+  revokeServiceToken
+} from '../controllers/serviceTokenController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ServiceToken:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           description: What the token is used for
+ *         displayPrefix:
+ *           type: string
+ *           description: First characters of the token, to recognise it
+ *         permission:
+ *           type: string
+ *           enum: [read, write]
+ *         canExport:
+ *           type: boolean
+ *           description: Whether the token may bulk export decrypted values
+ *         environment:
+ *           type: object
+ *           nullable: true
+ *           description: The only environment the token can access, if restricted
+ *           properties:
+ *             name:
+ *               type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreateServiceTokenRequest:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "GitHub Actions deploy"
+ *         permission:
+ *           type: string
+ *           enum: [read, write]
+ *         canExport:
+ *           type: boolean
+ *           default: false
+ *           description: Allow bulk export of decrypted values
+ *         environment:
+ *           type: string
+ *           description: Restrict the token to this environment
+ *           example: "production"
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *       required:
+ *         - name
+ *         - permission
+ */
+
+/**
+ * @swagger
+ * /projects/{projectId}/tokens:
+ *   get:
+ *     summary: List the service tokens of a project
+ *     tags: [Service Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Service tokens retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tokens:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ServiceToken'
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/tokens', auditTrail('service_token.list'), authenticateToken, getServiceTokens);
+
+/**
+ * @swagger
+ * /projects/{projectId}/tokens:
+ *   post:
+ *     summary: Create a service token
+ *     description: Creates a project-scoped token for machines such as CI pipelines. Send it as a bearer token; the plaintext is only returned once.
+ *     tags: [Service Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateServiceTokenRequest'
+ *     responses:
+ *       201:
+ *         description: Service token created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                   description: The token itself, only returned here
+ *                 serviceToken:
+ *                   $ref: '#/components/schemas/ServiceToken'
+ *       400:
+ *         description: Invalid name, permission, export flag or expiry
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or environment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/tokens', auditTrail('service_token.create'), authenticateToken, createServiceToken);
+
+/**
+ * @swagger
+ * /projects/{projectId}/tokens/{tokenId}:
+ *   delete:
+ *     summary: Revoke a service token
+ *     tags: [Service Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: tokenId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The service token ID
+ *     responses:
+ *       200:
+ *         description: Service token revoked successfully
+ *       401:
+ *         description: User not authenticated
+ *       404:
+ *         description: Project or service token not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/tokens/:tokenId', auditTrail('service_token.revoke'), authenticateToken, revokeServiceToken);
+
+export default router;
@@ -0,0 +1,408 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { auditTrail } from '../middleware/audit';
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  redeliverWebhook
+} from '../controllers/webhookController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Webhook:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         url:
+ *           type: string
+ *           description: Endpoint the events are POSTed to
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [secret.created, secret.updated, secret.deleted, project.updated, member.added]
+ *         active:
+ *           type: boolean
+ *           description: Deliveries to inactive webhooks are held until it is active again
+ *         createdById:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     WebhookRequest:
+ *       type: object
+ *       properties:
+ *         url:
+ *           type: string
+ *           description: https endpoint on a public address
+ *           example: "https://deploy.example.com/hooks/keep-safe"
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [secret.created, secret.updated, secret.deleted, project.updated, member.added]
+ *           example: ["secret.created", "secret.updated", "secret.deleted"]
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *         active:
+ *           type: boolean
+ *           default: true
+ *
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: Sent in the X-Keep-Safe-Delivery header of every attempt
+ *         event:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *           description: failed once every attempt has been made
+ *         attempts:
+ *           type: integer
+ *         responseStatus:
+ *           type: integer
+ *           nullable: true
+ *           description: HTTP status the endpoint answered the last attempt with
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           description: Why the last attempt failed
+ *         lastAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         redeliveryOf:
+ *           type: string
+ *           nullable: true
+ *           description: Delivery this one repeats
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /projects/{projectId}/webhooks:
+ *   get:
+ *     summary: List the webhooks of a project
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 webhooks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only project owners and admins can manage webhooks
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/webhooks', auditTrail('webhook.list'), authenticateToken, getWebhooks);
+
+/**
+ * @swagger
+ * /projects/{projectId}/webhooks:
+ *   post:
+ *     summary: Register a webhook
+ *     description: |
+ *       Events the webhook subscribes to are POSTed to its URL as JSON of the form
+ *       `{"event", "projectId", "occurredAt", "data"}`; secret events carry the key and version,
+ *       never the value. member.added carries the userId and role of a new member, or the teamId and
+ *       role of a team granted onto the project; people joining a team that already has access are
+ *       not reported. Each request has the headers X-Keep-Safe-Event, X-Keep-Safe-Delivery,
+ *       X-Keep-Safe-Timestamp and X-Keep-Safe-Signature, which is `sha256=` followed by the hex
+ *       HMAC-SHA256 of `<timestamp>.<body>` keyed with the signing secret. Only a 2xx answer counts
+ *       as delivered; other answers, redirects and timeouts are retried with exponential backoff.
+ *       The URL has to be https unless WEBHOOK_ALLOW_HTTP is set, and its host must not resolve to a
+ *       loopback, link-local or private address unless listed in WEBHOOK_ALLOWED_PRIVATE_HOSTS; this
+ *       is checked again before every attempt. The signing secret is only returned once.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/WebhookRequest'
+ *               - required: [url, events]
+ *     responses:
+ *       201:
+ *         description: Webhook created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 secret:
+ *                   type: string
+ *                   description: Signing secret, only returned here
+ *                 webhook:
+ *                   $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Invalid or missing URL, events, description or active flag, or a URL pointing at a private address
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only project owners and admins can manage webhooks
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/webhooks', auditTrail('webhook.create'), authenticateToken, createWebhook);
+
+/**
+ * @swagger
+ * /projects/{projectId}/webhooks/{webhookId}:
+ *   put:
+ *     summary: Update a webhook
+ *     description: Fields left out stay as they are. The signing secret does not change.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The webhook ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WebhookRequest'
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 webhook:
+ *                   $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Invalid URL, events, description or active flag, or a URL pointing at a private address
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only project owners and admins can manage webhooks
+ *       404:
+ *         description: Project or webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id/webhooks/:webhookId', auditTrail('webhook.update'), authenticateToken, updateWebhook);
+
+/**
+ * @swagger
+ * /projects/{projectId}/webhooks/{webhookId}:
+ *   delete:
+ *     summary: Delete a webhook
+ *     description: Deliveries still queued are dropped, and the delivery log goes with the webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The webhook ID
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only project owners and admins can manage webhooks
+ *       404:
+ *         description: Project or webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/webhooks/:webhookId', auditTrail('webhook.delete'), authenticateToken, deleteWebhook);
+
+/**
+ * @swagger
+ * /projects/{projectId}/webhooks/{webhookId}/deliveries:
+ *   get:
+ *     summary: List the deliveries of a webhook
+ *     description: Delivery log with the outcome of the last attempt of each; kept for WEBHOOK_LOG_RETENTION_DAYS
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The webhook ID
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *       - $ref: '#/components/parameters/SortOrder'
+ *       - $ref: '#/components/parameters/SearchQuery'
+ *       - $ref: '#/components/parameters/SearchPrefix'
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: A page of deliveries, newest first by default
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Invalid status, order, limit or cursor
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only project owners and admins can manage webhooks
+ *       404:
+ *         description: Project or webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/webhooks/:webhookId/deliveries', auditTrail('webhook.delivery.list'), authenticateToken, getWebhookDeliveries);
+
+/**
+ * @swagger
+ * /projects/{projectId}/webhooks/{webhookId}/deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Redeliver a webhook delivery
+ *     description: Queues the payload of the delivery again as a new delivery with a fresh set of attempts
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The project ID
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The webhook ID
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The delivery to repeat
+ *     responses:
+ *       202:
+ *         description: Redelivery queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 delivery:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       401:
+ *         description: User not authenticated
+ *       403:
+ *         description: Only project owners and admins can manage webhooks
+ *       404:
+ *         description: Project or delivery not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver', auditTrail('webhook.redeliver'), authenticateToken, redeliverWebhook);
+
+export default router;
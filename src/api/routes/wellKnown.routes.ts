@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { getJwks } from '../controllers/jwksController';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /.well-known/jwks.json:
+ *   get:
+ *     tags:
+ *       - Keys
+ *     summary: Access token signing keys
+ *     description: >
+ *       Public keys access tokens are signed with, as a JSON Web Key Set. Tokens name their key in
+ *       the `kid` header. A new key is listed ahead of signing and a retired one for as long as its
+ *       tokens may be in use. Served from the root of the app rather than under /api.
+ *     servers:
+ *       - url: /
+ *     responses:
+ *       200:
+ *         description: The key set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kid:
+ *                         type: string
+ *                       kty:
+ *                         type: string
+ *                         example: RSA
+ *                       alg:
+ *                         type: string
+ *                         enum: [RS256, EdDSA]
+ *                       use:
+ *                         type: string
+ *                         example: sig
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/.well-known/jwks.json', getJwks);
+
+export default router;
@@ -0,0 +1,172 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { ensurePersonalOrganization } from './organizationAccess';
+import { outranks, ProjectRole } from './projectAccess';
+
+export const OWNED_PROJECT_CHOICES = ['transfer', 'delete'] as const;
+export type OwnedProjectsChoice = typeof OWNED_PROJECT_CHOICES[number];
+
+interface NamedRef {
+  id: string;
+  name: string;
+}
+
+export interface ProjectTransfer extends NamedRef {
+  newOwnerId: string;
+}
+
+export interface AccountDeletionPlan {
+  userId: string;
+  personalOrganizationId?: string;
+  transfers: ProjectTransfer[];
+  deletions: NamedRef[];
+}
+
+export type AccountDeletionPlanResult =
+  | { plan: AccountDeletionPlan; error?: undefined }
+  | {
+    plan?: undefined;
+    status: number;
+    error: string;
+    organizations?: NamedRef[];
+    projects?: NamedRef[];
+  };
+
+
+export function isOwnedProjectsChoice(value: unknown): value is OwnedProjectsChoice {
+  return OWNED_PROJECT_CHOICES.includes(value as OwnedProjectsChoice);
+}
+
+
+/**
+ * The member a project goes to: an existing owner, or else the highest
+ * ranked member, the longest-standing one on a tie
+ */
+function findSuccessor(members: { userId: string; role: string }[]) {
+  return [...members].sort((a, b) => {
+    const [roleA, roleB] = [a.role as ProjectRole, b.role as ProjectRole];
+    return outranks(roleA, roleB) ? -1 : outranks(roleB, roleA) ? 1 : 0;
+  })[0];
+}
+
+
+/**
+ * Work out what deleting the account does to what the user owns.
+ *
+ * Organizations the user is the only owner of have to be handed over or
+ * deleted first. Projects in other organizations stay with the organization's
+ * owners. Projects in the personal organization cannot stay there, as it goes
+ * with the account: they move to the personal organization of their new
+ * owner, or are deleted with their secrets when the user chose so.
+ */
+export async function planAccountDeletion(
+  userId: string,
+  ownedProjects?: OwnedProjectsChoice,
+): Promise<AccountDeletionPlanResult> {
+  const ownedOrganizations = await prisma.organization.findMany({
+    where: { personalUserId: null, members: { some: { userId, role: 'owner' } } },
+    select: { id: true, name: true, members: { where: { role: 'owner' }, select: { userId: true } } }
+  });
+  const soleOwned = ownedOrganizations
+    .filter(({ members }: { members: unknown[] }) => members.length === 1)
+    .map(({ id, name }: NamedRef) => ({ id, name }));
+  if (soleOwned.length > 0) {
+    return {
+      status: 409,
+      error: 'Add another owner to these organizations or delete them first',
+      organizations: soleOwned
+    };
+  }
+
+  const personal = await prisma.organization.findUnique({
+    where: { personalUserId: userId },
+    select: {
+      id: true,
+      projects: {
+        select: {
+          id: true,
+          name: true,
+          members: {
+            where: { userId: { not: userId } },
+            select: { userId: true, role: true },
+            orderBy: { createdAt: 'asc' }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+
+  const plan: AccountDeletionPlan = { userId, personalOrganizationId: personal?.id, transfers: [], deletions: [] };
+  const undecided: NamedRef[] = [];
+  const stranded: NamedRef[] = [];
+
+  for (const { id, name, members } of personal?.projects ?? []) {
+    const successor = findSuccessor(members);
+    if (successor?.role === 'owner' || (successor && ownedProjects === 'transfer')) {
+      plan.transfers.push({ id, name, newOwnerId: successor.userId });
+    } else if (ownedProjects === 'delete') {
+      plan.deletions.push({ id, name });
+    } else if (ownedProjects === 'transfer') {
+      stranded.push({ id, name });
+    } else {
+      undecided.push({ id, name });
+    }
+  }
+
+  if (undecided.length > 0) {
+    return {
+      status: 409,
+      error: 'Choose whether to transfer or delete the projects you own',
+      projects: undecided
+    };
+  }
+
+  if (stranded.length > 0) {
+    return {
+      status: 409,
+      error: 'These projects have no other member to transfer them to; delete them instead',
+      projects: stranded
+    };
+  }
+  return { plan };
+}
+
+
+export async function executeAccountDeletion(plan: AccountDeletionPlan): Promise<void> {
+  // Upserted up front, ensurePersonalOrganization does not take a transaction
+  const destinations = new Map<string, string>();
+  for (const { newOwnerId } of plan.transfers) {
+    if (!destinations.has(newOwnerId)) {
+      destinations.set(newOwnerId, (await ensurePersonalOrganization(newOwnerId)).id);
+    }
+  }
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const { id, newOwnerId } of plan.transfers) {
+      await tx.projectMember.updateMany({
+        where: { projectId: id, userId: newOwnerId },
+        data: { role: 'owner' }
+      });
+      // Teams belong to the organization the project leaves
+      await tx.teamGrant.deleteMany({ where: { projectId: id } });
+      await tx.project.update({
+        where: { id },
+        data: { organizationId: destinations.get(newOwnerId) }
+      });
+    }
+
+    if (plan.deletions.length > 0) {
+      await tx.project.deleteMany({
+        where: { id: { in: plan.deletions.map(({ id }) => id) } }
+      });
+    }
+
+    if (plan.personalOrganizationId) {
+      await tx.organization.delete({ where: { id: plan.personalOrganizationId } });
+    }
+
+    // Memberships, sessions and second factors go with the user
+    await tx.user.delete({ where: { id: plan.userId } });
+  });
+}
@@ -0,0 +1,58 @@
+import config from '../../infrastructure/config';
+import { getMailer } from '../../infrastructure/mail/mailer';
+import { ACCOUNT_TOKEN_TTL_MS, issueAccountToken } from './accountTokens';
+
+interface Recipient {
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+
+function link(path: string, token: string): string {
+  return `${config.mail.appUrl}${path}?token=${encodeURIComponent(token)}`;
+}
+
+
+function greeting(user: Recipient): string {
+  return user.name ? `Hi ${user.name},` : 'Hi,';
+}
+
+
+export async function sendVerificationEmail(user: Recipient): Promise<void> {
+  const token = await issueAccountToken('email_verification', { userId: user.id, email: user.email });
+  const hours = ACCOUNT_TOKEN_TTL_MS.email_verification / (60 * 60 * 1000);
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: [
+      greeting(user),
+      '',
+      'Please confirm your email address by opening this link:',
+      link('/verify-email', token),
+      '',
+      `The link expires in ${hours} hours.`
+    ].join('\n')
+  });
+}
+
+
+export async function sendPasswordResetEmail(user: Recipient): Promise<void> {
+  const token = await issueAccountToken('password_reset', { userId: user.id, email: user.email });
+  const minutes = ACCOUNT_TOKEN_TTL_MS.password_reset / (60 * 1000);
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      greeting(user),
+      '',
+      'Someone asked to reset the password of your account. To choose a new one, open this link:',
+      link('/reset-password', token),
+      '',
+      `The link expires in ${minutes} minutes and signs out all your sessions once used.`,
+      'If you did not ask for this, you can ignore this email.'
+    ].join('\n')
+  });
+}
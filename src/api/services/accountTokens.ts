@@ -0,0 +1,65 @@
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+export const ACCOUNT_TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 24 * 60 * 60 * 1000
+};
+
+export interface AccountTokenClaims {
+  userId: string;
+  email: string;
+}
+
+
+/**
+ * Issue a signed token for one use. Its id refers to a stored row, so it can
+ * be spent; earlier unused tokens for the same purpose are retired.
+ */
+export async function issueAccountToken(purpose: AccountTokenPurpose, claims: AccountTokenClaims): Promise<string> {
+  const ttl = ACCOUNT_TOKEN_TTL_MS[purpose];
+
+  const record = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.accountToken.updateMany({
+      where: { userId: claims.userId, purpose, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    return tx.accountToken.create({
+      data: { userId: claims.userId, purpose, expiresAt: new Date(Date.now() + ttl) },
+      select: { id: true }
+    });
+  });
+
+  return jwt.sign({ ...claims, purpose }, config.jwt.secret as any, {
+    jwtid: record.id,
+    expiresIn: Math.floor(ttl / 1000)
+  });
+}
+
+
+/**
+ * Check a token's signature, purpose and expiry and spend it. Returns its
+ * claims, or null when it is invalid or was used before.
+ */
+export async function consumeAccountToken(token: string, purpose: AccountTokenPurpose): Promise<AccountTokenClaims | null> {
+  let payload: Partial<AccountTokenClaims> & { purpose?: string; jti?: string };
+  try {
+    payload = jwt.verify(token, config.jwt.secret as any) as typeof payload;
+  } catch (error) {
+    return null;
+  }
+
+  if (payload.purpose !== purpose || !payload.jti || !payload.userId || !payload.email) {
+    return null;
+  }
+
+  const spent = await prisma.accountToken.updateMany({
+    where: { id: payload.jti, userId: payload.userId, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() }
+  });
+  return spent.count === 1 ? { userId: payload.userId, email: payload.email } : null;
+}
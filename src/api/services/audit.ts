@@ -0,0 +1,210 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+/**
+ * Details a controller learns while handling a request (the secret key
+ * behind a secret id, the id of a freshly created project, ...) that the
+ * audit middleware cannot see from the route alone
+ */
+export interface AuditContext {
+  projectId?: string;
+  secretKey?: string;
+  userId?: string;
+  metadata?: Record<string, unknown>;
+  recorded?: boolean;
+}
+
+export interface AuditEntry {
+  action: string;
+  outcome: AuditOutcome;
+  statusCode?: number;
+  projectId?: string;
+  environment?: string;
+  secretKey?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: { sequence: number; id: string; reason: string };
+}
+
+interface ChainedFields {
+  sequence: number;
+  createdAt: Date;
+  action: string;
+  outcome: string;
+  statusCode: number | null;
+  projectId: string | null;
+  environment: string | null;
+  secretKey: string | null;
+  userId: string | null;
+  serviceTokenId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: unknown;
+  prevHash: string | null;
+}
+
+const CHAINED_FIELDS: (keyof ChainedFields)[] = [
+  'sequence', 'createdAt', 'action', 'outcome', 'statusCode', 'projectId', 'environment',
+  'secretKey', 'userId', 'serviceTokenId', 'ip', 'userAgent', 'metadata', 'prevHash',
+];
+
+// Serialises appends so every entry links to the one before it
+const AUDIT_CHAIN_LOCK = 727_001;
+const VERIFY_BATCH_SIZE = 500;
+
+
+/**
+ * JSON with object keys sorted, so metadata hashes the same after a round
+ * trip through jsonb (which does not keep key order)
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+
+export function computeAuditHash(fields: ChainedFields): string {
+  const chained: Record<string, unknown> = {};
+  for (const field of CHAINED_FIELDS) {
+    chained[field] = fields[field] ?? null;
+  }
+  chained.createdAt = fields.createdAt.toISOString();
+  return createHash('sha256').update(canonicalJson(chained)).digest('hex');
+}
+
+
+export function outcomeForStatus(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) {
+    return 'denied';
+  }
+  return statusCode < 400 ? 'success' : 'failure';
+}
+
+
+export function annotateAudit(req: AuthRequest, context: AuditContext): void {
+  req.audit = { ...req.audit, ...context };
+}
+
+
+/**
+ * Append an entry to the audit log, attributed to the user or service token
+ * behind the request and chained to the previous entry by its hash
+ */
+export async function recordAudit(req: AuthRequest, entry: AuditEntry): Promise<void> {
+  const userAgent = req.headers?.['user-agent'];
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`;
+
+    const previous = await tx.auditLog.findFirst({
+      where: { sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true }
+    });
+
+    const fields: ChainedFields = {
+      sequence: (previous?.sequence ?? 0) + 1,
+      createdAt: new Date(),
+      action: entry.action,
+      outcome: entry.outcome,
+      statusCode: entry.statusCode ?? null,
+      projectId: entry.projectId ?? req.audit?.projectId ?? null,
+      environment: entry.environment ?? null,
+      secretKey: entry.secretKey ?? req.audit?.secretKey ?? null,
+      userId: req.user?.userId ?? req.audit?.userId ?? null,
+      serviceTokenId: req.serviceToken?.id ?? null,
+      ip: req.ip ?? null,
+      userAgent: typeof userAgent === 'string' ? userAgent : null,
+      metadata: entry.metadata ?? req.audit?.metadata ?? null,
+      prevHash: previous?.hash ?? null
+    };
+
+    await tx.auditLog.create({
+      data: {
+        ...fields,
+        metadata: fields.metadata ?? undefined,
+        hash: computeAuditHash(fields)
+      }
+    });
+  });
+
+  annotateAudit(req, { recorded: true });
+}
+
+
+/**
+ * Walk the chain from the first entry and recompute every hash; an edited,
+ * removed or reordered entry breaks the chain at that point
+ */
+export async function verifyAuditChain(): Promise<AuditVerification> {
+  let checked = 0;
+  let expectedSequence = 1;
+  let prevHash: string | null = null;
+
+  for (;;) {
+    const entries = await prisma.auditLog.findMany({
+      where: { sequence: { gte: expectedSequence } },
+      orderBy: { sequence: 'asc' },
+      take: VERIFY_BATCH_SIZE
+    });
+
+    for (const entry of entries) {
+      const { sequence } = entry;
+      const broken = (reason: string): AuditVerification =>
+        ({ valid: false, checked, brokenAt: { sequence: sequence ?? expectedSequence, id: entry.id, reason } });
+
+      if (sequence === null) {
+        return broken('Entry has no sequence number');
+      }
+      if (sequence !== expectedSequence) {
+        return broken(`Entry ${expectedSequence} is missing`);
+      }
+      if (entry.prevHash !== prevHash) {
+        return broken('Entry does not link to the previous entry');
+      }
+      if (computeAuditHash({ ...entry, sequence }) !== entry.hash) {
+        return broken('Entry contents do not match its hash');
+      }
+
+      checked++;
+      expectedSequence++;
+      prevHash = entry.hash;
+    }
+
+    if (entries.length < VERIFY_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  // Entries written before the chain existed have no place in it, and the
+  // sequence filter above never returns them
+  const unsequenced = await prisma.auditLog.findFirst({
+    where: { sequence: null },
+    select: { id: true }
+  });
+  if (unsequenced) {
+    return {
+      valid: false,
+      checked,
+      brokenAt: { sequence: expectedSequence, id: unsequenced.id, reason: 'Entry has no sequence number' }
+    };
+  }
+
+  return { valid: true, checked };
+}
@@ -0,0 +1,106 @@
+import { Response } from 'express';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+
+// Failed attempts on one account before each further attempt has to wait
+const FREE_ACCOUNT_FAILURES = 3;
+const MAX_DELAY_SECONDS = 30;
+
+export interface Throttle {
+  key: string;
+  maxFailures: number;
+  // Attempts wait 1s, 2s, 4s, ... once there were this many failures
+  delayAfter?: number;
+}
+
+
+export function accountThrottle(email: string): Throttle {
+  return {
+    key: `account:${email.trim().toLowerCase()}`,
+    maxFailures: config.authThrottle.accountMaxFailures,
+    delayAfter: FREE_ACCOUNT_FAILURES
+  };
+}
+
+
+export function secondFactorThrottle(userId: string): Throttle {
+  return {
+    key: `second-factor:${userId}`,
+    maxFailures: config.authThrottle.accountMaxFailures,
+    delayAfter: FREE_ACCOUNT_FAILURES
+  };
+}
+
+
+/**
+ * Addresses only get locked out, without delays, as many users can share one
+ */
+export function ipThrottle(ip: string | undefined): Throttle {
+  return { key: `ip:${ip ?? 'unknown'}`, maxFailures: config.authThrottle.ipMaxFailures };
+}
+
+
+// Failures are forgotten after a lockout period without new ones
+function lockoutMs(): number {
+  return config.authThrottle.lockoutMinutes * 60 * 1000;
+}
+
+
+/**
+ * Seconds to wait before the next attempt, or 0 when it may go ahead
+ */
+export async function getRetryAfter(throttles: Throttle[]): Promise<number> {
+  const rows = await prisma.authThrottle.findMany({
+    where: { key: { in: throttles.map(({ key }) => key) } }
+  });
+
+  const now = Date.now();
+  let waitUntil = now;
+  for (const row of rows) {
+    const throttle = throttles.find(({ key }) => key === row.key);
+    waitUntil = Math.max(waitUntil, row.lockedUntil?.getTime() ?? 0);
+
+    const recent = row.lastFailureAt.getTime() > now - lockoutMs();
+    if (throttle?.delayAfter !== undefined && recent && row.failures >= throttle.delayAfter) {
+      const delaySeconds = Math.min(2 ** (row.failures - throttle.delayAfter), MAX_DELAY_SECONDS);
+      waitUntil = Math.max(waitUntil, row.lastFailureAt.getTime() + delaySeconds * 1000);
+    }
+  }
+  return Math.ceil((waitUntil - now) / 1000);
+}
+
+
+export async function recordFailure(throttles: Throttle[]): Promise<void> {
+  const now = new Date();
+
+  for (const { key, maxFailures } of throttles) {
+    await prisma.authThrottle.updateMany({
+      where: { key, lastFailureAt: { lt: new Date(now.getTime() - lockoutMs()) } },
+      data: { failures: 0, lockedUntil: null }
+    });
+
+    const row = await prisma.authThrottle.upsert({
+      where: { key },
+      create: { key, failures: 1, lastFailureAt: now },
+      update: { failures: { increment: 1 }, lastFailureAt: now }
+    });
+
+    if (row.failures >= maxFailures) {
+      await prisma.authThrottle.update({
+        where: { key },
+        data: { lockedUntil: new Date(now.getTime() + lockoutMs()) }
+      });
+    }
+  }
+}
+
+
+export async function clearFailures(throttle: Throttle): Promise<void> {
+  await prisma.authThrottle.deleteMany({ where: { key: throttle.key } });
+}
+
+
+export function sendTooManyAttempts(res: Response, retryAfter: number) {
+  res.setHeader('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'Too many failed attempts, try again later', retryAfter });
+}
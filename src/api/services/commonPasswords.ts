@@ -0,0 +1,33 @@
+/**
+ * Passwords that top public breach corpora and cracking wordlists, checked
+ * offline at signup and password change. Lowercase; the check ignores case.
+ * PASSWORD_BREACHED_LIST_FILE can add a larger list.
+ */
+export const COMMON_PASSWORDS: readonly string[] = [
+  '000000', '00000000', '0123456789', '1111', '11111', '111111', '1111111', '11111111',
+  '112233', '121212', '123123', '123123123', '1234', '12345', '123456', '1234567',
+  '12345678', '123456789', '1234567890', '123456789a', '12345678910', '123456a', '123456abc', '123qwe',
+  '123abc', '1q2w3e', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx', '1qazxsw2', '2000', '555555',
+  '654321', '666666', '6969', '696969', '7777777', '777777', '87654321', '888888',
+  '88888888', '987654321', '9876543210', '999999', 'a123456', 'a12345678', 'aa123456', 'aaaaaa',
+  'abc123', 'abc12345', 'abcd1234', 'abcdef', 'abcdefg', 'abcdefgh', 'access', 'access14',
+  'admin', 'admin123', 'admin1234', 'administrator', 'amanda', 'andrea', 'andrew', 'angel',
+  'angels', 'anthony', 'apple', 'apples', 'asdf', 'asdf1234', 'asdfasdf', 'asdfgh',
+  'asdfghjk', 'asdfghjkl', 'ashley', 'austin', 'azerty', 'babygirl', 'bailey', 'banana',
+  'baseball', 'basketball', 'batman', 'biteme', 'blink182', 'buster', 'butterfly', 'changeme',
+  'charlie', 'cheese', 'chelsea', 'chocolate', 'computer', 'cookie', 'corvette', 'daniel',
+  'default', 'dragon', 'dubsmash', 'eminem', 'everton', 'flower', 'football', 'freedom',
+  'friends', 'fuckyou', 'ginger', 'hannah', 'hello', 'hello123', 'hockey', 'hunter',
+  'hunter2', 'iloveu', 'iloveyou', 'iloveyou1', 'iloveyou2', 'internet', 'jennifer', 'jessica',
+  'jesus', 'jordan', 'jordan23', 'joshua', 'justin', 'killer', 'letmein', 'letmein1',
+  'liverpool', 'login', 'lovely', 'loveme', 'lovers', 'maggie', 'master', 'matrix',
+  'matthew', 'melissa', 'michael', 'michelle', 'monkey', 'mustang', 'nicole', 'ninja',
+  'nothing', 'pass', 'pass123', 'pass1234', 'passw0rd', 'password', 'password!', 'password1',
+  'password12', 'password123', 'password1234', 'pepper', 'princess', 'purple', 'q1w2e3r4',
+  'q1w2e3r4t5', 'q1w2e3r4t5y6', 'qazwsx', 'qazwsxedc', 'qwe123', 'qwer1234', 'qwerty', 'qwerty1',
+  'qwerty12', 'qwerty123', 'qwerty1234', 'qwertyu', 'qwertyui', 'qwertyuiop', 'qwertz', 'robert',
+  'root', 'secret', 'secret123', 'shadow', 'soccer', 'starwars', 'summer', 'sunshine',
+  'superman', 'taylor', 'test', 'test123', 'test1234', 'thomas', 'tigger', 'trustno1',
+  'welcome', 'welcome1', 'welcome123', 'whatever', 'william', 'winter', 'zaq12wsx', 'zxcvbn',
+  'zxcvbnm', 'zxcvbnm123'
+];
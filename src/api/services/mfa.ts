@@ -0,0 +1,179 @@
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { getKeyProvider } from '../../infrastructure/crypto/keyProvider';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode
+} from './totp';
+
+const CHALLENGE_PURPOSE = 'mfa-challenge';
+const CHALLENGE_TTL = '5m';
+
+export interface SecondFactor {
+  code?: unknown;
+  recoveryCode?: unknown;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+interface TotpUser {
+  id: string;
+  totpSecret: string | null;
+  totpKeyId: string | null;
+}
+
+
+/**
+ * Start (or restart) enrollment: a new secret is stored wrapped with the
+ * master key but only takes effect once confirmTotpEnrollment sees a code
+ */
+export async function startTotpEnrollment(user: { userId: string; email: string }): Promise<TotpEnrollment> {
+  const secret = generateTotpSecret();
+  const { keyId, wrappedKey } = await getKeyProvider().wrapKey(secret);
+
+  await prisma.user.update({
+    where: { id: user.userId },
+    data: { totpSecret: wrappedKey, totpKeyId: keyId, totpEnabledAt: null, totpLastUsedStep: null }
+  });
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email, config.mfa.issuer) };
+}
+
+
+/**
+ * Accept a code at most once: the step is only recorded if it is newer than
+ * the last accepted one, so a replayed code loses the race
+ */
+async function checkTotpCode(user: TotpUser, code: string): Promise<boolean> {
+  if (!user.totpSecret || !user.totpKeyId) {
+    return false;
+  }
+
+  const secret = await getKeyProvider().unwrapKey(user.totpSecret, user.totpKeyId);
+  const step = verifyTotpCode(secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const claimed = await prisma.user.updateMany({
+    where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+    data: { totpLastUsedStep: step }
+  });
+  return claimed.count === 1;
+}
+
+
+/**
+ * Confirm enrollment with a code from the authenticator; returns fresh
+ * recovery codes, or null when the code is wrong
+ */
+export async function confirmTotpEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, totpSecret: true, totpKeyId: true }
+  });
+
+  if (!user || !(await checkTotpCode(user, code))) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date() }
+    });
+    await replaceRecoveryCodes(tx, userId, recoveryCodes);
+  });
+  return recoveryCodes;
+}
+
+
+export async function replaceRecoveryCodes(
+  client: Prisma.TransactionClient,
+  userId: string,
+  recoveryCodes: string[],
+): Promise<void> {
+  await client.recoveryCode.deleteMany({ where: { userId } });
+  await client.recoveryCode.createMany({
+    data: recoveryCodes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) }))
+  });
+}
+
+
+/**
+ * Check a TOTP code or an unused recovery code of a user with two-factor
+ * authentication enabled; recovery codes are spent when they match
+ */
+export async function verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, totpSecret: true, totpKeyId: true, totpEnabledAt: true }
+  });
+
+  if (!user?.totpEnabledAt) {
+    return false;
+  }
+
+  if (typeof factor.code === 'string') {
+    return checkTotpCode(user, factor.code);
+  }
+
+  if (typeof factor.recoveryCode === 'string') {
+    const spent = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: hashRecoveryCode(factor.recoveryCode), usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    return spent.count === 1;
+  }
+
+  return false;
+}
+
+
+/**
+ * Short-lived token proving the password step of a login succeeded. It has
+ * no session, so the auth middleware never accepts it as an access token.
+ */
+export function createChallengeToken(userId: string): string {
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, config.jwt.secret as any, { expiresIn: CHALLENGE_TTL });
+}
+
+
+export function verifyChallengeToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, config.jwt.secret as any) as { userId?: string; purpose?: string };
+    return decoded.purpose === CHALLENGE_PURPOSE && decoded.userId ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+
+export async function markSecondFactorVerified(sessionId: string): Promise<void> {
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { mfaVerifiedAt: new Date() }
+  });
+}
+
+
+/**
+ * Whether the session passed a second-factor check within the freshness window
+ */
+export async function hasFreshSecondFactor(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { mfaVerifiedAt: true }
+  });
+  const freshSince = Date.now() - config.mfa.freshnessMinutes * 60 * 1000;
+  return Boolean(session?.mfaVerifiedAt && session.mfaVerifiedAt.getTime() >= freshSince);
+}
@@ -0,0 +1,182 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Prisma, User } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { AuthorizationRequest, IdTokenClaims } from '../../infrastructure/oidc/client';
+import { outranks, ProjectRole } from './projectAccess';
+import { queueWebhookDeliveries } from './webhooks';
+
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000;
+const SALT_ROUNDS = 10;
+
+export type OidcLinkOutcome = 'existing' | 'linked' | 'provisioned';
+
+export type OidcUserResult =
+  | { user: User; outcome: OidcLinkOutcome; error?: undefined }
+  | { user?: undefined; outcome?: undefined; status: number; error: string };
+
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+
+/**
+ * Whether the email's domain has to sign in through the identity provider
+ * instead of with a password
+ */
+export function isSsoEnforced(email: string): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase();
+  return Boolean(config.oidc.issuer && domain && config.oidc.enforcedDomains.includes(domain));
+}
+
+
+/**
+ * Remember a new sign-in until the issuer sends the browser back with a code
+ */
+export async function createLoginRequest(): Promise<AuthorizationRequest> {
+  const request = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+
+  await prisma.oidcLoginRequest.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  await prisma.oidcLoginRequest.create({
+    data: { ...request, expiresAt: new Date(Date.now() + LOGIN_REQUEST_TTL_MS) }
+  });
+  return request;
+}
+
+
+/**
+ * Spend the sign-in the state belongs to; null when it is unknown, expired or
+ * was completed before
+ */
+export async function consumeLoginRequest(state: string): Promise<AuthorizationRequest | null> {
+  const spent = await prisma.oidcLoginRequest.updateMany({
+    where: { state, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() }
+  });
+  if (spent.count !== 1) {
+    return null;
+  }
+
+  return prisma.oidcLoginRequest.findUnique({
+    where: { state },
+    select: { state: true, nonce: true, codeVerifier: true }
+  });
+}
+
+
+/**
+ * The user behind a verified ID token. A known identity signs in its user; a
+ * new one is linked to the account with the same email, or gets a new
+ * account, but only when the issuer vouches for the email.
+ */
+export async function findOrProvisionUser(claims: IdTokenClaims): Promise<OidcUserResult> {
+  const { iss: issuer, sub: subject } = claims;
+  const email = typeof claims.email === 'string' ? claims.email : undefined;
+
+  const identity = await prisma.userIdentity.findUnique({
+    where: { issuer_subject: { issuer, subject } },
+    include: { user: true }
+  });
+
+  if (identity) {
+    await prisma.userIdentity.update({
+      where: { id: identity.id },
+      data: { email, lastLoginAt: new Date() }
+    });
+    return { user: identity.user, outcome: 'existing' };
+  }
+
+  if (!email || claims.email_verified !== true) {
+    return { status: 403, error: 'The identity provider did not confirm an email address for this account' };
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email }
+  });
+
+  if (existingUser) {
+    // Whoever signed up with an address they never confirmed may not own it,
+    // and linking would hand the issuer's user their account
+    if (!existingUser.emailVerifiedAt) {
+      return {
+        status: 409,
+        error: 'An account with this email exists but its address is not verified; verify it and sign in again'
+      };
+    }
+
+    await prisma.userIdentity.create({
+      data: { userId: existingUser.id, issuer, subject, email }
+    });
+    return { user: existingUser, outcome: 'linked' };
+  }
+
+  // Nobody knows this password; a local one can be set through a password reset
+  const password = await bcrypt.hash(randomToken(), SALT_ROUNDS);
+  const user = await prisma.user.create({
+    data: {
+      email,
+      password,
+      name: typeof claims.name === 'string' ? claims.name : null,
+      emailVerifiedAt: new Date(),
+      identities: { create: { issuer, subject, email } }
+    }
+  });
+  return { user, outcome: 'provisioned' };
+}
+
+
+export function groupsFromClaims(claims: IdTokenClaims): string[] {
+  const groups = claims[config.oidc.groupsClaim];
+  return Array.isArray(groups) ? groups.filter((group): group is string => typeof group === 'string') : [];
+}
+
+
+/**
+ * Bring the memberships granted through groups in line with the groups the
+ * issuer reported. Memberships added by hand are left alone, and so are
+ * owners, whatever their groups.
+ */
+export async function syncGroupRoles(userId: string, groups: string[]): Promise<void> {
+  const granted = new Map<string, ProjectRole>();
+  for (const { group, projectId, role } of config.oidc.groupRoles) {
+    const current = granted.get(projectId);
+    if (groups.includes(group) && (!current || outranks(role as ProjectRole, current))) {
+      granted.set(projectId, role as ProjectRole);
+    }
+  }
+
+  const projects = await prisma.project.findMany({
+    where: { id: { in: [...granted.keys()] } },
+    select: { id: true }
+  });
+  const memberships = await prisma.projectMember.findMany({
+    where: { userId },
+    select: { id: true, projectId: true, role: true, source: true }
+  });
+
+  const added: { projectId: string; role: ProjectRole }[] = [];
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const member of memberships) {
+      if (member.source === 'oidc' && member.role !== 'owner' && !granted.has(member.projectId)) {
+        await tx.projectMember.delete({ where: { id: member.id } });
+      }
+    }
+
+    for (const { id: projectId } of projects) {
+      const role = granted.get(projectId) as ProjectRole;
+      const member = memberships.find((membership: { projectId: string }) => membership.projectId === projectId);
+      if (!member) {
+        await tx.projectMember.create({ data: { projectId, userId, role, source: 'oidc' } });
+        added.push({ projectId, role });
+      } else if (member.source === 'oidc' && member.role !== 'owner' && member.role !== role) {
+        await tx.projectMember.update({ where: { id: member.id }, data: { role } });
+      }
+    }
+  });
+
+  for (const { projectId, role } of added) {
+    await queueWebhookDeliveries(projectId, 'member.added', { userId, role, source: 'oidc' });
+  }
+}
@@ -0,0 +1,76 @@
+import { Organization } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member'] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+const ORGANIZATION_RANK: Record<OrganizationRole, number> = {
+  owner: 2,
+  admin: 1,
+  member: 0,
+};
+
+export type OrganizationAccessResult =
+  | { organization: Organization; role: OrganizationRole; error?: undefined }
+  | { organization?: undefined; role?: undefined; status: number; error: string };
+
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return ORGANIZATION_ROLES.includes(value as OrganizationRole);
+}
+
+
+/**
+ * Owners manage everyone, admins manage plain members
+ */
+export function canManageOrganizationMember(actor: OrganizationRole, target: OrganizationRole): boolean {
+  return actor === 'owner' || ORGANIZATION_RANK[actor] > ORGANIZATION_RANK[target];
+}
+
+
+/**
+ * Resolve an organization for the signed-in user, requiring at least the
+ * given role. Service tokens are scoped to a single project and never reach
+ * organizations.
+ */
+export async function checkOrganizationAccess(
+  req: AuthRequest,
+  organizationId: string,
+  minimumRole: OrganizationRole,
+): Promise<OrganizationAccessResult> {
+  if (!req.user) {
+    return { status: 401, error: 'User not authenticated' };
+  }
+
+  const { userId } = req.user;
+  const membership = await prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    include: { organization: true }
+  });
+  if (!membership || !isOrganizationRole(membership.role)) {
+    return { status: 404, error: 'Organization not found' };
+  }
+
+  const role: OrganizationRole = membership.role;
+  if (ORGANIZATION_RANK[role] < ORGANIZATION_RANK[minimumRole]) {
+    return { status: 403, error: 'Your organization role does not allow this action' };
+  }
+  return { organization: membership.organization, role };
+}
+
+
+/**
+ * The organization a user's own projects live in, created on first use
+ */
+export async function ensurePersonalOrganization(userId: string) {
+  return prisma.organization.upsert({
+    where: { personalUserId: userId },
+    update: {},
+    create: {
+      name: 'Personal',
+      personalUserId: userId,
+      members: { create: { userId, role: 'owner' } }
+    }
+  });
+}
@@ -0,0 +1,157 @@
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PageOptions {
+  // Values accepted for `sort`, mapped to the column they order by
+  sortFields: Record<string, string>;
+  defaultSort: string;
+  defaultOrder: SortOrder;
+  // Column matched by the `q` and `prefix` searches
+  searchField: string;
+}
+
+export interface Page {
+  limit: number;
+  field: string;
+  order: SortOrder;
+  after: { value: unknown; id: string } | null;
+  // Search condition, to be combined with the listing's own filter
+  search: Record<string, unknown>;
+}
+
+export type PageResult =
+  | { page: Page; error?: undefined }
+  | { page?: undefined; error: string };
+
+export interface PageInfo {
+  limit: number;
+  total: number;
+  nextCursor: string | null;
+}
+
+
+// Dates go into cursors as JSON writes them
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+
+function encodeCursor(field: string, value: unknown, id: string): string {
+  return Buffer.from(JSON.stringify([field, value, id])).toString('base64url');
+}
+
+
+/**
+ * Whether a cursor value can stand in a filter on the column: an ISO date
+ * for timestamps, which are named `...At` throughout the schema, a string or
+ * number otherwise. Anything else would let a client pass filter operators.
+ */
+function isCursorValue(field: string, value: unknown): boolean {
+  if (field.endsWith('At')) {
+    return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+  }
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+
+function decodeCursor(cursor: string, field: string): { value: unknown; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // A cursor only continues the ordering it was issued for
+    if (
+      !Array.isArray(decoded) ||
+      decoded[0] !== field ||
+      !isCursorValue(field, decoded[1]) ||
+      typeof decoded[2] !== 'string'
+    ) {
+      return null;
+    }
+    return { value: decoded[1], id: decoded[2] };
+  } catch (error) {
+    return null;
+  }
+}
+
+
+/**
+ * Read `limit`, `cursor`, `sort`, `order`, `q` (substring) and `prefix` from
+ * a listing's query string
+ */
+export function parsePage(query: Record<string, unknown>, options: PageOptions): PageResult {
+  const { limit: rawLimit, cursor, sort = options.defaultSort, order = options.defaultOrder, q, prefix } = query;
+
+  for (const [name, value] of Object.entries({ limit: rawLimit, cursor, sort, order, q, prefix })) {
+    if (value !== undefined && typeof value !== 'string') {
+      return { error: `${name} can only be given once` };
+    }
+  }
+
+  const limit = rawLimit === undefined ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(options.sortFields, sort as string)) {
+    return { error: `Sort must be one of: ${Object.keys(options.sortFields).join(', ')}` };
+  }
+  const field = options.sortFields[sort as string];
+
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'Order must be asc or desc' };
+  }
+
+  const after = cursor ? decodeCursor(cursor as string, field) : null;
+  if (cursor && !after) {
+    return { error: 'Invalid cursor' };
+  }
+
+  const search: Record<string, unknown> = {};
+  if (prefix || q) {
+    search[options.searchField] = {
+      ...(prefix ? { startsWith: prefix as string } : {}),
+      ...(q ? { contains: q as string } : {}),
+      mode: 'insensitive'
+    };
+  }
+
+  return { page: { limit, field, order, after, search } };
+}
+
+
+/**
+ * findMany arguments for one page of the rows matching `where`: ordered by
+ * the sort column with the id breaking ties, starting after the cursor, and
+ * one row over the limit to tell whether another page follows
+ */
+export function pageArgs(page: Page, where: Record<string, unknown>) {
+  const { field, order, after } = page;
+  const direction = order === 'asc' ? 'gt' : 'lt';
+
+  return {
+    where: after
+      ? {
+        AND: [
+          where,
+          { OR: [{ [field]: { [direction]: after.value } }, { [field]: after.value, id: { [direction]: after.id } }] }
+        ]
+      }
+      : where,
+    orderBy: [{ [field]: order }, { id: order }],
+    take: page.limit + 1
+  };
+}
+
+
+/**
+ * Split the rows fetched with pageArgs into the page and the cursor for the
+ * next one
+ */
+export function pageOf<T extends { id: string }>(rows: T[], page: Page, total: number): { items: T[]; pagination: PageInfo } {
+  const items = rows.slice(0, page.limit);
+  const last = items[items.length - 1] as Record<string, unknown> | undefined;
+  const nextCursor = rows.length > page.limit && last
+    ? encodeCursor(page.field, last[page.field], last.id as string)
+    : null;
+
+  return { items, pagination: { limit: page.limit, total, nextCursor } };
+}
@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import config from '../../infrastructure/config';
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+// bcrypt ignores everything after 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+
+let breachedPasswords: Set<string> | null = null;
+
+
+function getBreachedPasswords(): Set<string> {
+  if (!breachedPasswords) {
+    breachedPasswords = new Set(COMMON_PASSWORDS);
+
+    const file = config.passwordPolicy.breachedListFile;
+    if (file) {
+      for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+        const password = line.trim().toLowerCase();
+        if (password) {
+          breachedPasswords.add(password);
+        }
+      }
+    }
+  }
+  return breachedPasswords;
+}
+
+
+/**
+ * Returns why a new password is not acceptable, or null
+ */
+export function checkPasswordPolicy(password: unknown, email?: string): string | null {
+  const { minLength, checkBreached } = config.passwordPolicy;
+
+  if (typeof password !== 'string' || password.length < minLength) {
+    return `Password must be at least ${minLength} characters`;
+  }
+
+  if (Buffer.byteLength(password, 'utf8') > MAX_PASSWORD_BYTES) {
+    return `Password must be at most ${MAX_PASSWORD_BYTES} bytes`;
+  }
+
+  if (email && password.toLowerCase() === email.toLowerCase()) {
+    return 'Password must not be your email address';
+  }
+
+  if (checkBreached && getBreachedPasswords().has(password.toLowerCase())) {
+    return 'This password appears in lists of breached passwords; choose another one';
+  }
+  return null;
+}
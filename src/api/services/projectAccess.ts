@@ -0,0 +1,210 @@
+import { Project } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import { AuthRequest } from '../middleware/auth';
+
+export const PROJECT_ROLES = ['owner', 'admin', 'writer', 'reader', 'metadata'] as const;
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+/**
+ * metadata: list keys and versions, never values
+ * read: decrypted values
+ * export: every value at once
+ * manage: settings, environments, service tokens and members below admin
+ * own: delete the project or one of its environments, purge the trash and transfer ownership
+ */
+export type ProjectPermission = 'metadata' | 'read' | 'write' | 'export' | 'manage' | 'own';
+
+const ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+  owner: ['metadata', 'read', 'write', 'export', 'manage', 'own'],
+  admin: ['metadata', 'read', 'write', 'export', 'manage'],
+  writer: ['metadata', 'read', 'write'],
+  reader: ['metadata', 'read'],
+  metadata: ['metadata'],
+};
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  owner: 4,
+  admin: 3,
+  writer: 2,
+  reader: 1,
+  metadata: 0,
+};
+
+// Organization roles that reach every project of the organization as its owner
+const ORGANIZATION_ADMIN_ROLES = ['owner', 'admin'];
+
+interface RoleSources {
+  members?: { role: string }[];
+  teamGrants?: { role: string }[];
+  organization?: { members?: { role: string }[] } | null;
+}
+
+export type ProjectAccessResult =
+  | { project: Project; role?: ProjectRole; error?: undefined }
+  | { project?: undefined; role?: undefined; status: number; error: string };
+
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return PROJECT_ROLES.includes(value as ProjectRole);
+}
+
+
+export function roleAllows(role: ProjectRole, permission: ProjectPermission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+
+/**
+ * Members can only hand out and take away roles below their own, so admins
+ * manage writers and readers while only the owner manages admins
+ */
+export function outranks(actor: ProjectRole, target: ProjectRole): boolean {
+  return ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+
+/**
+ * Filter for the projects a user can reach: as a member, through a team
+ * granted onto the project, or as an admin of the owning organization.
+ * With roles given, only where one of the direct or team roles is among them.
+ */
+export function accessibleProjectsWhere(userId: string, roles?: ProjectRole[]) {
+  const role = roles && { role: { in: roles } };
+  return {
+    OR: [
+      { members: { some: { userId, ...role } } },
+      { teamGrants: { some: { ...role, team: { members: { some: { userId } } } } } },
+      { organization: { members: { some: { userId, role: { in: ORGANIZATION_ADMIN_ROLES } } } } },
+    ]
+  };
+}
+
+
+/**
+ * Filter for the users holding one of the roles on a project, directly or
+ * through a team, together with the admins of the owning organization
+ */
+export function projectUsersWhere(project: { id: string; organizationId: string }, roles: ProjectRole[]) {
+  const role = { role: { in: roles } };
+  return {
+    OR: [
+      { memberships: { some: { projectId: project.id, ...role } } },
+      { teamMemberships: { some: { team: { grants: { some: { projectId: project.id, ...role } } } } } },
+      { organizationMemberships: { some: { organizationId: project.organizationId, role: { in: ORGANIZATION_ADMIN_ROLES } } } },
+    ]
+  };
+}
+
+
+export async function isProjectUser(project: { id: string; organizationId: string }, userId: string): Promise<boolean> {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, ...projectUsersWhere(project, [...PROJECT_ROLES]) },
+    select: { id: true }
+  });
+  return Boolean(user);
+}
+
+
+/**
+ * What to load with a project so resolveProjectRole can work out the user's role
+ */
+export function projectRoleInclude(userId: string) {
+  return {
+    members: { where: { userId }, select: { role: true } },
+    teamGrants: { where: { team: { members: { some: { userId } } } }, select: { role: true } },
+    organization: { select: { members: { where: { userId }, select: { role: true } } } }
+  };
+}
+
+
+/**
+ * The highest role the user holds on the project across all the ways they
+ * reach it; organization owners and admins count as project owners
+ */
+export function resolveProjectRole(project: RoleSources): ProjectRole | undefined {
+  const organizationRole = project.organization?.members?.[0]?.role;
+  if (organizationRole && ORGANIZATION_ADMIN_ROLES.includes(organizationRole)) {
+    return 'owner';
+  }
+
+  const roles = [...(project.members ?? []), ...(project.teamGrants ?? [])]
+    .map(({ role }) => role)
+    .filter(isProjectRole);
+  return roles.reduce<ProjectRole | undefined>(
+    (highest, role) => (highest === undefined || outranks(role, highest) ? role : highest),
+    undefined,
+  );
+}
+
+export function isAuthenticated(req: AuthRequest): boolean {
+  return Boolean(req.user || req.serviceToken);
+}
+
+/**
+ * Resolve a project for the caller: users reach the projects they are a
+ * member of, directly, through a team or as an organization admin, with the
+ * permissions of their highest role, service tokens only the
+ * project they were issued for and only with the permission they were
+ * granted. Exporting every value at once is a separate grant that tokens do
+ * not get by default, and tokens never manage the project. Projects in the
+ * trash are not found unless includeDeleted is set.
+ */
+export async function checkProjectAccess(
+  req: AuthRequest,
+  projectId: string,
+  permission: ProjectPermission,
+  options: { includeDeleted?: boolean } = {},
+): Promise<ProjectAccessResult> {
+  const deleted = options.includeDeleted ? {} : { deletedAt: null };
+
+  if (req.user) {
+    const { userId } = req.user;
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, ...deleted, ...accessibleProjectsWhere(userId) },
+      include: projectRoleInclude(userId)
+    });
+    const role = project && resolveProjectRole(project);
+    if (!role) {
+      return { status: 404, error: 'Project not found' };
+    }
+
+    if (!roleAllows(role, permission)) {
+      return { status: 403, error: 'Your project role does not allow this action' };
+    }
+    return { project, role };
+  }
+
+  const token = req.serviceToken;
+  if (!token) {
+    return { status: 401, error: 'User not authenticated' };
+  }
+
+  if (token.projectId !== projectId) {
+    return { status: 404, error: 'Project not found' };
+  }
+
+  if (permission === 'manage' || permission === 'own') {
+    return { status: 403, error: 'Service tokens cannot manage projects' };
+  }
+
+  if (permission === 'write' && token.permission !== 'write') {
+    return { status: 403, error: 'Token does not have write access' };
+  }
+
+  if (permission === 'export' && !token.canExport) {
+    return { status: 403, error: 'Token does not have export access' };
+  }
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, ...deleted }
+  });
+  return project ? { project } : { status: 404, error: 'Project not found' };
+}
+
+/**
+ * Whether the caller may touch secrets of the given environment; tokens can
+ * be restricted to a single environment
+ */
+export function canAccessEnvironment(req: AuthRequest, environmentId: string): boolean {
+  return !req.serviceToken?.environmentId || req.serviceToken.environmentId === environmentId;
+}
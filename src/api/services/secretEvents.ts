@@ -0,0 +1,163 @@
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { getEventBus } from '../../infrastructure/events/eventBus';
+import { queueWebhookDeliveries } from './webhooks';
+
+export const SECRET_EVENT_TYPES = ['created', 'updated', 'deleted'] as const;
+export type SecretEventType = typeof SECRET_EVENT_TYPES[number];
+
+/**
+ * A change to a secret as reported by the controllers. Restoring a secret
+ * from the trash counts as creating it; deleting it for good after it was
+ * moved to the trash is not reported again.
+ */
+export interface SecretChange {
+  type: SecretEventType;
+  projectId: string;
+  environmentId: string;
+  secretId: string;
+  key: string;
+  version: number;
+}
+
+// What change streams send; never the value
+export interface SecretEvent extends SecretChange {
+  id: number;
+  environment: string;
+  createdAt: string;
+}
+
+export interface SecretEventFilter {
+  projectId: string;
+  environmentId?: string;
+}
+
+// The type column is a plain string in the database
+interface SecretEventRow extends Omit<SecretChange, 'type'> {
+  id: number;
+  type: string;
+  createdAt: Date;
+}
+
+const REPLAY_PAGE_SIZE = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+
+function isSecretEventType(value: unknown): value is SecretEventType {
+  return SECRET_EVENT_TYPES.includes(value as SecretEventType);
+}
+
+
+/**
+ * The event a row records, or null for a type this version does not know,
+ * which is left out of streams and webhooks
+ */
+function toEvent(row: SecretEventRow, environment: string): SecretEvent | null {
+  const { type } = row;
+  if (!isSecretEventType(type)) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    type,
+    projectId: row.projectId,
+    environmentId: row.environmentId,
+    environment,
+    secretId: row.secretId,
+    key: row.key,
+    version: row.version,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+
+function matches(event: SecretEvent, filter: SecretEventFilter): boolean {
+  return event.projectId === filter.projectId && (!filter.environmentId || event.environmentId === filter.environmentId);
+}
+
+
+/**
+ * Record secret changes, so streams can resume from them, queue them for the
+ * project's webhooks and announce them on the event bus. Called once the change is made: a failure here is logged
+ * rather than failing a request whose change already went through.
+ */
+export async function publishSecretEvents(changes: SecretChange[]): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  try {
+    const rows: SecretEventRow[] = await prisma.secretEvent.createManyAndReturn({ data: changes });
+    const environments: { id: string; name: string }[] = await prisma.environment.findMany({
+      where: { id: { in: [...new Set(changes.map((change) => change.environmentId))] } },
+      select: { id: true, name: true }
+    });
+    const names = new Map(environments.map(({ id, name }) => [id, name]));
+
+    const bus = getEventBus();
+    for (const row of rows.sort((a, b) => a.id - b.id)) {
+      const event = toEvent(row, names.get(row.environmentId) ?? '');
+      if (!event) {
+        continue;
+      }
+      await queueWebhookDeliveries(event.projectId, `secret.${event.type}`, event);
+      await bus.publish(event);
+    }
+  } catch (error) {
+    console.error('Publish secret events error:', error);
+  }
+}
+
+
+/**
+ * Recorded events after `afterId`, oldest first, for a stream resuming with
+ * Last-Event-ID. Only events within the retention period are still there.
+ */
+export async function listSecretEvents(filter: SecretEventFilter, afterId: number): Promise<SecretEvent[]> {
+  const events: SecretEvent[] = [];
+
+  for (let after = afterId; ;) {
+    const rows: (SecretEventRow & { environment: { name: string } })[] = await prisma.secretEvent.findMany({
+      where: { ...filter, id: { gt: after } },
+      include: { environment: { select: { name: true } } },
+      orderBy: { id: 'asc' },
+      take: REPLAY_PAGE_SIZE
+    });
+    for (const row of rows) {
+      const event = toEvent(row, row.environment.name);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    if (rows.length < REPLAY_PAGE_SIZE) {
+      return events;
+    }
+    after = rows[rows.length - 1].id;
+  }
+}
+
+
+/**
+ * Receive the events matching the filter as they are published on any
+ * server; returns the function that ends the subscription
+ */
+export function subscribeSecretEvents(filter: SecretEventFilter, listener: (event: SecretEvent) => void): () => void {
+  return getEventBus().subscribe((event) => {
+    if (matches(event as SecretEvent, filter)) {
+      listener(event as SecretEvent);
+    }
+  });
+}
+
+
+/**
+ * Remove events older than the retention period; returns how many went
+ */
+export async function pruneSecretEvents(now = new Date()): Promise<number> {
+  const { count } = await prisma.secretEvent.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - config.events.retentionHours * HOUR_MS) } }
+  });
+  return count;
+}
@@ -0,0 +1,259 @@
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { getMailer } from '../../infrastructure/mail/mailer';
+import { accessibleProjectsWhere, projectUsersWhere } from './projectAccess';
+
+export const MAX_ROTATION_INTERVAL_DAYS = 3650;
+
+export type SecretDueStatus = 'expired' | 'expiring' | 'rotation_overdue' | 'rotation_due';
+
+export interface SecretSchedule {
+  expiresAt: Date | null;
+  rotationIntervalDays: number | null;
+  rotatedAt: Date;
+}
+
+export interface SecretDue {
+  status: SecretDueStatus;
+  dueAt: Date;
+}
+
+export interface ScheduleInput {
+  expiresAt?: Date | null;
+  rotationIntervalDays?: number | null;
+}
+
+export type ScheduleInputResult =
+  | { schedule: ScheduleInput; error?: undefined }
+  | { schedule?: undefined; error: string };
+
+export interface DueSecret extends SecretDue {
+  id: string;
+  key: string;
+  environment: string;
+  project: { id: string; name: string };
+  expiresAt: Date | null;
+  rotationDueAt: Date | null;
+}
+
+interface ScheduledSecret extends SecretSchedule {
+  id: string;
+  key: string;
+  remindedAt: Date | null;
+  environment: { name: string };
+  project: { id: string; name: string; organizationId: string; defaultRotationDays: number | null };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Secrets that can come due at all: with an expiry, or a rotation interval of their own or their project's.
+// Nothing in the trash comes due.
+const SCHEDULED_SECRETS_WHERE = {
+  deletedAt: null,
+  project: { deletedAt: null },
+  OR: [
+    { expiresAt: { not: null } },
+    { rotationIntervalDays: { not: null } },
+    { project: { defaultRotationDays: { not: null } } }
+  ]
+};
+
+const SCHEDULED_SECRET_SELECT = {
+  id: true,
+  key: true,
+  expiresAt: true,
+  rotationIntervalDays: true,
+  rotatedAt: true,
+  remindedAt: true,
+  environment: { select: { name: true } },
+  project: { select: { id: true, name: true, organizationId: true, defaultRotationDays: true } }
+};
+
+
+export function isValidRotationInterval(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_ROTATION_INTERVAL_DAYS;
+}
+
+
+/**
+ * Read `expiresAt` and `rotationIntervalDays` from a request body; either
+ * may be left out, or set to null to clear it
+ */
+export function parseScheduleInput(body: { expiresAt?: unknown; rotationIntervalDays?: unknown }): ScheduleInputResult {
+  const schedule: ScheduleInput = {};
+
+  if (body.expiresAt === null) {
+    schedule.expiresAt = null;
+  } else if (body.expiresAt !== undefined) {
+    const expiresAt = new Date(String(body.expiresAt));
+    if (typeof body.expiresAt !== 'string' || isNaN(expiresAt.getTime())) {
+      return { error: 'expiresAt must be a date-time or null' };
+    }
+    schedule.expiresAt = expiresAt;
+  }
+
+  if (body.rotationIntervalDays !== undefined) {
+    if (body.rotationIntervalDays !== null && !isValidRotationInterval(body.rotationIntervalDays)) {
+      return { error: `rotationIntervalDays must be an integer between 1 and ${MAX_ROTATION_INTERVAL_DAYS} or null` };
+    }
+    schedule.rotationIntervalDays = body.rotationIntervalDays as number | null;
+  }
+
+  return { schedule };
+}
+
+
+export function isSecretExpired(secret: { expiresAt?: Date | null }, now = new Date()): boolean {
+  return Boolean(secret.expiresAt && secret.expiresAt <= now);
+}
+
+
+export function rotationDueAt(secret: SecretSchedule, project: { defaultRotationDays: number | null }): Date | null {
+  const interval = secret.rotationIntervalDays ?? project.defaultRotationDays;
+  return interval ? new Date(secret.rotatedAt.getTime() + interval * DAY_MS) : null;
+}
+
+
+/**
+ * Whether a secret has expired or missed its rotation, or will within
+ * `withinDays`; the earlier of the two counts. null when neither is near.
+ */
+export function secretDue(
+  secret: SecretSchedule,
+  project: { defaultRotationDays: number | null },
+  withinDays: number,
+  now = new Date(),
+): SecretDue | null {
+  const horizon = now.getTime() + withinDays * DAY_MS;
+  const candidates: SecretDue[] = [];
+
+  if (secret.expiresAt) {
+    candidates.push({ status: secret.expiresAt <= now ? 'expired' : 'expiring', dueAt: secret.expiresAt });
+  }
+
+  const rotationDue = rotationDueAt(secret, project);
+  if (rotationDue) {
+    candidates.push({ status: rotationDue <= now ? 'rotation_overdue' : 'rotation_due', dueAt: rotationDue });
+  }
+
+  const [first] = candidates
+    .filter(({ dueAt }) => dueAt.getTime() <= horizon)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  return first ?? null;
+}
+
+
+async function findScheduledSecrets(
+  where: object,
+  withinDays: number,
+  now: Date,
+): Promise<{ secret: ScheduledSecret; due: SecretDue }[]> {
+  const secrets: ScheduledSecret[] = await prisma.secret.findMany({
+    where: { AND: [where, SCHEDULED_SECRETS_WHERE] },
+    select: SCHEDULED_SECRET_SELECT
+  });
+
+  return secrets
+    .map((secret) => ({ secret, due: secretDue(secret, secret.project, withinDays, now) }))
+    .filter((entry): entry is { secret: ScheduledSecret; due: SecretDue } => entry.due !== null)
+    .sort((a, b) => a.due.dueAt.getTime() - b.due.dueAt.getTime());
+}
+
+
+/**
+ * Secrets across the user's projects that have expired or missed their
+ * rotation, or will within `withinDays`, soonest first
+ */
+export async function listDueSecrets(userId: string, withinDays: number, now = new Date()): Promise<DueSecret[]> {
+  const entries = await findScheduledSecrets({ project: accessibleProjectsWhere(userId) }, withinDays, now);
+
+  return entries.map(({ secret, due }) => ({
+    id: secret.id,
+    key: secret.key,
+    environment: secret.environment.name,
+    project: { id: secret.project.id, name: secret.project.name },
+    expiresAt: secret.expiresAt,
+    rotationDueAt: rotationDueAt(secret, secret.project),
+    ...due
+  }));
+}
+
+
+function describeDue({ status, dueAt }: SecretDue): string {
+  const date = dueAt.toISOString().slice(0, 10);
+  switch (status) {
+    case 'expired':
+      return `expired on ${date}`;
+    case 'expiring':
+      return `expires on ${date}`;
+    case 'rotation_overdue':
+      return `was due for rotation on ${date}`;
+    default:
+      return `is due for rotation on ${date}`;
+  }
+}
+
+
+async function sendReminderEmail(
+  recipient: { email: string; name: string | null },
+  project: { id: string; name: string },
+  entries: { secret: ScheduledSecret; due: SecretDue }[],
+): Promise<void> {
+  await getMailer().send({
+    to: recipient.email,
+    subject: `Secrets in ${project.name} need rotating`,
+    text: [
+      recipient.name ? `Hi ${recipient.name},` : 'Hi,',
+      '',
+      `These secrets in the project "${project.name}" need attention:`,
+      '',
+      ...entries.map(({ secret, due }) => `- ${secret.key} (${secret.environment.name}) ${describeDue(due)}`),
+      '',
+      'Writing a new value rotates a secret and restarts its schedule:',
+      `${config.mail.appUrl}/projects/${project.id}`
+    ].join('\n')
+  });
+}
+
+
+/**
+ * Email the owners and admins of each project about secrets coming due. A
+ * secret is reminded once when it enters the reminder window and once more
+ * if it is still not dealt with when it falls due. Each reminder is claimed
+ * before it is sent, so servers running the schedule side by side do not
+ * send it twice. Returns the number of secrets reminded about.
+ */
+export async function sendSecretReminders(now = new Date()): Promise<number> {
+  const entries = (await findScheduledSecrets({}, config.secretReminders.dueSoonDays, now))
+    .filter(({ secret, due }) => !secret.remindedAt || (secret.remindedAt < due.dueAt && due.dueAt <= now));
+
+  const byProject = new Map<string, { secret: ScheduledSecret; due: SecretDue }[]>();
+  for (const entry of entries) {
+    const claimed = await prisma.secret.updateMany({
+      where: { id: entry.secret.id, remindedAt: entry.secret.remindedAt },
+      data: { remindedAt: now }
+    });
+    if (claimed.count === 1) {
+      byProject.set(entry.secret.project.id, [...(byProject.get(entry.secret.project.id) ?? []), entry]);
+    }
+  }
+
+  let reminded = 0;
+  for (const projectEntries of byProject.values()) {
+    const { project } = projectEntries[0].secret;
+    const recipients = await prisma.user.findMany({
+      where: projectUsersWhere(project, ['owner', 'admin']),
+      select: { email: true, name: true }
+    });
+
+    for (const recipient of recipients) {
+      try {
+        await sendReminderEmail(recipient, project, projectEntries);
+      } catch (error) {
+        console.error('Secret reminder email error:', error);
+      }
+    }
+    reminded += projectEntries.length;
+  }
+  return reminded;
+}
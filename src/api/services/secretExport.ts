@@ -0,0 +1,111 @@
+import { stringify as stringifyYaml } from 'yaml';
+
+export const EXPORT_FORMATS = ['dotenv', 'json', 'yaml', 'shell', 'k8s'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportOptions {
+  name: string; // Used as the Kubernetes Secret name
+}
+
+export type ExportResult =
+  | { content: string; contentType: string; extension: string; error?: undefined }
+  | { content?: undefined; error: string };
+
+const KEY_PATTERNS: Partial<Record<ExportFormat, RegExp>> = {
+  dotenv: /^[\w.-]+$/,
+  shell: /^[A-Za-z_][A-Za-z0-9_]*$/,
+  k8s: /^[-._a-zA-Z0-9]+$/,
+};
+
+const KUBERNETES_NAME_PATTERN = /^[a-z0-9]([-a-z0-9.]{0,251}[a-z0-9])?$/;
+
+
+/**
+ * Quote a dotenv value so dotenv reads it back unchanged: single quotes and
+ * backticks are taken literally, double quotes expand \n and \r
+ */
+function quoteDotenv(value: string): string | null {
+  if (!value.includes('\'')) {
+    return `'${value}'`;
+  }
+  if (!value.includes('`')) {
+    return `\`${value}\``;
+  }
+  if (!value.includes('"') && !/\\[nr]/.test(value)) {
+    return `"${value}"`;
+  }
+  return null;
+}
+
+
+function quoteShell(value: string): string {
+  return `'${value.replace(/'/g, '\'\\\'\'')}'`;
+}
+
+
+/**
+ * Derive a valid Kubernetes object name from free text such as a project name
+ */
+export function toKubernetesName(text: string): string {
+  const name = text
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]+/g, '-')
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '')
+    .slice(0, 253)
+    .replace(/[^a-z0-9]+$/, '');
+  return name || 'secrets';
+}
+
+
+export function formatSecrets(
+  format: ExportFormat,
+  secrets: Record<string, string>,
+  options: ExportOptions,
+): ExportResult {
+  const keyPattern = KEY_PATTERNS[format];
+  const invalidKeys = keyPattern ? Object.keys(secrets).filter((key) => !keyPattern.test(key)) : [];
+  if (invalidKeys.length > 0) {
+    return { error: `Keys cannot be exported as ${format}: ${invalidKeys.join(', ')}` };
+  }
+
+  switch (format) {
+    case 'dotenv': {
+      const lines: string[] = [];
+      for (const [key, value] of Object.entries(secrets)) {
+        const quoted = quoteDotenv(value);
+        if (quoted === null) {
+          return { error: `Value of "${key}" cannot be represented in dotenv format` };
+        }
+        lines.push(`${key}=${quoted}`);
+      }
+      return { content: lines.map((line) => `${line}\n`).join(''), contentType: 'text/plain', extension: 'env' };
+    }
+    case 'json':
+      return { content: `${JSON.stringify(secrets, null, 2)}\n`, contentType: 'application/json', extension: 'json' };
+    case 'yaml':
+      return { content: stringifyYaml(secrets), contentType: 'application/yaml', extension: 'yaml' };
+    case 'shell':
+      return {
+        content: Object.entries(secrets).map(([key, value]) => `export ${key}=${quoteShell(value)}\n`).join(''),
+        contentType: 'text/plain',
+        extension: 'sh'
+      };
+    case 'k8s': {
+      if (!KUBERNETES_NAME_PATTERN.test(options.name)) {
+        return { error: 'Name must be a valid Kubernetes object name' };
+      }
+      const data: Record<string, string> = {};
+      for (const [key, value] of Object.entries(secrets)) {
+        data[key] = Buffer.from(value, 'utf8').toString('base64');
+      }
+      const manifest = {
+        apiVersion: 'v1',
+        kind: 'Secret',
+        metadata: { name: options.name },
+        type: 'Opaque',
+        data
+      };
+      return { content: stringifyYaml(manifest), contentType: 'application/yaml', extension: 'yaml' };
+    }
+  }
+}
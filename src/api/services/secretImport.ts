@@ -0,0 +1,51 @@
+import { parse as parseDotenv } from 'dotenv';
+import { parse as parseYaml } from 'yaml';
+
+export const IMPORT_FORMATS = ['dotenv', 'json', 'yaml'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const CONFLICT_POLICIES = ['skip', 'overwrite', 'fail'] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+export type ParseResult =
+  | { secrets: Record<string, string>; error?: undefined }
+  | { secrets?: undefined; error: string };
+
+
+/**
+ * JSON and YAML imports must be a flat mapping of keys to scalar values;
+ * numbers and booleans are kept as their string form
+ */
+function flattenDocument(document: unknown): ParseResult {
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    return { error: 'Import must be a flat object of keys and values' };
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const [key, value] of Object.entries(document)) {
+    if (typeof value === 'string') {
+      secrets[key] = value;
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      secrets[key] = String(value);
+    } else {
+      return { error: `Value of "${key}" must be a string, number or boolean` };
+    }
+  }
+  return { secrets };
+}
+
+
+export function parseSecretFile(format: ImportFormat, content: string): ParseResult {
+  if (format === 'dotenv') {
+    // dotenv handles quoting, multiline values, comments and "export" prefixes
+    return { secrets: parseDotenv(content) };
+  }
+
+  let document: unknown;
+  try {
+    document = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return { error: `Content is not valid ${format.toUpperCase()}` };
+  }
+  return flattenDocument(document);
+}
@@ -0,0 +1,118 @@
+export interface SecretLocation {
+  projectId: string;
+  environmentId: string;
+}
+
+/**
+ * A secret named in a reference. Without a project it is in the project of
+ * the referring secret, without an environment also in its environment.
+ */
+export interface ReferenceTarget {
+  projectId: string;
+  environment: string | null;
+  key: string;
+}
+
+export type LoadedReference =
+  | { location: SecretLocation; value: string; error?: undefined }
+  | { location?: undefined; value?: undefined; error: string };
+
+// The raw value of a referenced secret and where it lives, why the caller may not read it, or null when there is no such secret
+export type ReferenceLoader = (from: SecretLocation, target: ReferenceTarget) => Promise<LoadedReference | null>;
+
+// ${KEY}, ${environment/KEY} or ${projectId/environment/KEY}; $${ escapes a literal ${
+const REFERENCE_PATTERN = /\$\$\{|\$\{([^}]*)\}/g;
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const MAX_DEPTH = 10;
+
+export class SecretReferenceError extends Error {
+  constructor(message: string, readonly reference: string) {
+    super(message);
+    this.name = 'SecretReferenceError';
+  }
+}
+
+
+function parseReference(reference: string, from: SecretLocation): ReferenceTarget | null {
+  const parts = reference.split('/');
+  if (parts.length > 3 || parts.some((part) => part.length === 0)) {
+    return null;
+  }
+
+  const key = parts[parts.length - 1];
+  if (!KEY_PATTERN.test(key)) {
+    return null;
+  }
+  return {
+    projectId: parts.length === 3 ? parts[0] : from.projectId,
+    environment: parts.length >= 2 ? parts[parts.length - 2] : null,
+    key
+  };
+}
+
+
+/**
+ * The references a value makes, as written between `${` and `}`
+ */
+export function findReferences(value: string): string[] {
+  return [...value.matchAll(REFERENCE_PATTERN)]
+    .filter(([match]) => match !== '$${')
+    .map(([, reference]) => reference);
+}
+
+
+/**
+ * Identifier of a secret on the trail given to resolveSecretValue
+ */
+export function referenceId(location: SecretLocation, key: string): string {
+  return `${location.projectId}/${location.environmentId}/${key}`;
+}
+
+
+/**
+ * Replace the references in a secret value with the values they name,
+ * resolving references in those values in turn. Throws a
+ * SecretReferenceError for references that are malformed, name a secret that
+ * does not exist or the caller may not read, lead back to a secret being
+ * resolved or nest too deep.
+ */
+export async function resolveSecretValue(
+  value: string,
+  location: SecretLocation,
+  load: ReferenceLoader,
+  // referenceIds of the secrets being resolved, starting with the one read
+  trail: string[] = [],
+): Promise<string> {
+  const references = findReferences(value);
+  if (references.length === 0) {
+    return value.split('$${').join('${');
+  }
+
+  const resolved = new Map<string, string>();
+  for (const reference of new Set(references)) {
+    const target = parseReference(reference, location);
+    if (!target) {
+      throw new SecretReferenceError(`Invalid secret reference \${${reference}}`, reference);
+    }
+
+    const found = await load(location, target);
+    if (!found) {
+      throw new SecretReferenceError(`Secret reference \${${reference}} does not name an existing secret`, reference);
+    }
+    if (found.error !== undefined) {
+      throw new SecretReferenceError(`Secret reference \${${reference}} cannot be read: ${found.error}`, reference);
+    }
+
+    const id = referenceId(found.location, target.key);
+    if (trail.includes(id)) {
+      throw new SecretReferenceError(`Secret reference \${${reference}} leads back to a secret it is used in`, reference);
+    }
+    if (trail.length >= MAX_DEPTH) {
+      throw new SecretReferenceError(`Secret reference \${${reference}} nests more than ${MAX_DEPTH} levels deep`, reference);
+    }
+
+    resolved.set(reference, await resolveSecretValue(found.value, found.location, load, [...trail, id]));
+  }
+
+  return value.replace(REFERENCE_PATTERN, (match, reference) => (match === '$${' ? '${' : resolved.get(reference) as string));
+}
@@ -0,0 +1,33 @@
+import { createHash, randomBytes } from 'crypto';
+
+export const SERVICE_TOKEN_PREFIX = 'ks_';
+
+export const SERVICE_TOKEN_PERMISSIONS = ['read', 'write'] as const;
+export type ServiceTokenPermission = typeof SERVICE_TOKEN_PERMISSIONS[number];
+
+export interface GeneratedServiceToken {
+  token: string;
+  tokenHash: string;
+  displayPrefix: string;
+}
+
+/**
+ * Service tokens are high-entropy random strings, so a plain SHA-256 digest
+ * is enough to store them; only the digest is ever persisted.
+ */
+export function hashServiceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isServiceTokenPermission(value: unknown): value is ServiceTokenPermission {
+  return SERVICE_TOKEN_PERMISSIONS.includes(value as ServiceTokenPermission);
+}
+
+export function generateServiceToken(): GeneratedServiceToken {
+  const token = `${SERVICE_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashServiceToken(token),
+    displayPrefix: token.slice(0, SERVICE_TOKEN_PREFIX.length + 6)
+  };
+}
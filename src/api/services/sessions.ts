@@ -0,0 +1,183 @@
+import { createHash, randomBytes } from 'crypto';
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { durationSeconds } from '../../infrastructure/crypto/jws';
+import { signJwt, verifyJwt } from '../../infrastructure/crypto/signingKeys';
+
+export type SessionRevocationReason = 'logout' | 'revoked' | 'reuse' | 'password_reset' | 'password_change';
+
+export interface SessionClient {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  token: string;
+  refreshToken: string;
+}
+
+export interface AccessTokenClaims {
+  userId: string;
+  email: string;
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { tokens: SessionTokens; error?: undefined }
+  | { tokens?: undefined; status: number; error: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+
+function generateRefreshToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+
+function signAccessToken(user: { id: string; email: string }, sessionId: string): Promise<string> {
+  return signJwt(
+    { userId: user.id, email: user.email, sessionId },
+    durationSeconds(config.jwt.expiresIn)
+  );
+}
+
+
+/**
+ * Claims of a valid access token; null for anything else, such as tokens
+ * without a session to check
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims | null> {
+  const claims = await verifyJwt(token);
+  if (
+    !claims ||
+    typeof claims.userId !== 'string' ||
+    typeof claims.email !== 'string' ||
+    typeof claims.sessionId !== 'string'
+  ) {
+    return null;
+  }
+  return { userId: claims.userId, email: claims.email, sessionId: claims.sessionId };
+}
+
+
+/**
+ * Where a login comes from, as recorded on its session
+ */
+export function sessionClient(req: Request): SessionClient {
+  const userAgent = req.headers['user-agent'];
+  return { ip: req.ip ?? null, userAgent: typeof userAgent === 'string' ? userAgent : null };
+}
+
+
+/**
+ * Start a login session: a short-lived access token bound to the session and
+ * the first refresh token of its rotation chain. Logins that passed a second
+ * factor start out freshly verified.
+ */
+export async function createSession(
+  user: { id: string; email: string },
+  client: SessionClient,
+  options: { mfaVerified?: boolean } = {},
+): Promise<SessionTokens> {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      ip: client.ip ?? null,
+      userAgent: client.userAgent ?? null,
+      mfaVerifiedAt: options.mfaVerified ? new Date() : null,
+      expiresAt: new Date(Date.now() + config.jwt.refreshTokenTtlDays * DAY_MS),
+      refreshTokens: { create: { tokenHash: hashRefreshToken(refreshToken) } }
+    }
+  });
+
+  return { sessionId: session.id, token: await signAccessToken(user, session.id), refreshToken };
+}
+
+
+/**
+ * Trade a refresh token for a new access and refresh token. Each refresh
+ * token works once; presenting a used one means it was copied, so the whole
+ * session is revoked for the legitimate holder and the thief alike.
+ */
+export async function rotateRefreshToken(refreshToken: string, client: SessionClient): Promise<RefreshResult> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    include: { session: { include: { user: { select: { id: true, email: true } } } } }
+  });
+
+  if (!stored) {
+    return { status: 401, error: 'Invalid refresh token' };
+  }
+
+  const { session } = stored;
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    return { status: 401, error: 'Session has expired or been revoked' };
+  }
+
+  const nextToken = generateRefreshToken();
+  const rotated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: { sessionId: session.id, tokenHash: hashRefreshToken(nextToken) }
+    });
+    await tx.session.update({
+      where: { id: session.id },
+      data: { lastUsedAt: new Date(), ip: client.ip ?? null, userAgent: client.userAgent ?? null }
+    });
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSessions({ id: session.id }, 'reuse');
+    return { status: 401, error: 'Refresh token reuse detected; the session has been revoked' };
+  }
+
+  return {
+    tokens: {
+      sessionId: session.id,
+      token: await signAccessToken(session.user, session.id),
+      refreshToken: nextToken
+    }
+  };
+}
+
+
+/**
+ * Revoke the active sessions matching the filter; returns how many were revoked
+ */
+export async function revokeSessions(
+  where: { id?: string | { not: string }; userId?: string },
+  reason: SessionRevocationReason,
+): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { ...where, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+  return result.count;
+}
+
+
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true }
+  });
+  return Boolean(session && !session.revokedAt && session.expiresAt > new Date());
+}
@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+
+export interface PurgeSummary {
+  projects: number;
+  secrets: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+/**
+ * When an item moved to the trash at `deletedAt` is purged for good
+ */
+export function purgeAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + config.trash.retentionDays * DAY_MS);
+}
+
+
+/**
+ * Remove a project for good. Its data key goes first, so whatever copies of
+ * the encrypted values outlive the delete, such as backups, can no longer be
+ * decrypted; the rest of the project follows through the cascade.
+ */
+export async function purgeProject(projectId: string): Promise<void> {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.projectKey.deleteMany({ where: { projectId } });
+    await tx.project.delete({ where: { id: projectId } });
+  });
+}
+
+
+/**
+ * Remove a secret and its versions for good. Secrets share their project's
+ * data key, so unlike projects they are deleted rather than crypto-shredded.
+ */
+export async function purgeSecret(secretId: string): Promise<void> {
+  await prisma.secret.delete({ where: { id: secretId } });
+}
+
+
+/**
+ * Purge the projects and secrets that have been in the trash longer than the
+ * retention period. Secrets of a purged project go with it.
+ */
+export async function purgeExpiredTrash(now = new Date()): Promise<PurgeSummary> {
+  const cutoff = new Date(now.getTime() - config.trash.retentionDays * DAY_MS);
+
+  const projects = await prisma.project.findMany({
+    where: { deletedAt: { lte: cutoff } },
+    select: { id: true }
+  });
+  for (const { id } of projects) {
+    await purgeProject(id);
+  }
+
+  const secrets = await prisma.secret.deleteMany({
+    where: { deletedAt: { lte: cutoff } }
+  });
+
+  return { projects: projects.length, secrets: secrets.count };
+}
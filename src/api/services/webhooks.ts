@@ -0,0 +1,364 @@
+import { createHmac, randomBytes } from 'crypto';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, LookupFunction } from 'net';
+import prisma from '../../infrastructure/db/prisma';
+import config from '../../infrastructure/config';
+import { decryptForProject } from '../../infrastructure/crypto/projectKeys';
+
+export const WEBHOOK_EVENTS = [
+  'secret.created',
+  'secret.updated',
+  'secret.deleted',
+  'project.updated',
+  'member.added'
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 500;
+
+export interface WebhookInput {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string | null;
+  active?: boolean;
+}
+
+export type WebhookInputResult =
+  | { webhook: WebhookInput; error?: undefined }
+  | { webhook?: undefined; error: string };
+
+interface DueDelivery {
+  id: string;
+  event: string;
+  payload: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  webhook: { url: string; secret: string; projectId: string };
+}
+
+interface AttemptResult {
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// The addresses are null for hosts allowed to be private, which resolve as usual
+type WebhookTargetResult =
+  | { addresses: LookupAddress[] | null; error?: undefined }
+  | { addresses?: undefined; error: string };
+
+const SECRET_PREFIX = 'whsec_';
+const MAX_URL_LENGTH = 2000;
+const MAX_ERROR_LENGTH = 500;
+const DELIVERY_BATCH_SIZE = 50;
+// Extra time a claimed delivery stays with its server beyond the request timeout
+const CLAIM_MARGIN_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Loopback, link-local, private, shared, multicast and reserved ranges;
+// IPv4 addresses mapped into IPv6 are matched against the IPv4 ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+
+// Plain http only where WEBHOOK_ALLOW_HTTP lets it, by default in development
+function isWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || (config.webhooks.allowHttp && url.protocol === 'http:')) && Boolean(url.host);
+  } catch (error) {
+    return false;
+  }
+}
+
+
+// Unless the host is in WEBHOOK_ALLOWED_PRIVATE_HOSTS, every address it resolves to has to be public
+async function resolveWebhookTarget(value: string): Promise<WebhookTargetResult> {
+  const host = new URL(value).hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (config.webhooks.allowedPrivateHosts.includes(host)) {
+    return { addresses: null };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch (error) {
+    return { error: `url host ${host} could not be resolved` };
+  }
+
+  const blocked = addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  if (addresses.length === 0 || blocked) {
+    return { error: 'url must not point at a loopback, link-local or private address' };
+  }
+  return { addresses };
+}
+
+
+/**
+ * Why deliveries to the URL are refused, or null when they can go out, so
+ * webhooks cannot reach the server itself or the network it runs in.
+ * Checked when a webhook is saved and again before every attempt, as DNS
+ * answers change.
+ */
+export async function checkWebhookTarget(value: string): Promise<string | null> {
+  return (await resolveWebhookTarget(value)).error ?? null;
+}
+
+
+// Hands the connection the addresses that were checked instead of asking DNS
+// again, which could answer differently by then
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+}
+
+
+/**
+ * POST the body to the URL and resolve with the response status; redirects
+ * are not followed and the response body is discarded
+ */
+function postWebhook(
+  url: string,
+  addresses: LookupAddress[] | null,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: addresses ? pinnedLookup(addresses) : undefined,
+      signal: AbortSignal.timeout(config.webhooks.timeoutSeconds * 1000)
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+
+/**
+ * Read `url`, `events`, `description` and `active` from a request body.
+ * Fields left out stay as they are; description clears with null. Events
+ * are deduplicated.
+ */
+export function parseWebhookInput(body: {
+  url?: unknown;
+  events?: unknown;
+  description?: unknown;
+  active?: unknown;
+}): WebhookInputResult {
+  const webhook: WebhookInput = {};
+
+  if (body.url !== undefined) {
+    if (typeof body.url !== 'string' || body.url.length > MAX_URL_LENGTH || !isWebhookUrl(body.url.trim())) {
+      return { error: config.webhooks.allowHttp ? 'url must be an http or https URL' : 'url must be an https URL' };
+    }
+    webhook.url = body.url.trim();
+  }
+
+  if (body.events !== undefined) {
+    if (!Array.isArray(body.events) || body.events.length === 0 || !body.events.every(isWebhookEvent)) {
+      return { error: `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+    webhook.events = [...new Set(body.events as WebhookEvent[])];
+  }
+
+  if (body.description !== undefined) {
+    if (
+      body.description !== null &&
+      (typeof body.description !== 'string' || body.description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH)
+    ) {
+      return { error: `description must be a string of at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters or null` };
+    }
+    webhook.description = body.description === null ? null : body.description.trim() || null;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      return { error: 'active must be a boolean' };
+    }
+    webhook.active = body.active;
+  }
+
+  return { webhook };
+}
+
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+
+/**
+ * Value of the X-Keep-Safe-Signature header: an HMAC-SHA256 of the
+ * timestamp and the body, so receivers can also turn away old deliveries
+ * replayed to them
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+
+/**
+ * Wait before the next attempt after `attempts` failed ones: the base delay,
+ * doubled for every retry already made
+ */
+export function retryDelayMs(attempts: number): number {
+  return config.webhooks.retryBaseSeconds * 1000 * 2 ** (attempts - 1);
+}
+
+
+/**
+ * Queue a delivery of the event to every active webhook of the project
+ * subscribed to it. `data` goes out as it is, so callers never pass secret
+ * values. Failures are logged rather than failing the change behind the
+ * event.
+ */
+export async function queueWebhookDeliveries(projectId: string, event: WebhookEvent, data: object): Promise<void> {
+  try {
+    const webhooks: { id: string }[] = await prisma.webhook.findMany({
+      where: { projectId, active: true, events: { has: event } },
+      select: { id: true }
+    });
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({ event, projectId, occurredAt: new Date().toISOString(), data });
+    await prisma.webhookDelivery.createMany({
+      data: webhooks.map(({ id }) => ({ webhookId: id, event, payload }))
+    });
+  } catch (error) {
+    console.error('Queue webhook deliveries error:', error);
+  }
+}
+
+
+// Redirects are not followed: the endpoint has to answer itself
+async function attemptDelivery(delivery: DueDelivery): Promise<AttemptResult> {
+  try {
+    const target = await resolveWebhookTarget(delivery.webhook.url);
+    if (target.error !== undefined) {
+      return { responseStatus: null, error: target.error };
+    }
+
+    const secret = await decryptForProject(delivery.webhook.projectId, delivery.webhook.secret);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const status = await postWebhook(delivery.webhook.url, target.addresses, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'keep-safe-webhooks',
+      'X-Keep-Safe-Event': delivery.event,
+      'X-Keep-Safe-Delivery': delivery.id,
+      'X-Keep-Safe-Timestamp': String(timestamp),
+      'X-Keep-Safe-Signature': signWebhookPayload(secret, timestamp, delivery.payload)
+    }, delivery.payload);
+
+    return status >= 200 && status < 300
+      ? { responseStatus: status, error: null }
+      : { responseStatus: status, error: `Endpoint responded with status ${status}` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { responseStatus: null, error: message.slice(0, MAX_ERROR_LENGTH) };
+  }
+}
+
+
+/**
+ * Send the deliveries that are due to active webhooks. Each is claimed
+ * before it is sent, so servers running this side by side never send it
+ * twice; one claimed by a server that went away is retried once the claim
+ * runs out. Returns how many were delivered.
+ */
+export async function deliverDueWebhooks(now = new Date()): Promise<number> {
+  const due: DueDelivery[] = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now }, webhook: { active: true } },
+    select: {
+      id: true,
+      event: true,
+      payload: true,
+      attempts: true,
+      nextAttemptAt: true,
+      webhook: { select: { url: true, secret: true, projectId: true } }
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: DELIVERY_BATCH_SIZE
+  });
+
+  let delivered = 0;
+  for (const delivery of due) {
+    // Only scheduled deliveries are due; the claim needs the time to compare
+    if (delivery.nextAttemptAt === null) {
+      continue;
+    }
+
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + config.webhooks.timeoutSeconds * 1000 + CLAIM_MARGIN_MS) }
+    });
+    if (claimed.count !== 1) {
+      continue;
+    }
+
+    const { responseStatus, error } = await attemptDelivery(delivery);
+    const attempts = delivery.attempts + 1;
+
+    let status = 'pending';
+    let nextAttemptAt: Date | null = new Date(Date.now() + retryDelayMs(attempts));
+    if (!error) {
+      status = 'succeeded';
+      nextAttemptAt = null;
+      delivered++;
+    } else if (attempts >= config.webhooks.maxAttempts) {
+      status = 'failed';
+      nextAttemptAt = null;
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status, attempts, nextAttemptAt, lastAttemptAt: new Date(), responseStatus, error }
+    });
+  }
+  return delivered;
+}
+
+
+/**
+ * Remove finished deliveries older than the log retention period; returns
+ * how many went
+ */
+export async function pruneWebhookDeliveries(now = new Date()): Promise<number> {
+  const { count } = await prisma.webhookDelivery.deleteMany({
+    where: {
+      status: { not: 'pending' },
+      createdAt: { lt: new Date(now.getTime() - config.webhooks.logRetentionDays * DAY_MS) }
+    }
+  });
+  return count;
+}
@@ -1,5 +1,6 @@
 import express, { Application, Router } from 'express';
 import routes from './api/routes';
+import wellKnownRoutes from './api/routes/wellKnown.routes';
 import { setupSwagger } from './docs/swagger';
 
 const router = Router();
@@ -14,6 +15,7 @@ export const createServer = (): Application => {
     });
 
     app.use('/', router);
+    app.use('/', wellKnownRoutes);
     app.use('/api', routes);
 
     setupSwagger(app);
@@ -21,6 +21,7 @@ const options: swaggerJSDoc.Options = {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'JWT',
+          description: 'A user JWT from /auth/login, or a project service token (ks_...) on the secret routes',
         },
       },
     },
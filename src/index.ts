@@ -1,6 +1,12 @@
 import { config as dotenvConfig } from 'dotenv';
 import { createServer } from './app';
 import { config } from './infrastructure/config';
+import { scheduleJob } from './infrastructure/scheduler';
+import { sendSecretReminders } from './api/services/secretExpiry';
+import { purgeExpiredTrash } from './api/services/trash';
+import { pruneSecretEvents } from './api/services/secretEvents';
+import { deliverDueWebhooks, pruneWebhookDeliveries } from './api/services/webhooks';
+import { watchSigningKeys } from './infrastructure/crypto/signingKeys';
 
 // Load environment variables
 dotenvConfig();
@@ -11,3 +17,23 @@ app.listen(config.server.port, () => {
     console.log(`Server running at http://localhost:${config.server.port}`);
     console.log(`Swagger docs available at http://localhost:${config.server.port}/docs`);
 });
+
+// Rotations announced by other servers or the rotation script clear the cached signing keys
+watchSigningKeys();
+
+if (config.secretReminders.intervalMinutes > 0) {
+    scheduleJob('Secret reminders', config.secretReminders.intervalMinutes * 60 * 1000, sendSecretReminders);
+}
+
+if (config.trash.purgeIntervalMinutes > 0) {
+    scheduleJob('Trash purge', config.trash.purgeIntervalMinutes * 60 * 1000, purgeExpiredTrash);
+}
+
+// Events only have to outlive the gap a stream needs to reconnect, so hourly pruning keeps up
+scheduleJob('Secret event pruning', 60 * 60 * 1000, pruneSecretEvents);
+
+if (config.webhooks.deliveryIntervalSeconds > 0) {
+    scheduleJob('Webhook delivery', config.webhooks.deliveryIntervalSeconds * 1000, deliverDueWebhooks);
+}
+
+scheduleJob('Webhook log pruning', 60 * 60 * 1000, pruneWebhookDeliveries);
@@ -9,9 +9,125 @@ interface Config {
     jwt: {
         secret: string;
         expiresIn: string;
+        refreshTokenTtlDays: number;
+        algorithm: JwtAlgorithm;
+        issuer: string;
+        audience: string;
+        // Days a signing key signs access tokens before the next one takes over
+        keyRotationDays: number;
+        // Hours a key is published before it starts signing, and after it stops
+        keyOverlapHours: number;
+    };
+    mfa: {
+        issuer: string;
+        freshnessMinutes: number;
+    };
+    passwordPolicy: {
+        minLength: number;
+        checkBreached: boolean;
+        breachedListFile: string;
+    };
+    authThrottle: {
+        accountMaxFailures: number;
+        ipMaxFailures: number;
+        lockoutMinutes: number;
+    };
+    secretReminders: {
+        // How often due secrets are looked for; 0 turns reminders off
+        intervalMinutes: number;
+        // Days ahead of expiry or rotation that reminders go out
+        dueSoonDays: number;
+    };
+    trash: {
+        // Days deleted projects and secrets can be restored before they are purged
+        retentionDays: number;
+        // How often expired trash is purged; 0 turns purging off
+        purgeIntervalMinutes: number;
+    };
+    events: EventsConfig;
+    webhooks: {
+        // How often queued deliveries are sent; 0 turns delivery off
+        deliveryIntervalSeconds: number;
+        // Attempts before a delivery is given up
+        maxAttempts: number;
+        // Wait before the first retry; it doubles with every further one
+        retryBaseSeconds: number;
+        timeoutSeconds: number;
+        // Days the delivery log is kept
+        logRetentionDays: number;
+        // Whether plain http endpoints are accepted; by default only in development
+        allowHttp: boolean;
+        // Hosts that may resolve to loopback, link-local or private addresses
+        allowedPrivateHosts: string[];
+    };
+    encryption: EncryptionConfig;
+    mail: MailConfig;
+    oidc: OidcConfig;
+}
+
+export type JwtAlgorithm = 'RS256' | 'EdDSA';
+
+export type KeyProviderType = 'env' | 'file' | 'kms';
+
+export interface EncryptionConfig {
+    provider: KeyProviderType;
+    keyFile: string;
+    kms: {
+        url: string;
+        keyId: string;
+        token?: string;
+    };
+}
+
+export type EventBusType = 'memory' | 'postgres';
+
+export interface EventsConfig {
+    // memory only reaches streams on the same server; postgres fans out through LISTEN/NOTIFY
+    bus: EventBusType;
+    // Hours secret change events are kept for streams resuming with Last-Event-ID
+    retentionHours: number;
+    // Seconds between keep-alive comments on open streams
+    heartbeatSeconds: number;
+}
+
+export type MailTransport = 'smtp' | 'file' | 'memory';
+
+export interface MailConfig {
+    transport: MailTransport;
+    from: string;
+    appUrl: string;
+    outboxDir: string;
+    smtp: {
+        host: string;
+        port: number;
+        secure: boolean;
+        user?: string;
+        password?: string;
     };
 }
 
+// Project roles an identity provider group can grant; ownership is never handed out this way
+const OIDC_GROUP_ROLES = ['admin', 'writer', 'reader', 'metadata'];
+
+export interface OidcGroupRole {
+    group: string;
+    projectId: string;
+    role: string;
+}
+
+export interface OidcConfig {
+    // Empty when single sign-on is off
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    redirectUri: string;
+    scopes: string;
+    // Email domains that have to sign in through the identity provider
+    enforcedDomains: string[];
+    groupsClaim: string;
+    groupRoles: OidcGroupRole[];
+}
+
 function getRequiredEnvVar(name: string): string {
     const value = process.env[name];
     if (!value) {
@@ -35,18 +151,183 @@ function getOptionalNumberEnvVar(name: string, defaultValue: number): number {
     return parsed;
 }
 
+function getJwtAlgorithm(): JwtAlgorithm {
+    const value = getOptionalEnvVar('JWT_ALGORITHM', 'RS256');
+    if (value !== 'RS256' && value !== 'EdDSA') {
+        throw new Error(`Invalid environment variable JWT_ALGORITHM: must be one of RS256, EdDSA`);
+    }
+    return value;
+}
+
+function getKeyProviderType(): KeyProviderType {
+    const value = getOptionalEnvVar('KEY_PROVIDER', 'env');
+    if (value !== 'env' && value !== 'file' && value !== 'kms') {
+        throw new Error(`Invalid environment variable KEY_PROVIDER: must be one of env, file, kms`);
+    }
+    return value;
+}
+
+function getEncryptionConfig(nodeEnv: string): EncryptionConfig {
+    const provider = getKeyProviderType();
+
+    if (
+        provider === 'env' &&
+        nodeEnv === 'production' &&
+        !process.env.ENCRYPTION_KEY &&
+        !process.env.ENCRYPTION_KEYS
+    ) {
+        throw new Error(
+            'Refusing to start in production with the development encryption key: set ENCRYPTION_KEY or ENCRYPTION_KEYS',
+        );
+    }
+
+    return {
+        provider,
+        keyFile: provider === 'file' ? getRequiredEnvVar('ENCRYPTION_KEY_FILE') : getOptionalEnvVar('ENCRYPTION_KEY_FILE', ''),
+        kms: {
+            url: provider === 'kms' ? getRequiredEnvVar('KMS_URL') : getOptionalEnvVar('KMS_URL', ''),
+            keyId: provider === 'kms' ? getRequiredEnvVar('KMS_KEY_ID') : getOptionalEnvVar('KMS_KEY_ID', ''),
+            token: process.env.KMS_TOKEN,
+        },
+    };
+}
+
+function getEventBusType(): EventBusType {
+    const value = getOptionalEnvVar('EVENT_BUS', 'memory');
+    if (value !== 'memory' && value !== 'postgres') {
+        throw new Error(`Invalid environment variable EVENT_BUS: must be one of memory, postgres`);
+    }
+    return value;
+}
+
+function getMailTransport(): MailTransport {
+    const value = getOptionalEnvVar('MAIL_TRANSPORT', 'file');
+    if (value !== 'smtp' && value !== 'file' && value !== 'memory') {
+        throw new Error(`Invalid environment variable MAIL_TRANSPORT: must be one of smtp, file, memory`);
+    }
+    return value;
+}
+
+function getMailConfig(port: number): MailConfig {
+    const transport = getMailTransport();
+
+    return {
+        transport,
+        from: getOptionalEnvVar('MAIL_FROM', 'Keep Safe <no-reply@localhost>'),
+        appUrl: getOptionalEnvVar('APP_URL', `http://localhost:${port}`).replace(/\/+$/, ''),
+        outboxDir: getOptionalEnvVar('MAIL_OUTBOX_DIR', '.outbox'),
+        smtp: {
+            host: transport === 'smtp' ? getRequiredEnvVar('SMTP_HOST') : getOptionalEnvVar('SMTP_HOST', ''),
+            port: getOptionalNumberEnvVar('SMTP_PORT', 587),
+            secure: process.env.SMTP_SECURE === 'true',
+            user: process.env.SMTP_USER,
+            password: process.env.SMTP_PASSWORD,
+        },
+    };
+}
+
+function getList(name: string): string[] {
+    return getOptionalEnvVar(name, '')
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
+/**
+ * OIDC_GROUP_ROLES is a comma separated list of group:projectId:role
+ * entries; group names may contain colons themselves
+ */
+function getOidcGroupRoles(): OidcGroupRole[] {
+    return getList('OIDC_GROUP_ROLES').map((entry) => {
+        const parts = entry.split(':');
+        const role = parts.pop() ?? '';
+        const projectId = parts.pop() ?? '';
+        const group = parts.join(':');
+        if (!group || !projectId || !OIDC_GROUP_ROLES.includes(role)) {
+            throw new Error(
+                `Invalid environment variable OIDC_GROUP_ROLES: "${entry}" must be group:projectId:role with role one of ${OIDC_GROUP_ROLES.join(', ')}`,
+            );
+        }
+        return { group, projectId, role };
+    });
+}
+
+function getOidcConfig(port: number): OidcConfig {
+    // Kept exactly as given: it has to match the iss claim of ID tokens
+    const issuer = getOptionalEnvVar('OIDC_ISSUER', '');
+
+    return {
+        issuer,
+        clientId: issuer ? getRequiredEnvVar('OIDC_CLIENT_ID') : getOptionalEnvVar('OIDC_CLIENT_ID', ''),
+        clientSecret: process.env.OIDC_CLIENT_SECRET,
+        redirectUri: getOptionalEnvVar('OIDC_REDIRECT_URI', `http://localhost:${port}/api/auth/oidc/callback`),
+        scopes: getOptionalEnvVar('OIDC_SCOPES', 'openid email profile'),
+        enforcedDomains: getList('OIDC_ENFORCED_DOMAINS').map((domain) => domain.toLowerCase()),
+        groupsClaim: getOptionalEnvVar('OIDC_GROUPS_CLAIM', 'groups'),
+        groupRoles: getOidcGroupRoles(),
+    };
+}
+
+const nodeEnv = getOptionalEnvVar('NODE_ENV', 'development');
+const port = getOptionalNumberEnvVar('PORT', 3000);
+
 export const config: Config = {
     server: {
-        port: getOptionalNumberEnvVar('PORT', 3000),
-        nodeEnv: getOptionalEnvVar('NODE_ENV', 'development'),
+        port,
+        nodeEnv,
     },
     database: {
         url: getRequiredEnvVar('DATABASE_URL'),
     },
     jwt: {
         secret: getRequiredEnvVar('JWT_SECRET'),
-        expiresIn: getOptionalEnvVar('JWT_EXPIRES_IN', '24h'),
+        expiresIn: getOptionalEnvVar('JWT_EXPIRES_IN', '15m'),
+        refreshTokenTtlDays: getOptionalNumberEnvVar('REFRESH_TOKEN_TTL_DAYS', 30),
+        algorithm: getJwtAlgorithm(),
+        issuer: getOptionalEnvVar('JWT_ISSUER', `http://localhost:${port}`),
+        audience: getOptionalEnvVar('JWT_AUDIENCE', 'keep-safe-api'),
+        keyRotationDays: getOptionalNumberEnvVar('JWT_KEY_ROTATION_DAYS', 30),
+        keyOverlapHours: getOptionalNumberEnvVar('JWT_KEY_OVERLAP_HOURS', 24),
+    },
+    mfa: {
+        issuer: getOptionalEnvVar('MFA_ISSUER', 'Keep Safe'),
+        freshnessMinutes: getOptionalNumberEnvVar('MFA_FRESHNESS_MINUTES', 5),
+    },
+    passwordPolicy: {
+        minLength: getOptionalNumberEnvVar('PASSWORD_MIN_LENGTH', 8),
+        checkBreached: process.env.PASSWORD_CHECK_BREACHED !== 'false',
+        breachedListFile: getOptionalEnvVar('PASSWORD_BREACHED_LIST_FILE', ''),
+    },
+    authThrottle: {
+        accountMaxFailures: getOptionalNumberEnvVar('AUTH_MAX_FAILURES_PER_ACCOUNT', 10),
+        ipMaxFailures: getOptionalNumberEnvVar('AUTH_MAX_FAILURES_PER_IP', 100),
+        lockoutMinutes: getOptionalNumberEnvVar('AUTH_LOCKOUT_MINUTES', 15),
+    },
+    secretReminders: {
+        intervalMinutes: getOptionalNumberEnvVar('SECRET_REMINDER_INTERVAL_MINUTES', 60),
+        dueSoonDays: getOptionalNumberEnvVar('SECRET_REMINDER_DAYS', 7),
+    },
+    trash: {
+        retentionDays: getOptionalNumberEnvVar('TRASH_RETENTION_DAYS', 30),
+        purgeIntervalMinutes: getOptionalNumberEnvVar('TRASH_PURGE_INTERVAL_MINUTES', 60),
+    },
+    events: {
+        bus: getEventBusType(),
+        retentionHours: getOptionalNumberEnvVar('SECRET_EVENT_RETENTION_HOURS', 24),
+        heartbeatSeconds: getOptionalNumberEnvVar('EVENT_HEARTBEAT_SECONDS', 25),
+    },
+    webhooks: {
+        deliveryIntervalSeconds: getOptionalNumberEnvVar('WEBHOOK_DELIVERY_INTERVAL_SECONDS', 10),
+        maxAttempts: getOptionalNumberEnvVar('WEBHOOK_MAX_ATTEMPTS', 8),
+        retryBaseSeconds: getOptionalNumberEnvVar('WEBHOOK_RETRY_BASE_SECONDS', 30),
+        timeoutSeconds: getOptionalNumberEnvVar('WEBHOOK_TIMEOUT_SECONDS', 10),
+        logRetentionDays: getOptionalNumberEnvVar('WEBHOOK_LOG_RETENTION_DAYS', 30),
+        allowHttp: getOptionalEnvVar('WEBHOOK_ALLOW_HTTP', String(nodeEnv === 'development')) === 'true',
+        allowedPrivateHosts: getList('WEBHOOK_ALLOWED_PRIVATE_HOSTS').map((host) => host.toLowerCase()),
     },
+    encryption: getEncryptionConfig(nodeEnv),
+    mail: getMailConfig(port),
+    oidc: getOidcConfig(port),
 };
 
 
@@ -67,6 +67,24 @@ export class CryptoService {
     return randomBytes(32).toString('hex');
   }
 
+  /**
+   * Wrap a data key with a master key (envelope encryption)
+   * @param dataKey - The hex encoded data key to protect
+   * @param masterKey - The key-encryption key
+   * @returns EncryptedData object holding the wrapped data key
+   */
+  wrapKey(dataKey: string, masterKey: string): EncryptedData {
+    return this.encrypt(dataKey, masterKey);
+  }
+
+  unwrapKey(wrappedKey: EncryptedData, masterKey: string): string {
+    try {
+      return this.decrypt(wrappedKey, masterKey).value;
+    } catch (error) {
+      throw new Error('Failed to unwrap data key. The master key may be incorrect.');
+    }
+  }
+
   private normalizeKey(key: string): Buffer {
     if (key.length === 64 && /^[0-9a-fA-F]+$/.test(key)) {
       return Buffer.from(key, 'hex');
@@ -0,0 +1,90 @@
+import { KeyObject, sign, verify } from 'crypto';
+import { JwtAlgorithm } from '../config';
+
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+
+// Ed25519 hashes internally, so EdDSA takes no digest
+function digestFor(algorithm: JwtAlgorithm): string | null {
+  return algorithm === 'RS256' ? 'sha256' : null;
+}
+
+
+/**
+ * Seconds in a lifetime such as `900`, `15m`, `12h` or `30d`
+ */
+export function durationSeconds(value: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}": expected a number of seconds or a value like 15m, 12h or 30d`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's'];
+}
+
+
+/**
+ * Compact JWS of a JSON payload. jsonwebtoken cannot sign EdDSA, so both
+ * algorithms go through node's crypto directly.
+ */
+export function signJws(payload: object, key: KeyObject, algorithm: JwtAlgorithm, kid: string): string {
+  const signingInput = `${encodeSegment({ alg: algorithm, typ: 'JWT', kid })}.${encodeSegment(payload)}`;
+  const signature = sign(digestFor(algorithm), Buffer.from(signingInput), key);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+
+/**
+ * Split a compact JWS without checking its signature; null when it is not one
+ */
+export function decodeJws(token: string): DecodedJws | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const header = decodeSegment(parts[0]) as JwsHeader;
+    const payload = decodeSegment(parts[1]) as Record<string, unknown>;
+    if (!header || typeof header.alg !== 'string' || !payload || typeof payload !== 'object') {
+      return null;
+    }
+    return { header, payload, signingInput: `${parts[0]}.${parts[1]}`, signature: Buffer.from(parts[2], 'base64url') };
+  } catch (error) {
+    return null;
+  }
+}
+
+
+/**
+ * Check the signature of a decoded JWS. The algorithm comes from the key, so
+ * a token cannot pick a weaker one through its header.
+ */
+export function verifyJwsSignature(jws: DecodedJws, key: KeyObject, algorithm: JwtAlgorithm): boolean {
+  if (jws.header.alg !== algorithm) {
+    return false;
+  }
+  return verify(digestFor(algorithm), Buffer.from(jws.signingInput), key, jws.signature);
+}
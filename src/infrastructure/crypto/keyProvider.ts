@@ -0,0 +1,121 @@
+import config, { EncryptionConfig } from '../config';
+import { EncryptedData } from './crypto';
+import { loadKeyringFromEnv, loadKeyringFromFile, MasterKeyring, WrappedKey } from './keyring';
+
+export interface WrapResult {
+  keyId: string;
+  wrappedKey: string;
+}
+
+/**
+ * Source of master keys. Providers only ever see data keys: they wrap them
+ * for storage and unwrap them again when a project's secrets are accessed.
+ */
+export interface KeyProvider {
+  readonly name: string;
+  readonly activeKeyId: string;
+  wrapKey(dataKey: string): Promise<WrapResult>;
+  unwrapKey(wrappedKey: string, keyId: string): Promise<string>;
+  /**
+   * Decrypt a secret that was encrypted with a master key directly, before
+   * projects had data keys
+   */
+  decryptLegacy(payload: EncryptedData): Promise<string>;
+}
+
+/**
+ * Provider holding the master keys in process memory, loaded from the
+ * environment or from a keyfile on disk
+ */
+export class LocalKeyProvider implements KeyProvider {
+  constructor(
+    readonly name: string,
+    private readonly keyring: MasterKeyring,
+  ) {}
+
+  get activeKeyId(): string {
+    return this.keyring.activeKeyId;
+  }
+
+  async wrapKey(dataKey: string): Promise<WrapResult> {
+    const wrapped = this.keyring.wrap(dataKey);
+    return { keyId: wrapped.keyId as string, wrappedKey: JSON.stringify(wrapped) };
+  }
+
+  async unwrapKey(wrappedKey: string, keyId: string): Promise<string> {
+    const wrapped: WrappedKey = JSON.parse(wrappedKey);
+    return this.keyring.unwrap({ ...wrapped, keyId: wrapped.keyId || keyId });
+  }
+
+  async decryptLegacy(payload: EncryptedData): Promise<string> {
+    return this.keyring.decrypt(payload);
+  }
+}
+
+/**
+ * Provider delegating to a KMS over HTTP. Key material never leaves the KMS;
+ * it is asked to encrypt and decrypt data keys with the configured key.
+ */
+export class KmsKeyProvider implements KeyProvider {
+  readonly name = 'kms';
+
+  constructor(
+    private readonly url: string,
+    readonly activeKeyId: string,
+    private readonly token?: string,
+  ) {}
+
+  async wrapKey(dataKey: string): Promise<WrapResult> {
+    const result = await this.request(this.activeKeyId, 'encrypt', {
+      plaintext: Buffer.from(dataKey, 'utf8').toString('base64'),
+    });
+    return { keyId: result.keyId, wrappedKey: result.ciphertext };
+  }
+
+  async unwrapKey(wrappedKey: string, keyId: string): Promise<string> {
+    const result = await this.request(keyId, 'decrypt', { ciphertext: wrappedKey });
+    return Buffer.from(result.plaintext, 'base64').toString('utf8');
+  }
+
+  async decryptLegacy(): Promise<string> {
+    throw new Error('Secrets encrypted with ENCRYPTION_KEY must be migrated with the env key provider before switching to KMS');
+  }
+
+  private async request(keyId: string, operation: 'encrypt' | 'decrypt', body: Record<string, string>) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(
+      `${this.url.replace(/\/$/, '')}/v1/keys/${encodeURIComponent(keyId)}/${operation}`,
+      { method: 'POST', headers, body: JSON.stringify(body) },
+    );
+
+    if (!response.ok) {
+      throw new Error(`KMS ${operation} failed with status ${response.status}`);
+    }
+
+    return response.json() as Promise<{ keyId: string; ciphertext: string; plaintext: string }>;
+  }
+}
+
+export function createKeyProvider(settings: EncryptionConfig): KeyProvider {
+  switch (settings.provider) {
+    case 'file':
+      return new LocalKeyProvider('file', loadKeyringFromFile(settings.keyFile));
+    case 'kms':
+      return new KmsKeyProvider(settings.kms.url, settings.kms.keyId, settings.kms.token);
+    default:
+      return new LocalKeyProvider('env', loadKeyringFromEnv());
+  }
+}
+
+let provider: KeyProvider | null = null;
+
+export function getKeyProvider(): KeyProvider {
+  if (!provider) {
+    provider = createKeyProvider(config.encryption);
+  }
+  return provider;
+}
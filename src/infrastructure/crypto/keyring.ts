@@ -0,0 +1,134 @@
+import { readFileSync } from 'fs';
+import cryptoService, { EncryptedData } from './crypto';
+
+/**
+ * Id given to the key configured through `ENCRYPTION_KEY`, and assumed for
+ * wrapped payloads written before key ids were recorded.
+ */
+export const LEGACY_KEY_ID = 'default';
+
+const DEVELOPMENT_KEY = 'default-key-for-development';
+
+export interface MasterKey {
+  id: string;
+  key: string;
+}
+
+/**
+ * A data key encrypted with a master key. `keyId` names the master key so the
+ * payload can still be opened after the active key changes.
+ */
+export interface WrappedKey extends EncryptedData {
+  keyId?: string;
+}
+
+export class MasterKeyring {
+  private readonly keys = new Map<string, string>();
+
+  constructor(keys: MasterKey[], readonly activeKeyId: string) {
+    for (const { id, key } of keys) {
+      this.keys.set(id, key);
+    }
+
+    if (!this.keys.has(activeKeyId)) {
+      throw new Error(`Active encryption key "${activeKeyId}" is not configured`);
+    }
+  }
+
+  get keyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  wrap(dataKey: string, keyId: string = this.activeKeyId): WrappedKey {
+    const wrapped = cryptoService.wrapKey(dataKey, this.getKey(keyId));
+    return { ...wrapped, keyId };
+  }
+
+  unwrap(wrapped: WrappedKey): string {
+    return cryptoService.unwrapKey(wrapped, this.getKey(wrapped.keyId || LEGACY_KEY_ID));
+  }
+
+  /**
+   * Decrypt a value that was encrypted with a master key directly, as secrets
+   * were before projects had their own data keys
+   */
+  decrypt(payload: EncryptedData, keyId: string = LEGACY_KEY_ID): string {
+    return cryptoService.decrypt(payload, this.getKey(keyId)).value;
+  }
+
+  private getKey(id: string): string {
+    const key = this.keys.get(id);
+    if (!key) {
+      throw new Error(`Encryption key "${id}" is not configured`);
+    }
+    return key;
+  }
+}
+
+/**
+ * Build the keyring from the environment.
+ *
+ * `ENCRYPTION_KEYS` holds comma separated `id:key` pairs and
+ * `ENCRYPTION_ACTIVE_KEY_ID` picks the one used for new writes (defaults to
+ * the last pair). `ENCRYPTION_KEY` is still honoured under the id "default".
+ * The development key only stands in when neither is set, and never in
+ * production.
+ */
+export function loadKeyringFromEnv(env: NodeJS.ProcessEnv = process.env): MasterKeyring {
+  const keys: MasterKey[] = [];
+
+  for (const entry of (env.ENCRYPTION_KEYS || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(':');
+    if (separator <= 0 || separator === trimmed.length - 1) {
+      throw new Error('Invalid ENCRYPTION_KEYS entry: expected "id:key"');
+    }
+    keys.push({ id: trimmed.slice(0, separator), key: trimmed.slice(separator + 1) });
+  }
+
+  if (env.ENCRYPTION_KEY && !keys.some((key) => key.id === LEGACY_KEY_ID)) {
+    keys.push({ id: LEGACY_KEY_ID, key: env.ENCRYPTION_KEY });
+  }
+
+  if (keys.length === 0) {
+    keys.push({ id: LEGACY_KEY_ID, key: DEVELOPMENT_KEY });
+  }
+
+  if (env.NODE_ENV === 'production' && keys.some((key) => key.key === DEVELOPMENT_KEY)) {
+    throw new Error(
+      'Refusing to use the development encryption key in production: set ENCRYPTION_KEY or ENCRYPTION_KEYS'
+    );
+  }
+
+  const configured = keys.filter((key) => key.id !== LEGACY_KEY_ID);
+  const defaultActive = configured.length > 0 ? configured[configured.length - 1].id : LEGACY_KEY_ID;
+
+  return new MasterKeyring(keys, env.ENCRYPTION_ACTIVE_KEY_ID || defaultActive);
+}
+
+interface KeyFile {
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+/**
+ * Build the keyring from a JSON keyfile on disk:
+ * `{ "activeKeyId": "2026", "keys": { "2025": "<hex>", "2026": "<hex>" } }`
+ */
+export function loadKeyringFromFile(path: string): MasterKeyring {
+  let parsed: KeyFile;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read encryption keyfile ${path}`);
+  }
+
+  if (!parsed || typeof parsed.keys !== 'object' || typeof parsed.activeKeyId !== 'string') {
+    throw new Error(`Invalid encryption keyfile ${path}: expected "activeKeyId" and "keys"`);
+  }
+
+  const keys = Object.entries(parsed.keys).map(([id, key]) => ({ id, key }));
+  return new MasterKeyring(keys, parsed.activeKeyId);
+}
@@ -0,0 +1,83 @@
+import express, { Application, NextFunction, Request, Response } from 'express';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import cryptoService from './crypto';
+import { loadKeyringFromFile, MasterKeyring, WrappedKey } from './keyring';
+
+/**
+ * Load the keyfile backing the local KMS, creating it with a single fresh
+ * key the first time
+ */
+export function loadOrCreateKmsKeyring(path: string): MasterKeyring {
+  if (!existsSync(path)) {
+    const keyId = `local-${Date.now()}`;
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(
+      path,
+      JSON.stringify({ activeKeyId: keyId, keys: { [keyId]: cryptoService.generateKey() } }, null, 2),
+      { mode: 0o600 },
+    );
+  }
+  return loadKeyringFromFile(path);
+}
+
+/**
+ * Stand-in for a cloud KMS, for local development and tests. It mirrors the
+ * encrypt/decrypt semantics of a real KMS: callers address a key by id, get
+ * back an opaque ciphertext, and never see the key material itself.
+ */
+export function createLocalKmsApp(keyring: MasterKeyring, token?: string): Application {
+  const app = express();
+
+  app.use(express.json());
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (token && req.headers['authorization'] !== `Bearer ${token}`) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+  });
+
+  app.get('/v1/keys', (req: Request, res: Response) => {
+    res.json({ primaryKeyId: keyring.activeKeyId, keyIds: keyring.keyIds });
+  });
+
+  app.post('/v1/keys/:keyId/encrypt', (req: Request, res: Response) => {
+    const { keyId } = req.params;
+    const { plaintext } = req.body || {};
+
+    if (!keyring.keyIds.includes(keyId)) {
+      return res.status(404).json({ error: 'Key not found' });
+    }
+
+    if (typeof plaintext !== 'string') {
+      return res.status(400).json({ error: 'plaintext must be a base64 string' });
+    }
+
+    const wrapped = keyring.wrap(Buffer.from(plaintext, 'base64').toString('utf8'), keyId);
+    res.json({ keyId, ciphertext: Buffer.from(JSON.stringify(wrapped)).toString('base64') });
+  });
+
+  app.post('/v1/keys/:keyId/decrypt', (req: Request, res: Response) => {
+    const { keyId } = req.params;
+    const { ciphertext } = req.body || {};
+
+    if (typeof ciphertext !== 'string') {
+      return res.status(400).json({ error: 'ciphertext must be a base64 string' });
+    }
+
+    try {
+      const wrapped: WrappedKey = JSON.parse(Buffer.from(ciphertext, 'base64').toString('utf8'));
+      if (wrapped.keyId !== keyId) {
+        return res.status(400).json({ error: 'Ciphertext was not produced by this key' });
+      }
+
+      const plaintext = keyring.unwrap(wrapped);
+      res.json({ keyId, plaintext: Buffer.from(plaintext, 'utf8').toString('base64') });
+    } catch (error) {
+      res.status(400).json({ error: 'Failed to decrypt ciphertext' });
+    }
+  });
+
+  return app;
+}
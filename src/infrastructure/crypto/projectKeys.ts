@@ -0,0 +1,138 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import cryptoService, { EncryptedData } from './crypto';
+import { getKeyProvider } from './keyProvider';
+
+/**
+ * Shape of the JSON stored in `Secret.value`. `keyId` points at the project
+ * data key that encrypted the value; payloads written before envelope
+ * encryption have no `keyId` and are encrypted with the master key directly.
+ */
+export interface SecretPayload extends EncryptedData {
+  keyId?: string;
+}
+
+export interface ProjectDataKey {
+  id: string;
+  key: string;
+}
+
+type DbClient = typeof prisma | Prisma.TransactionClient;
+
+async function unwrapProjectKey(
+  record: { id: string; wrappedKey: string; masterKeyId: string },
+): Promise<ProjectDataKey> {
+  const key = await getKeyProvider().unwrapKey(record.wrappedKey, record.masterKeyId);
+  return { id: record.id, key };
+}
+
+/**
+ * Wrap a data key with the active master key, returning the columns to store
+ * on the `ProjectKey` row
+ */
+export async function wrapDataKey(dataKey: string): Promise<{ wrappedKey: string; masterKeyId: string }> {
+  const { keyId, wrappedKey } = await getKeyProvider().wrapKey(dataKey);
+  return { wrappedKey, masterKeyId: keyId };
+}
+
+export async function findProjectDataKey(
+  projectId: string,
+  client: DbClient = prisma,
+): Promise<ProjectDataKey | null> {
+  const record = await client.projectKey.findUnique({
+    where: { projectId }
+  });
+  return record ? unwrapProjectKey(record) : null;
+}
+
+/**
+ * Return the data key of a project, generating one on first use. Secrets and
+ * their versions stored before the project had its own key are re-encrypted
+ * under the new key in the same transaction so nothing is left on the master
+ * key.
+ */
+export async function getOrCreateProjectDataKey(projectId: string): Promise<ProjectDataKey> {
+  const existing = await findProjectDataKey(projectId);
+  if (existing) {
+    return existing;
+  }
+
+  const dataKey = cryptoService.generateKey();
+  const wrapped = await wrapDataKey(dataKey);
+
+  try {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const record = await tx.projectKey.create({
+        data: { projectId, ...wrapped }
+      });
+      const created = { id: record.id, key: dataKey };
+
+      const legacySecrets = await tx.secret.findMany({
+        where: { projectId },
+        select: { id: true, value: true }
+      });
+
+      for (const secret of legacySecrets) {
+        const value = await decryptPayload(secret.value, null);
+        await tx.secret.update({
+          where: { id: secret.id },
+          data: { value: encryptPayload(value, created) }
+        });
+      }
+
+      const legacyVersions = await tx.secretVersion.findMany({
+        where: { secret: { projectId } },
+        select: { id: true, value: true }
+      });
+
+      for (const version of legacyVersions) {
+        const value = await decryptPayload(version.value, null);
+        await tx.secretVersion.update({
+          where: { id: version.id },
+          data: { value: encryptPayload(value, created) }
+        });
+      }
+
+      return created;
+    });
+  } catch (error) {
+    // Another request created the key first; use theirs.
+    if ((error as { code?: string }).code === 'P2002') {
+      const winner = await findProjectDataKey(projectId);
+      if (winner) {
+        return winner;
+      }
+    }
+    throw error;
+  }
+}
+
+export function encryptPayload(value: string, dataKey: ProjectDataKey): string {
+  const encrypted = cryptoService.encrypt(value, dataKey.key);
+  const payload: SecretPayload = { ...encrypted, keyId: dataKey.id };
+  return JSON.stringify(payload);
+}
+
+export async function decryptPayload(payloadJson: string, dataKey: ProjectDataKey | null): Promise<string> {
+  const payload: SecretPayload = JSON.parse(payloadJson);
+
+  if (!payload.keyId) {
+    return getKeyProvider().decryptLegacy(payload);
+  }
+
+  if (!dataKey || dataKey.id !== payload.keyId) {
+    throw new Error('Secret was encrypted with an unknown data key');
+  }
+
+  return cryptoService.decrypt(payload, dataKey.key).value;
+}
+
+export async function encryptForProject(projectId: string, value: string): Promise<string> {
+  const dataKey = await getOrCreateProjectDataKey(projectId);
+  return encryptPayload(value, dataKey);
+}
+
+export async function decryptForProject(projectId: string, payloadJson: string): Promise<string> {
+  const dataKey = await findProjectDataKey(projectId);
+  return decryptPayload(payloadJson, dataKey);
+}
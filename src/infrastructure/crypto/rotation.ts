@@ -0,0 +1,144 @@
+import { KeyRotation, Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { getKeyProvider } from './keyProvider';
+import { getOrCreateProjectDataKey, wrapDataKey } from './projectKeys';
+
+export interface RotationProgress {
+  rotationId: string;
+  targetKeyId: string;
+  processed: number;
+  total: number;
+  completed: boolean;
+}
+
+export interface RotationOptions {
+  batchSize?: number;
+  onProgress?: (progress: RotationProgress) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Move every project data key onto the active master key.
+ *
+ * Projects that still hold secrets encrypted with the master key directly get
+ * a data key first, which re-encrypts those secrets. Data keys are then
+ * re-wrapped in batches; the cursor and counters are saved on a
+ * `KeyRotation` row after each batch, so an interrupted run picks up where it
+ * stopped when started again with the same active key.
+ */
+export async function rotateMasterKey(options: RotationOptions = {}): Promise<RotationProgress> {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const provider = getKeyProvider();
+  const targetKeyId = provider.activeKeyId;
+
+  const outdated = { masterKeyId: { not: targetKeyId } };
+
+  const running = await prisma.keyRotation.findFirst({
+    where: { targetKeyId, status: 'running' },
+    orderBy: { startedAt: 'desc' }
+  });
+
+  let rotation: KeyRotation;
+  if (running) {
+    rotation = running;
+  } else {
+    const [withoutKey, toRewrap] = await Promise.all([
+      prisma.project.count({ where: { dataKey: null } }),
+      prisma.projectKey.count({ where: outdated }),
+    ]);
+    rotation = await prisma.keyRotation.create({
+      data: { targetKeyId, total: withoutKey + toRewrap }
+    });
+  }
+
+  const report = (completed: boolean): RotationProgress => {
+    const progress = {
+      rotationId: rotation.id,
+      targetKeyId,
+      processed: rotation.processed,
+      total: rotation.total,
+      completed,
+    };
+    options.onProgress?.(progress);
+    return progress;
+  };
+
+  // Projects without a data key still have secrets on the master key.
+  for (;;) {
+    const projects = await prisma.project.findMany({
+      where: { dataKey: null },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    });
+    if (projects.length === 0) break;
+
+    for (const project of projects) {
+      await getOrCreateProjectDataKey(project.id);
+    }
+
+    rotation = await prisma.keyRotation.update({
+      where: { id: rotation.id },
+      data: { processed: { increment: projects.length } }
+    });
+    report(false);
+  }
+
+  for (;;) {
+    const keys: { id: string; wrappedKey: string; masterKeyId: string }[] = await prisma.projectKey.findMany({
+      where: rotation.cursor ? { ...outdated, id: { gt: rotation.cursor } } : outdated,
+      select: { id: true, wrappedKey: true, masterKeyId: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    });
+    if (keys.length === 0) break;
+
+    const rewrapped: { id: string; wrappedKey: string; masterKeyId: string }[] = [];
+    for (const record of keys) {
+      const dataKey = await provider.unwrapKey(record.wrappedKey, record.masterKeyId);
+      rewrapped.push({ id: record.id, ...(await wrapDataKey(dataKey)) });
+    }
+
+    rotation = await prisma.$transaction(async (tx: Prisma.TransactionClient): Promise<KeyRotation> => {
+      for (const { id, wrappedKey, masterKeyId } of rewrapped) {
+        await tx.projectKey.update({
+          where: { id },
+          data: { wrappedKey, masterKeyId }
+        });
+      }
+
+      return tx.keyRotation.update({
+        where: { id: rotation.id },
+        data: {
+          cursor: keys[keys.length - 1].id,
+          processed: { increment: keys.length }
+        }
+      });
+    });
+    report(false);
+  }
+
+  rotation = await prisma.keyRotation.update({
+    where: { id: rotation.id },
+    data: { status: 'completed', completedAt: new Date() }
+  });
+
+  return report(true);
+}
+
+/**
+ * Count what is still protected by each master key, so operators know when a
+ * retired key can be removed from the configuration
+ */
+export async function getKeyUsage(): Promise<{ masterKeyId: string; projectKeys: number }[]> {
+  const groups = await prisma.projectKey.groupBy({
+    by: ['masterKeyId'],
+    _count: { _all: true }
+  });
+
+  return groups.map((group: { masterKeyId: string; _count: { _all: number } }) => ({
+    masterKeyId: group.masterKeyId,
+    projectKeys: group._count._all,
+  }));
+}
@@ -0,0 +1,283 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, JsonWebKey, KeyObject, randomBytes } from 'crypto';
+import prisma from '../db/prisma';
+import config, { JwtAlgorithm } from '../config';
+import { getEventBus } from '../events/eventBus';
+import { getKeyProvider } from './keyProvider';
+import { decodeJws, durationSeconds, signJws, verifyJwsSignature } from './jws';
+
+export interface SigningKeyRecord {
+  id: string;
+  algorithm: string;
+  publicKey: string;
+  privateKey: string;
+  masterKeyId: string;
+  activatesAt: Date;
+  retiresAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface PublishedKey extends JsonWebKey {
+  kid: string;
+  alg: string;
+  use: 'sig';
+}
+
+export interface JwtClaims {
+  iss: string;
+  aud: string | string[];
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export interface RotateOptions {
+  // Sign with the new key at once instead of after the overlap
+  immediate?: boolean;
+  // Stop accepting tokens signed with the replaced key, e.g. because it leaked
+  revoke?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const KEY_CACHE_MS = 60 * 1000;
+// Unknown kids reload the keys, but no more often than this
+const KEY_RELOAD_MS = 10 * 1000;
+const KEYS_CHANGED_EVENT = 'signingKeys.changed';
+
+let cache: { keys: SigningKeyRecord[]; loadedAt: number } | null = null;
+const privateKeys = new Map<string, KeyObject>();
+const publicKeys = new Map<string, KeyObject>();
+
+
+function overlapMs(): number {
+  return config.jwt.keyOverlapHours * HOUR_MS;
+}
+
+
+// Tokens signed just before a key retires have to stay verifiable until they expire
+function retentionMs(): number {
+  return Math.max(overlapMs(), durationSeconds(config.jwt.expiresIn) * 1000);
+}
+
+
+async function loadKeys(reload = false): Promise<SigningKeyRecord[]> {
+  const age = cache ? Date.now() - cache.loadedAt : Infinity;
+  if (age > KEY_CACHE_MS || (reload && age > KEY_RELOAD_MS)) {
+    const keys = await prisma.signingKey.findMany({
+      where: { expiresAt: { gt: new Date() } },
+      orderBy: [{ activatesAt: 'asc' }, { createdAt: 'asc' }]
+    });
+    cache = { keys, loadedAt: Date.now() };
+  }
+
+  const now = new Date();
+  return (cache as { keys: SigningKeyRecord[] }).keys.filter((key) => key.expiresAt > now);
+}
+
+
+function generateKeyPair(algorithm: JwtAlgorithm): { publicKey: JsonWebKey; privateKey: string } {
+  const pair = algorithm === 'EdDSA'
+    ? generateKeyPairSync('ed25519')
+    : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    publicKey: pair.publicKey.export({ format: 'jwk' }),
+    privateKey: pair.privateKey.export({ format: 'pem', type: 'pkcs8' }) as string
+  };
+}
+
+
+/**
+ * Generate a key pair in the configured algorithm that signs from
+ * `activatesAt` for one rotation period. The private half is stored wrapped
+ * with the active master key.
+ */
+async function createSigningKey(activatesAt: Date): Promise<SigningKeyRecord> {
+  const algorithm = config.jwt.algorithm;
+  const pair = generateKeyPair(algorithm);
+  const { keyId, wrappedKey } = await getKeyProvider().wrapKey(pair.privateKey);
+  const retiresAt = new Date(activatesAt.getTime() + config.jwt.keyRotationDays * DAY_MS);
+
+  const key = await prisma.signingKey.create({
+    data: {
+      id: randomBytes(16).toString('base64url'),
+      algorithm,
+      publicKey: JSON.stringify(pair.publicKey),
+      privateKey: wrappedKey,
+      masterKeyId: keyId,
+      activatesAt,
+      retiresAt,
+      expiresAt: new Date(retiresAt.getTime() + retentionMs())
+    }
+  });
+  cache = null;
+  return key;
+}
+
+
+/**
+ * The key signing at `now`, the most recently activated one, and whether its
+ * successor should be published already
+ */
+function schedule(keys: SigningKeyRecord[], now: Date): { current?: SigningKeyRecord; successorDue: boolean } {
+  const eligible = keys.filter((key) => key.algorithm === config.jwt.algorithm);
+  const current = [...eligible].reverse().find((key) => key.activatesAt <= now && key.retiresAt > now);
+
+  const successorDue = Boolean(
+    current &&
+    current.retiresAt.getTime() - overlapMs() <= now.getTime() &&
+    !eligible.some((key) => key.activatesAt >= current.retiresAt)
+  );
+  return { current, successorDue };
+}
+
+
+/**
+ * The key to sign with now. Keys are created as the schedule calls for them:
+ * the first one when there is none, and each successor once its predecessor
+ * is within the overlap of retiring, so it is published before it signs.
+ */
+async function currentSigningKey(): Promise<SigningKeyRecord> {
+  let keys = await loadKeys();
+  let planned = schedule(keys, new Date());
+
+  if (!planned.current || planned.successorDue) {
+    // Another instance may have created the key already
+    keys = await loadKeys(true);
+    planned = schedule(keys, new Date());
+  }
+
+  const current = planned.current ?? await createSigningKey(new Date());
+  if (planned.successorDue) {
+    await createSigningKey(current.retiresAt);
+  }
+  return current;
+}
+
+
+async function privateKeyOf(key: SigningKeyRecord): Promise<KeyObject> {
+  let privateKey = privateKeys.get(key.id);
+  if (!privateKey) {
+    privateKey = createPrivateKey(await getKeyProvider().unwrapKey(key.privateKey, key.masterKeyId));
+    privateKeys.set(key.id, privateKey);
+  }
+  return privateKey;
+}
+
+
+function publicKeyOf(key: SigningKeyRecord): KeyObject {
+  let publicKey = publicKeys.get(key.id);
+  if (!publicKey) {
+    publicKey = createPublicKey({ key: JSON.parse(key.publicKey), format: 'jwk' });
+    publicKeys.set(key.id, publicKey);
+  }
+  return publicKey;
+}
+
+
+/**
+ * Sign claims with the current key, issued by this server for its API
+ */
+export async function signJwt(claims: Record<string, unknown>, expiresInSeconds: number): Promise<string> {
+  const key = await currentSigningKey();
+  const iat = Math.floor(Date.now() / 1000);
+
+  return signJws(
+    { ...claims, iss: config.jwt.issuer, aud: config.jwt.audience, iat, exp: iat + expiresInSeconds },
+    await privateKeyOf(key),
+    key.algorithm as JwtAlgorithm,
+    key.id,
+  );
+}
+
+
+/**
+ * Claims of a token signed with one of the published keys, for this issuer
+ * and audience; null when it is not one or has expired
+ */
+export async function verifyJwt(token: string): Promise<JwtClaims | null> {
+  const jws = decodeJws(token);
+  const kid = jws?.header.kid;
+  if (!jws || typeof kid !== 'string') {
+    return null;
+  }
+
+  // A kid not seen yet may belong to a key another instance just created
+  const key = (await loadKeys()).find(({ id }) => id === kid) ?? (await loadKeys(true)).find(({ id }) => id === kid);
+  if (!key || !verifyJwsSignature(jws, publicKeyOf(key), key.algorithm as JwtAlgorithm)) {
+    return null;
+  }
+
+  const { iss, aud, exp, nbf } = jws.payload;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(aud) ? aud : [aud];
+
+  if (
+    iss !== config.jwt.issuer ||
+    !audiences.includes(config.jwt.audience) ||
+    typeof exp !== 'number' ||
+    exp <= now ||
+    (typeof nbf === 'number' && nbf > now)
+  ) {
+    return null;
+  }
+  return jws.payload as JwtClaims;
+}
+
+
+/**
+ * Public keys for the JWKS: the signing key, its successor once published and
+ * retired keys whose tokens may still be in use
+ */
+export async function getPublishedKeys(): Promise<PublishedKey[]> {
+  await currentSigningKey();
+
+  return (await loadKeys()).map((key) => ({
+    ...JSON.parse(key.publicKey),
+    kid: key.id,
+    alg: key.algorithm,
+    use: 'sig'
+  }));
+}
+
+
+export async function listSigningKeys(): Promise<SigningKeyRecord[]> {
+  cache = null;
+  return loadKeys();
+}
+
+
+/**
+ * Replace the signing key ahead of schedule. The new key is published now and
+ * signs once the overlap has passed, or straight away; the keys it replaces
+ * retire when it starts signing.
+ */
+export async function rotateSigningKey(options: RotateOptions = {}): Promise<SigningKeyRecord> {
+  const immediate = options.immediate || options.revoke;
+  const activatesAt = new Date(Date.now() + (immediate ? 0 : overlapMs()));
+  const expiresAt = options.revoke ? activatesAt : new Date(activatesAt.getTime() + retentionMs());
+
+  await prisma.signingKey.updateMany({
+    where: { activatesAt: { lte: activatesAt }, retiresAt: { gt: activatesAt } },
+    data: { retiresAt: activatesAt, expiresAt }
+  });
+  const key = await createSigningKey(activatesAt);
+
+  await getEventBus().publish({ type: KEYS_CHANGED_EVENT });
+  return key;
+}
+
+
+/**
+ * Drop the cached keys whenever a rotation is announced on the event bus, so
+ * a revoked key stops verifying on every server at once rather than when its
+ * cache runs out. Returns the function that stops watching.
+ */
+export function watchSigningKeys(): () => void {
+  return getEventBus().subscribe((event) => {
+    if ((event as { type?: unknown }).type === KEYS_CHANGED_EVENT) {
+      cache = null;
+    }
+  });
+}
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."project_keys" (
+    "id" TEXT NOT NULL,
+    "wrappedKey" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_keys_projectId_key" ON "public"."project_keys"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_keys" ADD CONSTRAINT "project_keys_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
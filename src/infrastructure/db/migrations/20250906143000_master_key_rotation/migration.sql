@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."project_keys" ADD COLUMN     "masterKeyId" TEXT NOT NULL DEFAULT 'default',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "public"."key_rotations" (
+    "id" TEXT NOT NULL,
+    "targetKeyId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "cursor" TEXT,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "key_rotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_keys_masterKeyId_idx" ON "public"."project_keys"("masterKeyId");
+
+-- CreateIndex
+CREATE INDEX "key_rotations_targetKeyId_status_idx" ON "public"."key_rotations"("targetKeyId", "status");
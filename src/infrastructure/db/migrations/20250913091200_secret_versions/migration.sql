@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "versionRetention" INTEGER NOT NULL DEFAULT 20;
+
+-- AlterTable
+ALTER TABLE "public"."secrets" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."secret_versions" (
+    "id" TEXT NOT NULL,
+    "secretId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "secret_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "secret_versions_secretId_version_key" ON "public"."secret_versions"("secretId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."secret_versions" ADD CONSTRAINT "secret_versions_secretId_fkey" FOREIGN KEY ("secretId") REFERENCES "public"."secrets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the history with the current value of every existing secret
+INSERT INTO "public"."secret_versions" ("id", "secretId", "version", "value", "createdAt")
+SELECT md5(random()::text || "id"), "id", 1, "value", "updatedAt" FROM "public"."secrets";
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "public"."environments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "projectId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "environments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "environments_projectId_name_key" ON "public"."environments"("projectId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."environments" ADD CONSTRAINT "environments_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Give every existing project the standard environments
+INSERT INTO "public"."environments" ("id", "name", "isDefault", "projectId", "updatedAt")
+SELECT md5(random()::text || p."id" || e."name"), e."name", e."name" = 'development', p."id", CURRENT_TIMESTAMP
+FROM "public"."projects" p
+CROSS JOIN (VALUES ('development'), ('staging'), ('production')) AS e("name");
+
+-- AlterTable
+ALTER TABLE "public"."secrets" ADD COLUMN     "environmentId" TEXT;
+
+-- Existing secrets belong to the default environment
+UPDATE "public"."secrets" s
+SET "environmentId" = e."id"
+FROM "public"."environments" e
+WHERE e."projectId" = s."projectId" AND e."isDefault" = true;
+
+ALTER TABLE "public"."secrets" ALTER COLUMN "environmentId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."secrets_projectId_key_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "secrets_projectId_environmentId_key_key" ON "public"."secrets"("projectId", "environmentId", "key");
+
+-- AddForeignKey
+ALTER TABLE "public"."secrets" ADD CONSTRAINT "secrets_environmentId_fkey" FOREIGN KEY ("environmentId") REFERENCES "public"."environments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
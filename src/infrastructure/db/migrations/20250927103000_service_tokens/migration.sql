@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."service_tokens" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "displayPrefix" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "environmentId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "service_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "service_tokens_tokenHash_key" ON "public"."service_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "service_tokens_projectId_idx" ON "public"."service_tokens"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."service_tokens" ADD CONSTRAINT "service_tokens_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."service_tokens" ADD CONSTRAINT "service_tokens_environmentId_fkey" FOREIGN KEY ("environmentId") REFERENCES "public"."environments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."service_tokens" ADD COLUMN     "canExport" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."audit_logs" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "projectId" TEXT,
+    "environment" TEXT,
+    "userId" TEXT,
+    "serviceTokenId" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_projectId_createdAt_idx" ON "public"."audit_logs"("projectId", "createdAt");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."audit_logs" ADD COLUMN     "sequence" INTEGER,
+ADD COLUMN     "outcome" TEXT NOT NULL DEFAULT 'success',
+ADD COLUMN     "statusCode" INTEGER,
+ADD COLUMN     "secretKey" TEXT,
+ADD COLUMN     "prevHash" TEXT,
+ADD COLUMN     "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_sequence_key" ON "public"."audit_logs"("sequence");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_userId_createdAt_idx" ON "public"."audit_logs"("userId", "createdAt");
+
+-- Bring entries written before chaining in line with the route action names
+UPDATE "public"."audit_logs" SET "action" = 'secret.export' WHERE "action" = 'secrets.export';
+
+-- The audit log is append-only
+CREATE FUNCTION "public"."audit_logs_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_append_only"
+    BEFORE UPDATE OR DELETE ON "public"."audit_logs"
+    FOR EACH ROW EXECUTE FUNCTION "public"."audit_logs_append_only"();
@@ -0,0 +1,133 @@
+-- CreateTable
+CREATE TABLE "public"."organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "personalUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."teams" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."team_members" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "team_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."team_grants" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "team_grants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_personalUserId_key" ON "public"."organizations"("personalUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "public"."organization_members"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "organization_members_userId_idx" ON "public"."organization_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teams_organizationId_name_key" ON "public"."teams"("organizationId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_members_teamId_userId_key" ON "public"."team_members"("teamId", "userId");
+
+-- CreateIndex
+CREATE INDEX "team_members_userId_idx" ON "public"."team_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_grants_teamId_projectId_key" ON "public"."team_grants"("teamId", "projectId");
+
+-- CreateIndex
+CREATE INDEX "team_grants_projectId_idx" ON "public"."team_grants"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."teams" ADD CONSTRAINT "teams_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."team_members" ADD CONSTRAINT "team_members_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "public"."teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."team_members" ADD CONSTRAINT "team_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."team_grants" ADD CONSTRAINT "team_grants_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "public"."teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."team_grants" ADD CONSTRAINT "team_grants_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every user who has created a project gets a personal organization owning those projects
+INSERT INTO "public"."organizations" ("id", "name", "personalUserId", "updatedAt")
+SELECT gen_random_uuid()::text, 'Personal', "id", CURRENT_TIMESTAMP
+FROM "public"."users"
+WHERE "id" IN (SELECT "userId" FROM "public"."projects");
+
+INSERT INTO "public"."organization_members" ("id", "organizationId", "userId", "role", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "personalUserId", 'owner', CURRENT_TIMESTAMP
+FROM "public"."organizations";
+
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN "organizationId" TEXT;
+
+UPDATE "public"."projects" AS p
+SET "organizationId" = o."id"
+FROM "public"."organizations" AS o
+WHERE o."personalUserId" = p."userId";
+
+ALTER TABLE "public"."projects" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- Projects no longer belong to, or disappear with, the user who created them
+ALTER TABLE "public"."projects" DROP CONSTRAINT "projects_userId_fkey";
+
+ALTER TABLE "public"."projects" RENAME COLUMN "userId" TO "createdById";
+
+ALTER TABLE "public"."projects" ALTER COLUMN "createdById" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "public"."projects" ADD CONSTRAINT "projects_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."projects" ADD CONSTRAINT "projects_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpKeyId" TEXT,
+ADD COLUMN     "totpLastUsedStep" INTEGER,
+ADD COLUMN     "totpSecret" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "mfaVerifiedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "revealRequiresMfa" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recovery_codes_userId_codeHash_key" ON "public"."recovery_codes"("userId", "codeHash");
+
+-- AddForeignKey
+ALTER TABLE "public"."recovery_codes" ADD CONSTRAINT "recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
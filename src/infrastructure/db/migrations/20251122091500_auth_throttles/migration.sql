@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "public"."auth_throttles" (
+    "key" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "lastFailureAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+
+    CONSTRAINT "auth_throttles_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "public"."project_members" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'direct';
+
+-- CreateTable
+CREATE TABLE "public"."user_identities" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "issuer" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "email" TEXT,
+    "lastLoginAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."oidc_login_requests" (
+    "state" TEXT NOT NULL,
+    "codeVerifier" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oidc_login_requests_pkey" PRIMARY KEY ("state")
+);
+
+-- CreateIndex
+CREATE INDEX "user_identities_userId_idx" ON "public"."user_identities"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_issuer_subject_key" ON "public"."user_identities"("issuer", "subject");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_identities" ADD CONSTRAINT "user_identities_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."signing_keys" (
+    "id" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "privateKey" TEXT NOT NULL,
+    "masterKeyId" TEXT NOT NULL,
+    "activatesAt" TIMESTAMP(3) NOT NULL,
+    "retiresAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "signing_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "signing_keys_expiresAt_idx" ON "public"."signing_keys"("expiresAt");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "blockExpiredSecrets" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "defaultRotationDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."secrets" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "remindedAt" TIMESTAMP(3),
+ADD COLUMN     "rotatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "rotationIntervalDays" INTEGER;
+
+-- Existing values were last changed when the secret was last updated
+UPDATE "public"."secrets" SET "rotatedAt" = "updatedAt";
+
+-- CreateIndex
+CREATE INDEX "secrets_expiresAt_idx" ON "public"."secrets"("expiresAt");
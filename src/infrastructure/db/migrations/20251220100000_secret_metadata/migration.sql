@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."secrets" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "ownerId" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'string';
+
+-- CreateIndex
+CREATE INDEX "secrets_ownerId_idx" ON "public"."secrets"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."secrets" ADD CONSTRAINT "secrets_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
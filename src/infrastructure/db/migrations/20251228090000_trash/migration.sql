@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."secrets" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "projects_deletedAt_idx" ON "public"."projects"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "secrets_deletedAt_idx" ON "public"."secrets"("deletedAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."secret_events" (
+    "id" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "environmentId" TEXT NOT NULL,
+    "secretId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "secret_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "secret_events_projectId_id_idx" ON "public"."secret_events"("projectId", "id");
+
+-- CreateIndex
+CREATE INDEX "secret_events_createdAt_idx" ON "public"."secret_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."secret_events" ADD CONSTRAINT "secret_events_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."secret_events" ADD CONSTRAINT "secret_events_environmentId_fkey" FOREIGN KEY ("environmentId") REFERENCES "public"."environments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."secrets" ADD COLUMN     "deletedByTokenId" TEXT;
+
+-- Secrets trashed through a service token recorded its ID as the deleting user
+UPDATE "public"."secrets" SET "deletedByTokenId" = "deletedById", "deletedById" = NULL
+WHERE "deletedById" IN (SELECT "id" FROM "public"."service_tokens");
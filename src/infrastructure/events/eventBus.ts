@@ -0,0 +1,139 @@
+import { Client } from 'pg';
+import prisma from '../db/prisma';
+import config, { EventsConfig } from '../config';
+
+const CHANNEL = 'keep_safe_events';
+const CONNECT_TIMEOUT_MS = 30 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+export type EventListener = (event: unknown) => void;
+
+/**
+ * Carries events from the server that produced them to every server with a
+ * subscriber, such as an open change stream. Delivery is at most once:
+ * consumers that must not miss events read them back from the database.
+ */
+export interface EventBus {
+  readonly name: string;
+  publish(event: object): Promise<void>;
+  // Returns the function that ends the subscription
+  subscribe(listener: EventListener): () => void;
+}
+
+
+// Listener failures are logged so one bad subscriber does not starve the others
+function deliver(listeners: Set<EventListener>, event: unknown): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Event listener error:', error);
+    }
+  }
+}
+
+
+/**
+ * Delivers events within this process only, for a single server
+ */
+export class MemoryEventBus implements EventBus {
+  readonly name = 'memory';
+  private readonly listeners = new Set<EventListener>();
+
+  async publish(event: object): Promise<void> {
+    // Serialised like the postgres bus, so subscribers see the same shapes
+    deliver(this.listeners, JSON.parse(JSON.stringify(event)));
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+
+/**
+ * Fans events out to every server through LISTEN/NOTIFY. Events are
+ * published with pg_notify on the Prisma connection pool; each server holds
+ * one connection of its own listening for them, opened with the first
+ * subscriber and reopened when lost. Prisma cannot hold a pooled connection
+ * open for LISTEN, so that one is a plain pg client.
+ */
+export class PostgresEventBus implements EventBus {
+  readonly name = 'postgres';
+  private readonly listeners = new Set<EventListener>();
+  private listening = false;
+
+  constructor(private readonly databaseUrl: string) {}
+
+  async publish(event: object): Promise<void> {
+    await prisma.$executeRaw`SELECT pg_notify(${CHANNEL}, ${JSON.stringify(event)})`;
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    if (!this.listening) {
+      this.listening = true;
+      this.connect();
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private connect(): void {
+    // Keepalives notice a connection that died quietly, which would otherwise just stop delivering
+    const client = new Client({
+      connectionString: this.databaseUrl,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+      keepAlive: true
+    });
+    let lost = false;
+
+    // Events published while disconnected are not delivered
+    const reconnect = (error: Error) => {
+      if (lost) {
+        return;
+      }
+      lost = true;
+      console.error('Event bus connection error:', error);
+      client.end().catch(() => undefined);
+      setTimeout(() => this.connect(), RECONNECT_DELAY_MS).unref();
+    };
+
+    client.on('notification', ({ payload }) => {
+      try {
+        deliver(this.listeners, JSON.parse(payload ?? ''));
+      } catch (error) {
+        console.error('Event bus payload error:', error);
+      }
+    });
+    client.on('error', reconnect);
+    client.on('end', () => reconnect(new Error('Event bus connection closed')));
+
+    client.connect()
+      .then(() => client.query(`LISTEN ${CHANNEL}`))
+      .catch(reconnect);
+  }
+}
+
+
+export function createEventBus(settings: EventsConfig, databaseUrl: string): EventBus {
+  switch (settings.bus) {
+    case 'postgres':
+      return new PostgresEventBus(databaseUrl);
+    default:
+      return new MemoryEventBus();
+  }
+}
+
+let eventBus: EventBus | null = null;
+
+export function getEventBus(): EventBus {
+  if (!eventBus) {
+    eventBus = createEventBus(config.events, config.database.url);
+  }
+  return eventBus;
+}
@@ -0,0 +1,108 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { createTransport, Transporter } from 'nodemailer';
+import config, { MailConfig } from '../config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface OutboxMessage extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: Date;
+}
+
+/**
+ * Delivers transactional email such as password resets and address
+ * verification
+ */
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Sends through an SMTP server; nodemailer upgrades with STARTTLS when the
+ * server offers it and authenticates when a user is set
+ */
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+  private readonly transport: Transporter;
+
+  constructor(
+    settings: MailConfig['smtp'],
+    private readonly from: string,
+  ) {
+    this.transport = createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user ? { user: settings.user, pass: settings.password ?? '' } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ ...message, from: this.from });
+  }
+}
+
+/**
+ * Writes every message as a JSON file to the outbox directory instead of
+ * sending it, for local development without a mail server
+ */
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+
+  constructor(
+    private readonly directory: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const entry: OutboxMessage = { ...message, id: randomUUID(), from: this.from, sentAt: new Date() };
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      join(this.directory, `${entry.sentAt.getTime()}-${entry.id}.json`),
+      JSON.stringify(entry, null, 2),
+      { mode: 0o600 },
+    );
+  }
+}
+
+/**
+ * Keeps messages in memory, for tests
+ */
+export class MemoryMailer implements Mailer {
+  readonly name = 'memory';
+  readonly outbox: OutboxMessage[] = [];
+
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push({ ...message, id: randomUUID(), from: this.from, sentAt: new Date() });
+  }
+}
+
+export function createMailer(settings: MailConfig): Mailer {
+  switch (settings.transport) {
+    case 'smtp':
+      return new SmtpMailer(settings.smtp, settings.from);
+    case 'memory':
+      return new MemoryMailer(settings.from);
+    default:
+      return new FileMailer(settings.outboxDir, settings.from);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailer(config.mail);
+  }
+  return mailer;
+}
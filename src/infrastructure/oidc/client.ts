@@ -0,0 +1,193 @@
+import { createHash, createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import config from '../config';
+
+// Signature algorithms accepted on ID tokens; never none or shared secrets
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+export interface OidcSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+export interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+
+/**
+ * S256 PKCE challenge: the issuer only ever sees the hash of the verifier
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+
+/**
+ * Relying party for one OpenID Connect issuer, using the authorization code
+ * flow with PKCE. Provider metadata and signing keys are fetched on first
+ * use; keys are fetched again when a token names one not seen before.
+ */
+export class OidcClient {
+  private metadata: Promise<ProviderMetadata> | null = null;
+  private keys = new Map<string, KeyObject>();
+
+  constructor(private readonly settings: OidcSettings) {}
+
+  get issuer(): string {
+    return this.settings.issuer;
+  }
+
+  async authorizationUrl({ state, nonce, codeVerifier }: AuthorizationRequest): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.settings.clientId,
+      redirect_uri: this.settings.redirectUri,
+      scope: this.settings.scopes,
+      state,
+      nonce,
+      code_challenge: createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256'
+    }).toString();
+    return url.toString();
+  }
+
+  /**
+   * Redeem an authorization code and return the verified claims of the ID
+   * token that came with it
+   */
+  async exchangeCode(code: string, codeVerifier: string, nonce: string): Promise<IdTokenClaims> {
+    const { token_endpoint } = await this.discover();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.settings.redirectUri,
+      code_verifier: codeVerifier,
+      client_id: this.settings.clientId
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (this.settings.clientSecret) {
+      const credentials = `${encodeURIComponent(this.settings.clientId)}:${encodeURIComponent(this.settings.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`OIDC token request failed with status ${response.status}`);
+    }
+
+    const { id_token: idToken } = await response.json() as { id_token?: string };
+    if (!idToken) {
+      throw new Error('OIDC token response did not include an ID token');
+    }
+    return this.verifyIdToken(idToken, nonce);
+  }
+
+  async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Malformed ID token');
+    }
+
+    const key = await this.getKey(decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: this.settings.issuer,
+      audience: this.settings.clientId
+    }) as IdTokenClaims;
+
+    // The nonce ties the token to the login this browser started
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match the login request');
+    }
+
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+    return claims;
+  }
+
+  private discover(): Promise<ProviderMetadata> {
+    if (!this.metadata) {
+      const discoveryUrl = `${this.settings.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+      this.metadata = this.fetchJson<ProviderMetadata>(discoveryUrl)
+        .then((metadata) => {
+          if (metadata.issuer !== this.settings.issuer) {
+            throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${this.settings.issuer}`);
+          }
+          return metadata;
+        });
+      // A failed lookup is tried again on the next login
+      this.metadata.catch(() => {
+        this.metadata = null;
+      });
+    }
+    return this.metadata;
+  }
+
+  private async getKey(kid?: string): Promise<KeyObject> {
+    const cacheKey = kid ?? '';
+    if (!this.keys.has(cacheKey)) {
+      const { jwks_uri } = await this.discover();
+      const { keys } = await this.fetchJson<{ keys: (JsonWebKey & { kid?: string; use?: string })[] }>(jwks_uri);
+
+      this.keys.clear();
+      for (const jwk of keys.filter(({ use }) => !use || use === 'sig')) {
+        this.keys.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    const key = this.keys.get(cacheKey);
+    if (!key) {
+      throw new Error(`The issuer has no signing key ${kid}`);
+    }
+    return key;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+let client: OidcClient | null = null;
+
+export function isOidcEnabled(): boolean {
+  return Boolean(config.oidc.issuer);
+}
+
+export function getOidcClient(): OidcClient {
+  if (!client) {
+    client = new OidcClient(config.oidc);
+  }
+  return client;
+}
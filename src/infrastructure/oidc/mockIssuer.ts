@@ -0,0 +1,160 @@
+import express, { Application, Request, Response } from 'express';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { createCodeChallenge } from './client';
+
+const KEY_ID = 'mock-issuer-key';
+const CODE_TTL_MS = 60 * 1000;
+
+export interface MockOidcUser {
+  sub: string;
+  email: string;
+  emailVerified?: boolean;
+  name?: string;
+  groups?: string[];
+}
+
+export interface MockIssuerOptions {
+  // Base URL the issuer is reached at, which is also its issuer identifier
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  users: MockOidcUser[];
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+
+/**
+ * Stand-in for an OpenID Connect identity provider, for local development
+ * and tests. It signs everyone in without asking: the authorize endpoint
+ * picks the user named by login_hint, or the first one, and redirects
+ * straight back with a code. The token endpoint checks the client, the
+ * redirect URI and the PKCE verifier like a real issuer would.
+ */
+export function createMockIssuerApp(options: MockIssuerOptions): Application {
+  const app = express();
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+    res.json({
+      issuer: options.issuer,
+      authorization_endpoint: `${options.issuer}/authorize`,
+      token_endpoint: `${options.issuer}/token`,
+      jwks_uri: `${options.issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256']
+    });
+  });
+
+  app.get('/jwks', (req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.get('/authorize', (req: Request, res: Response) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, login_hint } = req.query;
+
+    if (client_id !== options.clientId || typeof redirect_uri !== 'string') {
+      return res.status(400).json({ error: 'invalid_request' });
+    }
+
+    if (typeof code_challenge !== 'string' || code_challenge_method !== 'S256') {
+      return res.status(400).json({ error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+    }
+
+    const user = options.users.find(({ email }) => email === login_hint) ?? options.users[0];
+    if (!user) {
+      return res.status(400).json({ error: 'access_denied' });
+    }
+
+    const code = randomBytes(16).toString('base64url');
+    codes.set(code, {
+      user,
+      redirectUri: redirect_uri,
+      nonce: typeof nonce === 'string' ? nonce : undefined,
+      codeChallenge: code_challenge,
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+
+    const location = new URL(redirect_uri);
+    location.searchParams.set('code', code);
+    if (typeof state === 'string') {
+      location.searchParams.set('state', state);
+    }
+    res.redirect(location.toString());
+  });
+
+  app.post('/token', (req: Request, res: Response) => {
+    const { grant_type, code, redirect_uri, code_verifier } = req.body || {};
+
+    let clientId = req.body?.client_id;
+    let clientSecret = req.body?.client_secret;
+    const authorization = req.headers['authorization'];
+    if (authorization?.startsWith('Basic ')) {
+      const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':');
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret ?? '');
+    }
+
+    if (clientId !== options.clientId || (options.clientSecret && clientSecret !== options.clientSecret)) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    const pending = typeof code === 'string' ? codes.get(code) : undefined;
+    // Codes are single-use whether or not the exchange succeeds
+    if (typeof code === 'string') {
+      codes.delete(code);
+    }
+
+    if (
+      grant_type !== 'authorization_code' ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.redirectUri !== redirect_uri ||
+      typeof code_verifier !== 'string' ||
+      createCodeChallenge(code_verifier) !== pending.codeChallenge
+    ) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    const { user } = pending;
+    const idToken = jwt.sign(
+      {
+        email: user.email,
+        email_verified: user.emailVerified ?? true,
+        name: user.name,
+        groups: user.groups ?? [],
+        nonce: pending.nonce
+      },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: KEY_ID,
+        issuer: options.issuer,
+        audience: options.clientId,
+        subject: user.sub,
+        expiresIn: '5m'
+      },
+    );
+
+    res.json({
+      access_token: randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken
+    });
+  });
+
+  return app;
+}
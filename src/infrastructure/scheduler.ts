@@ -0,0 +1,32 @@
+export interface ScheduledJob {
+  stop(): void;
+}
+
+/**
+ * Run a job every `intervalMs` in the background of the server. A run still
+ * going when the next one is due is not overlapped, and failures are logged
+ * without stopping the schedule.
+ */
+export function scheduleJob(name: string, intervalMs: number, run: () => Promise<unknown>): ScheduledJob {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`${name} error:`, error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // The schedule alone never keeps the process alive
+  timer.unref();
+
+  return { stop: () => clearInterval(timer) };
+}
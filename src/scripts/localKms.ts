@@ -0,0 +1,16 @@
+import { config as dotenvConfig } from 'dotenv';
+import { createLocalKmsApp, loadOrCreateKmsKeyring } from '../infrastructure/crypto/localKms';
+
+// Load environment variables
+dotenvConfig();
+
+const keyFile = process.env.LOCAL_KMS_KEY_FILE || '.local-kms/keys.json';
+const port = parseInt(process.env.LOCAL_KMS_PORT || '4100', 10);
+
+const keyring = loadOrCreateKmsKeyring(keyFile);
+const app = createLocalKmsApp(keyring, process.env.KMS_TOKEN);
+
+app.listen(port, () => {
+    console.log(`Local KMS running at http://localhost:${port} (keys in ${keyFile})`);
+    console.log(`Primary key: ${keyring.activeKeyId}`);
+});
@@ -0,0 +1,27 @@
+import { config as dotenvConfig } from 'dotenv';
+import { readFileSync } from 'fs';
+import { createMockIssuerApp, MockOidcUser } from '../infrastructure/oidc/mockIssuer';
+
+// Load environment variables
+dotenvConfig();
+
+const port = parseInt(process.env.LOCAL_OIDC_PORT || '4200', 10);
+const issuer = process.env.OIDC_ISSUER || `http://localhost:${port}`;
+
+// A JSON array of users to sign in as; pick one with ?login_hint=<email>
+const usersFile = process.env.LOCAL_OIDC_USERS_FILE;
+const users: MockOidcUser[] = usersFile
+    ? JSON.parse(readFileSync(usersFile, 'utf8'))
+    : [{ sub: 'local-user', email: 'sso-user@localhost', name: 'SSO User', groups: [] }];
+
+const app = createMockIssuerApp({
+    issuer,
+    clientId: process.env.OIDC_CLIENT_ID || 'keep-safe',
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    users
+});
+
+app.listen(port, () => {
+    console.log(`Mock OIDC issuer running at ${issuer}`);
+    console.log(`Signs in as: ${users.map(({ email }) => email).join(', ')}`);
+});
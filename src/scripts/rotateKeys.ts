@@ -0,0 +1,47 @@
+import { config as dotenvConfig } from 'dotenv';
+import prisma from '../infrastructure/db/prisma';
+import { getKeyProvider } from '../infrastructure/crypto/keyProvider';
+import { getKeyUsage, rotateMasterKey } from '../infrastructure/crypto/rotation';
+
+// Load environment variables
+dotenvConfig();
+
+function parseBatchSize(args: string[]): number | undefined {
+    const arg = args.find((value) => value.startsWith('--batch-size='));
+    if (!arg) return undefined;
+
+    const parsed = parseInt(arg.split('=')[1], 10);
+    if (isNaN(parsed) || parsed <= 0) {
+        throw new Error('--batch-size must be a positive number');
+    }
+    return parsed;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const provider = getKeyProvider();
+
+    console.log(`Key provider: ${provider.name}`);
+    console.log(`Active master key: ${provider.activeKeyId}`);
+
+    if (!args.includes('--status')) {
+        const result = await rotateMasterKey({
+            batchSize: parseBatchSize(args),
+            onProgress: ({ processed, total }) => {
+                console.log(`Re-encrypted ${processed}/${total}`);
+            },
+        });
+        console.log(`Rotation ${result.rotationId} completed`);
+    }
+
+    for (const usage of await getKeyUsage()) {
+        console.log(`  ${usage.masterKeyId}: ${usage.projectKeys} project key(s)`);
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error('Key rotation error:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,33 @@
+import { config as dotenvConfig } from 'dotenv';
+import prisma from '../infrastructure/db/prisma';
+import { listSigningKeys, rotateSigningKey } from '../infrastructure/crypto/signingKeys';
+
+// Load environment variables
+dotenvConfig();
+
+async function main() {
+    const args = process.argv.slice(2);
+
+    // --now signs with the new key at once; --revoke also stops accepting tokens of the old one
+    if (!args.includes('--status')) {
+        const key = await rotateSigningKey({
+            immediate: args.includes('--now'),
+            revoke: args.includes('--revoke'),
+        });
+        console.log(`Signing key ${key.id} (${key.algorithm}) signs from ${key.activatesAt.toISOString()}`);
+    }
+
+    for (const key of await listSigningKeys()) {
+        console.log(
+            `  ${key.id} ${key.algorithm}: signs ${key.activatesAt.toISOString()} - ${key.retiresAt.toISOString()}, ` +
+            `published until ${key.expiresAt.toISOString()}`,
+        );
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error('Signing key rotation error:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());